@@ -13,13 +13,29 @@ interface ChatMessage {
 interface ChatInterfaceProps {
   agent: DeployedObject;
   onBack: () => void;
+  // Called when the agent starts or stops delivering a reply
+  onSpeakingChange?: (speaking: boolean) => void;
 }
 
-export default function ChatInterface({ agent, onBack }: ChatInterfaceProps) {
+export default function ChatInterface({ agent, onBack, onSpeakingChange }: ChatInterfaceProps) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputText, setInputText] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
   const scrollViewRef = useRef<ScrollView>(null);
+  const speakingTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const speakingHandler = useRef(onSpeakingChange);
+  speakingHandler.current = onSpeakingChange;
+
+  // Drives the agent's speaking animation in the AR view
+  useEffect(() => {
+    speakingHandler.current?.(isSpeaking);
+  }, [isSpeaking]);
+
+  useEffect(() => () => {
+    if (speakingTimer.current) clearTimeout(speakingTimer.current);
+    speakingHandler.current?.(false);
+  }, []);
 
   // Initialize with welcome message
   useEffect(() => {
@@ -123,6 +139,16 @@ export default function ChatInterface({ agent, onBack }: ChatInterfaceProps) {
     }
   };
 
+  // The agent "speaks" a reply for about as long as it would take to say it
+  const speakReply = (text: string) => {
+    if (speakingTimer.current) clearTimeout(speakingTimer.current);
+    setIsSpeaking(true);
+    speakingTimer.current = setTimeout(() => {
+      speakingTimer.current = null;
+      setIsSpeaking(false);
+    }, Math.max(2000, text.length * 50));
+  };
+
   const sendMessage = async () => {
     if (!inputText.trim()) return;
 
@@ -148,6 +174,7 @@ export default function ChatInterface({ agent, onBack }: ChatInterfaceProps) {
 
       setMessages(prev => [...prev, agentResponse]);
       setIsTyping(false);
+      speakReply(agentResponse.text);
     }, 1000 + Math.random() * 2000); // 1-3 second delay
   };
 
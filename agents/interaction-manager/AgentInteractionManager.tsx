@@ -1,18 +1,27 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Modal, Alert } from 'react-native';
-import { MessageCircle, Mic, Info, X, Star, Navigation } from 'lucide-react-native';
-import { DeployedObject } from '@/types/database';
+import { MessageCircle, Mic, Info, X, Star, Navigation, Ticket } from 'lucide-react-native';
+import { DeployedObject, InteractionEntitlement } from '@/types/database';
 import { LocationData } from '@/hooks/useLocation';
+import { NavigationService } from '@/services/NavigationService';
+import { EntitlementService } from '@/services/EntitlementService';
+import { describeEntitlement } from '@/lib/entitlements';
+import { getAgentInteractionFee } from '@/lib/payment-uri';
+import QRPaymentModal from '@/components/payment/QRPaymentModal';
 import ChatInterface from '../chat-interfaces/ChatInterface';
 import VoiceInterface from '../voice-handlers/VoiceInterface';
 import AgentInfoPanel from '../ar-features/AgentInfoPanel';
 import MCPIntegration from '../mcp-integrations/MCPIntegration';
 
+type PaidInterface = 'chat' | 'voice' | 'mcp';
+
 interface AgentInteractionManagerProps {
   agent: DeployedObject;
   userLocation: LocationData | null;
   onClose: () => void;
   visible: boolean;
+  // Chat or voice reply started or finished, for the agent's AR animation
+  onAgentSpeaking?: (agentId: string, speaking: boolean) => void;
 }
 
 export default function AgentInteractionManager({
@@ -20,9 +29,33 @@ export default function AgentInteractionManager({
   userLocation,
   onClose,
   visible,
+  onAgentSpeaking,
 }: AgentInteractionManagerProps) {
   const [activeInterface, setActiveInterface] = useState<'menu' | 'chat' | 'voice' | 'info' | 'mcp'>('menu');
   const [isFavorite, setIsFavorite] = useState(false);
+  const [entitlement, setEntitlement] = useState<InteractionEntitlement | null>(null);
+  const [isCheckingAccess, setIsCheckingAccess] = useState(false);
+  const [pendingInterface, setPendingInterface] = useState<PaidInterface | null>(null);
+
+  // Payment-gated agents need a pass before chat, voice or functions start
+  useEffect(() => {
+    if (!visible || !agent.payment_required) {
+      setEntitlement(null);
+      return;
+    }
+
+    let isActive = true;
+    EntitlementService.getInstance()
+      .getActiveEntitlement(agent.id)
+      .then((active) => {
+        if (isActive) setEntitlement(active);
+      })
+      .catch((error) => console.error('Failed to load interaction pass:', error));
+
+    return () => {
+      isActive = false;
+    };
+  }, [visible, agent.id, agent.payment_required]);
 
   // Calculate distance to agent
   const calculateDistance = () => {
@@ -64,11 +97,67 @@ export default function AgentInteractionManager({
   const capabilities = getAgentCapabilities();
   const distance = calculateDistance();
 
+  // Use one interaction of the pass, asking for payment when there is none
+  const startPaidInterface = async (type: PaidInterface, pass: InteractionEntitlement | null) => {
+    if (!pass) {
+      setPendingInterface(type);
+      return;
+    }
+
+    setIsCheckingAccess(true);
+    try {
+      const updated = await EntitlementService.getInstance().recordInteraction(pass);
+      if (!updated) {
+        setEntitlement(await EntitlementService.getInstance().getActiveEntitlement(agent.id));
+        Alert.alert('Access Pass', 'Your pass for this agent is used up or could not be checked. Please try again.');
+        return;
+      }
+      setEntitlement(updated);
+      console.log(`🤖 Starting ${type} interaction with agent:`, agent.name);
+      setActiveInterface(type);
+    } finally {
+      setIsCheckingAccess(false);
+    }
+  };
+
   const handleInteraction = (type: 'chat' | 'voice' | 'info' | 'mcp') => {
+    if (type !== 'info' && agent.payment_required) {
+      if (!isCheckingAccess) {
+        startPaidInterface(type, entitlement);
+      }
+      return;
+    }
+
     console.log(`🤖 Starting ${type} interaction with agent:`, agent.name);
     setActiveInterface(type);
   };
+
+  // The pass is granted once the payment settles; pick up where the user was
+  const handlePaymentComplete = async (success: boolean) => {
+    const type = pendingInterface;
+    setPendingInterface(null);
+    if (!success || !type) return;
+
+    const pass = await EntitlementService.getInstance().getActiveEntitlement(agent.id);
+    setEntitlement(pass);
+    if (pass) {
+      startPaidInterface(type, pass);
+      return;
+    }
+
+    const refusal = await EntitlementService.getInstance().getRefusal(agent.id);
+    Alert.alert(
+      'Access Pass',
+      refusal
+        ? `Payment received, but it was not accepted for a pass: ${refusal}`
+        : 'Payment received, but the pass is not available yet. Please try again shortly.'
+    );
+  };
   
+  const handleSpeakingChange = (speaking: boolean) => {
+    onAgentSpeaking?.(agent.id, speaking);
+  };
+
   const handleFavorite = () => {
     setIsFavorite(!isFavorite);
     // TODO: Save to favorites in database
@@ -78,15 +167,15 @@ export default function AgentInteractionManager({
     );
   };
 
+  // Directions show in the camera view, so the menu closes once started
   const handleNavigation = () => {
-    Alert.alert(
-      'AR Navigation',
-      `Navigate to ${agent.name}? This will show AR directions to the agent's location.`,
-      [
-        { text: 'Cancel', style: 'cancel' },
-        { text: 'Navigate', onPress: () => console.log('🧭 Starting AR navigation to agent') }
-      ]
-    );
+    NavigationService.getInstance()
+      .startNavigation(agent)
+      .catch((error) => {
+        console.error('Failed to start navigation:', error);
+        Alert.alert('Navigation Error', 'Could not start navigation to this agent.');
+      });
+    onClose();
   };
 
   const renderMainMenu = () => (
@@ -120,6 +209,18 @@ export default function AgentInteractionManager({
         </TouchableOpacity>
       </View>
 
+      {/* Access Pass */}
+      {agent.payment_required && (
+        <View style={styles.passContainer}>
+          <Ticket size={18} color={entitlement ? '#10b981' : '#6b7280'} strokeWidth={2} />
+          <Text style={styles.passText}>
+            {entitlement
+              ? `Access pass: ${describeEntitlement(entitlement)}`
+              : `Paid agent: ${getAgentInteractionFee(agent).toFixed(2)} per access pass`}
+          </Text>
+        </View>
+      )}
+
       {/* Interaction Options */}
       <View style={styles.interactionGrid}>
         {capabilities.chat && (
@@ -189,6 +290,7 @@ export default function AgentInteractionManager({
           <ChatInterface
             agent={agent}
             onBack={() => setActiveInterface('menu')}
+            onSpeakingChange={handleSpeakingChange}
           />
         );
       case 'voice':
@@ -196,6 +298,7 @@ export default function AgentInteractionManager({
           <VoiceInterface
             agent={agent}
             onBack={() => setActiveInterface('menu')}
+            onSpeakingChange={handleSpeakingChange}
           />
         );
       case 'info':
@@ -249,6 +352,13 @@ export default function AgentInteractionManager({
           {renderActiveInterface()}
         </View>
       </View>
+
+      <QRPaymentModal
+        visible={pendingInterface !== null}
+        agent={agent}
+        onClose={() => setPendingInterface(null)}
+        onPaymentComplete={handlePaymentComplete}
+      />
     </Modal>
   );
 }
@@ -350,6 +460,23 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   
+  // Access Pass
+  passContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  passText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  
   // Interaction Grid
   interactionGrid: {
     flexDirection: 'row',
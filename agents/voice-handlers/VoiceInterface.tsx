@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
 import { Mic, MicOff, Volume2, VolumeX, Play, Square } from 'lucide-react-native';
 import { DeployedObject } from '@/types/database';
@@ -6,14 +6,25 @@ import { DeployedObject } from '@/types/database';
 interface VoiceInterfaceProps {
   agent: DeployedObject;
   onBack: () => void;
+  // Called when the agent starts or stops talking
+  onSpeakingChange?: (speaking: boolean) => void;
 }
 
-export default function VoiceInterface({ agent, onBack }: VoiceInterfaceProps) {
+export default function VoiceInterface({ agent, onBack, onSpeakingChange }: VoiceInterfaceProps) {
   const [isListening, setIsListening] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [audioEnabled, setAudioEnabled] = useState(true);
   const [lastTranscript, setLastTranscript] = useState('');
   const [lastResponse, setLastResponse] = useState('');
+  const speakingHandler = useRef(onSpeakingChange);
+  speakingHandler.current = onSpeakingChange;
+
+  // Drives the agent's speaking animation in the AR view
+  useEffect(() => {
+    speakingHandler.current?.(isSpeaking);
+  }, [isSpeaking]);
+
+  useEffect(() => () => speakingHandler.current?.(false), []);
 
   useEffect(() => {
     // Initialize with welcome message
@@ -1,56 +1,37 @@
-import React, { useState } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
-import { Wallet, Copy, ExternalLink, Send, ArrowUpRight, ArrowDownLeft } from 'lucide-react-native';
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, Linking } from 'react-native';
+import { Wallet, Copy, ExternalLink, Send } from 'lucide-react-native';
 import { DeployedObject } from '@/types/database';
+import { PaymentReceipt } from '@/lib/receipts';
+import { findEvmPaymentToken, getDefaultAlgorandNetwork, getDefaultEvmNetwork, getExplorerAddressUrl } from '@/lib/networks';
+import { ReceiptService } from '@/services/ReceiptService';
+import ReceiptHistory from '@/components/payment/ReceiptHistory';
 
 interface WalletInterfaceProps {
   agent: DeployedObject;
   onBack: () => void;
 }
 
-interface WalletData {
-  address: string;
-  balance: number;
-  network: string;
-  transactions: Transaction[];
-}
+export default function WalletInterface({ agent, onBack }: WalletInterfaceProps) {
+  const [receipts, setReceipts] = useState<PaymentReceipt[]>([]);
+  const address = agent.payment_address || agent.agent_wallet_address || null;
+  const network = agent.agent_wallet_type === 'algorand'
+    ? getDefaultAlgorandNetwork()
+    : findEvmPaymentToken(agent.payment_token)?.network ?? getDefaultEvmNetwork();
 
-interface Transaction {
-  id: string;
-  type: 'sent' | 'received';
-  amount: number;
-  from: string;
-  to: string;
-  timestamp: Date;
-  status: 'completed' | 'pending' | 'failed';
-}
+  useEffect(() => {
+    const service = ReceiptService.getInstance();
+    service.getReceipts(agent.id).then(setReceipts);
+    return service.subscribe((all) => setReceipts(all.filter((receipt) => receipt.agentId === agent.id)));
+  }, [agent.id]);
 
-export default function WalletInterface({ agent, onBack }: WalletInterfaceProps) {
-  const [walletData] = useState<WalletData>({
-    address: '0x742d35Cc6634C0532925a3b8D4C0532925a3b8D4',
-    balance: 1.2345,
-    network: 'Ethereum',
-    transactions: [
-      {
-        id: '1',
-        type: 'received',
-        amount: 0.5,
-        from: '0x123...abc',
-        to: '0x742...8D4',
-        timestamp: new Date(Date.now() - 3600000),
-        status: 'completed',
-      },
-      {
-        id: '2',
-        type: 'sent',
-        amount: 0.1,
-        from: '0x742...8D4',
-        to: '0x456...def',
-        timestamp: new Date(Date.now() - 7200000),
-        status: 'completed',
-      },
-    ],
-  });
+  // What you have paid this agent, per token, leaving out refunds
+  const totalsPaid = receipts
+    .filter((receipt) => !receipt.refunded)
+    .reduce<Record<string, number>>((totals, receipt) => {
+      totals[receipt.currency] = (totals[receipt.currency] || 0) + parseFloat(receipt.amount);
+      return totals;
+    }, {});
 
   const copyAddress = () => {
     // In a real implementation, this would copy to clipboard
@@ -58,10 +39,9 @@ export default function WalletInterface({ agent, onBack }: WalletInterfaceProps)
   };
 
   const openExplorer = () => {
-    Alert.alert(
-      'View on Explorer',
-      'This would open the wallet address on a blockchain explorer like Etherscan.'
-    );
+    if (address) {
+      Linking.openURL(getExplorerAddressUrl(network, address));
+    }
   };
 
   const sendTokens = () => {
@@ -71,10 +51,6 @@ export default function WalletInterface({ agent, onBack }: WalletInterfaceProps)
     );
   };
 
-  const formatAddress = (address: string) => {
-    return `${address.slice(0, 6)}...${address.slice(-4)}`;
-  };
-
   const formatAmount = (amount: number) => {
     return amount.toFixed(4);
   };
@@ -90,15 +66,23 @@ export default function WalletInterface({ agent, onBack }: WalletInterfaceProps)
         <Text style={styles.walletTitle}>Agent Wallet</Text>
       </View>
 
-      {/* Balance Card */}
+      {/* Paid Card */}
       <View style={styles.balanceCard}>
-        <Text style={styles.balanceLabel}>Total Balance</Text>
-        <Text style={styles.balanceAmount}>{formatAmount(walletData.balance)} ETH</Text>
-        <Text style={styles.balanceUsd}>≈ ${(walletData.balance * 2500).toFixed(2)} USD</Text>
+        <Text style={styles.balanceLabel}>You Have Paid</Text>
+        {Object.keys(totalsPaid).length === 0 ? (
+          <Text style={styles.balanceAmount}>{formatAmount(0)}</Text>
+        ) : (
+          Object.entries(totalsPaid).map(([currency, total]) => (
+            <Text key={currency} style={styles.balanceAmount}>{formatAmount(total)} {currency}</Text>
+          ))
+        )}
+        <Text style={styles.balanceUsd}>
+          {receipts.length} payment{receipts.length === 1 ? '' : 's'} to this agent
+        </Text>
         
         <View style={styles.networkBadge}>
           <View style={styles.networkDot} />
-          <Text style={styles.networkText}>{walletData.network}</Text>
+          <Text style={styles.networkText}>{network.name}</Text>
         </View>
       </View>
 
@@ -106,7 +90,7 @@ export default function WalletInterface({ agent, onBack }: WalletInterfaceProps)
       <View style={styles.addressCard}>
         <Text style={styles.addressLabel}>Wallet Address</Text>
         <View style={styles.addressContainer}>
-          <Text style={styles.addressText}>{walletData.address}</Text>
+          <Text style={styles.addressText}>{address || 'This agent has no wallet'}</Text>
           <View style={styles.addressActions}>
             <TouchableOpacity onPress={copyAddress} style={styles.addressAction}>
               <Copy size={16} color="#6b7280" strokeWidth={2} />
@@ -126,68 +110,14 @@ export default function WalletInterface({ agent, onBack }: WalletInterfaceProps)
         </TouchableOpacity>
       </View>
 
-      {/* Transactions */}
-      <View style={styles.transactionsContainer}>
-        <Text style={styles.transactionsTitle}>Recent Transactions</Text>
-        
-        {walletData.transactions.map((tx) => (
-          <View key={tx.id} style={styles.transactionItem}>
-            <View style={[
-              styles.transactionIcon,
-              tx.type === 'received' ? styles.receivedIcon : styles.sentIcon,
-            ]}>
-              {tx.type === 'received' ? (
-                <ArrowDownLeft size={16} color="#10b981" strokeWidth={2} />
-              ) : (
-                <ArrowUpRight size={16} color="#ef4444" strokeWidth={2} />
-              )}
-            </View>
-            
-            <View style={styles.transactionDetails}>
-              <Text style={styles.transactionType}>
-                {tx.type === 'received' ? 'Received' : 'Sent'}
-              </Text>
-              <Text style={styles.transactionAddresses}>
-                {tx.type === 'received' 
-                  ? `From: ${formatAddress(tx.from)}`
-                  : `To: ${formatAddress(tx.to)}`
-                }
-              </Text>
-              <Text style={styles.transactionTime}>
-                {tx.timestamp.toLocaleString()}
-              </Text>
-            </View>
-            
-            <View style={styles.transactionAmount}>
-              <Text style={[
-                styles.amountText,
-                tx.type === 'received' ? styles.receivedAmount : styles.sentAmount,
-              ]}>
-                {tx.type === 'received' ? '+' : '-'}{formatAmount(tx.amount)} ETH
-              </Text>
-              <View style={[
-                styles.statusBadge,
-                tx.status === 'completed' ? styles.completedBadge : 
-                tx.status === 'pending' ? styles.pendingBadge : styles.failedBadge,
-              ]}>
-                <Text style={[
-                  styles.statusText,
-                  tx.status === 'completed' ? styles.completedText : 
-                  tx.status === 'pending' ? styles.pendingText : styles.failedText,
-                ]}>
-                  {tx.status}
-                </Text>
-              </View>
-            </View>
-          </View>
-        ))}
-      </View>
+      {/* Payment History */}
+      <ReceiptHistory agentId={agent.id} showExport emptyText="You have not paid this agent yet" />
 
       {/* Disclaimer */}
       <View style={styles.disclaimerContainer}>
         <Text style={styles.disclaimerText}>
-          This is a mock wallet interface for demonstration purposes. In the full implementation, 
-          users would be able to interact with the agent's wallet using real blockchain transactions.
+          Payments you made to this agent are listed above. Sending tokens directly to agents is
+          not available yet.
         </Text>
       </View>
     </View>
@@ -348,105 +278,6 @@ const styles = StyleSheet.create({
     color: '#9333ea',
   },
   
-  // Transactions
-  transactionsContainer: {
-    backgroundColor: '#fff',
-    borderRadius: 16,
-    padding: 20,
-    marginBottom: 16,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 8,
-    elevation: 4,
-  },
-  transactionsTitle: {
-    fontSize: 18,
-    fontWeight: '600',
-    color: '#111827',
-    marginBottom: 16,
-  },
-  transactionItem: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    paddingVertical: 12,
-    borderBottomWidth: 1,
-    borderBottomColor: '#f3f4f6',
-  },
-  transactionIcon: {
-    width: 32,
-    height: 32,
-    borderRadius: 16,
-    justifyContent: 'center',
-    alignItems: 'center',
-    marginRight: 12,
-  },
-  receivedIcon: {
-    backgroundColor: '#d1fae5',
-  },
-  sentIcon: {
-    backgroundColor: '#fee2e2',
-  },
-  transactionDetails: {
-    flex: 1,
-  },
-  transactionType: {
-    fontSize: 14,
-    fontWeight: '600',
-    color: '#111827',
-    marginBottom: 2,
-  },
-  transactionAddresses: {
-    fontSize: 12,
-    color: '#6b7280',
-    marginBottom: 2,
-  },
-  transactionTime: {
-    fontSize: 12,
-    color: '#9ca3af',
-  },
-  transactionAmount: {
-    alignItems: 'flex-end',
-  },
-  amountText: {
-    fontSize: 14,
-    fontWeight: '600',
-    marginBottom: 4,
-  },
-  receivedAmount: {
-    color: '#10b981',
-  },
-  sentAmount: {
-    color: '#ef4444',
-  },
-  statusBadge: {
-    paddingHorizontal: 6,
-    paddingVertical: 2,
-    borderRadius: 4,
-  },
-  completedBadge: {
-    backgroundColor: '#d1fae5',
-  },
-  pendingBadge: {
-    backgroundColor: '#fef3c7',
-  },
-  failedBadge: {
-    backgroundColor: '#fee2e2',
-  },
-  statusText: {
-    fontSize: 10,
-    fontWeight: '500',
-  },
-  completedText: {
-    color: '#065f46',
-  },
-  pendingText: {
-    color: '#92400e',
-  },
-  failedText: {
-    color: '#b91c1c',
-  },
-  
   // Disclaimer
   disclaimerContainer: {
     backgroundColor: '#ede9fe',
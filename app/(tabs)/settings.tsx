@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -20,6 +20,7 @@ import {
   Eye,
   Smartphone,
 } from 'lucide-react-native';
+import { getPerformanceMode, setPerformanceMode as savePerformanceMode } from '@/lib/ar-preferences';
 
 export default function SettingsPage() {
   const [notifications, setNotifications] = useState(true);
@@ -27,6 +28,16 @@ export default function SettingsPage() {
   const [performanceMode, setPerformanceMode] = useState(false);
   const [debugMode, setDebugMode] = useState(false);
 
+  // Performance Mode is shared with the AR engine's quality governor
+  useEffect(() => {
+    getPerformanceMode().then(setPerformanceMode);
+  }, []);
+
+  const handlePerformanceModeToggle = (enabled: boolean) => {
+    setPerformanceMode(enabled);
+    savePerformanceMode(enabled);
+  };
+
   const handleClearCache = () => {
     Alert.alert(
       'Clear Cache',
@@ -50,7 +61,7 @@ export default function SettingsPage() {
         { text: 'Reset', style: 'destructive', onPress: () => {
           setNotifications(true);
           setLocationAccuracy(true);
-          setPerformanceMode(false);
+          handlePerformanceModeToggle(false);
           setDebugMode(false);
         }},
       ]
@@ -96,7 +107,7 @@ export default function SettingsPage() {
           subtitle="Optimize for battery life"
           type="toggle"
           value={performanceMode}
-          onToggle={setPerformanceMode}
+          onToggle={handlePerformanceModeToggle}
         />
       </View>
 
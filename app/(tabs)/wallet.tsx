@@ -1,123 +1,94 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, Linking } from 'react-native';
 import { Wallet, Layers, ExternalLink, RefreshCw, CircleAlert as AlertCircle } from 'lucide-react-native';
-import { MetaMaskProvider, useMetaMask } from '@metamask/sdk-react';
 import { ethers } from 'ethers';
-
-// BDAG Token contract details
-const BDAG_TOKEN_ADDRESS = '0x6533fe2Ebb66CcE28FDdBA9663Fe433A308137e9';
-const BDAG_TOKEN_ABI = [
-  // ERC-20 standard functions
-  "function balanceOf(address owner) view returns (uint256)",
-  "function decimals() view returns (uint8)",
-  "function symbol() view returns (string)"
-];
-
-// Primordial Testnet details
-const BLOCKDAG_CHAIN_ID = '0x1b59'; // 7001 in decimal
-const BLOCKDAG_NETWORK = {
-  chainId: '0x1b59',
-  chainName: 'BlockDAG Primordial Testnet',
-  nativeCurrency: {
-    name: 'BDAG',
-    symbol: 'BDAG',
-    decimals: 18
-  },
-  rpcUrls: ['https://rpc-testnet.blockdag.network'],
-  blockExplorerUrls: ['https://explorer-testnet.blockdag.network']
-};
-
-// MetaMask SDK configuration
-const sdkOptions = {
-  dappMetadata: {
-    name: "AR Viewer",
-    url: window.location.href,
-  }
-};
+import { Algodv2 } from 'algosdk';
+import {
+  ERC20_ABI,
+  getDefaultAlgorandNetwork,
+  getDefaultEvmNetwork,
+  getExplorerAddressUrl,
+  getNetworkPaymentToken,
+} from '@/lib/networks';
+import ReceiptHistory from '@/components/payment/ReceiptHistory';
+import { useWallet } from '@/components/wallet/WalletProvider';
 
 // Wallet connection component
 function WalletConnection() {
-  const { status, connect, account, provider, chainId } = useMetaMask();
+  const { connectors, wallet, account, chain, isConnecting, error: connectError, connect, disconnect } = useWallet();
   const [balance, setBalance] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const isConnected = status === 'connected' && !!account;
-  const isCorrectNetwork = chainId === BLOCKDAG_CHAIN_ID;
+  const isConnected = !!wallet && !!account;
+  // The network agents are paid on (Algorand for Algorand wallets), and its
+  // payment token
+  const network = wallet?.chainType === 'algorand' ? getDefaultAlgorandNetwork() : getDefaultEvmNetwork();
+  const paymentToken = getNetworkPaymentToken(network);
+  const isCorrectNetwork = network.type === 'algorand' || (chain?.type === 'evm' && chain.chainId === network.chainId);
 
-  // Fetch BDAG balance when connected
+  // Fetch the payment token balance when connected
   useEffect(() => {
-    if (isConnected && isCorrectNetwork && provider) {
-      fetchBDAGBalance();
+    if (isConnected && isCorrectNetwork) {
+      fetchBalance();
     } else {
       setBalance(null);
     }
-  }, [isConnected, isCorrectNetwork, account, provider]);
+  }, [isConnected, isCorrectNetwork, account, network.id]);
 
-  // Fetch BDAG balance
-  const fetchBDAGBalance = async () => {
+  // Fetch the payment token balance from the network itself, whichever
+  // wallet is connected
+  const fetchBalance = async () => {
     try {
       setIsLoading(true);
       setError(null);
 
-      if (!provider || !account) {
+      if (!account) {
         throw new Error('Wallet not connected');
       }
 
-      const ethersProvider = new ethers.BrowserProvider(provider);
-      const tokenContract = new ethers.Contract(
-        BDAG_TOKEN_ADDRESS,
-        BDAG_TOKEN_ABI,
-        ethersProvider
-      );
+      let rawBalance: bigint;
+      if (network.type === 'evm') {
+        const provider = new ethers.JsonRpcProvider(network.rpcUrls[0], network.chainId, { staticNetwork: true });
+        // The native coin has no contract to ask
+        rawBalance = paymentToken.address
+          ? await new ethers.Contract(paymentToken.address, ERC20_ABI, provider).balanceOf(account)
+          : await provider.getBalance(account);
+        provider.destroy();
+      } else {
+        const algod = new Algodv2('', network.algodUrl, '');
+        rawBalance = paymentToken.assetId !== undefined
+          ? (await algod.accountAssetInformation(account, paymentToken.assetId).do()).assetHolding?.amount ?? 0n
+          : (await algod.accountInformation(account).do()).amount;
+      }
+      const formattedBalance = ethers.formatUnits(rawBalance, paymentToken.decimals);
 
-      // Get token details
-      const decimals = await tokenContract.decimals();
-      const symbol = await tokenContract.symbol();
-      
-      // Get balance
-      const rawBalance = await tokenContract.balanceOf(account);
-      const formattedBalance = ethers.formatUnits(rawBalance, decimals);
-      
-      setBalance(`${parseFloat(formattedBalance).toFixed(4)} ${symbol}`);
+      setBalance(`${parseFloat(formattedBalance).toFixed(4)} ${paymentToken.symbol}`);
     } catch (err: any) {
-      console.error('Error fetching BDAG balance:', err);
-      setError(err.message || 'Failed to fetch BDAG balance');
+      console.error(`Error fetching ${paymentToken.symbol} balance:`, err);
+      setError(err.message || `Failed to fetch ${paymentToken.symbol} balance`);
       setBalance(null);
     } finally {
       setIsLoading(false);
     }
   };
 
-  // Switch to BlockDAG network
-  const switchToBlockDAG = async () => {
+  // Switch to the payment network
+  const switchNetwork = async () => {
     try {
-      if (!provider) return;
-      
-      await provider.request({
-        method: 'wallet_addEthereumChain',
-        params: [BLOCKDAG_NETWORK],
-      });
-    } catch (err: any) {
-      console.error('Error switching network:', err);
-      Alert.alert('Network Switch Failed', err.message || 'Failed to switch to BlockDAG network');
-    }
-  };
+      if (!wallet?.switchChain || network.type !== 'evm') return;
 
-  // Handle connect wallet
-  const handleConnectWallet = async () => {
-    try {
-      await connect();
+      await wallet.switchChain(network);
     } catch (err: any) {
-      console.error('Connection error:', err);
-      Alert.alert('Connection Failed', err.message || 'Failed to connect wallet');
+      console.error('Error switching network:', err);
+      Alert.alert('Network Switch Failed', err.message || `Failed to switch to ${network.name}`);
     }
   };
 
-  // Open BlockDAG explorer
+  // Open the network's explorer
   const openExplorer = () => {
     if (account) {
-      Linking.openURL(`${BLOCKDAG_NETWORK.blockExplorerUrls[0]}/address/${account}`);
+      Linking.openURL(getExplorerAddressUrl(network, account));
     }
   };
 
@@ -127,7 +98,7 @@ function WalletConnection() {
       <View style={styles.statusCard}>
         <View style={styles.statusHeader}>
           <Layers size={24} color="#6366f1" strokeWidth={2} />
-          <Text style={styles.statusTitle}>BlockDAG Wallet</Text>
+          <Text style={styles.statusTitle}>{wallet ? wallet.name : 'BlockDAG Wallet'}</Text>
         </View>
         
         <View style={styles.statusContent}>
@@ -138,6 +109,9 @@ function WalletConnection() {
                 <Text style={styles.accountAddress}>
                   {account.substring(0, 6)}...{account.substring(account.length - 4)}
                 </Text>
+                <TouchableOpacity onPress={disconnect}>
+                  <Text style={styles.disconnectButtonText}>Disconnect</Text>
+                </TouchableOpacity>
               </View>
               
               <View style={styles.networkInfo}>
@@ -146,7 +120,7 @@ function WalletConnection() {
                   isCorrectNetwork ? styles.networkCorrect : styles.networkIncorrect
                 ]}>
                   <Text style={styles.networkText}>
-                    {isCorrectNetwork ? 'BlockDAG Primordial Testnet' : 'Wrong Network'}
+                    {isCorrectNetwork ? network.name : 'Wrong Network'}
                   </Text>
                 </View>
               </View>
@@ -160,19 +134,31 @@ function WalletConnection() {
         
         <View style={styles.statusActions}>
           {!isConnected ? (
-            <TouchableOpacity 
-              style={styles.connectButton}
-              onPress={handleConnectWallet}
-            >
-              <Wallet size={20} color="#ffffff" strokeWidth={2} />
-              <Text style={styles.connectButtonText}>Connect MetaMask</Text>
-            </TouchableOpacity>
-          ) : !isCorrectNetwork ? (
+            <View style={styles.connectorList}>
+              {connectors.map((connector) => (
+                <TouchableOpacity
+                  key={connector.id}
+                  style={[styles.connectButton, isConnecting && styles.connectButtonDisabled]}
+                  onPress={() => connect(connector.id)}
+                  disabled={isConnecting}
+                >
+                  <Wallet size={20} color="#ffffff" strokeWidth={2} />
+                  <Text style={styles.connectButtonText}>Connect {connector.name}</Text>
+                </TouchableOpacity>
+              ))}
+              {connectError && (
+                <View style={styles.errorContainer}>
+                  <AlertCircle size={16} color="#ef4444" strokeWidth={2} />
+                  <Text style={styles.errorText}>{connectError}</Text>
+                </View>
+              )}
+            </View>
+          ) : !isCorrectNetwork && wallet.switchChain ? (
             <TouchableOpacity 
               style={styles.switchNetworkButton}
-              onPress={switchToBlockDAG}
+              onPress={switchNetwork}
             >
-              <Text style={styles.switchNetworkText}>Switch to BlockDAG Network</Text>
+              <Text style={styles.switchNetworkText}>Switch to {network.name}</Text>
             </TouchableOpacity>
           ) : (
             <TouchableOpacity 
@@ -186,14 +172,14 @@ function WalletConnection() {
         </View>
       </View>
 
-      {/* BDAG Balance */}
+      {/* Payment Token Balance */}
       {isConnected && isCorrectNetwork && (
         <View style={styles.balanceCard}>
           <View style={styles.balanceHeader}>
-            <Text style={styles.balanceTitle}>BDAG Token Balance</Text>
+            <Text style={styles.balanceTitle}>{paymentToken.symbol} Token Balance</Text>
             <TouchableOpacity 
               style={styles.refreshButton}
-              onPress={fetchBDAGBalance}
+              onPress={fetchBalance}
               disabled={isLoading}
             >
               <RefreshCw size={16} color="#6366f1" strokeWidth={2} />
@@ -211,16 +197,18 @@ function WalletConnection() {
             </View>
           ) : (
             <View style={styles.balanceContainer}>
-              <Text style={styles.balanceAmount}>{balance || '0 BDAG'}</Text>
-              <Text style={styles.balanceSubtext}>on BlockDAG Primordial Testnet</Text>
+              <Text style={styles.balanceAmount}>{balance || `0 ${paymentToken.symbol}`}</Text>
+              <Text style={styles.balanceSubtext}>on {network.name}</Text>
             </View>
           )}
           
-          <View style={styles.tokenInfo}>
-            <Text style={styles.tokenInfoText}>
-              Token Contract: {BDAG_TOKEN_ADDRESS.substring(0, 6)}...{BDAG_TOKEN_ADDRESS.substring(BDAG_TOKEN_ADDRESS.length - 4)}
-            </Text>
-          </View>
+          {paymentToken.address && (
+            <View style={styles.tokenInfo}>
+              <Text style={styles.tokenInfoText}>
+                Token Contract: {paymentToken.address.substring(0, 6)}...{paymentToken.address.substring(paymentToken.address.length - 4)}
+              </Text>
+            </View>
+          )}
         </View>
       )}
 
@@ -253,25 +241,28 @@ function WalletConnection() {
 // Main wallet screen component
 export default function WalletScreen() {
   return (
-    <MetaMaskProvider sdkOptions={sdkOptions}>
-      <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
-        {/* Header */}
-        <View style={styles.header}>
-          <View style={styles.headerIcon}>
-            <Layers size={24} color="#6366f1" strokeWidth={2} />
-          </View>
-          <Text style={styles.headerTitle}>BlockDAG Wallet Connection</Text>
-          <Text style={styles.headerSubtitle}>
-            Connect your wallet to interact with the AR ecosystem
-          </Text>
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+      {/* Header */}
+      <View style={styles.header}>
+        <View style={styles.headerIcon}>
+          <Layers size={24} color="#6366f1" strokeWidth={2} />
         </View>
+        <Text style={styles.headerTitle}>BlockDAG Wallet Connection</Text>
+        <Text style={styles.headerSubtitle}>
+          Connect your wallet to interact with the AR ecosystem
+        </Text>
+      </View>
 
-        {/* Wallet Connection */}
-        <View style={styles.walletSection}>
-          <WalletConnection />
-        </View>
-      </ScrollView>
-    </MetaMaskProvider>
+      {/* Wallet Connection */}
+      <View style={styles.walletSection}>
+        <WalletConnection />
+      </View>
+
+      {/* Agent payment receipts */}
+      <View style={styles.receiptsSection}>
+        <ReceiptHistory showExport emptyText="Payments to agents will appear here" />
+      </View>
+    </ScrollView>
   );
 }
 
@@ -317,6 +308,10 @@ const styles = StyleSheet.create({
     flex: 1,
     padding: 20,
   },
+  receiptsSection: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
   
   // Wallet Container
   walletContainer: {
@@ -362,6 +357,12 @@ const styles = StyleSheet.create({
     color: '#111827',
     fontFamily: 'monospace',
   },
+  disconnectButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6366f1',
+    marginTop: 8,
+  },
   networkInfo: {
     marginBottom: 8,
   },
@@ -400,6 +401,13 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     gap: 8,
   },
+  connectorList: {
+    alignItems: 'center',
+    gap: 12,
+  },
+  connectButtonDisabled: {
+    opacity: 0.6,
+  },
   connectButtonText: {
     fontSize: 16,
     fontWeight: '600',
@@ -4,20 +4,39 @@ import { StatusBar } from 'expo-status-bar';
 import { ThirdwebProvider } from "thirdweb/react";
 import { createThirdwebClient } from "thirdweb";
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
+import WalletProvider from '@/components/wallet/WalletProvider';
+import { initializeNetworkRegistry } from '@/lib/networks';
+import { PaymentSessionService } from '@/services/PaymentSessionService';
+import { EntitlementService } from '@/services/EntitlementService';
+import { ReceiptService } from '@/services/ReceiptService';
 
 const client = createThirdwebClient({
   clientId: process.env.EXPO_PUBLIC_THIRDWEB_CLIENT_ID || "299516306b51bd6356fd8995ed628950",
 });
 
+// Chains and tokens must be known before any payment is quoted or resumed
+initializeNetworkRegistry();
+
 export default function RootLayout() {
   useFrameworkReady();
 
+  // Keep watching for payments started before the app was closed, and turn
+  // settled payments into interaction passes and receipts
+  useEffect(() => {
+    PaymentSessionService.getInstance()
+      .resumeSessions()
+      .then(() => Promise.all([EntitlementService.getInstance().start(), ReceiptService.getInstance().start()]))
+      .catch((error) => console.error('❌ Failed to resume payment sessions:', error));
+  }, []);
+
   return (
     <ThirdwebProvider client={client}>
-      <Stack screenOptions={{ headerShown: false }}>
-        <Stack.Screen name="+not-found" />
-      </Stack>
-      <StatusBar style="auto" />
+      <WalletProvider>
+        <Stack screenOptions={{ headerShown: false }}>
+          <Stack.Screen name="+not-found" />
+        </Stack>
+        <StatusBar style="auto" />
+      </WalletProvider>
     </ThirdwebProvider>
   );
 }
\ No newline at end of file
@@ -1,22 +1,36 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Modal, Platform, Dimensions } from 'react-native';
 import { DeployedObject } from '@/types/database';
 import { LocationData } from '@/hooks/useLocation';
+import { useDeviceHeading } from '@/hooks/useDeviceHeading';
 import { RangeDetectionService } from '@/services/RangeDetectionService';
 import Agent3DObject from './Agent3DObject';
-import { calculateAgentPositions, AgentDisplayData } from './AgentPositioning';
-import { X, Info, MapPin, Zap } from 'lucide-react-native';
+import {
+  calculateAgentPositions,
+  projectAgentToScreen,
+  getApparentSize,
+  AgentDisplayData,
+  AgentScreenPosition,
+  AgentPositionSmoother,
+} from './AgentPositioning';
+import { X, Info, MapPin, Zap, ChevronUp, Compass } from 'lucide-react-native';
 // Remove problematic import
 
 interface ARAgentSceneProps {
   agents: DeployedObject[];
   userLocation: LocationData | null;
   onAgentSelect?: (agent: DeployedObject) => void;
+  onVisibleAgentsChange?: (agentIds: string[]) => void;
 }
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
-export default function ARAgentScene({ agents, userLocation, onAgentSelect }: ARAgentSceneProps) {
+const EDGE_ARROW_SIZE = 44;
+
+// Frame interval while agents glide to a new fix (milliseconds)
+const SMOOTHING_FRAME_MS = 33;
+
+export default function ARAgentScene({ agents, userLocation, onAgentSelect, onVisibleAgentsChange }: ARAgentSceneProps) {
   const [agentPositions, setAgentPositions] = useState<Record<string, AgentDisplayData>>({});
   const [selectedAgent, setSelectedAgent] = useState<DeployedObject | null>(null);
   const [agentsInRange, setAgentsInRange] = useState<DeployedObject[]>([]);
@@ -24,6 +38,8 @@ export default function ARAgentScene({ agents, userLocation, onAgentSelect }: AR
   const [showAgentModal, setShowAgentModal] = useState(false);
   // Remove state for payment modal
   const rangeService = RangeDetectionService.getInstance();
+  const { heading, pitch, isAbsolute } = useDeviceHeading(userLocation);
+  const smoother = useRef(new AgentPositionSmoother());
   
   // Calculate agent positions when agents or user location changes
   useEffect(() => {
@@ -31,7 +47,8 @@ export default function ARAgentScene({ agents, userLocation, onAgentSelect }: AR
      setIsInitialized(true);
       console.log('🔄 Calculating positions for', agents.length, 'agents');
       const positions = calculateAgentPositions(agents, userLocation, 100);
-      setAgentPositions(positions);
+      smoother.current.setTargets(positions);
+      setAgentPositions(smoother.current.update(Date.now()));
       
       // Log the calculated positions for debugging
       console.log('📍 Agent positions calculated:', 
@@ -41,6 +58,22 @@ export default function ARAgentScene({ agents, userLocation, onAgentSelect }: AR
     }
   }, [agents, userLocation]);
 
+  // Glide agents towards their latest positions until they settle
+  useEffect(() => {
+    if (smoother.current.isSettled()) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      setAgentPositions(smoother.current.update(Date.now()));
+      if (smoother.current.isSettled()) {
+        clearInterval(interval);
+      }
+    }, SMOOTHING_FRAME_MS);
+
+    return () => clearInterval(interval);
+  }, [agents, userLocation]);
+
   // Update range detection service
   useEffect(() => {
     if (userLocation) {
@@ -72,28 +105,35 @@ export default function ARAgentScene({ agents, userLocation, onAgentSelect }: AR
     }
   };
   
-  // Distribute agents in a grid pattern
-  const getAgentPosition = (index: number) => {
-    const columns = 3;
-    const rows = Math.ceil(agents.length / columns);
-    
-    // Calculate grid cell size
-    const cellWidth = screenWidth / (columns + 1);
-    const cellHeight = screenHeight / (rows + 1);
-    
-    // Calculate position in grid
-    const col = index % columns;
-    const row = Math.floor(index / columns);
-    
-    // Add some randomness to positions
-    const randomX = (Math.random() - 0.5) * (cellWidth * 0.2);
-    const randomY = (Math.random() - 0.5) * (cellHeight * 0.2);
-    
-    return {
-      x: cellWidth * (col + 0.5) + randomX,
-      y: cellHeight * (row + 0.5) + randomY,
-    };
-  };
+  // Project every positioned agent from its real bearing and elevation
+  const screenPositions = useMemo(() => {
+    const projected: Record<string, AgentScreenPosition> = {};
+    if (heading === null) {
+      return projected;
+    }
+
+    Object.values(agentPositions).forEach((positionData) => {
+      projected[positionData.id] = projectAgentToScreen(positionData, heading, pitch, {
+        width: screenWidth,
+        height: screenHeight,
+      });
+    });
+    return projected;
+  }, [agentPositions, heading, pitch]);
+
+  const visibleAgentIds = useMemo(
+    () => Object.keys(screenPositions).filter((id) => screenPositions[id].onScreen).sort().join(','),
+    [screenPositions]
+  );
+
+  // Read through a ref so an inline handler from the parent does not re-fire
+  // the effect on every render
+  const visibleAgentsHandler = useRef(onVisibleAgentsChange);
+  visibleAgentsHandler.current = onVisibleAgentsChange;
+
+  useEffect(() => {
+    visibleAgentsHandler.current?.(visibleAgentIds ? visibleAgentIds.split(',') : []);
+  }, [visibleAgentIds]);
   
   return (
     <View style={styles.container} pointerEvents="box-none">
@@ -102,30 +142,45 @@ export default function ARAgentScene({ agents, userLocation, onAgentSelect }: AR
       <View style={styles.objectsLayer} pointerEvents="box-none">
         {agents.map((agent, index) => {
           const positionData = agentPositions[agent.id];
-          if (!positionData) return null;
-          
-          // Get position in grid
-          const { x, y } = getAgentPosition(index);
-          
-          // Vary size based on agent type and distance
-          const baseSize = 70; // Base size in pixels
-          const distanceFactor = Math.max(0.5, 1 - (positionData.distance / 100) * 0.5);
-          
-          // Enhanced size calculation with better distance scaling
-          let displaySize = baseSize * positionData.size;
-          
-          // Apply non-linear scaling based on distance
-          if (positionData.distance < 10) {
-            // Close objects appear larger
-            displaySize *= 1.2;
-          } else if (positionData.distance > 50) {
-            // Far objects appear smaller
-            displaySize *= Math.max(0.5, 1 - ((positionData.distance - 50) / 50) * 0.5);
-          }
-          
+          const screenPosition = screenPositions[agent.id];
+          if (!positionData || !screenPosition) return null;
+
           // Check if agent is in range
           const isInRange = agentsInRange.some(a => a.id === agent.id);
 
+          // Agents out of view get an arrow on the screen edge pointing at them
+          if (!screenPosition.onScreen) {
+            if (!screenPosition.edge) return null;
+
+            return (
+              <TouchableOpacity
+                key={agent.id}
+                style={[
+                  styles.edgeArrow,
+                  isInRange && styles.edgeArrowInRange,
+                  {
+                    left: screenPosition.edge.x - EDGE_ARROW_SIZE / 2,
+                    top: screenPosition.edge.y - EDGE_ARROW_SIZE / 2,
+                  },
+                ]}
+                onPress={() => handleAgentClick(agent)}
+              >
+                <View style={{ transform: [{ rotate: `${screenPosition.edge.angle}deg` }] }}>
+                  <ChevronUp size={20} color="#fff" strokeWidth={3} />
+                </View>
+                <Text style={styles.edgeArrowDistance}>{Math.round(positionData.distance)}m</Text>
+              </TouchableOpacity>
+            );
+          }
+
+          const { x, y } = screenPosition;
+          
+          // Perspective size from the agent's real-world size and distance
+          const displaySize = getApparentSize(positionData, {
+            width: screenWidth,
+            height: screenHeight,
+          });
+
           return (
             <View
               key={agent.id}
@@ -166,6 +221,19 @@ export default function ARAgentScene({ agents, userLocation, onAgentSelect }: AR
             </View>
           );
         })}
+
+        {/* Compass state */}
+        {heading === null ? (
+          <View style={styles.headingHint}>
+            <Compass size={14} color="#00d4ff" strokeWidth={2} />
+            <Text style={styles.headingHintText}>Waiting for compass...</Text>
+          </View>
+        ) : !isAbsolute && (
+          <View style={styles.headingHint}>
+            <Compass size={14} color="#ff6b35" strokeWidth={2} />
+            <Text style={styles.headingHintText}>Compass not calibrated, directions may be off</Text>
+          </View>
+        )}
       </View>
      )}
       
@@ -293,6 +361,39 @@ const styles = StyleSheet.create({
     fontSize: 8,
     fontWeight: 'bold',
   },
+  edgeArrow: {
+    position: 'absolute',
+    width: EDGE_ARROW_SIZE,
+    height: EDGE_ARROW_SIZE,
+    borderRadius: EDGE_ARROW_SIZE / 2,
+    backgroundColor: 'rgba(0, 212, 255, 0.8)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  edgeArrowInRange: {
+    backgroundColor: 'rgba(0, 236, 151, 0.9)',
+  },
+  edgeArrowDistance: {
+    color: 'white',
+    fontSize: 8,
+    fontWeight: 'bold',
+  },
+  headingHint: {
+    position: 'absolute',
+    bottom: 160,
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+  },
+  headingHintText: {
+    color: 'white',
+    fontSize: 12,
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
@@ -1,6 +1,6 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
-import { X, RotateCcw, Settings, Zap, ZapOff } from 'lucide-react-native';
+import { X, RotateCcw, Settings, Zap, ZapOff, Glasses } from 'lucide-react-native';
 import { ARSessionState } from '@/types/ar';
 
 interface ARControlsProps {
@@ -8,6 +8,8 @@ interface ARControlsProps {
   onEndSession: () => void;
   onToggleOrientation: () => void;
   onSettings?: () => void;
+  xrSupported?: boolean;
+  onToggleXR?: () => void;
 }
 
 export default function ARControls({
@@ -15,7 +17,10 @@ export default function ARControls({
   onEndSession,
   onToggleOrientation,
   onSettings,
+  xrSupported = false,
+  onToggleXR,
 }: ARControlsProps) {
+  const isXRActive = sessionState.mode === 'webxr';
 
   return (
     <View style={styles.container}>
@@ -50,6 +55,17 @@ export default function ARControls({
           >
             <RotateCcw size={20} color="#fff" strokeWidth={2} />
           </TouchableOpacity>
+
+          {xrSupported && onToggleXR && (
+            <TouchableOpacity
+              style={[styles.controlButton, isXRActive && styles.controlButtonActive]}
+              onPress={onToggleXR}
+              disabled={sessionState.xrStatus === 'requesting'}
+              activeOpacity={0.7}
+            >
+              <Glasses size={20} color={isXRActive ? '#00d4ff' : '#fff'} strokeWidth={2} />
+            </TouchableOpacity>
+          )}
         </View>
       )}
 
@@ -108,6 +124,9 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(255, 255, 255, 0.2)',
   },
+  controlButtonActive: {
+    borderColor: '#00d4ff',
+  },
 
   // Bottom info
   bottomInfo: {
@@ -0,0 +1,180 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { DeployedObject } from '@/types/database';
+import { RangeDetectionService } from '@/services/RangeDetectionService';
+import { LabelAnchor, LabelPlacement, layoutLabels } from '@/lib/label-layout';
+
+interface ARObjectLabelsProps {
+  objects: DeployedObject[];
+  getAnchors: () => LabelAnchor[];
+  width: number;
+  height: number;
+  selectedObjectId?: string | null;
+}
+
+// How often label positions follow the camera (milliseconds)
+const LABEL_REFRESH_MS = 100;
+
+const LABEL_WIDTH = 140;
+const LABEL_HEIGHT = 44;
+
+const TYPE_EMOJI: Record<string, string> = {
+  'Home Personal': '🏠',
+  'Landmark': '📍',
+  'Intelligent Assistant': '🤖',
+  'Content Creator': '🎨',
+  'Local Services': '🏪',
+  'Tutor/Teacher': '👨‍🏫',
+  '3D World Modelling': '🌍',
+  'Game Agent': '🎮',
+};
+
+const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)}m` : `${(meters / 1000).toFixed(1)}km`;
+
+export default function ARObjectLabels({
+  objects,
+  getAnchors,
+  width,
+  height,
+  selectedObjectId,
+}: ARObjectLabelsProps) {
+  const [placements, setPlacements] = useState<LabelPlacement[]>([]);
+  const [agentsInRange, setAgentsInRange] = useState<Set<string>>(new Set());
+  const rangeService = RangeDetectionService.getInstance();
+
+  const objectsById = useMemo(() => {
+    const map = new Map<string, DeployedObject>();
+    objects.forEach((object) => map.set(object.id, object));
+    return map;
+  }, [objects]);
+
+  // Re-project the anchors as the camera moves
+  useEffect(() => {
+    const interval = setInterval(() => {
+      try {
+        setPlacements(layoutLabels(getAnchors(), { width, height }, {
+          labelWidth: LABEL_WIDTH,
+          labelHeight: LABEL_HEIGHT,
+        }));
+      } catch (error) {
+        console.error('Error laying out AR labels:', error);
+      }
+    }, LABEL_REFRESH_MS);
+
+    return () => clearInterval(interval);
+  }, [getAnchors, width, height]);
+
+  // In-range badges follow the range detection service
+  useEffect(() => {
+    const applyInRange = (agents: DeployedObject[]) => {
+      setAgentsInRange(new Set(agents.map((agent) => agent.id)));
+    };
+
+    const service = RangeDetectionService.getInstance();
+    applyInRange(service.getCurrentAgentsInRange());
+    return service.subscribe(applyInRange);
+  }, []);
+
+  return (
+    <View style={styles.container} pointerEvents="none">
+      {placements.map((placement) => {
+        const agent = objectsById.get(placement.objectId);
+        if (!agent) return null;
+
+        const isInRange = agentsInRange.has(agent.id);
+        const isSelected = agent.id === selectedObjectId;
+        // The GPS distance matches the rest of the app; the camera distance
+        // covers objects the range service does not know about
+        const distance = rangeService.getDistanceToAgent(agent) ?? placement.distance;
+
+        return (
+          <View
+            key={placement.objectId}
+            style={[
+              styles.label,
+              isInRange && styles.labelInRange,
+              isSelected && styles.labelSelected,
+              {
+                left: placement.x,
+                top: placement.y,
+                transform: [
+                  { translateX: (LABEL_WIDTH * (placement.scale - 1)) / 2 },
+                  { translateY: (LABEL_HEIGHT * (placement.scale - 1)) / 2 },
+                  { scale: placement.scale },
+                ],
+              },
+            ]}
+          >
+            <Text style={styles.name} numberOfLines={1}>
+              {TYPE_EMOJI[agent.object_type] || '🤖'} {agent.name || 'NEAR Agent'}
+            </Text>
+            <View style={styles.detailsRow}>
+              <Text style={styles.distance}>{formatDistance(distance)}</Text>
+              {isInRange && (
+                <View style={styles.inRangeBadge}>
+                  <Text style={styles.inRangeText}>In Range</Text>
+                </View>
+              )}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+  },
+  label: {
+    position: 'absolute',
+    width: LABEL_WIDTH,
+    height: LABEL_HEIGHT,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    justifyContent: 'center',
+  },
+  labelInRange: {
+    borderColor: '#00EC97',
+  },
+  labelSelected: {
+    borderColor: '#00d4ff',
+    borderWidth: 2,
+  },
+  name: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  detailsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 2,
+  },
+  distance: {
+    color: '#00d4ff',
+    fontSize: 10,
+  },
+  inRangeBadge: {
+    backgroundColor: '#00EC97',
+    paddingHorizontal: 4,
+    paddingVertical: 1,
+    borderRadius: 4,
+  },
+  inRangeText: {
+    color: 'white',
+    fontSize: 8,
+    fontWeight: 'bold',
+  },
+});
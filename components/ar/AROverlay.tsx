@@ -1,6 +1,6 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
-import { Cuboid as Cube, Zap, Wifi, WifiOff, Eye, Target } from 'lucide-react-native';
+import { Cuboid as Cube, Zap, Wifi, WifiOff, Eye, Target, Activity, Download } from 'lucide-react-native';
 import { ARSessionState, ARCapabilities } from '@/types/ar';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import StatusBadge from '@/components/ui/StatusBadge';
@@ -10,6 +10,7 @@ interface AROverlayProps {
   capabilities: ARCapabilities;
   objectsInView: string[];
   onObjectSelect?: (objectId: string) => void;
+  onExportProfile?: () => void;
 }
 
 export default function AROverlay({
@@ -17,7 +18,9 @@ export default function AROverlay({
   capabilities,
   objectsInView,
   onObjectSelect,
+  onExportProfile,
 }: AROverlayProps) {
+  const [showDebugHud, setShowDebugHud] = useState(false);
 
   const getSessionStatus = () => {
     if (sessionState.isLoading) return 'Initializing AR...';
@@ -116,9 +119,45 @@ export default function AROverlay({
           </View>
         )}
 
-        {/* Performance Stats */}
+        {/* Debug HUD */}
+        {sessionState.isActive && showDebugHud && (
+          <View style={styles.debugHud}>
+            <View style={styles.debugHeader}>
+              <Activity size={14} color="#00d4ff" strokeWidth={2} />
+              <Text style={styles.debugTitle}>Render Profile</Text>
+              {onExportProfile && (
+                <TouchableOpacity
+                  style={styles.debugExportButton}
+                  onPress={onExportProfile}
+                  activeOpacity={0.7}
+                >
+                  <Download size={14} color="#fff" strokeWidth={2} />
+                  <Text style={styles.debugExportText}>Export JSON</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            <Text style={styles.debugRow}>
+              Frame time p50 {sessionState.renderStats.frameTimeP50.toFixed(1)}ms · p95 {sessionState.renderStats.frameTimeP95.toFixed(1)}ms
+            </Text>
+            <Text style={styles.debugRow}>
+              Dropped frames {sessionState.renderStats.droppedFrames}
+            </Text>
+            <Text style={styles.debugRow}>
+              GPU memory {sessionState.renderStats.geometries} geometries · {sessionState.renderStats.textures} textures
+            </Text>
+            <Text style={styles.debugRow}>
+              Avg object load {sessionState.renderStats.averageLoadTimeMs.toFixed(0)}ms
+            </Text>
+          </View>
+        )}
+
+        {/* Performance Stats - tap to toggle the debug HUD */}
         {sessionState.isActive && (
-          <View style={styles.statsContainer}>
+          <TouchableOpacity
+            style={styles.statsContainer}
+            onPress={() => setShowDebugHud(!showDebugHud)}
+            activeOpacity={0.8}
+          >
             <View style={styles.statItem}>
               <Text style={styles.statLabel}>FPS</Text>
               <Text style={styles.statValue}>{sessionState.renderStats.fps}</Text>
@@ -131,7 +170,13 @@ export default function AROverlay({
               <Text style={styles.statLabel}>Draw Calls</Text>
               <Text style={styles.statValue}>{sessionState.renderStats.drawCalls}</Text>
             </View>
-          </View>
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Cache</Text>
+              <Text style={styles.statValue}>
+                {sessionState.renderStats.cacheHits}/{sessionState.renderStats.cacheHits + sessionState.renderStats.cacheMisses}
+              </Text>
+            </View>
+          </TouchableOpacity>
         )}
 
         {/* Objects in View */}
@@ -302,7 +347,7 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     padding: 12,
     gap: 16,
-    pointerEvents: 'none',
+    pointerEvents: 'auto',
   },
   statItem: {
     alignItems: 'center',
@@ -318,6 +363,46 @@ const styles = StyleSheet.create({
     color: '#fff',
   },
 
+  // Debug HUD
+  debugHud: {
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    borderRadius: 12,
+    padding: 12,
+    gap: 4,
+    pointerEvents: 'auto',
+  },
+  debugHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  debugTitle: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  debugExportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: 'rgba(0, 212, 255, 0.2)',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  debugExportText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  debugRow: {
+    fontSize: 11,
+    color: '#ccc',
+    fontFamily: 'monospace',
+  },
+
   // Objects container
   objectsContainer: {
     backgroundColor: 'rgba(0, 0, 0, 0.8)',
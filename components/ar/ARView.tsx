@@ -1,17 +1,22 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { View, StyleSheet, Dimensions, Platform, Text } from 'react-native';
+import { View, StyleSheet, Dimensions, Platform, Text, Share, TouchableOpacity } from 'react-native';
 import { useAR } from '@/hooks/useAR';
 import { DeployedObject } from '@/types/database';
 import { LocationData } from '@/hooks/useLocation';
+import { ARObjectSelection } from '@/types/ar';
 import AROverlay from './AROverlay';
 import ARControls from './ARControls';
+import ARObjectLabels from './ARObjectLabels';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 
 interface ARViewProps {
   objects: DeployedObject[];
   userLocation: LocationData | null;
   onObjectSelect?: (objectId: string) => void;
+  onAgentSelect?: (agent: DeployedObject, selection: ARObjectSelection) => void;
   onError?: (error: string) => void;
+  // Agent that plays its speaking animation, e.g. during a chat reply
+  speakingAgentId?: string | null;
 }
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
@@ -33,7 +38,9 @@ export default function ARView({
   objects, 
   userLocation, 
   onObjectSelect, 
-  onError 
+  onAgentSelect,
+  onError,
+  speakingAgentId = null,
 }: ARViewProps) {
   const [canvasElement, setCanvasElement] = useState<HTMLCanvasElement | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
@@ -48,8 +55,17 @@ export default function ARView({
     initializeSession,
     loadObjects,
     getObjectsInView,
+    getLabelAnchors,
     endSession,
     handleResize,
+    startXRSession,
+    endXRSession,
+    sensorPermissionNeeded,
+    requestSensorPermission,
+    selectedObject,
+    selectObjectAt,
+    setAgentSpeaking,
+    exportProfile,
   } = useAR({
     enableDeviceOrientation: true,
     maxObjects: 20,
@@ -109,6 +125,51 @@ export default function ARView({
     }
   }, [objects, userLocation, sessionState.isActive, sessionState.isLoading, loadObjects]);
 
+  // Route taps on 3D objects to the selection callbacks. Callbacks are read
+  // through a ref so inline handlers from the parent do not re-fire it.
+  const selectionHandlers = useRef({ onObjectSelect, onAgentSelect });
+  selectionHandlers.current = { onObjectSelect, onAgentSelect };
+
+  useEffect(() => {
+    if (selectedObject) {
+      selectionHandlers.current.onObjectSelect?.(selectedObject.objectId);
+      selectionHandlers.current.onAgentSelect?.(selectedObject.object, selectedObject);
+    }
+  }, [selectedObject]);
+
+  useEffect(() => {
+    if (!speakingAgentId) return;
+
+    setAgentSpeaking(speakingAgentId, true);
+    return () => setAgentSpeaking(speakingAgentId, false);
+  }, [speakingAgentId, setAgentSpeaking]);
+
+  const handleCanvasTap = useCallback((event: { clientX: number; clientY: number }) => {
+    selectObjectAt(event.clientX, event.clientY);
+  }, [selectObjectAt]);
+
+  // Save the render profile as a JSON file on web, share it elsewhere
+  const handleExportProfile = useCallback(() => {
+    const report = exportProfile();
+    if (!report) {
+      return;
+    }
+
+    if (Platform.OS === 'web') {
+      const blob = new Blob([report], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `ar-profile-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } else {
+      Share.share({ message: report, title: 'AR render profile' }).catch((error) => {
+        console.error('Failed to share render profile:', error);
+      });
+    }
+  }, [exportProfile]);
+
   // Handle errors from AR session
   useEffect(() => {
     if (sessionState.error) {
@@ -281,16 +342,29 @@ export default function ARView({
       <canvas
         ref={canvasRefCallback}
         style={styles.canvas}
+        onClick={handleCanvasTap}
         width={screenWidth}
         height={screenHeight}
       />
 
+      {/* Agent labels anchored to the 3D objects */}
+      {sessionState.isActive && (
+        <ARObjectLabels
+          objects={objects}
+          getAnchors={getLabelAnchors}
+          width={screenWidth}
+          height={screenHeight}
+          selectedObjectId={selectedObject?.objectId ?? null}
+        />
+      )}
+
       {/* AR Overlay */}
       <AROverlay
         sessionState={sessionState}
         capabilities={capabilities}
         objectsInView={getObjectsInView()}
         onObjectSelect={onObjectSelect}
+        onExportProfile={handleExportProfile}
       />
 
       {/* AR Controls */}
@@ -300,8 +374,23 @@ export default function ARView({
         onToggleOrientation={() => {
           console.log('Toggle device orientation tracking');
         }}
+        xrSupported={capabilities.webXRSupported}
+        onToggleXR={() => {
+          if (sessionState.mode === 'webxr') {
+            endXRSession();
+          } else {
+            startXRSession();
+          }
+        }}
       />
 
+      {/* iOS only allows motion sensors after a tap */}
+      {sensorPermissionNeeded && sessionState.isActive && (
+        <TouchableOpacity style={styles.sensorPrompt} onPress={requestSensorPermission}>
+          <Text style={styles.sensorPromptText}>Tap to enable motion sensors</Text>
+        </TouchableOpacity>
+      )}
+
       {/* Initialization Error Display */}
       {initializationError && !sessionState.isLoading && webGLSupported && (
         <View style={styles.errorOverlay}>
@@ -371,6 +460,22 @@ const styles = StyleSheet.create({
     color: '#fff',
     textAlign: 'center',
   },
+  sensorPrompt: {
+    position: 'absolute',
+    bottom: 120,
+    alignSelf: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#00EC97',
+  },
+  sensorPromptText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   errorOverlay: {
     position: 'absolute',
     top: 0,
@@ -0,0 +1,223 @@
+import {
+  AgentDisplayData,
+  AgentPositionSmoother,
+  calculateAgentPositions,
+  getApparentSize,
+  projectAgentToScreen,
+  seededUnit,
+} from '@/components/ar/AgentPositioning';
+import { DeployedObject } from '@/types/database';
+import { LocationData } from '@/hooks/useLocation';
+
+const USER: LocationData = { latitude: 37.7749, longitude: -122.4194, altitude: 10 } as LocationData;
+
+// Meters per degree of latitude near the test location
+const METERS_PER_DEGREE = 111_000;
+
+function makeAgent(overrides: Partial<DeployedObject> = {}): DeployedObject {
+  return {
+    id: 'agent-1',
+    user_id: 'user-1',
+    name: 'Test Agent',
+    object_type: 'Intelligent Assistant',
+    latitude: USER.latitude,
+    longitude: USER.longitude,
+    ...overrides,
+  };
+}
+
+function makeDisplay(overrides: Partial<AgentDisplayData> = {}): AgentDisplayData {
+  return {
+    id: 'agent-1',
+    position: { x: 0, y: 0, z: -10 },
+    size: 1,
+    distance: 10,
+    inRange: true,
+    bearing: 0,
+    elevation: 0,
+    ...overrides,
+  };
+}
+
+const VIEWPORT = { width: 400, height: 800, horizontalFov: 60 };
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('seededUnit', () => {
+  it('returns the same value for the same seed', () => {
+    expect(seededUnit('agent-42')).toBe(seededUnit('agent-42'));
+  });
+
+  it('stays in [0, 1) and spreads across seeds', () => {
+    const values = Array.from({ length: 500 }, (_, i) => seededUnit(`agent-${i}`));
+    values.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    expect(mean).toBeGreaterThan(0.45);
+    expect(mean).toBeLessThan(0.55);
+    expect(new Set(values).size).toBe(values.length);
+  });
+});
+
+describe('calculateAgentPositions', () => {
+  it('places an agent due north in front of the user', () => {
+    const agent = makeAgent({ latitude: USER.latitude + 100 / METERS_PER_DEGREE, altitude: 10 });
+    const { [agent.id]: display } = calculateAgentPositions([agent], USER);
+
+    expect(display.bearing < 0.1 || display.bearing > 359.9).toBe(true);
+    expect(display.distance).toBeCloseTo(100, -1);
+    expect(display.position.z).toBeCloseTo(-display.distance, 0);
+    expect(display.position.x).toBeCloseTo(0, 1);
+    // Measured from eye height, an agent on the user's level sits below the horizon
+    expect(display.elevation).toBeCloseTo(Math.atan2(-1.6, display.distance) * 180 / Math.PI, 1);
+  });
+
+  it('gives each agent the same size on every recompute', () => {
+    const agents = [makeAgent({ id: 'a' }), makeAgent({ id: 'b' }), makeAgent({ id: 'c' })];
+    const first = calculateAgentPositions(agents, USER);
+    const second = calculateAgentPositions(agents, USER);
+
+    agents.forEach(({ id }) => {
+      expect(second[id].size).toBe(first[id].size);
+      // Intelligent Assistant base size 1.1 m with ±10% variation
+      expect(first[id].size).toBeGreaterThanOrEqual(1.1 * 0.9);
+      expect(first[id].size).toBeLessThan(1.1 * 1.1);
+    });
+  });
+
+  it('scales the size with the deployed scale', () => {
+    const normal = calculateAgentPositions([makeAgent()], USER)['agent-1'];
+    const doubled = calculateAgentPositions([makeAgent({ scale_x: 2 })], USER)['agent-1'];
+    expect(doubled.size).toBeCloseTo(normal.size * 2, 10);
+  });
+
+  it('skips agents beyond the maximum distance and flags range', () => {
+    const near = makeAgent({ id: 'near', latitude: USER.latitude + 30 / METERS_PER_DEGREE, visibility_radius: 50 });
+    const edge = makeAgent({ id: 'edge', latitude: USER.latitude + 80 / METERS_PER_DEGREE, visibility_radius: 50 });
+    const far = makeAgent({ id: 'far', latitude: USER.latitude + 500 / METERS_PER_DEGREE });
+
+    const positions = calculateAgentPositions([near, edge, far], USER, 150);
+    expect(Object.keys(positions).sort()).toEqual(['edge', 'near']);
+    expect(positions.near.inRange).toBe(true);
+    expect(positions.edge.inRange).toBe(false);
+  });
+
+  it('returns nothing without a location', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(calculateAgentPositions([makeAgent()], null)).toEqual({});
+  });
+});
+
+describe('getApparentSize', () => {
+  it('follows the pinhole model between the limits', () => {
+    // Focal length for a 400 px wide, 60° preview
+    const focalLength = 200 / Math.tan(30 * Math.PI / 180);
+    expect(getApparentSize({ size: 1, distance: 5 }, VIEWPORT)).toBeCloseTo(focalLength / 5, 6);
+    expect(getApparentSize({ size: 1, distance: 4 }, VIEWPORT)).toBeCloseTo(focalLength / 4, 6);
+  });
+
+  it('clamps to the minimum and maximum size', () => {
+    expect(getApparentSize({ size: 1, distance: 1000 }, VIEWPORT)).toBe(36);
+    expect(getApparentSize({ size: 5, distance: 0.1 }, VIEWPORT)).toBe(220);
+    expect(getApparentSize({ size: 1, distance: 1000 }, VIEWPORT, { min: 0 })).toBeGreaterThan(0);
+  });
+});
+
+describe('AgentPositionSmoother', () => {
+  it('shows new agents at their target straight away', () => {
+    const smoother = new AgentPositionSmoother();
+    smoother.setTargets({ 'agent-1': makeDisplay({ bearing: 45 }) });
+    expect(smoother.update(0)['agent-1'].bearing).toBe(45);
+    expect(smoother.isSettled()).toBe(true);
+  });
+
+  it('eases towards a new target with the time constant', () => {
+    const smoother = new AgentPositionSmoother({ timeConstantMs: 400 });
+    smoother.setTargets({ 'agent-1': makeDisplay({ distance: 10 }) });
+    smoother.update(0);
+
+    smoother.setTargets({ 'agent-1': makeDisplay({ distance: 20 }) });
+    const eased = smoother.update(400)['agent-1'];
+    expect(eased.distance).toBeCloseTo(10 + 10 * (1 - Math.exp(-1)), 6);
+    expect(smoother.isSettled()).toBe(false);
+
+    smoother.update(10_000);
+    expect(smoother.isSettled()).toBe(true);
+  });
+
+  it('turns the short way round through north', () => {
+    const smoother = new AgentPositionSmoother({ timeConstantMs: 400 });
+    smoother.setTargets({ 'agent-1': makeDisplay({ bearing: 350 }) });
+    smoother.update(0);
+
+    smoother.setTargets({ 'agent-1': makeDisplay({ bearing: 10 }) });
+    const bearing = smoother.update(400)['agent-1'].bearing;
+    expect(bearing < 10 || bearing > 350).toBe(true);
+  });
+
+  it('drops agents that are no longer targeted', () => {
+    const smoother = new AgentPositionSmoother();
+    smoother.setTargets({ a: makeDisplay({ id: 'a' }), b: makeDisplay({ id: 'b' }) });
+    smoother.update(0);
+
+    smoother.setTargets({ b: makeDisplay({ id: 'b' }) });
+    expect(Object.keys(smoother.update(16))).toEqual(['b']);
+  });
+
+  it('gives the same path for the same timestamps', () => {
+    const run = () => {
+      const smoother = new AgentPositionSmoother();
+      smoother.setTargets({ 'agent-1': makeDisplay({ bearing: 0 }) });
+      smoother.update(0);
+      smoother.setTargets({ 'agent-1': makeDisplay({ bearing: 90 }) });
+      return [16, 33, 50, 200].map((now) => smoother.update(now)['agent-1'].bearing);
+    };
+    expect(run()).toEqual(run());
+  });
+});
+
+describe('projectAgentToScreen', () => {
+  it('puts an agent straight ahead in the centre', () => {
+    const screen = projectAgentToScreen({ bearing: 90, elevation: 0 }, 90, 0, VIEWPORT);
+    expect(screen.onScreen).toBe(true);
+    expect(screen.x).toBeCloseTo(200, 6);
+    expect(screen.y).toBeCloseTo(400, 6);
+  });
+
+  it('moves an agent to the right of the heading right of centre', () => {
+    const screen = projectAgentToScreen({ bearing: 15, elevation: 0 }, 0, 0, VIEWPORT);
+    const expectedX = 200 + (Math.tan(15 * Math.PI / 180) / Math.tan(30 * Math.PI / 180)) * 200;
+    expect(screen.onScreen).toBe(true);
+    expect(screen.x).toBeCloseTo(expectedX, 6);
+    expect(screen.y).toBeCloseTo(400, 6);
+  });
+
+  it('moves an agent down the screen as the phone tilts up', () => {
+    const level = projectAgentToScreen({ bearing: 0, elevation: 0 }, 0, 0, VIEWPORT);
+    const tilted = projectAgentToScreen({ bearing: 0, elevation: 0 }, 0, 10, VIEWPORT);
+    expect(tilted.onScreen).toBe(true);
+    expect(tilted.y).toBeGreaterThan(level.y);
+  });
+
+  it('points an edge arrow at agents outside the view', () => {
+    const right = projectAgentToScreen({ bearing: 80, elevation: 0 }, 0, 0, VIEWPORT);
+    expect(right.onScreen).toBe(false);
+    expect(right.edge).not.toBeNull();
+    expect(right.edge!.x).toBeCloseTo(400 - 32, 6);
+    expect(right.edge!.angle).toBeCloseTo(90, 6);
+
+    const behindLeft = projectAgentToScreen({ bearing: 200, elevation: 0 }, 0, 0, VIEWPORT);
+    expect(behindLeft.onScreen).toBe(false);
+    expect(behindLeft.edge!.x).toBeCloseTo(32, 6);
+    expect(behindLeft.edge!.angle).toBeCloseTo(-90, 6);
+  });
+});
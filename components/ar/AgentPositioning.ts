@@ -1,5 +1,13 @@
 import { DeployedObject } from '@/types/database';
 import { LocationData } from '@/hooks/useLocation';
+import { EnuFrame, enuToWorld } from '@/lib/geodetic';
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+// Phones are held at roughly eye height, so elevation angles are measured
+// from there rather than from the ground
+const EYE_HEIGHT = 1.6;
 
 // Interface for 3D position
 export interface Position3D {
@@ -11,12 +19,46 @@ export interface Position3D {
 // Interface for agent display data
 export interface AgentDisplayData {
   id: string;
+  // Offset from the user in the AR engine's world frame (+X east, +Y up,
+  // -Z north), in meters
   position: Position3D;
+  // Real-world height of the agent (meters); see getApparentSize
   size: number;
   distance: number;
   inRange: boolean;
+  // Clockwise from true north (0-360) and above the horizon, in degrees
+  bearing: number;
+  elevation: number;
 }
 
+export interface ScreenViewport {
+  width: number;
+  height: number;
+  // Horizontal field of view of the camera preview (degrees)
+  horizontalFov?: number;
+}
+
+export interface AgentScreenPosition {
+  // Screen position of the agent (pixels); only meaningful when onScreen
+  x: number;
+  y: number;
+  onScreen: boolean;
+  // Where to draw the edge arrow for an off-screen agent, and the direction
+  // it points (degrees, clockwise from screen up)
+  edge: { x: number; y: number; angle: number } | null;
+}
+
+// Typical phone rear camera in portrait
+const DEFAULT_HORIZONTAL_FOV = 60;
+
+// Edge arrows are inset this far from the screen border (pixels)
+const EDGE_INSET = 32;
+
+// Bounds on the rendered agent size (pixels), so distant agents stay tappable
+// and close ones do not fill the screen
+const MIN_APPARENT_SIZE = 36;
+const MAX_APPARENT_SIZE = 220;
+
 /**
  * Calculate realistic 3D positions for agents based on GPS coordinates
  * with centimeter-level precision
@@ -40,19 +82,20 @@ export function calculateAgentPositions(
   
   console.log(`Calculating positions for ${agents.length} agents relative to user at ${userLocation.latitude.toFixed(6)}, ${userLocation.longitude.toFixed(6)}`);
   
-  // Earth radius in meters
-  const EARTH_RADIUS = 6371000;
+  // Local tangent frame at the user, so offsets come out in meters
+  const userAltitude = userLocation.altitude || 0;
+  const frame = new EnuFrame(userLocation.latitude, userLocation.longitude, userAltitude);
   
-  agents.forEach((agent, index) => {
+  agents.forEach((agent) => {
     try {
       if (!agent || !agent.id || isNaN(agent.latitude) || isNaN(agent.longitude)) {
         console.warn('Invalid agent data:', agent);
         return;
       }
       
-      // Calculate distance from user to agent
-      const distance = agent.distance_meters || 
-        calculateDistance(
+      // Live distance from the current fix; the distance_meters column was
+      // computed when the agents were queried and goes stale as the user moves
+      const distance = calculateDistance(
           userLocation.latitude,
           userLocation.longitude,
           agent.latitude,
@@ -65,37 +108,30 @@ export function calculateAgentPositions(
         return;
       }
       
-      // Calculate size based on agent type and distance
+      // Real-world size from the agent type and its deployed scale, with a
+      // small per-agent variation seeded by its id so it never changes
       const baseSize = getBaseSizeForAgentType(agent.object_type);
-      const sizeVariation = 0.8 + Math.random() * 0.4; // ±20% size variation
-      
-      // Improved non-linear distance scaling
-      let distanceScaling = 1.0;
-      if (distance < 10) {
-        // Objects very close appear slightly larger
-        distanceScaling = 1.2;
-      } else if (distance < 50) {
-        // Objects at medium distance appear normal size
-        distanceScaling = 1.0;
-      } else {
-        // Objects far away scale down gradually
-        distanceScaling = Math.max(0.4, 1 - ((distance - 50) / 100) * 0.6);
-      }
-      
-      const finalSize = baseSize * sizeVariation * distanceScaling;
+      const scale = Math.max(agent.scale_x || 1, agent.scale_y || 1);
+      const sizeVariation = 0.9 + seededUnit(agent.id) * 0.2; // ±10% size variation
+      const finalSize = baseSize * scale * sizeVariation;
+
+      // Agents without an altitude stand on the ground at the user's level
+      const agentAltitude = typeof agent.altitude === 'number' ? agent.altitude : userAltitude;
+      const enu = frame.geodeticToEnu(agent.latitude, agent.longitude, agentAltitude);
+      const horizontal = Math.sqrt(enu.east * enu.east + enu.north * enu.north);
+      const bearing = (Math.atan2(enu.east, enu.north) * RAD_TO_DEG + 360) % 360;
+      const elevation = Math.atan2(enu.up - EYE_HEIGHT, horizontal) * RAD_TO_DEG;
       
       // Store calculated position and metadata
-      console.log(`Positioned agent ${agent.name} (${agent.id}) at distance ${distance}m, size ${finalSize}`);
+      console.log(`Positioned agent ${agent.name} (${agent.id}) at distance ${distance}m, size ${finalSize}m`);
       positions[agent.id] = {
         id: agent.id,
-        position: { 
-          x: 0, // Will be set by grid layout
-          y: 0, // Will be set by grid layout
-          z: 0, // Will be set by grid layout
-        },
+        position: enuToWorld(enu),
         size: finalSize,
         distance: distance,
-        inRange: distance <= (agent.visibility_radius || 50)
+        inRange: distance <= (agent.visibility_radius || 50),
+        bearing,
+        elevation,
       };
     } catch (error) {
       console.error(`Error calculating position for agent ${agent.id}:`, error);
@@ -106,6 +142,191 @@ export function calculateAgentPositions(
   return positions;
 }
 
+/**
+ * Deterministic value in [0, 1) derived from a string (FNV-1a), so per-agent
+ * variation is stable across recomputes and sessions
+ */
+export function seededUnit(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * On-screen size (pixels) of an agent of the given real-world size at the
+ * given distance, for a pinhole camera with the viewport's field of view
+ */
+export function getApparentSize(
+  agent: Pick<AgentDisplayData, 'size' | 'distance'>,
+  viewport: ScreenViewport,
+  limits: { min?: number; max?: number } = {}
+): number {
+  const min = limits.min ?? MIN_APPARENT_SIZE;
+  const max = limits.max ?? MAX_APPARENT_SIZE;
+  const tanHalfHorizontal = Math.tan(((viewport.horizontalFov ?? DEFAULT_HORIZONTAL_FOV) / 2) * DEG_TO_RAD);
+  const focalLength = viewport.width / 2 / tanHalfHorizontal;
+  // Never closer than a step away, where the size would blow up
+  const distance = Math.max(agent.distance, 1);
+
+  return Math.min(max, Math.max(min, (agent.size / distance) * focalLength));
+}
+
+export interface AgentPositionSmootherOptions {
+  // Time constant of the exponential smoothing (milliseconds)
+  timeConstantMs?: number;
+  // Changes smaller than this count as settled (degrees, meters)
+  epsilon?: number;
+}
+
+// Shortest signed difference between two angles (degrees)
+const angleDelta = (from: number, to: number) => ((to - from + 540) % 360) - 180;
+
+/**
+ * Eases each agent's bearing, elevation, distance and size towards the latest
+ * computed values, so a new GPS fix glides agents to their new place instead
+ * of making them jump. Time is passed in, which keeps it reproducible.
+ */
+export class AgentPositionSmoother {
+  private current: Map<string, AgentDisplayData> = new Map();
+  private targets: Record<string, AgentDisplayData> = {};
+  private lastUpdate: number | null = null;
+  private timeConstantMs: number;
+  private epsilon: number;
+
+  constructor(options: AgentPositionSmootherOptions = {}) {
+    this.timeConstantMs = options.timeConstantMs ?? 400;
+    this.epsilon = options.epsilon ?? 0.05;
+  }
+
+  // New agents appear at their target straight away; removed ones are dropped
+  public setTargets(targets: Record<string, AgentDisplayData>) {
+    this.targets = targets;
+    Array.from(this.current.keys()).forEach((id) => {
+      if (!targets[id]) {
+        this.current.delete(id);
+      }
+    });
+    Object.values(targets).forEach((target) => {
+      if (!this.current.has(target.id)) {
+        this.current.set(target.id, { ...target, position: { ...target.position } });
+      }
+    });
+  }
+
+  public update(now: number): Record<string, AgentDisplayData> {
+    const dt = this.lastUpdate === null ? 0 : Math.max(now - this.lastUpdate, 0);
+    this.lastUpdate = now;
+    const blend = this.timeConstantMs > 0 ? 1 - Math.exp(-dt / this.timeConstantMs) : 1;
+    const result: Record<string, AgentDisplayData> = {};
+
+    this.current.forEach((current, id) => {
+      const target = this.targets[id];
+      const lerp = (from: number, to: number) => from + (to - from) * blend;
+
+      const next: AgentDisplayData = {
+        ...target,
+        position: {
+          x: lerp(current.position.x, target.position.x),
+          y: lerp(current.position.y, target.position.y),
+          z: lerp(current.position.z, target.position.z),
+        },
+        bearing: (current.bearing + angleDelta(current.bearing, target.bearing) * blend + 360) % 360,
+        elevation: lerp(current.elevation, target.elevation),
+        distance: lerp(current.distance, target.distance),
+        size: lerp(current.size, target.size),
+      };
+
+      this.current.set(id, next);
+      result[id] = next;
+    });
+
+    return result;
+  }
+
+  public isSettled(): boolean {
+    return Array.from(this.current.values()).every((current) => {
+      const target = this.targets[current.id];
+      return (
+        Math.abs(angleDelta(current.bearing, target.bearing)) < this.epsilon &&
+        Math.abs(current.elevation - target.elevation) < this.epsilon &&
+        Math.abs(current.distance - target.distance) < this.epsilon &&
+        Math.abs(current.size - target.size) < this.epsilon
+      );
+    });
+  }
+
+  public reset() {
+    this.current.clear();
+    this.targets = {};
+    this.lastUpdate = null;
+  }
+}
+
+/**
+ * Project an agent onto the camera preview from its bearing and elevation
+ * relative to the device heading and pitch (degrees). Screen roll is ignored;
+ * the overlay assumes the phone is held upright.
+ */
+export function projectAgentToScreen(
+  agent: Pick<AgentDisplayData, 'bearing' | 'elevation'>,
+  heading: number,
+  pitch: number,
+  viewport: ScreenViewport
+): AgentScreenPosition {
+  const { width, height } = viewport;
+  const halfWidth = width / 2;
+  const halfHeight = height / 2;
+  const tanHalfHorizontal = Math.tan(((viewport.horizontalFov ?? DEFAULT_HORIZONTAL_FOV) / 2) * DEG_TO_RAD);
+  const tanHalfVertical = tanHalfHorizontal * (height / width);
+
+  // Direction to the agent in camera space: yaw by the relative bearing,
+  // then tilt by the device pitch
+  const relativeBearing = (agent.bearing - heading) * DEG_TO_RAD;
+  const elevation = agent.elevation * DEG_TO_RAD;
+  const pitchRad = pitch * DEG_TO_RAD;
+
+  const right = Math.cos(elevation) * Math.sin(relativeBearing);
+  const level = Math.cos(elevation) * Math.cos(relativeBearing);
+  const forward = level * Math.cos(pitchRad) + Math.sin(elevation) * Math.sin(pitchRad);
+  const up = Math.sin(elevation) * Math.cos(pitchRad) - level * Math.sin(pitchRad);
+
+  if (forward > 0) {
+    const x = halfWidth + (right / forward / tanHalfHorizontal) * halfWidth;
+    const y = halfHeight - (up / forward / tanHalfVertical) * halfHeight;
+
+    if (x >= 0 && x <= width && y >= 0 && y <= height) {
+      return { x, y, onScreen: true, edge: null };
+    }
+  }
+
+  // Off screen: point from the centre towards the agent. Behind the camera
+  // only the sideways component is meaningful.
+  const dx = forward > 0 ? right / forward / tanHalfHorizontal : (right >= 0 ? 1 : -1);
+  const dy = forward > 0 ? up / forward / tanHalfVertical : 0;
+  const angle = Math.atan2(dx, dy);
+
+  const maxX = Math.max(halfWidth - EDGE_INSET, 0);
+  const maxY = Math.max(halfHeight - EDGE_INSET, 0);
+  const scale = Math.min(
+    Math.abs(dx) > 0 ? maxX / Math.abs(dx * halfWidth) : Infinity,
+    Math.abs(dy) > 0 ? maxY / Math.abs(dy * halfHeight) : Infinity
+  );
+
+  return {
+    x: NaN,
+    y: NaN,
+    onScreen: false,
+    edge: {
+      x: halfWidth + dx * halfWidth * scale,
+      y: halfHeight - dy * halfHeight * scale,
+      angle: angle * RAD_TO_DEG,
+    },
+  };
+}
+
 /**
  * Calculate distance between two GPS coordinates using Haversine formula
  * Returns distance in meters
@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Svg, { Circle, G, Line, Path, Text as SvgText } from 'react-native-svg';
+import { DeployedObject } from '@/types/database';
+import { LocationData } from '@/hooks/useLocation';
+import { useDeviceHeading } from '@/hooks/useDeviceHeading';
+import { RangeDetectionService } from '@/services/RangeDetectionService';
+import { calculateAgentPositions } from './AgentPositioning';
+
+interface AgentRadarProps {
+  agents: DeployedObject[];
+  userLocation: LocationData | null;
+  onAgentSelect?: (agent: DeployedObject) => void;
+  selectedAgentId?: string | null;
+  // Radius covered by the radar (meters); further agents sit on the rim
+  range?: number;
+  size?: number;
+}
+
+const DEG_TO_RAD = Math.PI / 180;
+
+// Matches the overlay's default camera field of view
+const FOV_DEGREES = 60;
+
+const BLIP_RADIUS = 5;
+
+// Tap targets are larger than the drawn blips so they are easy to hit
+const BLIP_HIT_RADIUS = 12;
+
+// Point at the given bearing (clockwise from screen up) and distance from the
+// radar centre, in SVG coordinates
+const polar = (center: number, radius: number, angle: number) => ({
+  x: center + radius * Math.sin(angle * DEG_TO_RAD),
+  y: center - radius * Math.cos(angle * DEG_TO_RAD),
+});
+
+/**
+ * Heading-up radar of the agents around the user. Without a compass reading
+ * it falls back to north-up.
+ */
+export default function AgentRadar({
+  agents,
+  userLocation,
+  onAgentSelect,
+  selectedAgentId,
+  range = 100,
+  size = 140,
+}: AgentRadarProps) {
+  const [agentsInRange, setAgentsInRange] = useState<Set<string>>(new Set());
+  const { heading } = useDeviceHeading(userLocation);
+
+  // Twice the radar range so agents just outside still show on the rim
+  const positions = useMemo(
+    () => calculateAgentPositions(agents, userLocation, range * 2),
+    [agents, userLocation, range]
+  );
+
+  useEffect(() => {
+    const applyInRange = (inRange: DeployedObject[]) => {
+      setAgentsInRange(new Set(inRange.map((agent) => agent.id)));
+    };
+
+    const service = RangeDetectionService.getInstance();
+    applyInRange(service.getCurrentAgentsInRange());
+    return service.subscribe(applyInRange);
+  }, []);
+
+  const center = size / 2;
+  const radius = center - BLIP_HIT_RADIUS / 2;
+  const metersToPixels = radius / range;
+  const rotation = heading ?? 0;
+  const northAngle = -rotation;
+  const north = polar(center, radius - 8, northAngle);
+
+  // Camera field of view wedge, always pointing up
+  const fovLeft = polar(center, radius, -FOV_DEGREES / 2);
+  const fovRight = polar(center, radius, FOV_DEGREES / 2);
+  const fovPath = `M ${center} ${center} L ${fovLeft.x} ${fovLeft.y} A ${radius} ${radius} 0 0 1 ${fovRight.x} ${fovRight.y} Z`;
+
+  const blips = agents
+    .map((agent) => {
+      const position = positions[agent.id];
+      if (!position) return null;
+
+      const beyondRange = position.distance > range;
+      const point = polar(
+        center,
+        Math.min(position.distance, range) * metersToPixels,
+        position.bearing - rotation
+      );
+
+      return {
+        agent,
+        point,
+        beyondRange,
+        // visibility_radius is drawn around the blip at radar scale
+        visibilityRadius: (agent.visibility_radius || 50) * metersToPixels,
+        inRange: agentsInRange.has(agent.id),
+        selected: agent.id === selectedAgentId,
+      };
+    })
+    .filter((blip): blip is NonNullable<typeof blip> => blip !== null);
+
+  return (
+    <View style={[styles.container, { width: size, height: size + 20 }]}>
+      <Svg width={size} height={size}>
+        {/* Range rings */}
+        <Circle cx={center} cy={center} r={radius} fill="rgba(0, 0, 0, 0.6)" stroke="rgba(0, 212, 255, 0.6)" strokeWidth={1.5} />
+        <Circle cx={center} cy={center} r={radius / 2} fill="none" stroke="rgba(0, 212, 255, 0.25)" strokeWidth={1} />
+
+        <Path d={fovPath} fill="rgba(0, 212, 255, 0.15)" />
+
+        {/* Agent visibility radii, clipped by the outer ring */}
+        {blips.map((blip) => (
+          !blip.beyondRange && (
+            <Circle
+              key={`radius-${blip.agent.id}`}
+              cx={blip.point.x}
+              cy={blip.point.y}
+              r={Math.min(blip.visibilityRadius, radius)}
+              fill={blip.inRange ? 'rgba(0, 236, 151, 0.08)' : 'none'}
+              stroke={blip.inRange ? 'rgba(0, 236, 151, 0.5)' : 'rgba(255, 255, 255, 0.15)'}
+              strokeWidth={1}
+              strokeDasharray="3,3"
+            />
+          )
+        ))}
+
+        {/* North marker */}
+        {heading !== null && (
+          <SvgText x={north.x} y={north.y + 4} fill="#ff6b35" fontSize={10} fontWeight="bold" textAnchor="middle">
+            N
+          </SvgText>
+        )}
+
+        {/* User */}
+        <Line x1={center} y1={center} x2={center} y2={center - 8} stroke="#fff" strokeWidth={2} />
+        <Circle cx={center} cy={center} r={3} fill="#fff" />
+
+        {/* Agents */}
+        {blips.map((blip) => (
+          <G key={blip.agent.id} onPress={() => onAgentSelect?.(blip.agent)}>
+            <Circle cx={blip.point.x} cy={blip.point.y} r={BLIP_HIT_RADIUS} fill="transparent" />
+            <Circle
+              cx={blip.point.x}
+              cy={blip.point.y}
+              r={blip.selected ? BLIP_RADIUS + 2 : BLIP_RADIUS}
+              fill={blip.beyondRange ? 'none' : blip.inRange ? '#00EC97' : '#00d4ff'}
+              stroke={blip.selected ? '#fff' : blip.inRange ? '#00EC97' : '#00d4ff'}
+              strokeWidth={blip.selected ? 2 : 1.5}
+            />
+          </G>
+        ))}
+      </Svg>
+      <Text style={styles.caption}>
+        {heading === null ? 'North up' : `${Math.round(heading)}°`} • {range}m
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  caption: {
+    color: '#fff',
+    fontSize: 10,
+    marginTop: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+});
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { ArrowUp, X, MapPin, CheckCircle } from 'lucide-react-native';
+import { NavigationService, NavigationState } from '@/services/NavigationService';
+import { formatEta } from '@/lib/navigation';
+
+interface NavigationHUDProps {
+  // Camera heading, clockwise from true north (degrees); null without a compass
+  heading: number | null;
+  style?: object;
+}
+
+const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+
+/**
+ * Direction, distance and ETA for the active navigation, and the arrival
+ * notice once the agent is in range. Renders nothing while idle.
+ */
+export default function NavigationHUD({ heading, style }: NavigationHUDProps) {
+  const navigationService = NavigationService.getInstance();
+  const [navigation, setNavigation] = useState<NavigationState>(navigationService.getState());
+
+  useEffect(() => {
+    const service = NavigationService.getInstance();
+    setNavigation(service.getState());
+    return service.subscribe(setNavigation);
+  }, []);
+
+  if (navigation.status === 'idle' || !navigation.target) {
+    return null;
+  }
+
+  const targetName = navigation.target.name || 'NEAR Agent';
+
+  if (navigation.status === 'arrived') {
+    return (
+      <View style={[styles.container, styles.arrivedContainer, style]}>
+        <CheckCircle size={24} color="#00EC97" strokeWidth={2} />
+        <View style={styles.details}>
+          <Text style={styles.title}>You have arrived</Text>
+          <Text style={styles.subtitle} numberOfLines={1}>{targetName} is in range</Text>
+        </View>
+        <TouchableOpacity style={styles.stopButton} onPress={() => navigationService.stopNavigation()}>
+          <X size={18} color="#fff" strokeWidth={2} />
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  // Without a compass the arrow shows the absolute bearing (north up)
+  const arrowRotation = navigation.bearing !== null ? navigation.bearing - (heading ?? 0) : 0;
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.arrow}>
+        {navigation.status === 'routing' ? (
+          <MapPin size={24} color="#00d4ff" strokeWidth={2} />
+        ) : (
+          <View style={{ transform: [{ rotate: `${arrowRotation}deg` }] }}>
+            <ArrowUp size={28} color="#00EC97" strokeWidth={3} />
+          </View>
+        )}
+      </View>
+      <View style={styles.details}>
+        <Text style={styles.title} numberOfLines={1}>{targetName}</Text>
+        <Text style={styles.subtitle}>
+          {navigation.status === 'routing' || navigation.distanceRemaining === null
+            ? 'Finding route...'
+            : `${formatDistance(navigation.distanceRemaining)} • ${formatEta(navigation.etaSeconds ?? Infinity)}`}
+        </Text>
+      </View>
+      <TouchableOpacity style={styles.stopButton} onPress={() => navigationService.stopNavigation()}>
+        <X size={18} color="#fff" strokeWidth={2} />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 236, 151, 0.5)',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  arrivedContainer: {
+    borderColor: '#00EC97',
+  },
+  arrow: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 236, 151, 0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  details: {
+    flex: 1,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  subtitle: {
+    color: '#00d4ff',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  stopButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -9,8 +9,8 @@ import {
   Dimensions,
   Modal,
 } from 'react-native';
-import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
-import { Camera, RotateCcw, X, CircleAlert as AlertCircle, Settings, Zap, ZapOff, Cuboid as Cube, RefreshCw } from 'lucide-react-native';
+import { CameraView, CameraType, useCameraPermissions, BarcodeScanningResult } from 'expo-camera';
+import { Camera, RotateCcw, X, CircleAlert as AlertCircle, Settings, Zap, ZapOff, Cuboid as Cube, RefreshCw, ScanQrCode, ImageUp } from 'lucide-react-native';
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -20,14 +20,27 @@ import Animated, {
 } from 'react-native-reanimated';
 import ARView from '@/components/ar/ARView';
 import ARAgentScene from '@/components/ar/ARAgentScene';
+import AgentRadar from '@/components/ar/AgentRadar';
+import NavigationHUD from '@/components/ar/NavigationHUD';
 import NotificationIcon from '@/components/notification/NotificationIcon';
 import { Bell } from 'lucide-react-native';
 import AgentMapView from '@/components/map/AgentMapView';
 import { DeployedObject } from '@/types/database';
 import { LocationData } from '@/hooks/useLocation';
 import { RangeDetectionService } from '@/services/RangeDetectionService';
+import { NavigationService } from '@/services/NavigationService';
+import { MarkerAnchorService, getAnchoredLocation } from '@/services/MarkerAnchorService';
+import { useDeviceHeading } from '@/hooks/useDeviceHeading';
+import { useQRScanner, QRScan } from '@/hooks/useQRScanner';
+import { MarkerAnchor, parseMarkerPayload } from '@/lib/marker-pose';
+import { pickImageFile } from '@/lib/qr/web-image';
+import { describePaymentRequest, isPaymentUri, parsePaymentUri } from '@/lib/payment-uri';
+import { AgentInteractionManager } from '@/agents';
 
-const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
+const { height: screenHeight } = Dimensions.get('window');
+
+// Deep links to an agent, e.g. myapp://agent/<id>
+const AGENT_LINK_PATTERN = /^myapp:\/\/agent\/([^/?#]+)/i;
 
 interface CameraViewProps {
   onClose: () => void;
@@ -51,12 +64,73 @@ export default function ARCameraView({
   const [error, setError] = useState<string | null>(null);
   const [showARView, setShowARView] = useState(false);
   const [retryCount, setRetryCount] = useState(0);
-  const [visibleARObjects, setVisibleARObjects] = useState<any[]>([]);
+  // Agents the overlay currently places on screen
+  const [visibleAgentIds, setVisibleAgentIds] = useState<string[]>([]);
   const [showMap, setShowMap] = useState(false);
   const [agentsInRange, setAgentsInRange] = useState<DeployedObject[]>([]);
+  const [selectedAgent, setSelectedAgent] = useState<DeployedObject | null>(null);
+  // Agent whose chat or voice reply is playing, animated in the AR view
+  const [speakingAgentId, setSpeakingAgentId] = useState<string | null>(null);
+  const [markerAnchor, setMarkerAnchor] = useState<MarkerAnchor | null>(null);
+  const [isScanMode, setIsScanMode] = useState(false);
+  const { heading } = useDeviceHeading(userLocation);
   
   const cameraRef = useRef<CameraView>(null);
   const rangeService = RangeDetectionService.getInstance();
+
+  // Codes read in scan mode: markers anchor the AR frame, agent links open
+  // the agent, payment requests are validated, anything else is shown as text
+  const handleQRScan = (scan: QRScan) => {
+    const markerId = parseMarkerPayload(scan.text);
+    if (markerId) {
+      if (scan.source === 'camera' && scan.corners.length >= 4) {
+        MarkerAnchorService.getInstance()
+          .processDetection({
+            data: scan.text,
+            cornerPoints: scan.corners,
+            intrinsics: { width: scan.imageWidth, height: scan.imageHeight },
+            compassHeading: heading,
+          })
+          .catch((error) => {
+            console.error('❌ Failed to process QR marker:', error);
+          });
+      } else {
+        Alert.alert('AR Marker', `Marker ${markerId}. Point the camera at it to anchor the AR view.`);
+      }
+      return;
+    }
+
+    const agentMatch = scan.text.trim().match(AGENT_LINK_PATTERN);
+    if (agentMatch) {
+      const agentId = decodeURIComponent(agentMatch[1]);
+      const agent = objects.find((object) => object.id === agentId);
+      if (agent) {
+        console.log('🎯 Agent selected from QR code:', agent.name);
+        setSelectedAgent(agent);
+        setIsScanMode(false);
+      } else {
+        Alert.alert('Agent Not Found', 'This agent is not deployed near your current location.');
+      }
+      return;
+    }
+
+    if (isPaymentUri(scan.text)) {
+      try {
+        Alert.alert('Payment Request', describePaymentRequest(parsePaymentUri(scan.text)));
+      } catch (error: any) {
+        Alert.alert('Invalid Payment Request', error.message || 'This payment request cannot be read.');
+      }
+      return;
+    }
+
+    Alert.alert('QR Code', scan.text);
+  };
+
+  const handleAgentSpeaking = (agentId: string, speaking: boolean) => {
+    setSpeakingAgentId((current) => (speaking ? agentId : current === agentId ? null : current));
+  };
+
+  const qrScanner = useQRScanner(cameraRef, isScanMode && isCameraReady, handleQRScan);
   
   // Animation values
   const pulseAnim = useSharedValue(1);
@@ -99,6 +173,7 @@ export default function ARCameraView({
   useEffect(() => {
     if (userLocation) {
       rangeService.updateUserLocation(userLocation);
+      NavigationService.getInstance().updateUserLocation(userLocation);
     }
     
     if (objects && objects.length > 0) {
@@ -113,45 +188,15 @@ export default function ARCameraView({
     return unsubscribe;
   }, [objects, userLocation]);
 
-  // Process objects for AR display when they change
   useEffect(() => {
-    if (objects && objects.length > 0 && userLocation && isCameraReady) {
-      console.log('🎯 Processing', objects.length, 'objects for AR display', objects);
-      
-      // Filter nearby objects (within 1km for AR display)
-      const nearbyObjects = objects.filter(obj => {
-        const distance = obj.distance_meters || 0;
-        return distance <= 1000; // 1km radius for AR
-      });
-
-      console.log('🎯 Found', nearbyObjects.length, 'nearby objects for AR');
-      
-      // Log the first few objects for debugging
-      if (nearbyObjects.length > 0) {
-        console.log('Sample objects:', nearbyObjects.slice(0, 2));
-      }
-      
-      // Transform objects for AR positioning
-      const arObjects = nearbyObjects.map((obj, index) => {
-        // Simple positioning logic - distribute objects across screen
-        const x = (index % 3) * (screenWidth / 3) + 50; // 3 columns
-        const y = Math.floor(index / 3) * 150 + 200; // Rows with spacing
-        
-        return {
-          id: obj.id,
-          name: obj.name || 'Unnamed Object',
-          x: Math.min(x, screenWidth - 100), // Keep within screen bounds
-          y: Math.min(y, screenHeight - 100),
-          distance: obj.distance_meters ? obj.distance_meters / 1000 : 0, // Convert to km
-          type: obj.object_type || 'sphere',
-          modelType: obj.model_type || 'gltf'
-        };
-      });
+    return MarkerAnchorService.getInstance().subscribe(setMarkerAnchor);
+  }, []);
 
-      setVisibleARObjects(arObjects);
-      console.log('🎯 AR objects positioned:', arObjects);
-    }
-  }, [objects, userLocation, isCameraReady, screenWidth, screenHeight]);
+  // The overlay places agents from the marker fix while it holds
+  const overlayLocation = useMemo(
+    () => getAnchoredLocation(userLocation, markerAnchor),
+    [userLocation, markerAnchor]
+  );
 
   const fadeStyle = useAnimatedStyle(() => ({
     opacity: fadeAnim.value,
@@ -192,6 +237,29 @@ export default function ARCameraView({
     }
   };
 
+  // QR markers in view snap the AR frame to their surveyed position
+  const handleBarcodeScanned = (result: BarcodeScanningResult) => {
+    if (!parseMarkerPayload(result.data)) {
+      qrScanner.handleBarcodeResult(result);
+      return;
+    }
+    if (facing !== 'back' || !result.cornerPoints || result.cornerPoints.length < 4) {
+      return;
+    }
+
+    const { width, height } = Dimensions.get('window');
+    MarkerAnchorService.getInstance()
+      .processDetection({
+        data: result.data,
+        cornerPoints: result.cornerPoints,
+        intrinsics: { width, height },
+        compassHeading: heading,
+      })
+      .catch((error) => {
+        console.error('❌ Failed to process QR marker:', error);
+      });
+  };
+
   // Toggle camera facing
   const toggleCameraFacing = () => {
     setFacing(current => (current === 'back' ? 'front' : 'back'));
@@ -238,6 +306,27 @@ export default function ARCameraView({
     setShowARView(true);
   };
 
+  const toggleScanMode = () => {
+    setIsScanMode(current => !current);
+  };
+
+  // Decode a QR code from an uploaded image (web)
+  const handleUploadImage = async () => {
+    try {
+      const file = await pickImageFile();
+      if (!file) {
+        return;
+      }
+      const found = await qrScanner.scanImage(file);
+      if (!found) {
+        Alert.alert('No QR Code', 'No QR code was found in the selected image.');
+      }
+    } catch (error) {
+      console.error('❌ Failed to scan uploaded image:', error);
+      Alert.alert('Scan Failed', 'The selected image could not be read.');
+    }
+  };
+
   // Toggle map view
   const handleToggleMap = () => {
     setShowMap(!showMap);
@@ -485,6 +574,8 @@ export default function ARCameraView({
         onCameraReady={handleCameraReady}
         onMountError={handleCameraError}
         flash={isFlashOn ? 'on' : 'off'}
+        barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+        onBarcodeScanned={handleBarcodeScanned}
       />
 
       {/* AR Objects Overlay - ABSOLUTELY POSITIONED ON TOP */}
@@ -494,12 +585,13 @@ export default function ARCameraView({
           {objects.length > 0 && (
             <ARAgentScene 
               agents={objects}
-              userLocation={userLocation}
+              userLocation={overlayLocation}
               key={`ar-scene-${objects.length}`}
               onAgentSelect={(agent) => {
                 console.log('🎯 Agent selected:', agent.name);
-                Alert.alert('Agent Interaction', `Interacting with ${agent.name}\nDistance: ${agent.distance_meters ? (agent.distance_meters / 1000).toFixed(2) : '?'}km`);
+                setSelectedAgent(agent);
               }}
+              onVisibleAgentsChange={setVisibleAgentIds}
             />
           )}
           
@@ -516,6 +608,11 @@ export default function ARCameraView({
             <Text style={styles.arStatusText}>
               Camera: {facing} • Ready for AR
             </Text>
+            {markerAnchor && (
+              <Text style={styles.arStatusText}>
+                Anchored to marker {markerAnchor.markerId}
+              </Text>
+            )}
           </View>
 
           {/* AR Scanning Line */}
@@ -526,6 +623,13 @@ export default function ARCameraView({
             <View style={styles.crosshairLine} />
             <View style={[styles.crosshairLine, styles.crosshairLineVertical]} />
           </View>
+
+          {/* QR scan frame */}
+          {isScanMode && (
+            <View style={styles.scanFrame}>
+              <Text style={styles.scanFrameText}>Point the camera at a QR code</Text>
+            </View>
+          )}
         </View>
       )}
 
@@ -614,13 +718,31 @@ export default function ARCameraView({
           <View style={styles.arInfo}>
             <Text style={styles.arInfoText}>Objects Overlaid on Camera</Text>
             <Text style={styles.arInfoSubtext}>
-              {visibleARObjects.length > 0 
-                ? `${visibleARObjects.length} objects visible • Tap to interact`
+              {visibleAgentIds.length > 0 
+                ? `${visibleAgentIds.length} objects visible • Tap to interact`
                 : 'Move camera to find objects'
               }
             </Text>
           </View>
                     
+          {isScanMode && Platform.OS === 'web' && (
+            <TouchableOpacity
+              style={styles.controlButton}
+              onPress={handleUploadImage}
+              activeOpacity={0.7}
+            >
+              <ImageUp size={24} color="#fff" strokeWidth={2} />
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity
+            style={[styles.controlButton, isScanMode && styles.controlButtonActive]}
+            onPress={toggleScanMode}
+            activeOpacity={0.7}
+          >
+            <ScanQrCode size={24} color={isScanMode ? '#00d4ff' : '#fff'} strokeWidth={2} />
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={styles.controlButton}
             onPress={toggleFlash}
@@ -635,6 +757,24 @@ export default function ARCameraView({
           </TouchableOpacity>
         </View>
 
+        {/* Turn-by-turn navigation to the selected agent */}
+        <NavigationHUD heading={heading} style={styles.navigationHud} />
+
+        {/* Radar of the agents around the user */}
+        {isCameraReady && objects.length > 0 && (
+          <View style={styles.radarContainer}>
+            <AgentRadar
+              agents={objects}
+              userLocation={userLocation}
+              selectedAgentId={selectedAgent?.id ?? null}
+              onAgentSelect={(agent) => {
+                console.log('📡 Agent selected from radar:', agent.name);
+                setSelectedAgent(agent);
+              }}
+            />
+          </View>
+        )}
+
         {/* AR Object Indicators */}
         <View style={styles.arIndicators}>
           <Animated.View style={[styles.arIndicator, pulseStyle]}>
@@ -668,6 +808,8 @@ export default function ARCameraView({
           onObjectSelect={(objectId) => {
             console.log('🎯 Selected AR object:', objectId);
           }}
+          onAgentSelect={(agent) => setSelectedAgent(agent)}
+          speakingAgentId={speakingAgentId}
           onError={(error) => {
             console.error('❌ AR View error:', error);
             Alert.alert('AR Error', error);
@@ -684,7 +826,30 @@ export default function ARCameraView({
         >
           <X size={24} color="#fff" strokeWidth={2} />
         </TouchableOpacity>
+
+        <NavigationHUD heading={heading} style={styles.navigationHud} />
+
+        {/* Agent interaction stacks on top of the full AR view while it is open */}
+        {showARView && selectedAgent && (
+          <AgentInteractionManager
+            agent={selectedAgent}
+            userLocation={userLocation}
+            visible
+            onClose={() => setSelectedAgent(null)}
+            onAgentSpeaking={handleAgentSpeaking}
+          />
+        )}
       </Modal>
+
+      {!showARView && selectedAgent && (
+        <AgentInteractionManager
+          agent={selectedAgent}
+          userLocation={userLocation}
+          visible
+          onClose={() => setSelectedAgent(null)}
+          onAgentSpeaking={handleAgentSpeaking}
+        />
+      )}
     </View>
   );
 }
@@ -988,6 +1153,9 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(255, 255, 255, 0.2)',
   },
+  controlButtonActive: {
+    borderColor: '#00d4ff',
+  },
   notificationBadge: {
     position: 'absolute',
     top: 0,
@@ -1062,6 +1230,29 @@ const styles = StyleSheet.create({
     marginTop: -20,
     marginLeft: -20,
   },
+  scanFrame: {
+    position: 'absolute',
+    top: '50%',
+    left: '50%',
+    width: 240,
+    height: 240,
+    marginTop: -120,
+    marginLeft: -120,
+    borderWidth: 2,
+    borderColor: '#00d4ff',
+    borderRadius: 16,
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+  },
+  scanFrameText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: -28,
+    textShadowColor: 'rgba(0, 0, 0, 0.8)',
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 3,
+  },
   crosshairLine: {
     position: 'absolute',
     top: '50%',
@@ -1141,6 +1332,22 @@ const styles = StyleSheet.create({
     marginTop: 2,
   },
   
+  // Navigation
+  navigationHud: {
+    position: 'absolute',
+    top: 120,
+    left: 16,
+    right: 16,
+  },
+
+  // Radar
+  radarContainer: {
+    position: 'absolute',
+    left: 16,
+    bottom: 200,
+    pointerEvents: 'auto',
+  },
+
   // AR Indicators
   arIndicators: {
     position: 'absolute',
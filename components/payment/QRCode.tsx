@@ -1,84 +1,98 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { View, StyleSheet } from 'react-native';
+import Svg, { Path, Rect } from 'react-native-svg';
+import { encodeQR, ErrorCorrectionLevel } from '@/lib/qr';
 
 interface QRCodeProps {
   value: string;
   size?: number;
   color?: string;
   backgroundColor?: string;
+  // Defaults to M, or Q when a logo covers the centre
+  errorCorrectionLevel?: ErrorCorrectionLevel;
+  // Light border around the code, in modules (the standard asks for 4)
+  quietZone?: number;
+  // Drawn over the centre of the code on a background-coloured plate
+  logo?: React.ReactNode;
+  // Logo plate width as a fraction of the code width
+  logoSize?: number;
 }
 
-// Simple QR code implementation for demo purposes
-// In a real app, you would use a library like react-native-qrcode-svg
-export default function QRCode({ 
-  value, 
-  size = 200, 
-  color = '#000000', 
-  backgroundColor = '#ffffff' 
+// Larger logos hide more modules than error correction can recover
+const MAX_LOGO_SIZE = 0.3;
+
+export default function QRCode({
+  value,
+  size = 200,
+  color = '#000000',
+  backgroundColor = '#ffffff',
+  errorCorrectionLevel,
+  quietZone = 4,
+  logo,
+  logoSize = 0.22,
 }: QRCodeProps) {
-  // Generate a deterministic pattern based on the value string
-  const generatePattern = () => {
-    // Create a simple hash of the string
-    const hash = value.split('').reduce((acc, char) => {
-      return ((acc << 5) - acc) + char.charCodeAt(0);
-    }, 0);
-    
-    // Generate a 25x25 matrix (typical QR code size)
-    const matrix = Array(25).fill(0).map(() => Array(25).fill(0));
-    
-    // Fill the matrix with a pattern based on the hash
-    for (let i = 0; i < 25; i++) {
-      for (let j = 0; j < 25; j++) {
-        // Always fill the corner squares (QR code finder patterns)
-        if ((i < 7 && j < 7) || (i < 7 && j > 17) || (i > 17 && j < 7)) {
-          if ((i > 1 && i < 5 && j > 1 && j < 5) || 
-              (i > 1 && i < 5 && j > 19 && j < 23) || 
-              (i > 19 && i < 23 && j > 1 && j < 5)) {
-            matrix[i][j] = 1;
-          } else if (i === 0 || i === 6 || i === 18 || i === 24 || 
-                     j === 0 || j === 6 || j === 18 || j === 24) {
-            matrix[i][j] = 1;
-          }
-        } else {
-          // Use the hash to determine if a cell should be filled
-          const cellHash = (hash + (i * 25 + j)) % 100;
-          matrix[i][j] = cellHash < 40 ? 1 : 0;
+  const hasLogo = !!logo;
+  const symbol = useMemo(() => {
+    try {
+      return encodeQR(value, { errorCorrectionLevel: errorCorrectionLevel ?? (hasLogo ? 'Q' : 'M') });
+    } catch (error) {
+      console.error('❌ Failed to encode QR code:', error);
+      return null;
+    }
+  }, [value, errorCorrectionLevel, hasLogo]);
+
+  // Dark modules as one path, merging horizontal runs
+  const path = useMemo(() => {
+    if (!symbol) {
+      return '';
+    }
+    let d = '';
+    symbol.modules.forEach((row, y) => {
+      for (let x = 0; x < row.length; x++) {
+        if (!row[x]) {
+          continue;
         }
+        const start = x;
+        while (x + 1 < row.length && row[x + 1]) {
+          x++;
+        }
+        const length = x - start + 1;
+        d += `M${start + quietZone} ${y + quietZone}h${length}v1h${-length}z`;
       }
-    }
-    
-    return matrix;
-  };
-  
-  const pattern = generatePattern();
-  const cellSize = size / 25;
-  
+    });
+    return d;
+  }, [symbol, quietZone]);
+
+  if (!symbol) {
+    return <View style={[styles.container, { width: size, height: size, backgroundColor }]} />;
+  }
+
+  const viewBoxSize = symbol.size + quietZone * 2;
+  const plateSize = size * Math.min(logoSize, MAX_LOGO_SIZE) * (symbol.size / viewBoxSize);
+
   return (
     <View style={[styles.container, { width: size, height: size, backgroundColor }]}>
-      {pattern.map((row, i) => (
-        row.map((cell, j) => (
-          cell ? (
-            <View 
-              key={`${i}-${j}`} 
-              style={[
-                styles.cell, 
-                { 
-                  width: cellSize, 
-                  height: cellSize, 
-                  backgroundColor: color,
-                  top: i * cellSize,
-                  left: j * cellSize,
-                }
-              ]} 
-            />
-          ) : null
-        ))
-      ))}
-      
-      {/* BlockDAG logo in the center */}
-      <View style={[styles.logo, { width: size * 0.2, height: size * 0.2 }]}>
-        <View style={[styles.logoInner, { backgroundColor: '#6366f1' }]} />
-      </View>
+      <Svg width={size} height={size} viewBox={`0 0 ${viewBoxSize} ${viewBoxSize}`}>
+        <Rect x={0} y={0} width={viewBoxSize} height={viewBoxSize} fill={backgroundColor} />
+        <Path d={path} fill={color} />
+      </Svg>
+
+      {logo && (
+        <View
+          style={[
+            styles.logo,
+            {
+              width: plateSize,
+              height: plateSize,
+              marginTop: -plateSize / 2,
+              marginLeft: -plateSize / 2,
+              backgroundColor,
+            },
+          ]}
+        >
+          {logo}
+        </View>
+      )}
     </View>
   );
 }
@@ -89,22 +103,13 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     overflow: 'hidden',
   },
-  cell: {
-    position: 'absolute',
-  },
   logo: {
     position: 'absolute',
-    top: '40%',
-    left: '40%',
-    backgroundColor: '#ffffff',
+    top: '50%',
+    left: '50%',
     borderRadius: 8,
-    padding: 2,
+    padding: 4,
     justifyContent: 'center',
     alignItems: 'center',
   },
-  logoInner: {
-    width: '80%',
-    height: '80%',
-    borderRadius: 4,
-  },
-});
\ No newline at end of file
+});
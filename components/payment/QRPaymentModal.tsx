@@ -1,8 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, Modal, TouchableOpacity, ActivityIndicator } from 'react-native';
 import { X, CircleCheck as CheckCircle, CircleAlert as AlertCircle, RefreshCw, Layers } from 'lucide-react-native';
 import { DeployedObject } from '@/types/database';
 import QRCode from './QRCode';
+import { PaymentSession } from '@/lib/payment-session';
+import { PaymentSessionService } from '@/services/PaymentSessionService';
 
 interface QRPaymentModalProps {
   visible: boolean;
@@ -11,52 +13,78 @@ interface QRPaymentModalProps {
   onPaymentComplete: (success: boolean) => void;
 }
 
-// Payment states
-type PaymentState = 'generating' | 'ready' | 'processing' | 'success' | 'failed';
-
 export default function QRPaymentModal({ 
   visible, 
   agent, 
   onClose,
   onPaymentComplete
 }: QRPaymentModalProps) {
-  const [paymentState, setPaymentState] = useState<PaymentState>('generating');
-  const [qrData, setQrData] = useState<string | null>(null);
-  const [paymentAmount, setPaymentAmount] = useState<number>(0);
-  const [timeRemaining, setTimeRemaining] = useState<number>(300); // 5 minutes in seconds
+  const [session, setSession] = useState<PaymentSession | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [timeRemaining, setTimeRemaining] = useState<number>(0);
+  const onPaymentCompleteRef = useRef(onPaymentComplete);
+  onPaymentCompleteRef.current = onPaymentComplete;
+  const sessionId = session?.id;
+  const state = session?.state;
 
-  // Generate QR code data when modal opens
+  // Resume the agent's unfinished session, or quote a new one, when the
+  // modal opens. Sessions keep running in the background after it closes.
   useEffect(() => {
-    if (visible) {
-      generateQRCode();
-    } else {
-      // Reset state when modal closes
-      setPaymentState('generating');
-      setQrData(null);
-      setTimeRemaining(300);
+    if (!visible) {
+      setSession(null);
       setError(null);
+      return;
     }
-  }, [visible]);
-
-  // Countdown timer
-  useEffect(() => {
-    if (paymentState !== 'ready' || !visible) return;
 
-    const timer = setInterval(() => {
-      setTimeRemaining(prev => {
-        if (prev <= 1) {
-          clearInterval(timer);
-          setPaymentState('failed');
-          setError('Payment session expired. Please try again.');
-          return 0;
+    let isActive = true;
+    const service = PaymentSessionService.getInstance();
+    service
+      .findActiveSession(agent.id)
+      .then((active) => active ?? service.createSession(agent))
+      .then((current) => {
+        if (isActive) {
+          setSession(current);
+        }
+      })
+      .catch((error: any) => {
+        console.error('Error creating payment session:', error);
+        if (isActive) {
+          setError(error.message || 'Failed to generate payment QR code');
         }
-        return prev - 1;
       });
-    }, 1000);
 
+    return () => {
+      isActive = false;
+    };
+  }, [visible, agent]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    return PaymentSessionService.getInstance().subscribe(({ session: updated }) => {
+      if (updated.id === sessionId) {
+        setSession(updated);
+      }
+    });
+  }, [sessionId]);
+
+  // Notify parent component after a brief delay to show success state
+  useEffect(() => {
+    if (state !== 'settled' || !visible) return;
+
+    const timer = setTimeout(() => onPaymentCompleteRef.current(true), 2000);
+    return () => clearTimeout(timer);
+  }, [state, visible]);
+
+  // Countdown to the session's expiry
+  useEffect(() => {
+    if (!session || (session.state !== 'quote' && session.state !== 'awaiting')) return;
+
+    const update = () => setTimeRemaining(Math.max(0, Math.round((session.expiresAt - Date.now()) / 1000)));
+    update();
+    const timer = setInterval(update, 1000);
     return () => clearInterval(timer);
-  }, [paymentState, visible]);
+  }, [session]);
 
   // Format time remaining as MM:SS
   const formatTimeRemaining = () => {
@@ -65,68 +93,43 @@ export default function QRPaymentModal({
     return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
   };
 
-  // Generate QR code data
-  const generateQRCode = async () => {
-    setPaymentState('generating');
+  const acceptQuote = async () => {
+    if (!session) return;
+    try {
+      setSession(await PaymentSessionService.getInstance().acceptQuote(session.id));
+    } catch (error: any) {
+      console.error('Error accepting payment quote:', error);
+      setError(error.message || 'Failed to start payment');
+    }
+  };
+
+  // Start over with a fresh quote
+  const retry = async () => {
+    setSession(null);
     setError(null);
-    
     try {
-      // In a real implementation, this would call your backend API
-      // to generate a dynamic QR code for this specific transaction
-      await new Promise(resolve => setTimeout(resolve, 1500)); // Simulate API call
-      
-      // Get payment amount from agent
-      const amount = agent.interaction_fee_usdfc || 1.0;
-      setPaymentAmount(amount);
-      
-      // Generate a mock payment URL with transaction details
-      // In production, this would be a real blockchain transaction URL
-      const mockTransactionData = {
-        to: "0x6533fe2Ebb66CcE28FDdBA9663Fe433A308137e9", // BDAG token contract
-        amount: amount,
-        agentId: agent.id,
-        timestamp: Date.now(),
-        nonce: Math.floor(Math.random() * 1000000)
-      };
-      
-      // Create QR code data
-      const qrCodeData = `blockdag://pay/${JSON.stringify(mockTransactionData)}`;
-      setQrData(qrCodeData);
-      setPaymentState('ready');
-      
-      // Simulate payment status checking
-      simulatePaymentCheck();
-      
+      setSession(await PaymentSessionService.getInstance().createSession(agent));
     } catch (error: any) {
-      console.error('Error generating QR code:', error);
+      console.error('Error creating payment session:', error);
       setError(error.message || 'Failed to generate payment QR code');
-      setPaymentState('failed');
     }
   };
-  
-  // Simulate payment status checking
-  const simulatePaymentCheck = () => {
-    // In a real implementation, this would poll your backend API
-    // to check if the payment has been completed
-    
-    // For demo purposes, we'll simulate a successful payment after a random time
-    const checkTime = 5000 + Math.random() * 10000; // 5-15 seconds
-    
-    setTimeout(() => {
-      // 80% chance of success for demo purposes
-      const success = Math.random() < 0.8;
-      
-      if (success) {
-        setPaymentState('success');
-        // Notify parent component after a brief delay to show success state
-        setTimeout(() => onPaymentComplete(true), 2000);
-      } else {
-        setPaymentState('failed');
-        setError('Payment verification failed. Please try again.');
-      }
-    }, checkTime);
+
+  const failureMessage = () => {
+    if (error) return error;
+    switch (state) {
+      case 'expired':
+        return 'Payment session expired. A payment already sent will still be picked up; otherwise please try again.';
+      case 'refunded':
+        return 'This payment was refunded.';
+      default:
+        return session?.error || 'Payment verification failed. Please try again.';
+    }
   };
 
+  const isProcessing = state === 'detected' || state === 'confirming';
+  const hasFailed = !!error || state === 'expired' || state === 'failed' || state === 'refunded';
+
   return (
     <Modal
       visible={visible}
@@ -145,7 +148,6 @@ export default function QRPaymentModal({
             <TouchableOpacity 
               style={styles.closeButton}
               onPress={onClose}
-              disabled={paymentState === 'processing'}
             >
               <X size={20} color="#374151" strokeWidth={2} />
             </TouchableOpacity>
@@ -160,28 +162,50 @@ export default function QRPaymentModal({
             </View>
             
             {/* Payment Amount */}
-            <View style={styles.amountContainer}>
-              <Text style={styles.amountLabel}>Payment Amount</Text>
-              <Text style={styles.amountValue}>{paymentAmount.toFixed(2)} BDAG</Text>
-              <Text style={styles.amountDescription}>
-                One-time fee to interact with this agent
-              </Text>
-            </View>
+            {session && (
+              <View style={styles.amountContainer}>
+                <Text style={styles.amountLabel}>Payment Amount</Text>
+                <Text style={styles.amountValue}>{session.fee.toFixed(2)} {session.currency}</Text>
+                <Text style={styles.amountDescription}>
+                  One-time fee to interact with this agent
+                </Text>
+              </View>
+            )}
             
             {/* QR Code */}
             <View style={styles.qrContainer}>
-              {paymentState === 'generating' && (
+              {!session && !error && (
                 <View style={styles.loadingContainer}>
                   <ActivityIndicator size="large" color="#6366f1" />
                   <Text style={styles.loadingText}>Generating payment QR code...</Text>
                 </View>
               )}
+
+              {!hasFailed && state === 'quote' && (
+                <>
+                  <TouchableOpacity 
+                    style={styles.retryButton}
+                    onPress={acceptQuote}
+                  >
+                    <Text style={styles.retryButtonText}>Continue to Payment</Text>
+                  </TouchableOpacity>
+                  <View style={styles.timerContainer}>
+                    <Text style={styles.timerText}>
+                      Quote valid for {formatTimeRemaining()}
+                    </Text>
+                  </View>
+                </>
+              )}
               
-              {paymentState === 'ready' && qrData && (
+              {!hasFailed && state === 'awaiting' && session && (
                 <>
-                  <QRCode value={qrData} size={200} />
+                  <QRCode
+                    value={session.uri}
+                    size={200}
+                    logo={<Layers size={24} color="#6366f1" strokeWidth={2} />}
+                  />
                   <Text style={styles.qrInstructions}>
-                    Scan with your BlockDAG wallet app
+                    Scan with your wallet app
                   </Text>
                   <View style={styles.timerContainer}>
                     <Text style={styles.timerText}>
@@ -191,16 +215,18 @@ export default function QRPaymentModal({
                 </>
               )}
               
-              {paymentState === 'processing' && (
+              {!hasFailed && isProcessing && session && (
                 <View style={styles.processingContainer}>
                   <ActivityIndicator size="large" color="#6366f1" />
                   <Text style={styles.processingText}>
-                    Verifying payment...
+                    {session.confirmations !== undefined && session.requiredConfirmations !== undefined
+                      ? `Payment detected, confirming (${session.confirmations}/${session.requiredConfirmations})...`
+                      : 'Verifying payment...'}
                   </Text>
                 </View>
               )}
               
-              {paymentState === 'success' && (
+              {!hasFailed && state === 'settled' && (
                 <View style={styles.successContainer}>
                   <CheckCircle size={64} color="#10b981" strokeWidth={2} />
                   <Text style={styles.successText}>Payment Successful!</Text>
@@ -210,16 +236,14 @@ export default function QRPaymentModal({
                 </View>
               )}
               
-              {paymentState === 'failed' && (
+              {hasFailed && (
                 <View style={styles.failedContainer}>
                   <AlertCircle size={64} color="#ef4444" strokeWidth={2} />
                   <Text style={styles.failedText}>Payment Failed</Text>
-                  {error && (
-                    <Text style={styles.errorText}>{error}</Text>
-                  )}
+                  <Text style={styles.errorText}>{failureMessage()}</Text>
                   <TouchableOpacity 
                     style={styles.retryButton}
-                    onPress={generateQRCode}
+                    onPress={retry}
                   >
                     <RefreshCw size={16} color="#ffffff" strokeWidth={2} />
                     <Text style={styles.retryButtonText}>Try Again</Text>
@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform, Share } from 'react-native';
+import { Receipt, Download } from 'lucide-react-native';
+import { PaymentReceipt } from '@/lib/receipts';
+import { ReceiptExportFormat, ReceiptService } from '@/services/ReceiptService';
+
+interface ReceiptHistoryProps {
+  // Only this agent's receipts; all of them when absent
+  agentId?: string;
+  // Show the CSV/JSON export buttons
+  showExport?: boolean;
+  emptyText?: string;
+}
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export default function ReceiptHistory({
+  agentId,
+  showExport = false,
+  emptyText = 'No payments yet',
+}: ReceiptHistoryProps) {
+  const [receipts, setReceipts] = useState<PaymentReceipt[]>([]);
+
+  useEffect(() => {
+    const service = ReceiptService.getInstance();
+    let isActive = true;
+
+    service.getReceipts(agentId).then((loaded) => {
+      if (isActive) setReceipts(loaded);
+    });
+    const unsubscribe = service.subscribe((all) => {
+      setReceipts(all.filter((receipt) => !agentId || receipt.agentId === agentId));
+    });
+
+    return () => {
+      isActive = false;
+      unsubscribe();
+    };
+  }, [agentId]);
+
+  // Save the export as a file on web, share it elsewhere
+  const handleExport = async (format: ReceiptExportFormat) => {
+    try {
+      const content = await ReceiptService.getInstance().exportReceipts(format, agentId);
+
+      if (Platform.OS === 'web') {
+        const blob = new Blob([content], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `payment-receipts-${new Date().toISOString().slice(0, 10)}.${format}`;
+        link.click();
+        // Some browsers start the download after click() returns
+        setTimeout(() => URL.revokeObjectURL(url), 0);
+      } else {
+        await Share.share({ message: content, title: 'Payment receipts' });
+      }
+    } catch (error) {
+      console.error('Failed to export receipts:', error);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Payment History</Text>
+        {showExport && receipts.length > 0 && (
+          <View style={styles.exportButtons}>
+            {(['csv', 'json'] as const).map((format) => (
+              <TouchableOpacity key={format} style={styles.exportButton} onPress={() => handleExport(format)}>
+                <Download size={14} color="#6366f1" strokeWidth={2} />
+                <Text style={styles.exportText}>{format.toUpperCase()}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </View>
+
+      {receipts.length === 0 && (
+        <Text style={styles.emptyText}>{emptyText}</Text>
+      )}
+
+      {receipts.map((receipt) => (
+        <View key={receipt.id} style={styles.receiptItem}>
+          <View style={styles.receiptIcon}>
+            <Receipt size={16} color="#6366f1" strokeWidth={2} />
+          </View>
+
+          <View style={styles.receiptDetails}>
+            <Text style={styles.receiptAgent}>{receipt.agentName}</Text>
+            <Text style={styles.receiptMeta}>Tx: {formatAddress(receipt.txHash)}</Text>
+            <Text style={styles.receiptMeta}>{new Date(receipt.settledAt).toLocaleString()}</Text>
+            {receipt.entitlementId && receipt.entitlementExpiresAt && (
+              <Text style={styles.receiptMeta}>
+                Pass until {new Date(receipt.entitlementExpiresAt).toLocaleString()}
+              </Text>
+            )}
+          </View>
+
+          <View style={styles.receiptAmount}>
+            <Text style={styles.amountText}>-{receipt.amount} {receipt.currency}</Text>
+            <View style={[styles.statusBadge, receipt.refunded ? styles.refundedBadge : styles.paidBadge]}>
+              <Text style={[styles.statusText, receipt.refunded ? styles.refundedText : styles.paidText]}>
+                {receipt.refunded ? 'refunded' : 'paid'}
+              </Text>
+            </View>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  exportButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#eef2ff',
+  },
+  exportText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9ca3af',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  receiptItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+  },
+  receiptIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#eef2ff',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  receiptDetails: {
+    flex: 1,
+  },
+  receiptAgent: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 2,
+  },
+  receiptMeta: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  receiptAmount: {
+    alignItems: 'flex-end',
+  },
+  amountText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  paidBadge: {
+    backgroundColor: '#d1fae5',
+  },
+  refundedBadge: {
+    backgroundColor: '#fef3c7',
+  },
+  statusText: {
+    fontSize: 10,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  paidText: {
+    color: '#065f46',
+  },
+  refundedText: {
+    color: '#92400e',
+  },
+});
@@ -3,29 +3,14 @@ import { View, Text, StyleSheet, Alert, Linking } from 'react-native';
 import { Layers, ExternalLink } from 'lucide-react-native';
 import { MetaMaskProvider, useMetaMask } from '@metamask/sdk-react';
 import { ethers } from 'ethers';
-
-// BDAG Token contract details
-const BDAG_TOKEN_ADDRESS = '0x6533fe2Ebb66CcE28FDdBA9663Fe433A308137e9'; 
-const BDAG_TOKEN_ABI = [
-  // ERC-20 standard functions
-  "function balanceOf(address owner) view returns (uint256)",
-  "function decimals() view returns (uint8)",
-  "function symbol() view returns (string)"
-];
-
-// Primordial Testnet details
-const BLOCKDAG_CHAIN_ID = '0x1b59'; // 7001 in decimal
-const BLOCKDAG_NETWORK = {
-  chainId: '0x1b59',
-  chainName: 'BlockDAG Primordial Testnet',
-  nativeCurrency: {
-    name: 'BDAG',
-    symbol: 'BDAG',
-    decimals: 18
-  },
-  rpcUrls: ['https://rpc-testnet.blockdag.network'],
-  blockExplorerUrls: ['https://explorer-testnet.blockdag.network']
-};
+import {
+  ERC20_ABI,
+  getDefaultEvmNetwork,
+  getExplorerAddressUrl,
+  getNetworkPaymentToken,
+  toAddEthereumChainParams,
+  toHexChainId,
+} from '@/lib/networks';
 
 // MetaMask SDK configuration
 const sdkOptions = {
@@ -42,19 +27,22 @@ function WalletConnect() {
   const [error, setError] = React.useState<string | null>(null);
 
   const isConnected = status === 'connected' && !!account;
-  const isCorrectNetwork = chainId === BLOCKDAG_CHAIN_ID;
+  // The network agents are paid on, and its payment token
+  const network = getDefaultEvmNetwork();
+  const paymentToken = getNetworkPaymentToken(network);
+  const isCorrectNetwork = chainId === toHexChainId(network.chainId);
 
-  // Fetch BDAG balance when connected
+  // Fetch the payment token balance when connected
   React.useEffect(() => {
     if (isConnected && isCorrectNetwork && provider) {
-      fetchBDAGBalance();
+      fetchBalance();
     } else {
       setBalance(null);
     }
   }, [isConnected, isCorrectNetwork, account, provider]);
 
-  // Fetch BDAG balance
-  const fetchBDAGBalance = async () => {
+  // Fetch the payment token balance
+  const fetchBalance = async () => {
     try {
       setIsLoading(true);
       setError(null);
@@ -64,42 +52,34 @@ function WalletConnect() {
       }
 
       const ethersProvider = new ethers.BrowserProvider(provider);
-      const tokenContract = new ethers.Contract(
-        BDAG_TOKEN_ADDRESS,
-        BDAG_TOKEN_ABI,
-        ethersProvider
-      );
+      // The native coin has no contract to ask
+      const rawBalance = paymentToken.address
+        ? await new ethers.Contract(paymentToken.address, ERC20_ABI, ethersProvider).balanceOf(account)
+        : await ethersProvider.getBalance(account);
+      const formattedBalance = ethers.formatUnits(rawBalance, paymentToken.decimals);
 
-      // Get token details
-      const decimals = await tokenContract.decimals();
-      const symbol = await tokenContract.symbol();
-      
-      // Get balance
-      const rawBalance = await tokenContract.balanceOf(account);
-      const formattedBalance = ethers.formatUnits(rawBalance, decimals);
-      
-      setBalance(`${parseFloat(formattedBalance).toFixed(4)} ${symbol}`);
+      setBalance(`${parseFloat(formattedBalance).toFixed(4)} ${paymentToken.symbol}`);
     } catch (err: any) {
-      console.error('Error fetching BDAG balance:', err);
-      setError(err.message || 'Failed to fetch BDAG balance');
+      console.error(`Error fetching ${paymentToken.symbol} balance:`, err);
+      setError(err.message || `Failed to fetch ${paymentToken.symbol} balance`);
       setBalance(null);
     } finally {
       setIsLoading(false);
     }
   };
 
-  // Switch to BlockDAG network
-  const switchToBlockDAG = async () => {
+  // Switch to the payment network
+  const switchNetwork = async () => {
     try {
       if (!provider) return;
       
       await provider.request({
         method: 'wallet_addEthereumChain',
-        params: [BLOCKDAG_NETWORK],
+        params: [toAddEthereumChainParams(network)],
       });
     } catch (err: any) {
       console.error('Error switching network:', err);
-      Alert.alert('Network Switch Failed', err.message || 'Failed to switch to BlockDAG network');
+      Alert.alert('Network Switch Failed', err.message || `Failed to switch to ${network.name}`);
     }
   };
 
@@ -113,10 +93,10 @@ function WalletConnect() {
     }
   };
 
-  // Open BlockDAG explorer
+  // Open the network's explorer
   const openExplorer = () => {
     if (account) {
-      Linking.openURL(`${BLOCKDAG_NETWORK.blockExplorerUrls[0]}/address/${account}`);
+      Linking.openURL(getExplorerAddressUrl(network, account));
     }
   };
 
@@ -135,7 +115,7 @@ function WalletConnect() {
           <View style={styles.connectSection}>
             <Text style={styles.connectTitle}>Connect to BlockDAG</Text>
             <Text style={styles.connectSubtitle}>
-              Use MetaMask to connect to the BlockDAG Primordial Testnet
+              Use MetaMask to connect to the {network.name}
             </Text>
             <View style={styles.buttonContainer}>
               <View style={styles.connectButton} onTouchEnd={handleConnectWallet}>
@@ -147,10 +127,10 @@ function WalletConnect() {
           <View style={styles.networkSection}>
             <Text style={styles.networkTitle}>Wrong Network</Text>
             <Text style={styles.networkSubtitle}>
-              Please switch to the BlockDAG Primordial Testnet
+              Please switch to the {network.name}
             </Text>
             <View style={styles.buttonContainer}>
-              <View style={styles.networkButton} onTouchEnd={switchToBlockDAG}>
+              <View style={styles.networkButton} onTouchEnd={switchNetwork}>
                 <Text style={styles.networkButtonText}>Switch Network</Text>
               </View>
             </View>
@@ -166,9 +146,9 @@ function WalletConnect() {
             </View>
             
             <View style={styles.balanceContainer}>
-              <Text style={styles.balanceLabel}>BDAG Balance:</Text>
+              <Text style={styles.balanceLabel}>{paymentToken.symbol} Balance:</Text>
               <Text style={styles.balanceValue}>
-                {isLoading ? 'Loading...' : balance || '0 BDAG'}
+                {isLoading ? 'Loading...' : balance || `0 ${paymentToken.symbol}`}
               </Text>
             </View>
             
@@ -1,22 +1,103 @@
-import React, { ReactNode } from 'react';
-import { createThirdwebClient } from "thirdweb";
-import { ThirdwebProvider } from "thirdweb/react";
+import React, { ReactNode, createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { WalletChain, WalletConnector, WalletConnectorId, getAvailableWalletConnectors } from '@/lib/wallet';
+
+interface WalletContextValue {
+  // Wallets that can be connected on this platform
+  connectors: WalletConnector[];
+  // The connected wallet, if any
+  wallet: WalletConnector | null;
+  account: string | null;
+  chain: WalletChain | null;
+  isConnecting: boolean;
+  error: string | null;
+  connect: (id: WalletConnectorId) => Promise<void>;
+  disconnect: () => Promise<void>;
+}
 
 interface WalletProviderProps {
   children: ReactNode;
+  // Replaces the platform's wallets, e.g. with a MockWalletConnector in tests
+  connectors?: WalletConnector[];
 }
 
-const client = createThirdwebClient({
-  clientId: "1928bd7fecdee2c34a7a508ae42db420",
-});
+const WalletContext = createContext<WalletContextValue | null>(null);
+
+export default function WalletProvider({ children, connectors: connectorsOverride }: WalletProviderProps) {
+  // Connectors load their SDK on connect, so listing them does not block
+  // app initialization
+  const connectors = useMemo(() => connectorsOverride ?? getAvailableWalletConnectors(), [connectorsOverride]);
+  const [wallet, setWallet] = useState<WalletConnector | null>(null);
+  const [account, setAccount] = useState<string | null>(null);
+  const [chain, setChain] = useState<WalletChain | null>(null);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow account and network changes made in the wallet
+  useEffect(() => {
+    if (!wallet) return;
+
+    const unsubscribers = [
+      wallet.on('accountChanged', ({ account: next }) => setAccount(next)),
+      wallet.on('chainChanged', ({ chain: next }) => setChain(next)),
+      wallet.on('disconnect', () => {
+        setWallet(null);
+        setAccount(null);
+        setChain(null);
+      }),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [wallet]);
+
+  const disconnect = useCallback(async () => {
+    if (!wallet) return;
+    await wallet.disconnect();
+    setWallet(null);
+    setAccount(null);
+    setChain(null);
+  }, [wallet]);
+
+  const connect = useCallback(async (id: WalletConnectorId) => {
+    const connector = connectors.find((candidate) => candidate.id === id);
+    if (!connector) {
+      setError(`${id} is not available on this device`);
+      return;
+    }
+
+    try {
+      setIsConnecting(true);
+      setError(null);
+      if (wallet && wallet !== connector) {
+        await wallet.disconnect();
+      }
+      const connected = await connector.connect();
+      setWallet(connector);
+      setAccount(connected);
+      setChain(connector.chain);
+    } catch (err: any) {
+      console.error(`Failed to connect ${connector.name}:`, err);
+      setError(err?.message || `Failed to connect ${connector.name}`);
+    } finally {
+      setIsConnecting(false);
+    }
+  }, [connectors, wallet]);
+
+  const value = useMemo(
+    () => ({ connectors, wallet, account, chain, isConnecting, error, connect, disconnect }),
+    [connectors, wallet, account, chain, isConnecting, error, connect, disconnect]
+  );
 
-export default function WalletProvider({ children }: WalletProviderProps) {
-  // Simplified wallet provider that doesn't block app initialization
-  // The wallet functionality will be available but won't prevent the app from loading
-  
   return (
-    <ThirdwebProvider client={client}>
+    <WalletContext.Provider value={value}>
       {children}
-    </ThirdwebProvider>
+    </WalletContext.Provider>
   );
-}
\ No newline at end of file
+}
+
+// The active wallet and how to change it; needs a WalletProvider above
+export function useWallet(): WalletContextValue {
+  const context = useContext(WalletContext);
+  if (!context) {
+    throw new Error('useWallet must be used within a WalletProvider');
+  }
+  return context;
+}
@@ -1,9 +1,16 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { Platform } from 'react-native';
 import { AREngine } from '@/lib/ar-engine';
-import { ARSessionState, ARCapabilities } from '@/types/ar';
+import { DeviceOrientationTracker } from '@/lib/orientation';
+import { getStreamingBudget } from '@/lib/lod';
+import { getPerformanceMode, subscribeToPerformanceMode, toQualityPreference } from '@/lib/ar-preferences';
+import { ARSessionState, ARCapabilities, ARRenderStats, XRSessionStatus, ARObjectSelection } from '@/types/ar';
 import { DeployedObject } from '@/types/database';
 import { LocationData } from '@/hooks/useLocation';
+import { RangeDetectionService } from '@/services/RangeDetectionService';
+import { NavigationService, NavigationState } from '@/services/NavigationService';
+import { MarkerAnchorService } from '@/services/MarkerAnchorService';
+import { LabelAnchor } from '@/lib/label-layout';
 
 export interface UseAROptions {
   enableDeviceOrientation?: boolean;
@@ -17,6 +24,23 @@ const DEFAULT_OPTIONS: UseAROptions = {
   renderDistance: 100,
 };
 
+const EMPTY_RENDER_STATS: ARRenderStats = {
+  fps: 0,
+  triangles: 0,
+  drawCalls: 0,
+  frameTimeP50: 0,
+  frameTimeP95: 0,
+  droppedFrames: 0,
+  geometries: 0,
+  textures: 0,
+  averageLoadTimeMs: 0,
+  cacheHits: 0,
+  cacheMisses: 0,
+};
+
+// How often live render stats are copied into the session state
+const STATS_REFRESH_MS = 1000;
+
 export function useAR(options: UseAROptions = {}) {
   const opts = { ...DEFAULT_OPTIONS, ...options };
   
@@ -25,11 +49,9 @@ export function useAR(options: UseAROptions = {}) {
     isLoading: false,
     error: null,
     objectsLoaded: 0,
-    renderStats: {
-      fps: 0,
-      triangles: 0,
-      drawCalls: 0,
-    },
+    mode: 'device-orientation',
+    xrStatus: 'idle',
+    renderStats: EMPTY_RENDER_STATS,
   });
 
   const [capabilities, setCapabilities] = useState<ARCapabilities>({
@@ -45,6 +67,12 @@ export function useAR(options: UseAROptions = {}) {
   const isMounted = useRef(true);
   const loadedObjects = useRef<Set<string>>(new Set());
   const initializationPromise = useRef<Promise<boolean> | null>(null);
+  const orientationTracker = useRef<DeviceOrientationTracker | null>(null);
+  const unsubscribeXRStatus = useRef<(() => void) | null>(null);
+  const unsubscribeSelection = useRef<(() => void) | null>(null);
+  const [selectedObject, setSelectedObject] = useState<ARObjectSelection | null>(null);
+  // Motion sensors are waiting for the user to allow them (iOS)
+  const [sensorPermissionNeeded, setSensorPermissionNeeded] = useState(false);
 
   // Debug AR system state
   const debugARSystem = useCallback(() => {
@@ -183,7 +211,11 @@ export function useAR(options: UseAROptions = {}) {
 
         // Initialize AR engine with error handling
         console.log('Creating new AR engine...');
-        arEngine.current = new AREngine(canvas);
+        const performanceMode = await getPerformanceMode();
+        arEngine.current = new AREngine(canvas, {
+          performanceLevel: caps.performanceLevel,
+          qualityPreference: toQualityPreference(performanceMode),
+        });
         canvasRef.current = canvas;
 
         // Verify AR engine was created successfully
@@ -191,6 +223,25 @@ export function useAR(options: UseAROptions = {}) {
           throw new Error('Failed to create AR engine instance');
         }
 
+        // Mirror the WebXR session lifecycle into the session state
+        unsubscribeXRStatus.current?.();
+        unsubscribeXRStatus.current = arEngine.current.onXRStatusChange((status: XRSessionStatus) => {
+          if (isMounted.current) {
+            setSessionState(prev => ({
+              ...prev,
+              xrStatus: status,
+              mode: status === 'active' ? 'webxr' : 'device-orientation',
+            }));
+          }
+        });
+
+        unsubscribeSelection.current?.();
+        unsubscribeSelection.current = arEngine.current.onObjectSelected((selection) => {
+          if (isMounted.current) {
+            setSelectedObject(selection);
+          }
+        });
+
         // Setup device orientation if supported
         if (caps.deviceOrientationSupported && opts.enableDeviceOrientation) {
           setupDeviceOrientation();
@@ -247,24 +298,80 @@ export function useAR(options: UseAROptions = {}) {
     return await initializationPromise.current;
   }, [opts.enableDeviceOrientation, checkCapabilities]);
 
-  // Setup device orientation tracking
+  // Setup sensor-fused device orientation tracking
   const setupDeviceOrientation = useCallback(() => {
-    if (Platform.OS === 'web' && typeof window !== 'undefined') {
-      const handleOrientation = (event: DeviceOrientationEvent) => {
-        if (arEngine.current && event.alpha !== null && event.beta !== null && event.gamma !== null) {
-          try {
-            arEngine.current.updateCameraOrientation(event.alpha, event.beta, event.gamma);
-          } catch (error) {
-            console.warn('Error updating camera orientation:', error);
-          }
-        }
-      };
+    if (Platform.OS !== 'web' || typeof window === 'undefined') {
+      return;
+    }
 
-      window.addEventListener('deviceorientation', handleOrientation);
-      
-      return () => {
-        window.removeEventListener('deviceorientation', handleOrientation);
-      };
+    if (orientationTracker.current) {
+      orientationTracker.current.stop();
+    }
+
+    orientationTracker.current = new DeviceOrientationTracker((quaternion) => {
+      try {
+        arEngine.current?.setCameraQuaternion(quaternion);
+      } catch (error) {
+        console.warn('Error updating camera orientation:', error);
+      }
+    });
+
+    // iOS only grants sensor access from a tap; requestSensorPermission
+    // starts tracking then
+    if (DeviceOrientationTracker.needsPermission()) {
+      setSensorPermissionNeeded(true);
+      return;
+    }
+    orientationTracker.current.start();
+  }, []);
+
+  // Ask for motion sensor access; call from a tap handler
+  const requestSensorPermission = useCallback(async (): Promise<boolean> => {
+    const granted = await DeviceOrientationTracker.requestPermission();
+    if (!granted) {
+      console.warn('Device orientation permission not granted');
+      return false;
+    }
+    setSensorPermissionNeeded(false);
+    orientationTracker.current?.start();
+    return true;
+  }, []);
+
+  // Enter WebXR immersive-ar mode. Must be called from a user gesture; the
+  // device orientation path stays in place as the fallback.
+  const startXRSession = useCallback(async (domOverlayRoot?: HTMLElement): Promise<boolean> => {
+    if (!arEngine.current) {
+      console.warn('AR engine not initialized, cannot start WebXR session');
+      return false;
+    }
+
+    if (!capabilities.webXRSupported) {
+      console.warn('WebXR immersive-ar is not supported on this device');
+      return false;
+    }
+
+    try {
+      const filter = orientationTracker.current?.getFilter();
+      const heading = filter && filter.hasReading() && filter.isHeadingAbsolute() ? filter.getHeading() : null;
+
+      await arEngine.current.startXRSession({ heading, domOverlayRoot });
+      return true;
+    } catch (error: any) {
+      console.error('❌ Failed to start WebXR session:', error);
+
+      if (isMounted.current) {
+        setSessionState(prev => ({
+          ...prev,
+          error: error.message || 'Failed to start WebXR session',
+        }));
+      }
+      return false;
+    }
+  }, [capabilities.webXRSupported]);
+
+  const endXRSession = useCallback(async () => {
+    if (arEngine.current) {
+      await arEngine.current.endXRSession();
     }
   }, []);
 
@@ -298,72 +405,24 @@ export function useAR(options: UseAROptions = {}) {
       // Set user location for coordinate conversion
       try {
         arEngine.current.setUserLocation(userLocation);
+        // Declination for true-north correction depends on where the user is
+        orientationTracker.current?.setLocation(userLocation);
       } catch (error) {
         console.error('Failed to set user location:', error);
         throw new Error('Failed to set user location for AR coordinate conversion');
       }
 
-      // Filter objects by distance
-      const nearbyObjects = objects.filter(obj => {
-        const distance = obj.distance_meters || 0;
-        return distance <= opts.renderDistance!;
+      // Hand the full set to the engine, which streams objects in and out
+      // by distance within the device's budget
+      const budget = getStreamingBudget(capabilities.performanceLevel, {
+        renderDistance: opts.renderDistance,
+        maxObjects: opts.maxObjects,
       });
+      arEngine.current.setStreamingBudget(budget);
 
-      // Limit number of objects for performance
-      const objectsToLoad = nearbyObjects.slice(0, opts.maxObjects);
-      console.log(`📍 Loading ${objectsToLoad.length} nearby objects (filtered from ${objects.length})`);
-
-      // Load new objects with individual error handling
-      let successCount = 0;
-      let errorCount = 0;
-
-      for (const object of objectsToLoad) {
-        if (!isMounted.current) {
-          console.log('Component unmounted during object loading');
-          break;
-        }
-
-        if (!loadedObjects.current.has(object.id)) {
-          try {
-            // Verify AR engine is still available
-            if (!arEngine.current) {
-              throw new Error('AR engine became unavailable during loading');
-            }
-
-            await arEngine.current.loadObject(object);
-            loadedObjects.current.add(object.id);
-            successCount++;
-            console.log(`✅ Loaded object: ${object.name} (${object.id})`);
-          } catch (error: any) {
-            errorCount++;
-            console.error(`❌ Failed to load object ${object.name} (${object.id}):`, error.message);
-            // Continue loading other objects even if one fails
-          }
-        }
-      }
-
-      // Remove objects that are no longer nearby
-      const currentObjectIds = new Set(objectsToLoad.map(obj => obj.id));
-      const objectsToRemove: string[] = [];
-      
-      for (const loadedId of loadedObjects.current) {
-        if (!currentObjectIds.has(loadedId)) {
-          objectsToRemove.push(loadedId);
-        }
-      }
-
-      // Remove objects that are no longer in range
-      for (const objectId of objectsToRemove) {
-        try {
-          if (arEngine.current) {
-            arEngine.current.removeObject(objectId);
-          }
-          loadedObjects.current.delete(objectId);
-          console.log(`🗑️ Removed object: ${objectId}`);
-        } catch (error) {
-          console.warn(`Failed to remove object ${objectId}:`, error);
-        }
-      }
+      const { loaded: successCount, failed: errorCount, unloaded } = await arEngine.current.setStreamingCandidates(objects);
+      loadedObjects.current = new Set(arEngine.current.getLoadedObjectIds());
+      console.log(`📍 Streaming ${loadedObjects.current.size} nearby objects (from ${objects.length}, budget ${budget.maxLoadedObjects})`);
 
       // Update session state
       if (isMounted.current) {
@@ -375,7 +434,7 @@ export function useAR(options: UseAROptions = {}) {
         }));
       }
 
-      console.log(`📊 Object loading complete: ${successCount} loaded, ${errorCount} failed, ${objectsToRemove.length} removed`);
+      console.log(`📊 Object loading complete: ${successCount} loaded, ${errorCount} failed, ${unloaded} removed`);
 
     } catch (error: any) {
       console.error('❌ Failed to load AR objects:', error);
@@ -390,7 +449,45 @@ export function useAR(options: UseAROptions = {}) {
       // Debug system state on error
       debugARSystem();
     }
-  }, [opts.renderDistance, opts.maxObjects, waitForAREngine, debugARSystem]);
+  }, [opts.renderDistance, opts.maxObjects, capabilities.performanceLevel, waitForAREngine, debugARSystem]);
+
+  // Select the object under a tap on the canvas (client pixel coordinates)
+  const selectObjectAt = useCallback((clientX: number, clientY: number): ARObjectSelection | null => {
+    if (!arEngine.current) {
+      return null;
+    }
+
+    try {
+      return arEngine.current.selectAt(clientX, clientY);
+    } catch (error) {
+      console.error('Error selecting AR object:', error);
+      return null;
+    }
+  }, []);
+
+  const clearSelection = useCallback(() => {
+    arEngine.current?.selectObject(null);
+  }, []);
+
+  // Switch an agent to (or out of) its speaking animation, e.g. while a chat
+  // or voice reply is playing
+  const setAgentSpeaking = useCallback((objectId: string, speaking: boolean) => {
+    arEngine.current?.setAnimationCondition(objectId, 'speaking', speaking);
+  }, []);
+
+  // Profiling report for the current session as JSON, or null without an engine
+  const exportProfile = useCallback((): string | null => {
+    if (!arEngine.current) {
+      return null;
+    }
+
+    try {
+      return arEngine.current.exportProfile();
+    } catch (error) {
+      console.error('Error exporting render profile:', error);
+      return null;
+    }
+  }, []);
 
   // Get objects currently in camera view
   const getObjectsInView = useCallback((): string[] => {
@@ -407,10 +504,35 @@ export function useAR(options: UseAROptions = {}) {
     }
   }, []);
 
+  // Polled by the label overlay, so failures stay quiet rather than logging
+  // every frame
+  const getLabelAnchors = useCallback((): LabelAnchor[] => {
+    try {
+      return arEngine.current?.getLabelAnchors() ?? [];
+    } catch {
+      return [];
+    }
+  }, []);
+
   // End AR session with proper cleanup
   const endSession = useCallback(() => {
     console.log('🔚 Ending AR session...');
     
+    if (orientationTracker.current) {
+      orientationTracker.current.stop();
+      orientationTracker.current = null;
+    }
+
+    if (unsubscribeXRStatus.current) {
+      unsubscribeXRStatus.current();
+      unsubscribeXRStatus.current = null;
+    }
+
+    if (unsubscribeSelection.current) {
+      unsubscribeSelection.current();
+      unsubscribeSelection.current = null;
+    }
+
     try {
       if (arEngine.current) {
         arEngine.current.dispose();
@@ -425,16 +547,15 @@ export function useAR(options: UseAROptions = {}) {
     initializationPromise.current = null;
 
     if (isMounted.current) {
+      setSelectedObject(null);
       setSessionState({
         isActive: false,
         isLoading: false,
         error: null,
         objectsLoaded: 0,
-        renderStats: {
-          fps: 0,
-          triangles: 0,
-          drawCalls: 0,
-        },
+        mode: 'device-orientation',
+        xrStatus: 'idle',
+        renderStats: EMPTY_RENDER_STATS,
       });
     }
 
@@ -463,6 +584,77 @@ export function useAR(options: UseAROptions = {}) {
     };
   }, [endSession]);
 
+  // Follow the Performance Mode setting while a session is running
+  useEffect(() => {
+    return subscribeToPerformanceMode((enabled) => {
+      arEngine.current?.setQualityPreference(toQualityPreference(enabled));
+    });
+  }, []);
+
+  // Agents within interaction range play their greeting animation
+  useEffect(() => {
+    if (!sessionState.isActive) {
+      return;
+    }
+
+    const rangeService = RangeDetectionService.getInstance();
+    const applyInRange = (agents: DeployedObject[]) => {
+      arEngine.current?.setAgentsInRange(agents.map((agent) => agent.id));
+    };
+
+    applyInRange(rangeService.getCurrentAgentsInRange());
+    return rangeService.subscribe(applyInRange);
+  }, [sessionState.isActive]);
+
+  // Mirror the active navigation route into the scene
+  useEffect(() => {
+    if (!sessionState.isActive) {
+      return;
+    }
+
+    const navigationService = NavigationService.getInstance();
+    const applyNavigation = (state: NavigationState) => {
+      const route = state.status === 'navigating' ? state.route : null;
+      arEngine.current?.setNavigationRoute(route ? route.points : null, state.nextWaypoint);
+    };
+
+    applyNavigation(navigationService.getState());
+    return navigationService.subscribe(applyNavigation);
+  }, [sessionState.isActive]);
+
+  // Snap the AR frame to QR markers seen by the camera
+  useEffect(() => {
+    if (!sessionState.isActive) {
+      return;
+    }
+
+    const markerService = MarkerAnchorService.getInstance();
+    const currentAnchor = markerService.getCurrentAnchor();
+    if (currentAnchor) {
+      arEngine.current?.applyMarkerAnchor(currentAnchor);
+    }
+
+    return markerService.subscribe((anchor) => {
+      arEngine.current?.applyMarkerAnchor(anchor);
+    });
+  }, [sessionState.isActive]);
+
+  // Keep render stats live while the session runs
+  useEffect(() => {
+    if (!sessionState.isActive) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      if (arEngine.current && isMounted.current) {
+        const renderStats = arEngine.current.getRenderStats();
+        setSessionState(prev => ({ ...prev, renderStats }));
+      }
+    }, STATS_REFRESH_MS);
+
+    return () => clearInterval(interval);
+  }, [sessionState.isActive]);
+
   // Debug logging when errors occur
   useEffect(() => {
     if (sessionState.error) {
@@ -477,7 +669,17 @@ export function useAR(options: UseAROptions = {}) {
     initializeSession,
     loadObjects,
     getObjectsInView,
+    getLabelAnchors,
     endSession,
     handleResize,
+    startXRSession,
+    endXRSession,
+    sensorPermissionNeeded,
+    requestSensorPermission,
+    selectedObject,
+    selectObjectAt,
+    clearSelection,
+    setAgentSpeaking,
+    exportProfile,
   };
 }
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { useState, useEffect } from 'react';
+import { LocationData } from '@/hooks/useLocation';
+import { DeviceHeadingService, DeviceHeadingState } from '@/services/DeviceHeadingService';
+
+/**
+ * Heading and pitch of the camera for the 2D overlay, from the sensor
+ * subscription DeviceHeadingService shares between every caller
+ */
+export function useDeviceHeading(userLocation: LocationData | null = null): DeviceHeadingState {
+  const [state, setState] = useState<DeviceHeadingState>(() => DeviceHeadingService.getInstance().getState());
+
+  useEffect(() => {
+    const service = DeviceHeadingService.getInstance();
+    setState(service.getState());
+    return service.subscribe(setState);
+  }, []);
+
+  useEffect(() => {
+    if (userLocation) {
+      DeviceHeadingService.getInstance().setLocation(userLocation);
+    }
+  }, [userLocation]);
+
+  return state;
+}
@@ -0,0 +1,146 @@
+import { useEffect, useRef, RefObject } from 'react';
+import { Dimensions, Platform } from 'react-native';
+import { BarcodeScanningResult, CameraView } from 'expo-camera';
+import { decodeQR, Point } from '@/lib/qr';
+import { loadImageData } from '@/lib/qr/web-image';
+
+export interface QRScan {
+  text: string;
+  // Corners of the code in image pixels, clockwise from top-left
+  corners: Point[];
+  imageWidth: number;
+  imageHeight: number;
+  source: 'camera' | 'upload';
+}
+
+// Camera frames are grabbed and decoded this often on web (milliseconds)
+const SCAN_INTERVAL_MS = 500;
+
+// Frames are captured at this fraction of the video resolution
+const CAPTURE_SCALE = 0.5;
+
+// Captured frames are decoded at most this large (pixels on the longest
+// side). Decoding runs on the main thread and its cost follows the pixel
+// count; a marker filling a fifth of the view still has 3 px modules.
+const FRAME_MAX_DIMENSION = 480;
+
+// The same code seen again within this window is not reported again
+const REPEAT_SUPPRESS_MS = 3000;
+
+/**
+ * QR scanning for the camera view. On web, frames are captured from the
+ * camera and decoded with the pure TypeScript decoder; uploaded images use
+ * the same decoder. Native camera frames are not reachable from JavaScript,
+ * so native scans come from expo-camera's barcode results instead.
+ */
+export function useQRScanner(
+  cameraRef: RefObject<CameraView | null>,
+  enabled: boolean,
+  onScan: (scan: QRScan) => void
+) {
+  const onScanRef = useRef(onScan);
+  const lastScan = useRef<{ text: string; time: number } | null>(null);
+  onScanRef.current = onScan;
+
+  const report = (scan: QRScan) => {
+    const now = Date.now();
+    if (
+      scan.source === 'camera' &&
+      lastScan.current?.text === scan.text &&
+      now - lastScan.current.time < REPEAT_SUPPRESS_MS
+    ) {
+      return;
+    }
+    lastScan.current = { text: scan.text, time: now };
+    console.log('🔳 QR code scanned:', scan.text);
+    onScanRef.current(scan);
+  };
+
+  useEffect(() => {
+    if (!enabled || Platform.OS !== 'web') {
+      return;
+    }
+
+    let isActive = true;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const scanFrame = async () => {
+      try {
+        const picture = await cameraRef.current?.takePictureAsync({
+          quality: 0.7,
+          scale: CAPTURE_SCALE,
+          shutterSound: false,
+        });
+        if (picture?.uri && isActive) {
+          const image = await loadImageData(picture.uri, FRAME_MAX_DIMENSION);
+          const result = decodeQR(image);
+          if (result && isActive) {
+            report({
+              text: result.text,
+              corners: result.corners,
+              imageWidth: image.width,
+              imageHeight: image.height,
+              source: 'camera',
+            });
+          }
+        }
+      } catch (error) {
+        console.warn('⚠️ QR frame scan failed:', error);
+      }
+
+      if (isActive) {
+        timer = setTimeout(scanFrame, SCAN_INTERVAL_MS);
+      }
+    };
+
+    console.log('🔳 QR scan mode started');
+    timer = setTimeout(scanFrame, SCAN_INTERVAL_MS);
+
+    return () => {
+      isActive = false;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      console.log('🔳 QR scan mode stopped');
+    };
+  }, [enabled, cameraRef]);
+
+  // Native barcode results, reported while scan mode is on
+  const handleBarcodeResult = (result: BarcodeScanningResult) => {
+    if (!enabled) {
+      return;
+    }
+    const { width, height } = Dimensions.get('window');
+    report({
+      text: result.data,
+      corners: result.cornerPoints ?? [],
+      imageWidth: width,
+      imageHeight: height,
+      source: 'camera',
+    });
+  };
+
+  /**
+   * Decode an uploaded image (a file or URL). Returns false when no code was
+   * found in it. Web only.
+   */
+  const scanImage = async (source: string | Blob): Promise<boolean> => {
+    const image = await loadImageData(source);
+    const result = decodeQR(image, { tryInverted: true });
+    if (!result) {
+      console.log('🔳 No QR code found in uploaded image');
+      return false;
+    }
+
+    report({
+      text: result.text,
+      corners: result.corners,
+      imageWidth: image.width,
+      imageHeight: image.height,
+      source: 'upload',
+    });
+    return true;
+  };
+
+  return { handleBarcodeResult, scanImage };
+}
@@ -0,0 +1,162 @@
+import * as THREE from 'three';
+
+export type AgentAnimationState = 'idle' | 'in-range' | 'speaking' | 'selected';
+
+// Highest priority first: an agent that is speaking keeps talking even while
+// selected and in range
+const STATE_PRIORITY: AgentAnimationState[] = ['speaking', 'selected', 'in-range', 'idle'];
+
+// Clip names are whatever the artist exported, so states are matched against
+// common naming conventions
+const CLIP_PATTERNS: Record<AgentAnimationState, RegExp> = {
+  idle: /idle|breath|stand|rest/i,
+  'in-range': /wave|greet|hello|hi\b/i,
+  speaking: /talk|speak|chat/i,
+  selected: /select|yes|nod|happy|jump|dance/i,
+};
+
+// States whose clip plays once before settling back into the idle loop
+const ONE_SHOT_STATES: AgentAnimationState[] = ['in-range', 'selected'];
+
+export interface AgentAnimatorOptions {
+  // Cross-fade duration between clips (seconds)
+  fadeDuration?: number;
+  // Explicit clip name per state, overriding the pattern match
+  clipNames?: Partial<Record<AgentAnimationState, string>>;
+}
+
+/**
+ * Drives one agent's AnimationMixer from its interaction state. Conditions
+ * (in range, speaking, selected) are toggled independently and the highest
+ * priority active one picks the clip.
+ */
+export class AgentAnimator {
+  private mixer: THREE.AnimationMixer;
+  private root: THREE.Object3D;
+  private clips: THREE.AnimationClip[];
+  private conditions: Set<AgentAnimationState> = new Set();
+  private state: AgentAnimationState | null = null;
+  private currentAction: THREE.AnimationAction | null = null;
+  private fadeDuration: number;
+  private clipNames: Partial<Record<AgentAnimationState, string>>;
+
+  constructor(root: THREE.Object3D, clips: THREE.AnimationClip[], options: AgentAnimatorOptions = {}) {
+    this.root = root;
+    this.clips = clips;
+    this.mixer = new THREE.AnimationMixer(root);
+    this.fadeDuration = options.fadeDuration ?? 0.3;
+    this.clipNames = options.clipNames ?? {};
+
+    this.mixer.addEventListener('finished', this.handleFinished);
+    this.transition();
+  }
+
+  public getState(): AgentAnimationState {
+    return this.state ?? 'idle';
+  }
+
+  public getClipNames(): string[] {
+    return this.clips.map((clip) => clip.name);
+  }
+
+  public setCondition(condition: Exclude<AgentAnimationState, 'idle'>, active: boolean) {
+    if (active === this.conditions.has(condition)) {
+      return;
+    }
+
+    if (active) {
+      this.conditions.add(condition);
+    } else {
+      this.conditions.delete(condition);
+    }
+    this.transition();
+  }
+
+  /**
+   * Play a clip by name regardless of state. Returns false when the model has
+   * no clip with that name.
+   */
+  public playClip(name: string, options: { loop?: boolean; fadeDuration?: number } = {}): boolean {
+    const clip = THREE.AnimationClip.findByName(this.clips, name);
+    if (!clip) {
+      return false;
+    }
+
+    this.crossFadeTo(clip, options.loop ?? true, options.fadeDuration ?? this.fadeDuration);
+    return true;
+  }
+
+  public update(delta: number) {
+    this.mixer.update(delta);
+  }
+
+  public dispose() {
+    this.mixer.removeEventListener('finished', this.handleFinished);
+    this.mixer.stopAllAction();
+    this.mixer.uncacheRoot(this.root);
+    this.currentAction = null;
+  }
+
+  private findClip(state: AgentAnimationState): THREE.AnimationClip | null {
+    const explicit = this.clipNames[state];
+    if (explicit) {
+      const clip = THREE.AnimationClip.findByName(this.clips, explicit);
+      if (clip) {
+        return clip;
+      }
+    }
+
+    return this.clips.find((clip) => CLIP_PATTERNS[state].test(clip.name)) ?? null;
+  }
+
+  // Idle falls back to the first clip so single-animation models still move
+  private findIdleClip(): THREE.AnimationClip | null {
+    return this.findClip('idle') ?? this.clips[0] ?? null;
+  }
+
+  private transition() {
+    const next = STATE_PRIORITY.find((state) => state === 'idle' || this.conditions.has(state)) ?? 'idle';
+    if (next === this.state) {
+      return;
+    }
+    this.state = next;
+
+    const clip = next === 'idle' ? this.findIdleClip() : this.findClip(next);
+    if (clip) {
+      this.crossFadeTo(clip, !ONE_SHOT_STATES.includes(next), this.fadeDuration);
+      return;
+    }
+
+    // No dedicated clip for this state: keep (or return to) the idle loop
+    const idle = this.findIdleClip();
+    if (idle && this.currentAction?.getClip() !== idle) {
+      this.crossFadeTo(idle, true, this.fadeDuration);
+    }
+  }
+
+  private crossFadeTo(clip: THREE.AnimationClip, loop: boolean, fadeDuration: number) {
+    const action = this.mixer.clipAction(clip);
+    action.reset();
+    action.setLoop(loop ? THREE.LoopRepeat : THREE.LoopOnce, loop ? Infinity : 1);
+    action.clampWhenFinished = !loop;
+    action.enabled = true;
+
+    if (this.currentAction && this.currentAction !== action) {
+      action.crossFadeFrom(this.currentAction, fadeDuration, false);
+    }
+    action.play();
+    this.currentAction = action;
+  }
+
+  // One-shot clips settle back into the idle loop once they finish
+  private handleFinished = (event: { action: THREE.AnimationAction }) => {
+    if (event.action !== this.currentAction) {
+      return;
+    }
+
+    const idle = this.findIdleClip();
+    if (idle && idle !== event.action.getClip()) {
+      this.crossFadeTo(idle, true, this.fadeDuration);
+    }
+  };
+}
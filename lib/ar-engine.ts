@@ -1,22 +1,125 @@
 import * as THREE from 'three';
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
-import { ARObject, Vector3, ARScene, CoordinateConversion } from '@/types/ar';
+import { ARObject, Vector3, ARScene, XRSessionStatus, ARObjectSelection } from '@/types/ar';
 import { DeployedObject } from '@/types/database';
 import { LocationData } from '@/hooks/useLocation';
+import { GeodeticConverter } from '@/lib/geodetic';
+import { AssetManager, AssetModel } from '@/lib/asset-manager';
+import { LabelAnchor } from '@/lib/label-layout';
+import { GeoPoint, distanceBetween, sampleRoute } from '@/lib/navigation';
+import { MarkerAnchor } from '@/lib/marker-pose';
+import { isMarkerFixHeld, markerFixToLocation } from '@/services/MarkerAnchorService';
+import { AgentAnimator, AgentAnimationState } from '@/lib/agent-animator';
+import { RenderProfiler } from '@/lib/render-profiler';
+import { QualityGovernor, QualityLevel, QualityPreference, QualityPreset } from '@/lib/quality-governor';
+import {
+  StreamingBudget,
+  StreamingResult,
+  STREAMING_HYSTERESIS,
+  getStreamingBudget,
+  selectLODLevel,
+  createBillboard,
+  createLODObject,
+  setLODLevel,
+  getLODLevel,
+} from '@/lib/lod';
+import { deviceOrientationToQuaternion, deviceToCameraQuaternion, getScreenOrientationAngle } from '@/lib/orientation';
+
+// Average human eye height above the ground (meters)
+const EYE_HEIGHT = 1.6;
+
+// Period of the emissive pulse on the selected object (milliseconds)
+const SELECTION_PULSE_MS = 1200;
+const SELECTION_COLOR = 0x00d4ff;
+
+// Height of the billboard icon's top edge (meters), the lowest a label may
+// hang so it stays clear of distant objects' icons
+const BILLBOARD_TOP = 1.75;
+
+// Spacing of the breadcrumb markers along a navigation route (meters)
+const BREADCRUMB_SPACING = 3;
+const NAVIGATION_COLOR = 0x00ec97;
+
+// Where the navigation arrow floats relative to the viewer (meters)
+const NAVIGATION_ARROW_DISTANCE = 2;
+const NAVIGATION_ARROW_DROP = 0.6;
+
+// Longest animation step per frame (seconds), so a stalled frame does not
+// jump the clips forward
+const MAX_ANIMATION_DELTA = 0.1;
+
+// How often the render loop re-evaluates which objects to stream and at
+// which level of detail (milliseconds)
+const STREAMING_INTERVAL_MS = 500;
 
 export class AREngine {
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
   private renderer: THREE.WebGLRenderer;
-  private loader: GLTFLoader;
   private objects: Map<string, THREE.Object3D>;
+  private objectSources: Map<string, DeployedObject> = new Map();
+  // Every object the engine may show; which of them are actually in the
+  // scene, and at what detail, is decided by updateStreaming
+  private streamingCandidates: Map<string, DeployedObject> = new Map();
+  // Budget requested by the caller, and the one in effect after the current
+  // quality preset has been applied to it
+  private baseStreamingBudget: StreamingBudget = getStreamingBudget('medium');
+  private streamingBudget: StreamingBudget = getStreamingBudget('medium');
+  private pendingLoads: Map<string, Promise<void>> = new Map();
+  private failedLoads: Set<string> = new Set();
+  private lastStreamingUpdate = 0;
+  private profiler: RenderProfiler = new RenderProfiler();
+  private qualityGovernor: QualityGovernor;
+  private directionalLight: THREE.DirectionalLight | null = null;
+  private raycaster: THREE.Raycaster = new THREE.Raycaster();
+  private selectedObjectId: string | null = null;
+  // Original materials of the selected object's meshes. The highlight works
+  // on per-selection copies because materials are shared between instances.
+  private selectionMaterials: Map<THREE.Mesh, THREE.Material | THREE.Material[]> = new Map();
+  private selectionCallbacks: ((selection: ARObjectSelection | null) => void)[] = [];
+  // Animation state per object with clips, and the state conditions set by
+  // the caller so they survive an object being streamed out and back in
+  private animators: Map<string, AgentAnimator> = new Map();
+  // Releases each loaded object's claim on its shared model template
+  private assetReleases: Map<string, () => void> = new Map();
+  private animationConditions: Map<string, Set<Exclude<AgentAnimationState, 'idle'>>> = new Map();
+  private animationClock: THREE.Clock = new THREE.Clock();
+  // Active navigation route, its breadcrumb markers and the arrow pointing
+  // at the next waypoint
+  private navigationRoute: GeoPoint[] | null = null;
+  private navigationWaypoint = 0;
+  private navigationPath: THREE.Group | null = null;
+  private navigationArrow: THREE.Group | null = null;
+  // Objects added with loadObject alone are left alone until a caller opts
+  // into streaming with setStreamingCandidates
+  private streamingEnabled = false;
   private userLocation: LocationData | null = null;
-  private coordinateConverter: CoordinateConversion;
+
+  // Latest QR marker fix, and the compass correction it implied (degrees)
+  private markerAnchor: MarkerAnchor | null = null;
+  private headingOffset = 0;
+  // World coordinates are East-North-Up offsets from a geodetic origin that
+  // is anchored at the first user fix and moved when the user walks away
+  private coordinateConverter: GeodeticConverter = new GeodeticConverter({ reanchorDistance: 1000 });
   private animationId: number | null = null;
+  // Parent of every geodetically placed object. Identity in device
+  // orientation mode; in WebXR mode it maps the ENU frame onto the XR
+  // local-floor space
+  private geoRoot: THREE.Group = new THREE.Group();
+  private xrSession: XRSession | null = null;
+  private xrStatus: XRSessionStatus = 'idle';
+  private xrHeading: number | null = null;
+  private needsXRAlignment: boolean = false;
+  private xrStatusCallbacks: ((status: XRSessionStatus) => void)[] = [];
   private isInitialized: boolean = false;
   private isDisposed: boolean = false;
 
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(
+    canvas: HTMLCanvasElement,
+    options: { performanceLevel?: QualityLevel; qualityPreference?: QualityPreference } = {}
+  ) {
+    this.qualityGovernor = new QualityGovernor(options.performanceLevel ?? 'medium');
+    this.qualityGovernor.setPreference(options.qualityPreference ?? 'auto');
+
     try {
       console.log('🏗️ Initializing AR Engine...');
       
@@ -34,18 +137,18 @@ export class AREngine {
         this.renderer = new THREE.WebGLRenderer({ 
           canvas, 
           alpha: true, 
-          antialias: true,
+          // Antialiasing is fixed at context creation, so only the initial
+          // preset decides it
+          antialias: this.qualityGovernor.getPreset().antialias,
           powerPreference: 'high-performance'
         });
       } catch (error) {
         throw new Error(`Failed to initialize WebGL renderer: ${error}`);
       }
       
-      this.loader = new GLTFLoader();
       this.objects = new Map();
       
       this.setupScene();
-      this.setupCoordinateConverter();
       this.startRenderLoop();
       
       this.isInitialized = true;
@@ -61,8 +164,6 @@ export class AREngine {
     try {
       // Set renderer properties
       this.renderer.setSize(window.innerWidth, window.innerHeight);
-      this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
-      this.renderer.shadowMap.enabled = true;
       this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
       this.renderer.outputColorSpace = THREE.SRGBColorSpace;
       this.renderer.toneMapping = THREE.ACESFilmicToneMapping;
@@ -75,12 +176,18 @@ export class AREngine {
       const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
       directionalLight.position.set(10, 10, 5);
       directionalLight.castShadow = true;
-      directionalLight.shadow.mapSize.width = 2048;
-      directionalLight.shadow.mapSize.height = 2048;
       this.scene.add(directionalLight);
+      this.directionalLight = directionalLight;
+
+      // Pixel ratio, shadows and streaming limits come from the quality preset
+      this.applyQualityPreset(this.qualityGovernor.getPreset());
+      this.qualityGovernor.onChange((preset) => this.applyQualityPreset(preset));
+
+      this.geoRoot.name = 'geo_root';
+      this.scene.add(this.geoRoot);
 
       // Setup camera
-      this.camera.position.set(0, 1.6, 0); // Average human eye height
+      this.camera.position.set(0, EYE_HEIGHT, 0);
       
       console.log('✅ AR scene setup complete');
     } catch (error) {
@@ -89,65 +196,124 @@ export class AREngine {
     }
   }
 
-  private setupCoordinateConverter() {
-    this.coordinateConverter = {
-      gpsToWorld: (lat: number, lng: number, alt: number = 0): Vector3 => {
-        if (!this.userLocation) {
-          console.warn('User location not set, using origin coordinates');
-          return { x: 0, y: alt, z: 0 };
-        }
+  public setUserLocation(location: LocationData) {
+    if (!location || typeof location.latitude !== 'number' || typeof location.longitude !== 'number') {
+      throw new Error('Invalid location data provided');
+    }
+    
+    if (this.isHeldByMarker(location)) {
+      return;
+    }
 
-        try {
-          // Convert GPS coordinates to local world coordinates
-          // Using simple Mercator projection for demo
-          const earthRadius = 6371000; // meters
-          const latRad = (lat * Math.PI) / 180;
-          const lngRad = (lng * Math.PI) / 180;
-          const userLatRad = (this.userLocation.latitude * Math.PI) / 180;
-          const userLngRad = (this.userLocation.longitude * Math.PI) / 180;
-
-          const x = earthRadius * (lngRad - userLngRad) * Math.cos(userLatRad);
-          const z = -earthRadius * (latRad - userLatRad); // Negative Z for forward direction
-          const y = alt - (this.userLocation.altitude || 0);
-
-          return { x, y, z };
-        } catch (error) {
-          console.error('Error in GPS to world conversion:', error);
-          return { x: 0, y: alt, z: 0 };
-        }
-      },
+    this.userLocation = location;
 
-      worldToGPS: (position: Vector3) => {
-        if (!this.userLocation) {
-          console.warn('User location not set for world to GPS conversion');
-          return { lat: 0, lng: 0, alt: position.y };
-        }
+    const altitude = location.altitude || 0;
+    if (this.coordinateConverter.shouldReanchor(location.latitude, location.longitude, altitude)) {
+      this.reanchorOrigin(location);
+    }
 
-        try {
-          const earthRadius = 6371000;
-          const userLatRad = (this.userLocation.latitude * Math.PI) / 180;
-          const userLngRad = (this.userLocation.longitude * Math.PI) / 180;
+    this.placeCameraAtUser();
+    console.log(`📍 User location set: ${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)}`);
+  }
 
-          const lat = this.userLocation.latitude + (position.z / earthRadius) * (180 / Math.PI);
-          const lng = this.userLocation.longitude + (position.x / (earthRadius * Math.cos(userLatRad))) * (180 / Math.PI);
-          const alt = position.y + (this.userLocation.altitude || 0);
+  /**
+   * Snap the local frame to a surveyed QR marker: the origin moves to the
+   * marker, the user to the position seen from it, and the compass error it
+   * revealed is corrected by turning the geodetic frame. Passing null drops
+   * the held position but keeps the heading correction, since compass bias
+   * changes slowly.
+   */
+  public applyMarkerAnchor(anchor: MarkerAnchor | null) {
+    if (this.isDisposed) {
+      return;
+    }
 
-          return { lat, lng, alt };
-        } catch (error) {
-          console.error('Error in world to GPS conversion:', error);
-          return { lat: 0, lng: 0, alt: position.y };
-        }
-      }
-    };
+    this.markerAnchor = anchor;
+    if (!anchor) {
+      return;
+    }
+
+    this.reanchorOrigin(anchor.origin);
+    this.userLocation = markerFixToLocation(anchor);
+
+    if (anchor.headingOffset !== null) {
+      this.headingOffset = anchor.headingOffset;
+    }
+
+    if (this.xrSession) {
+      // XR alignment takes the marker heading as the viewer's true heading
+      this.xrHeading = anchor.fix.heading;
+      this.needsXRAlignment = true;
+    } else {
+      this.geoRoot.rotation.set(0, this.headingOffset * Math.PI / 180, 0);
+      this.placeCameraAtUser();
+    }
+
+    console.log(`⚓ AR frame anchored to marker ${anchor.markerId}`);
   }
 
-  public setUserLocation(location: LocationData) {
-    if (!location || typeof location.latitude !== 'number' || typeof location.longitude !== 'number') {
-      throw new Error('Invalid location data provided');
+  // Keeps the marker fix over GPS while it holds and lets go of it for good
+  // once it does not
+  private isHeldByMarker(location: LocationData): boolean {
+    if (!this.markerAnchor) {
+      return false;
     }
-    
-    this.userLocation = location;
-    console.log(`📍 User location set: ${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)}`);
+
+    if (isMarkerFixHeld(this.markerAnchor, location)) {
+      return true;
+    }
+
+    const age = Date.now() - this.markerAnchor.timestamp;
+    const drift = distanceBetween(location, this.markerAnchor.fix);
+    console.log(`⚓ Releasing marker anchor ${this.markerAnchor.markerId} (${Math.round(age / 1000)}s old, GPS ${drift.toFixed(1)}m away)`);
+    this.markerAnchor = null;
+    return false;
+  }
+
+  // Move the camera to the user's position in the (possibly heading-corrected)
+  // geodetic frame. In WebXR mode the viewer pose comes from XR tracking
+  private placeCameraAtUser() {
+    if (this.xrSession || !this.userLocation) {
+      return;
+    }
+
+    const { latitude, longitude, altitude } = this.userLocation;
+    const local = this.coordinateConverter.gpsToWorld(latitude, longitude, altitude || 0);
+    this.geoRoot.updateMatrixWorld(true);
+    const userPosition = this.geoRoot.localToWorld(new THREE.Vector3(local.x, local.y, local.z));
+    this.camera.position.set(userPosition.x, userPosition.y + EYE_HEIGHT, userPosition.z);
+  }
+
+  // Move the local frame origin to the given location and re-project every
+  // loaded object so world coordinates stay small enough for float precision
+  private reanchorOrigin(location: { latitude: number; longitude: number; altitude?: number }) {
+    const hadOrigin = this.coordinateConverter.hasOrigin();
+    this.coordinateConverter.setOrigin(location.latitude, location.longitude, location.altitude || 0);
+
+    if (hadOrigin) {
+      this.objects.forEach((object, id) => {
+        const source = this.objectSources.get(id);
+        if (source) {
+          const position = this.getObjectWorldPosition(source);
+          object.position.set(position.x, position.y, position.z);
+        }
+      });
+      this.needsXRAlignment = !!this.xrSession;
+      console.log(`⚓ Re-anchored AR origin at ${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)}`);
+    }
+
+    // A route set before the first fix can only be placed now
+    if (this.navigationRoute) {
+      this.rebuildNavigationPath();
+    }
+  }
+
+  private getObjectWorldPosition(deployedObject: DeployedObject): Vector3 {
+    return this.coordinateConverter.gpsToWorld(
+      deployedObject.latitude,
+      deployedObject.longitude,
+      deployedObject.altitude || 0
+    );
   }
 
   public async loadObject(deployedObject: DeployedObject): Promise<void> {
@@ -163,29 +329,34 @@ export class AREngine {
       throw new Error('Invalid deployed object provided');
     }
 
+    const loadStart = performance.now();
+    let loadResult: 'model' | 'fallback' = 'model';
+    let releaseAsset: (() => void) | null = null;
+
     try {
       console.log(`🔄 Loading AR object: ${deployedObject.name} (${deployedObject.id})`);
 
       // Convert GPS coordinates to world position
-      const worldPosition = this.coordinateConverter.gpsToWorld(
-        deployedObject.latitude,
-        deployedObject.longitude,
-        deployedObject.altitude || 0
-      );
+      const worldPosition = this.getObjectWorldPosition(deployedObject);
 
       let object: THREE.Object3D;
+      let animations: THREE.AnimationClip[] = [];
 
       try {
         // Try to load 3D model with timeout
         const modelUrl = deployedObject.model_url || this.getDefaultModelUrl(deployedObject.model_type);
         console.log(`📦 Loading model from: ${modelUrl}`);
         
-        object = await this.loadModelWithTimeout(modelUrl, 10000);
+        const model = await this.loadModelWithTimeout(modelUrl, deployedObject.model_type, 10000);
+        object = model.object;
+        animations = model.animations;
+        releaseAsset = model.release;
         console.log(`✅ Model loaded successfully for ${deployedObject.name}`);
       } catch (modelError) {
         console.warn(`⚠️ Failed to load model for ${deployedObject.name}, using fallback:`, modelError);
         // Create fallback primitive object
         object = this.createFallbackObject(deployedObject);
+        loadResult = 'fallback';
       }
 
       // Validate object was created
@@ -193,6 +364,18 @@ export class AREngine {
         throw new Error('Failed to create AR object');
       }
 
+      // The mixer drives the full model; the simplified copy shares skinned
+      // meshes' skeletons so it follows along
+      if (animations.length > 0) {
+        this.createAnimator(deployedObject.id, object, animations);
+      }
+
+      // Labels hang above the top of the full model
+      const modelTop = new THREE.Box3().setFromObject(object).max.y;
+      const labelHeight = Math.max(Number.isFinite(modelTop) ? modelTop : 0, BILLBOARD_TOP);
+
+      object = createLODObject(object, createBillboard(deployedObject.name || ''), this.streamingBudget);
+
       // Apply transformations with validation
       object.position.set(worldPosition.x, worldPosition.y, worldPosition.z);
       object.rotation.set(
@@ -208,17 +391,35 @@ export class AREngine {
 
       // Set object name for debugging
       object.name = `ar_object_${deployedObject.id}`;
-      object.userData = { deployedObjectId: deployedObject.id };
+      object.userData = { ...object.userData, deployedObjectId: deployedObject.id, labelHeight };
 
       // Enable shadows and ensure proper setup
       this.setupObjectForRendering(object);
 
       // Add to scene and track
-      this.scene.add(object);
+      this.geoRoot.add(object);
       this.objects.set(deployedObject.id, object);
+      this.objectSources.set(deployedObject.id, deployedObject);
+      if (releaseAsset) {
+        this.assetReleases.set(deployedObject.id, releaseAsset);
+      }
+
+      this.profiler.recordLoad({
+        objectId: deployedObject.id,
+        name: deployedObject.name || deployedObject.id,
+        durationMs: performance.now() - loadStart,
+        result: loadResult,
+      });
 
       console.log(`✅ AR object loaded: ${deployedObject.name} at position:`, worldPosition);
     } catch (error) {
+      releaseAsset?.();
+      this.profiler.recordLoad({
+        objectId: deployedObject.id,
+        name: deployedObject.name || deployedObject.id,
+        durationMs: performance.now() - loadStart,
+        result: 'error',
+      });
       console.error(`❌ Failed to load AR object ${deployedObject.id}:`, error);
       throw new Error(`Failed to load AR object "${deployedObject.name}": ${error}`);
     }
@@ -239,30 +440,33 @@ export class AREngine {
     }
   }
 
-  private async loadModelWithTimeout(url: string, timeoutMs: number): Promise<THREE.Object3D> {
+  private async loadModelWithTimeout(url: string, modelType: string | undefined, timeoutMs: number): Promise<AssetModel> {
     return new Promise((resolve, reject) => {
+      let timedOut = false;
       const timeout = setTimeout(() => {
+        timedOut = true;
         reject(new Error(`Model loading timeout after ${timeoutMs}ms`));
       }, timeoutMs);
 
-      this.loader.load(
-        url,
-        (gltf) => {
-          clearTimeout(timeout);
-          if (gltf && gltf.scene) {
-            resolve(gltf.scene);
-          } else {
-            reject(new Error('Invalid GLTF model loaded'));
-          }
-        },
-        (progress) => {
+      AssetManager.getInstance().loadModel(url, modelType, {
+        onProgress: (progress) => {
           console.log('Loading progress:', (progress.loaded / progress.total) * 100 + '%');
         },
-        (error) => {
+      })
+        .then((model) => {
+          clearTimeout(timeout);
+          // The fallback object took this model's place
+          if (timedOut) {
+            model.release();
+            return;
+          }
+          console.log(`📦 Loaded ${model.format} model with ${model.animations.length} animation(s)`);
+          resolve(model);
+        })
+        .catch((error) => {
           clearTimeout(timeout);
           reject(error);
-        }
-      );
+        });
     });
   }
 
@@ -337,6 +541,210 @@ export class AREngine {
     }
   }
 
+  public setStreamingBudget(budget: StreamingBudget) {
+    this.baseStreamingBudget = budget;
+    this.streamingBudget = this.applyQualityToBudget(budget);
+  }
+
+  // Tighten a streaming budget to the current quality preset
+  private applyQualityToBudget(budget: StreamingBudget): StreamingBudget {
+    const preset = this.qualityGovernor.getPreset();
+    const maxLoadedObjects = Math.min(budget.maxLoadedObjects, preset.maxObjects);
+
+    return {
+      ...budget,
+      maxLoadedObjects,
+      maxFullDetailObjects: Math.min(budget.maxFullDetailObjects, maxLoadedObjects),
+      simplifiedDistance: budget.simplifiedDistance * preset.lodBias,
+      billboardDistance: budget.billboardDistance * preset.lodBias,
+    };
+  }
+
+  private applyQualityPreset(preset: QualityPreset) {
+    if (this.isDisposed || !this.renderer) {
+      return;
+    }
+
+    try {
+      // The XR compositor owns the framebuffer size while presenting
+      if (!this.xrSession) {
+        this.renderer.setPixelRatio(Math.min(window.devicePixelRatio || 1, preset.maxPixelRatio));
+      }
+
+      if (this.renderer.shadowMap.enabled !== preset.shadows) {
+        this.renderer.shadowMap.enabled = preset.shadows;
+        // Shadow support is compiled into the shaders
+        this.scene.traverse((child) => {
+          if (child instanceof THREE.Mesh) {
+            const materials = Array.isArray(child.material) ? child.material : [child.material];
+            materials.forEach((material) => {
+              material.needsUpdate = true;
+            });
+          }
+        });
+      }
+
+      const light = this.directionalLight;
+      if (light && light.shadow.mapSize.width !== preset.shadowMapSize) {
+        light.shadow.mapSize.set(preset.shadowMapSize, preset.shadowMapSize);
+        // Force the shadow map to be reallocated at the new size
+        light.shadow.map?.dispose();
+        light.shadow.map = null;
+      }
+
+      this.streamingBudget = this.applyQualityToBudget(this.baseStreamingBudget);
+      console.log(`🎚️ Applied ${preset.level} quality preset`);
+    } catch (error) {
+      console.error('Error applying quality preset:', error);
+    }
+  }
+
+  public setQualityPreference(preference: QualityPreference) {
+    this.qualityGovernor.setPreference(preference);
+  }
+
+  public setPerformanceLevel(performanceLevel: QualityLevel) {
+    this.qualityGovernor.setPerformanceLevel(performanceLevel);
+  }
+
+  public getQualityPreset(): QualityPreset {
+    return this.qualityGovernor.getPreset();
+  }
+
+  public getStreamingBudget(): StreamingBudget {
+    return { ...this.streamingBudget };
+  }
+
+  /**
+   * Replace the set of objects the engine streams from. Objects are loaded as
+   * they come within the render distance and unloaded as they leave it.
+   */
+  public setStreamingCandidates(objects: DeployedObject[]): Promise<StreamingResult> {
+    this.streamingCandidates = new Map(
+      objects.filter((object) => object && object.id).map((object) => [object.id, object])
+    );
+    this.failedLoads.clear();
+    this.streamingEnabled = true;
+    return this.updateStreaming();
+  }
+
+  public getLoadedObjectIds(): string[] {
+    return Array.from(this.objects.keys());
+  }
+
+  /**
+   * Load, unload and switch detail levels according to each candidate's
+   * distance from the camera and the streaming budget
+   */
+  public async updateStreaming(): Promise<StreamingResult> {
+    const result: StreamingResult = { loaded: 0, failed: 0, unloaded: 0 };
+
+    if (this.isDisposed || !this.isInitialized || !this.streamingEnabled || !this.coordinateConverter.hasOrigin()) {
+      return result;
+    }
+
+    const ranked = this.rankStreamingCandidates();
+    const budget = this.streamingBudget;
+
+    // Loaded objects get some slack past the render distance so they do not
+    // flicker in and out on the boundary
+    const desired = ranked
+      .filter(({ id, distance }) =>
+        distance <= budget.renderDistance * (this.objects.has(id) ? STREAMING_HYSTERESIS : 1)
+      )
+      .slice(0, budget.maxLoadedObjects);
+    const desiredIds = new Set(desired.map(({ id }) => id));
+
+    for (const id of Array.from(this.objects.keys())) {
+      if (!desiredIds.has(id)) {
+        this.removeObject(id);
+        result.unloaded++;
+      }
+    }
+
+    const loads = desired
+      .filter(({ id }) => !this.objects.has(id) && !this.pendingLoads.has(id) && !this.failedLoads.has(id))
+      .map(({ id }) => {
+        const source = this.streamingCandidates.get(id)!;
+        const load = this.loadObject(source)
+          .then(() => {
+            result.loaded++;
+          })
+          .catch((error) => {
+            result.failed++;
+            this.failedLoads.add(id);
+            console.warn(`⚠️ Streaming load failed for ${source.name}:`, error);
+          })
+          .finally(() => {
+            this.pendingLoads.delete(id);
+          });
+        this.pendingLoads.set(id, load);
+        return load;
+      });
+
+    this.applyLODLevels(desired);
+
+    if (loads.length > 0) {
+      await Promise.all(loads);
+      // The candidates may have been replaced while loading
+      for (const { id } of desired) {
+        if (this.objects.has(id) && !this.streamingCandidates.has(id)) {
+          this.removeObject(id);
+        }
+      }
+      this.applyLODLevels(desired);
+    }
+
+    if (result.loaded || result.unloaded || result.failed) {
+      console.log(`📡 Streaming update: ${result.loaded} loaded, ${result.unloaded} unloaded, ${result.failed} failed`);
+    }
+
+    return result;
+  }
+
+  // Candidates ordered by distance from the camera, nearest first
+  private rankStreamingCandidates(): { id: string; distance: number }[] {
+    const cameraPosition = this.camera.getWorldPosition(new THREE.Vector3());
+    this.geoRoot.updateMatrixWorld(true);
+
+    const ranked: { id: string; distance: number }[] = [];
+    const position = new THREE.Vector3();
+
+    this.streamingCandidates.forEach((source, id) => {
+      const world = this.getObjectWorldPosition(source);
+      this.geoRoot.localToWorld(position.set(world.x, world.y, world.z));
+      ranked.push({ id, distance: position.distanceTo(cameraPosition) });
+    });
+
+    return ranked.sort((a, b) => a.distance - b.distance);
+  }
+
+  // Pick each loaded object's level by distance, then demote the furthest
+  // full-detail objects once the device's full-detail budget is used up
+  private applyLODLevels(ranked: { id: string; distance: number }[]) {
+    let fullDetailCount = 0;
+
+    for (const { id, distance } of ranked) {
+      const object = this.objects.get(id);
+      if (!(object instanceof THREE.LOD)) {
+        continue;
+      }
+
+      let level = selectLODLevel(distance, this.streamingBudget);
+      if (level === 'full') {
+        if (fullDetailCount >= this.streamingBudget.maxFullDetailObjects) {
+          level = 'simplified';
+        } else {
+          fullDetailCount++;
+        }
+      }
+
+      if (getLODLevel(object) !== level) {
+        setLODLevel(object, level);
+      }
+    }
+  }
+
   public removeObject(objectId: string) {
     if (this.isDisposed) {
       console.warn('Cannot remove object: AR Engine has been disposed');
@@ -346,21 +754,34 @@ export class AREngine {
     try {
       const object = this.objects.get(objectId);
       if (object) {
-        this.scene.remove(object);
+        if (this.selectedObjectId === objectId) {
+          this.setSelection(null);
+        }
+        this.geoRoot.remove(object);
         this.objects.delete(objectId);
+        this.objectSources.delete(objectId);
+        this.animators.get(objectId)?.dispose();
+        this.animators.delete(objectId);
+        this.assetReleases.get(objectId)?.();
+        this.assetReleases.delete(objectId);
         
-        // Clean up object resources
+        // Clean up object resources. Geometry and materials shared with the
+        // asset manager's templates stay alive for other instances.
         object.traverse((child) => {
-          if (child instanceof THREE.Mesh) {
-            if (child.geometry) {
+          if (child instanceof THREE.Sprite) {
+            child.material.map?.dispose();
+            child.material.dispose();
+          } else if (child instanceof THREE.Mesh) {
+            if (child.geometry && !child.geometry.userData.sharedAsset) {
               child.geometry.dispose();
             }
             if (child.material) {
-              if (Array.isArray(child.material)) {
-                child.material.forEach(material => material.dispose());
-              } else {
-                child.material.dispose();
-              }
+              const materials = Array.isArray(child.material) ? child.material : [child.material];
+              materials.forEach(material => {
+                if (!material.userData.sharedAsset) {
+                  material.dispose();
+                }
+              });
             }
           }
         });
@@ -389,24 +810,29 @@ export class AREngine {
     }
   }
 
+  // Unfiltered fallback for callers that only have raw Euler angles; the
+  // sensor-fused path goes through setCameraQuaternion
   public updateCameraOrientation(alpha: number, beta: number, gamma: number) {
-    if (this.isDisposed) {
+    if (this.isDisposed || this.xrSession) {
       return;
     }
 
     try {
-      // Convert device orientation to camera rotation
-      // This is a simplified implementation
-      this.camera.rotation.set(
-        (beta * Math.PI) / 180,
-        (alpha * Math.PI) / 180,
-        (gamma * Math.PI) / 180
-      );
+      const deviceQuaternion = deviceOrientationToQuaternion(alpha, beta, gamma);
+      deviceToCameraQuaternion(deviceQuaternion, getScreenOrientationAngle(), this.camera.quaternion);
     } catch (error) {
       console.error('Error updating camera orientation:', error);
     }
   }
 
+  public setCameraQuaternion(quaternion: THREE.Quaternion) {
+    if (this.isDisposed || this.xrSession) {
+      return;
+    }
+
+    this.camera.quaternion.copy(quaternion);
+  }
+
   public getObjectsInView(): string[] {
     if (this.isDisposed || !this.camera) {
       return [];
@@ -445,6 +871,44 @@ export class AREngine {
     }
   }
 
+  /**
+   * Screen positions (canvas CSS pixels) of the point above each loaded
+   * object where its label hangs, for layoutLabels
+   */
+  public getLabelAnchors(): LabelAnchor[] {
+    if (this.isDisposed || !this.renderer || !this.camera) {
+      return [];
+    }
+
+    const canvas = this.renderer.domElement;
+    const width = canvas.clientWidth || canvas.width;
+    const height = canvas.clientHeight || canvas.height;
+    const camera = this.renderer.xr.isPresenting ? this.renderer.xr.getCamera() : this.camera;
+    const cameraPosition = camera.getWorldPosition(new THREE.Vector3());
+    const point = new THREE.Vector3();
+    const anchors: LabelAnchor[] = [];
+
+    this.objects.forEach((object, objectId) => {
+      object.updateMatrixWorld();
+      point.set(0, object.userData.labelHeight ?? BILLBOARD_TOP, 0);
+      object.localToWorld(point);
+
+      const distance = point.distanceTo(cameraPosition);
+      const inFront = point.clone().applyMatrix4(camera.matrixWorldInverse).z < 0;
+      point.project(camera);
+
+      anchors.push({
+        objectId,
+        x: ((point.x + 1) / 2) * width,
+        y: ((1 - point.y) / 2) * height,
+        distance,
+        inFront,
+      });
+    });
+
+    return anchors;
+  }
+
   private computeObjectBoundingSphere(object: THREE.Object3D): THREE.Sphere | null {
     try {
       // Create a bounding box for the entire object hierarchy
@@ -468,29 +932,476 @@ export class AREngine {
     }
   }
 
+  /**
+   * Raycast from a point on the canvas (client pixel coordinates) and return
+   * the nearest visible object under it, without changing the selection
+   */
+  public pick(clientX: number, clientY: number): ARObjectSelection | null {
+    if (this.isDisposed || !this.renderer) {
+      return null;
+    }
+
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) {
+      return null;
+    }
+
+    const pointer = new THREE.Vector2(
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      -((clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(pointer, this.camera);
+    return this.intersectObjects();
+  }
+
+  /**
+   * Pick at a canvas point and make the hit object the selection. Tapping
+   * empty space clears it.
+   */
+  public selectAt(clientX: number, clientY: number): ARObjectSelection | null {
+    const selection = this.pick(clientX, clientY);
+    this.setSelection(selection);
+    return selection;
+  }
+
+  public selectObject(objectId: string | null) {
+    if (!objectId) {
+      this.setSelection(null);
+      return;
+    }
+
+    const object = this.objects.get(objectId);
+    const source = this.objectSources.get(objectId);
+    if (!object || !source) {
+      console.warn(`Cannot select unknown AR object: ${objectId}`);
+      return;
+    }
+
+    const point = object.getWorldPosition(new THREE.Vector3());
+    this.setSelection({
+      objectId,
+      object: source,
+      distance: point.distanceTo(this.camera.getWorldPosition(new THREE.Vector3())),
+      point: { x: point.x, y: point.y, z: point.z },
+    });
+  }
+
+  public getSelectedObjectId(): string | null {
+    return this.selectedObjectId;
+  }
+
+  public onObjectSelected(callback: (selection: ARObjectSelection | null) => void): () => void {
+    this.selectionCallbacks.push(callback);
+
+    return () => {
+      const index = this.selectionCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.selectionCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  // Nearest hit along the raycaster's current ray that belongs to a visible
+  // level of a loaded object
+  private intersectObjects(): ARObjectSelection | null {
+    const hits = this.raycaster.intersectObjects(this.geoRoot.children, true);
+
+    for (const hit of hits) {
+      if (!this.isVisibleInScene(hit.object)) {
+        continue;
+      }
+
+      let node: THREE.Object3D | null = hit.object;
+      while (node && !node.userData.deployedObjectId) {
+        node = node.parent;
+      }
+
+      const objectId: string | undefined = node?.userData.deployedObjectId;
+      const source = objectId ? this.objectSources.get(objectId) : undefined;
+      if (objectId && source) {
+        return {
+          objectId,
+          object: source,
+          distance: hit.distance,
+          point: { x: hit.point.x, y: hit.point.y, z: hit.point.z },
+        };
+      }
+    }
+
+    return null;
+  }
+
+  // Raycasting ignores visibility, so hidden LOD levels have to be skipped
+  private isVisibleInScene(object: THREE.Object3D): boolean {
+    let node: THREE.Object3D | null = object;
+    while (node) {
+      if (!node.visible) {
+        return false;
+      }
+      node = node.parent;
+    }
+    return true;
+  }
+
+  private setSelection(selection: ARObjectSelection | null) {
+    const objectId = selection?.objectId ?? null;
+
+    if (objectId !== this.selectedObjectId) {
+      this.clearSelectionHighlight();
+      if (this.selectedObjectId) {
+        this.setAnimationCondition(this.selectedObjectId, 'selected', false);
+      }
+      this.selectedObjectId = objectId;
+      if (objectId) {
+        this.applySelectionHighlight(objectId);
+        this.setAnimationCondition(objectId, 'selected', true);
+      }
+    }
+
+    if (selection) {
+      console.log(`🎯 Selected AR object: ${selection.object.name} (${selection.distance.toFixed(1)}m)`);
+    }
+
+    this.selectionCallbacks.forEach((callback) => {
+      try {
+        callback(selection);
+      } catch (error) {
+        console.error('Error in object selection callback:', error);
+      }
+    });
+  }
+
+  private applySelectionHighlight(objectId: string) {
+    const object = this.objects.get(objectId);
+    if (!object) {
+      return;
+    }
+
+    object.traverse((child) => {
+      if (child instanceof THREE.Mesh && child.material) {
+        const original = child.material;
+        const copies = (Array.isArray(original) ? original : [original]).map((material) => {
+          const copy = material.clone();
+          copy.userData.sharedAsset = false;
+          if ('emissive' in copy && copy.emissive instanceof THREE.Color) {
+            copy.emissive.setHex(SELECTION_COLOR);
+          }
+          return copy;
+        });
+
+        this.selectionMaterials.set(child, original);
+        child.material = Array.isArray(original) ? copies : copies[0];
+      }
+    });
+  }
+
+  private clearSelectionHighlight() {
+    this.selectionMaterials.forEach((original, mesh) => {
+      const copies = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+      copies.forEach((material) => material.dispose());
+      mesh.material = original;
+    });
+    this.selectionMaterials.clear();
+  }
+
+  // Pulse the emissive intensity of the highlighted materials
+  private updateSelectionHighlight(now: number) {
+    if (this.selectionMaterials.size === 0) {
+      return;
+    }
+
+    const intensity = 0.4 + 0.3 * Math.sin((now / SELECTION_PULSE_MS) * Math.PI * 2);
+    this.selectionMaterials.forEach((original, mesh) => {
+      const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+      materials.forEach((material) => {
+        if ('emissiveIntensity' in material) {
+          (material as THREE.MeshStandardMaterial).emissiveIntensity = intensity;
+        }
+      });
+    });
+  }
+
+  private createAnimator(objectId: string, object: THREE.Object3D, clips: THREE.AnimationClip[]) {
+    try {
+      const animator = new AgentAnimator(object, clips);
+      this.animationConditions.get(objectId)?.forEach((condition) => {
+        animator.setCondition(condition, true);
+      });
+      this.animators.get(objectId)?.dispose();
+      this.animators.set(objectId, animator);
+      console.log(`🎬 Animations for ${objectId}: ${animator.getClipNames().join(', ')}`);
+    } catch (error) {
+      console.warn(`⚠️ Could not set up animations for ${objectId}:`, error);
+    }
+  }
+
+  /**
+   * Toggle an agent state that drives its animation. Speaking takes priority
+   * over selected, which takes priority over in range; with none active the
+   * idle clip plays. Selection is tracked by the engine itself.
+   */
+  public setAnimationCondition(objectId: string, condition: Exclude<AgentAnimationState, 'idle'>, active: boolean) {
+    let conditions = this.animationConditions.get(objectId);
+    if (active) {
+      if (!conditions) {
+        conditions = new Set();
+        this.animationConditions.set(objectId, conditions);
+      }
+      conditions.add(condition);
+    } else if (conditions) {
+      conditions.delete(condition);
+      if (conditions.size === 0) {
+        this.animationConditions.delete(objectId);
+      }
+    }
+
+    this.animators.get(objectId)?.setCondition(condition, active);
+  }
+
+  /**
+   * Mark which agents are within interaction range, e.g. from
+   * RangeDetectionService. Agents not listed leave the in-range state.
+   */
+  public setAgentsInRange(objectIds: string[]) {
+    const inRange = new Set(objectIds);
+
+    this.animationConditions.forEach((conditions, objectId) => {
+      if (conditions.has('in-range') && !inRange.has(objectId)) {
+        this.setAnimationCondition(objectId, 'in-range', false);
+      }
+    });
+    inRange.forEach((objectId) => this.setAnimationCondition(objectId, 'in-range', true));
+  }
+
+  public getAnimationState(objectId: string): AgentAnimationState | null {
+    return this.animators.get(objectId)?.getState() ?? null;
+  }
+
+  /**
+   * Play a named clip on an object, e.g. for scripted reactions. Returns
+   * false when the object has no such clip.
+   */
+  public playObjectAnimation(objectId: string, clipName: string, options: { loop?: boolean } = {}): boolean {
+    return this.animators.get(objectId)?.playClip(clipName, options) ?? false;
+  }
+
+  // Billboards have nothing to animate, so distant objects skip their mixer
+  private updateAnimations() {
+    const delta = Math.min(this.animationClock.getDelta(), MAX_ANIMATION_DELTA);
+    if (this.animators.size === 0) {
+      return;
+    }
+
+    this.animators.forEach((animator, objectId) => {
+      const object = this.objects.get(objectId);
+      if (!object || (object instanceof THREE.LOD && getLODLevel(object) === 'billboard')) {
+        return;
+      }
+
+      try {
+        animator.update(delta);
+      } catch (error) {
+        console.error(`Error updating animations for ${objectId}:`, error);
+        animator.dispose();
+        this.animators.delete(objectId);
+      }
+    });
+  }
+
+  /**
+   * Show a navigation route as breadcrumbs on the ground plus an arrow in
+   * front of the viewer pointing at the waypoint at `nextWaypoint`. Pass null
+   * to clear it.
+   */
+  public setNavigationRoute(points: GeoPoint[] | null, nextWaypoint: number = 1) {
+    if (this.isDisposed) {
+      return;
+    }
+
+    if (!points || points.length < 2) {
+      this.clearNavigation();
+      return;
+    }
+
+    const routeChanged = points !== this.navigationRoute;
+    this.navigationRoute = points;
+    this.navigationWaypoint = Math.min(Math.max(nextWaypoint, 1), points.length - 1);
+
+    if (routeChanged) {
+      this.rebuildNavigationPath();
+    }
+
+    if (!this.navigationArrow) {
+      this.navigationArrow = this.createNavigationArrow();
+      this.scene.add(this.navigationArrow);
+    }
+  }
+
+  private clearNavigation() {
+    this.navigationRoute = null;
+    this.rebuildNavigationPath();
+
+    if (this.navigationArrow) {
+      this.scene.remove(this.navigationArrow);
+      this.disposeNavigationObject(this.navigationArrow);
+      this.navigationArrow = null;
+    }
+  }
+
+  // Breadcrumbs sit on the ground at the user's altitude; GPS altitudes along
+  // a route are too noisy to follow
+  private rebuildNavigationPath() {
+    if (this.navigationPath) {
+      this.geoRoot.remove(this.navigationPath);
+      this.disposeNavigationObject(this.navigationPath);
+      this.navigationPath = null;
+    }
+
+    if (!this.navigationRoute || !this.coordinateConverter.hasOrigin()) {
+      return;
+    }
+
+    const groundAltitude = this.userLocation?.altitude || 0;
+    const geometry = new THREE.RingGeometry(0.12, 0.2, 24).rotateX(-Math.PI / 2);
+    const material = new THREE.MeshBasicMaterial({
+      color: NAVIGATION_COLOR,
+      transparent: true,
+      opacity: 0.8,
+      side: THREE.DoubleSide,
+      depthWrite: false,
+    });
+
+    this.navigationPath = new THREE.Group();
+    this.navigationPath.name = 'navigation_path';
+    sampleRoute(this.navigationRoute, BREADCRUMB_SPACING).forEach((point) => {
+      const position = this.coordinateConverter.gpsToWorld(point.latitude, point.longitude, groundAltitude);
+      const crumb = new THREE.Mesh(geometry, material);
+      // Keeps the breadcrumbs out of tap-to-select
+      crumb.raycast = () => {};
+      crumb.position.set(position.x, position.y + 0.02, position.z);
+      this.navigationPath?.add(crumb);
+    });
+    this.geoRoot.add(this.navigationPath);
+  }
+
+  private createNavigationArrow(): THREE.Group {
+    const material = new THREE.MeshStandardMaterial({
+      color: NAVIGATION_COLOR,
+      emissive: NAVIGATION_COLOR,
+      emissiveIntensity: 0.4,
+      transparent: true,
+      opacity: 0.9,
+    });
+
+    // Built along +Z, the axis Object3D.lookAt turns towards the target
+    const shaft = new THREE.Mesh(new THREE.CylinderGeometry(0.04, 0.04, 0.35, 12).rotateX(Math.PI / 2), material);
+    shaft.position.z = -0.05;
+    const head = new THREE.Mesh(new THREE.ConeGeometry(0.12, 0.25, 16).rotateX(Math.PI / 2), material);
+    head.position.z = 0.25;
+
+    const arrow = new THREE.Group();
+    arrow.name = 'navigation_arrow';
+    arrow.add(shaft, head);
+    arrow.traverse((child) => {
+      child.raycast = () => {};
+    });
+    return arrow;
+  }
+
+  // Float the arrow ahead of the viewer and turn it towards the next waypoint
+  private updateNavigationArrow() {
+    if (!this.navigationArrow || !this.navigationRoute) {
+      return;
+    }
+
+    const camera = this.renderer.xr.isPresenting ? this.renderer.xr.getCamera() : this.camera;
+    const viewer = camera.getWorldPosition(new THREE.Vector3());
+    const forward = camera.getWorldDirection(new THREE.Vector3()).setY(0);
+    if (forward.lengthSq() < 1e-6) {
+      forward.set(0, 0, -1);
+    }
+    forward.normalize();
+
+    this.navigationArrow.position
+      .copy(viewer)
+      .addScaledVector(forward, NAVIGATION_ARROW_DISTANCE)
+      .setY(viewer.y - NAVIGATION_ARROW_DROP);
+
+    const waypoint = this.navigationRoute[this.navigationWaypoint];
+    const local = this.coordinateConverter.gpsToWorld(waypoint.latitude, waypoint.longitude, this.userLocation?.altitude || 0);
+    const target = this.geoRoot.localToWorld(new THREE.Vector3(local.x, local.y, local.z));
+    target.y = this.navigationArrow.position.y;
+    this.navigationArrow.lookAt(target);
+  }
+
+  private disposeNavigationObject(object: THREE.Object3D) {
+    const disposed = new Set<THREE.BufferGeometry | THREE.Material>();
+    object.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        [child.geometry, ...(Array.isArray(child.material) ? child.material : [child.material])].forEach((resource) => {
+          if (!disposed.has(resource)) {
+            disposed.add(resource);
+            resource.dispose();
+          }
+        });
+      }
+    });
+  }
+
   public getRenderStats() {
+    const cacheStats = AssetManager.getInstance().getStats();
+
+    try {
+      if (this.renderer && !this.isDisposed) {
+        this.profiler.recordMemory({
+          geometries: this.renderer.info.memory.geometries,
+          textures: this.renderer.info.memory.textures,
+        });
+      }
+    } catch (error) {
+      console.error('Error reading renderer memory info:', error);
+    }
+
+    const profile = this.profiler.getSnapshot();
+    const stats = {
+      fps: profile.fps,
+      triangles: 0,
+      drawCalls: 0,
+      frameTimeP50: profile.frameTimeP50,
+      frameTimeP95: profile.frameTimeP95,
+      droppedFrames: profile.droppedFrames,
+      geometries: profile.geometries,
+      textures: profile.textures,
+      averageLoadTimeMs: profile.averageLoadTimeMs,
+      cacheHits: cacheStats.hits,
+      cacheMisses: cacheStats.misses,
+    };
+
     if (this.isDisposed || !this.renderer) {
-      return {
-        fps: 0,
-        triangles: 0,
-        drawCalls: 0,
-      };
+      return stats;
     }
 
     try {
-      return {
-        fps: 0, // Would be calculated in real implementation
-        triangles: this.renderer.info.render.triangles,
-        drawCalls: this.renderer.info.render.calls,
-      };
+      stats.triangles = this.renderer.info.render.triangles;
+      stats.drawCalls = this.renderer.info.render.calls;
     } catch (error) {
       console.error('Error getting render stats:', error);
-      return {
-        fps: 0,
-        triangles: 0,
-        drawCalls: 0,
-      };
     }
+
+    return stats;
+  }
+
+  /**
+   * Profiling report (frame times, load times, memory) as JSON, for
+   * comparing performance across builds
+   */
+  public exportProfile(): string {
+    this.getRenderStats();
+    return this.profiler.exportJSON();
+  }
+
+  public resetProfile() {
+    this.profiler.reset();
   }
 
   private startRenderLoop() {
@@ -499,24 +1410,255 @@ export class AREngine {
     }
 
     const animate = () => {
-      if (this.isDisposed) {
+      if (this.isDisposed || this.xrSession) {
         return;
       }
 
       this.animationId = requestAnimationFrame(animate);
-      
-      try {
-        if (this.renderer && this.scene && this.camera) {
-          this.renderer.render(this.scene, this.camera);
-        }
-      } catch (error) {
-        console.error('Error in render loop:', error);
-      }
+      this.renderFrame();
     };
     
     animate();
   }
 
+  private renderFrame() {
+    const now = performance.now();
+    this.profiler.recordFrame(now);
+    this.updateSelectionHighlight(now);
+    this.updateAnimations();
+    this.updateNavigationArrow();
+
+    if (now - this.lastStreamingUpdate > STREAMING_INTERVAL_MS) {
+      this.lastStreamingUpdate = now;
+      this.updateStreaming().catch((error) => {
+        console.error('Error updating object streaming:', error);
+      });
+      this.qualityGovernor.update(this.profiler.getSnapshot(), now);
+    }
+
+    try {
+      if (this.renderer && this.scene && this.camera) {
+        this.renderer.render(this.scene, this.camera);
+      }
+    } catch (error) {
+      console.error('Error in render loop:', error);
+    }
+  }
+
+  public static async isXRSupported(): Promise<boolean> {
+    if (typeof navigator === 'undefined' || !navigator.xr) {
+      return false;
+    }
+
+    try {
+      return await navigator.xr.isSessionSupported('immersive-ar');
+    } catch (error) {
+      console.warn('WebXR support check failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Start a WebXR immersive-ar session. The XR viewer pose drives the camera
+   * and geodetic objects are mapped into the local-floor space using the
+   * user's GPS fix and the device's true heading at session start.
+   */
+  public async startXRSession(options: { heading?: number | null; domOverlayRoot?: HTMLElement } = {}): Promise<void> {
+    if (this.isDisposed) {
+      throw new Error('AR Engine has been disposed');
+    }
+
+    if (this.xrSession) {
+      console.warn('WebXR session already active');
+      return;
+    }
+
+    if (!navigator.xr) {
+      throw new Error('WebXR is not available in this browser');
+    }
+
+    this.setXRStatus('requesting');
+
+    try {
+      const sessionInit: XRSessionInit = {
+        requiredFeatures: ['local-floor'],
+        optionalFeatures: options.domOverlayRoot ? ['dom-overlay'] : [],
+      };
+      if (options.domOverlayRoot) {
+        sessionInit.domOverlay = { root: options.domOverlayRoot };
+      }
+
+      const session = await navigator.xr.requestSession('immersive-ar', sessionInit);
+
+      if (this.animationId) {
+        cancelAnimationFrame(this.animationId);
+        this.animationId = null;
+      }
+
+      this.xrSession = session;
+      this.xrHeading = typeof options.heading === 'number' ? options.heading : null;
+      this.needsXRAlignment = true;
+
+      if (this.xrHeading === null) {
+        console.warn('⚠️ No compass heading for WebXR alignment, assuming the device faces north');
+      }
+
+      session.addEventListener('end', this.handleXRSessionEnd);
+      session.addEventListener('select', this.handleXRSelect);
+
+      this.renderer.xr.enabled = true;
+      this.renderer.xr.setReferenceSpaceType('local-floor');
+      await this.renderer.xr.setSession(session);
+      this.renderer.setAnimationLoop(() => {
+        if (this.needsXRAlignment) {
+          this.alignGeoRootToXR();
+        }
+        this.renderFrame();
+      });
+
+      this.setXRStatus('active');
+      console.log('🥽 WebXR immersive-ar session started');
+    } catch (error) {
+      console.error('❌ Failed to start WebXR session:', error);
+      this.xrSession = null;
+      this.renderer.xr.enabled = false;
+      this.setXRStatus('error');
+      this.startRenderLoop();
+      throw new Error(`Failed to start WebXR session: ${error}`);
+    }
+  }
+
+  public async endXRSession(): Promise<void> {
+    if (!this.xrSession) {
+      return;
+    }
+
+    try {
+      await this.xrSession.end();
+    } catch (error) {
+      console.warn('Error ending WebXR session:', error);
+      this.handleXRSessionEnd();
+    }
+  }
+
+  // Re-run the GPS/heading alignment on the next XR frame, e.g. after a better
+  // compass reading is available
+  public realignXR(heading?: number | null) {
+    if (typeof heading === 'number') {
+      this.xrHeading = heading;
+    }
+    this.needsXRAlignment = !!this.xrSession;
+  }
+
+  public isXRActive(): boolean {
+    return !!this.xrSession;
+  }
+
+  public getXRStatus(): XRSessionStatus {
+    return this.xrStatus;
+  }
+
+  // Subscribe to XR session lifecycle changes
+  public onXRStatusChange(callback: (status: XRSessionStatus) => void): () => void {
+    this.xrStatusCallbacks.push(callback);
+
+    return () => {
+      const index = this.xrStatusCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.xrStatusCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  private setXRStatus(status: XRSessionStatus) {
+    this.xrStatus = status;
+    this.xrStatusCallbacks.forEach(callback => callback(status));
+  }
+
+  // Screen taps in immersive-ar arrive as XR select events along the input
+  // source's target ray rather than as DOM pointer events
+  private handleXRSelect = (event: XRInputSourceEvent) => {
+    const referenceSpace = this.renderer.xr.getReferenceSpace();
+    const pose = referenceSpace ? event.frame.getPose(event.inputSource.targetRaySpace, referenceSpace) : null;
+    if (!pose) {
+      return;
+    }
+
+    const { position, orientation } = pose.transform;
+    this.raycaster.ray.origin.set(position.x, position.y, position.z);
+    this.raycaster.ray.direction
+      .set(0, 0, -1)
+      .applyQuaternion(new THREE.Quaternion(orientation.x, orientation.y, orientation.z, orientation.w));
+    this.raycaster.camera = this.camera;
+
+    this.setSelection(this.intersectObjects());
+  };
+
+  private handleXRSessionEnd = () => {
+    if (!this.xrSession) {
+      return;
+    }
+
+    this.xrSession.removeEventListener('end', this.handleXRSessionEnd);
+    this.xrSession.removeEventListener('select', this.handleXRSelect);
+    this.xrSession = null;
+    this.needsXRAlignment = false;
+
+    this.renderer.setAnimationLoop(null);
+    this.renderer.xr.enabled = false;
+
+    // Back to the device orientation path with the geodetic frame as world,
+    // turned by any compass correction from a marker
+    this.geoRoot.position.set(0, 0, 0);
+    this.geoRoot.rotation.set(0, this.headingOffset * Math.PI / 180, 0);
+    if (this.userLocation) {
+      this.setUserLocation(this.userLocation);
+    }
+
+    this.setXRStatus('ended');
+    console.log('🥽 WebXR session ended');
+
+    if (!this.isDisposed) {
+      this.startRenderLoop();
+    }
+  };
+
+  // Place the ENU frame in XR local-floor space so that the user's GPS fix
+  // sits under the XR viewer and true north lines up with the compass heading
+  private alignGeoRootToXR() {
+    if (!this.userLocation || !this.coordinateConverter.hasOrigin()) {
+      return;
+    }
+
+    const xrCamera = this.renderer.xr.getCamera();
+    const viewerPosition = new THREE.Vector3();
+    xrCamera.getWorldPosition(viewerPosition);
+
+    const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(xrCamera.getWorldQuaternion(new THREE.Quaternion()));
+    if (forward.x === 0 && forward.z === 0) {
+      return; // Looking straight up or down, wait for a usable yaw
+    }
+
+    // Clockwise yaw of the viewer in XR space vs. clockwise true heading
+    const xrYaw = Math.atan2(forward.x, -forward.z);
+    const trueHeading = ((this.xrHeading ?? 0) * Math.PI) / 180;
+    const rotation = trueHeading - xrYaw;
+
+    const user = this.coordinateConverter.gpsToWorld(
+      this.userLocation.latitude,
+      this.userLocation.longitude,
+      this.userLocation.altitude || 0
+    );
+    const userOnGround = new THREE.Vector3(user.x, user.y, user.z).applyAxisAngle(new THREE.Vector3(0, 1, 0), rotation);
+
+    this.geoRoot.rotation.set(0, rotation, 0);
+    this.geoRoot.position.set(viewerPosition.x - userOnGround.x, -userOnGround.y, viewerPosition.z - userOnGround.z);
+    this.geoRoot.updateMatrixWorld(true);
+
+    this.needsXRAlignment = false;
+    console.log(`🧭 Aligned geodetic frame to WebXR space (heading ${(this.xrHeading ?? 0).toFixed(1)}°)`);
+  }
+
   public resize(width: number, height: number) {
     if (this.isDisposed) {
       return;
@@ -546,8 +1688,28 @@ export class AREngine {
         cancelAnimationFrame(this.animationId);
         this.animationId = null;
       }
+
+      if (this.xrSession) {
+        this.xrSession.removeEventListener('end', this.handleXRSessionEnd);
+        this.xrSession.removeEventListener('select', this.handleXRSelect);
+        this.xrSession.end().catch(() => {});
+        this.xrSession = null;
+        this.renderer?.setAnimationLoop(null);
+      }
+      this.xrStatusCallbacks = [];
+      this.clearSelectionHighlight();
+      this.selectionCallbacks = [];
+      this.animators.forEach((animator) => animator.dispose());
+      this.animators.clear();
+      this.animationConditions.clear();
+      this.clearNavigation();
       
       this.clearAllObjects();
+
+      // Models loaded for this view are only kept while it is open
+      this.assetReleases.forEach((release) => release());
+      this.assetReleases.clear();
+      AssetManager.getInstance().trimMemory();
       
       if (this.renderer) {
         this.renderer.dispose();
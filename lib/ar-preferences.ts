@@ -0,0 +1,59 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { QualityPreference } from '@/lib/quality-governor';
+
+const PERFORMANCE_MODE_KEY = '@ar_preferences/performance_mode';
+
+let cachedPerformanceMode: boolean | null = null;
+const listeners: ((enabled: boolean) => void)[] = [];
+
+/**
+ * Whether the user turned on "Performance Mode" (optimise for battery life)
+ * in settings
+ */
+export async function getPerformanceMode(): Promise<boolean> {
+  if (cachedPerformanceMode !== null) {
+    return cachedPerformanceMode;
+  }
+
+  try {
+    const stored = await AsyncStorage.getItem(PERFORMANCE_MODE_KEY);
+    cachedPerformanceMode = stored === 'true';
+  } catch (error) {
+    console.error('Failed to read performance mode preference:', error);
+    cachedPerformanceMode = false;
+  }
+
+  return cachedPerformanceMode;
+}
+
+export async function setPerformanceMode(enabled: boolean): Promise<void> {
+  cachedPerformanceMode = enabled;
+  listeners.forEach((listener) => {
+    try {
+      listener(enabled);
+    } catch (error) {
+      console.error('Error in performance mode listener:', error);
+    }
+  });
+
+  try {
+    await AsyncStorage.setItem(PERFORMANCE_MODE_KEY, String(enabled));
+  } catch (error) {
+    console.error('Failed to save performance mode preference:', error);
+  }
+}
+
+export function subscribeToPerformanceMode(listener: (enabled: boolean) => void): () => void {
+  listeners.push(listener);
+
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+export function toQualityPreference(performanceMode: boolean): QualityPreference {
+  return performanceMode ? 'battery-saver' : 'auto';
+}
@@ -0,0 +1,525 @@
+import * as THREE from 'three';
+import { clone as cloneSkinned } from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { loadModel, LoadedModel, ModelLoadOptions } from '@/lib/model-loaders';
+
+// Raw responses captured from THREE.Cache while a model loads, keyed by URL.
+// Images decoded by the texture loaders are not serialisable and are left to
+// the HTTP cache.
+type AssetBundle = Record<string, ArrayBuffer | string>;
+
+interface CacheIndexEntry {
+  size: number;
+  lastAccess: number;
+}
+
+type CacheIndex = Record<string, CacheIndexEntry>;
+
+interface AssetStore {
+  read(key: string): Promise<AssetBundle | null>;
+  write(key: string, bundle: AssetBundle): Promise<void>;
+  remove(key: string): Promise<void>;
+  readIndex(): Promise<CacheIndex>;
+  writeIndex(index: CacheIndex): Promise<void>;
+}
+
+export interface AssetCacheStats {
+  hits: number;
+  misses: number;
+  persistentHits: number;
+  templates: number;
+}
+
+// A clone handed out by the asset manager. release() gives up its claim on
+// the shared template once the clone has left the scene.
+export interface AssetModel extends LoadedModel {
+  release: () => void;
+}
+
+interface Template {
+  model: Promise<LoadedModel>;
+  // Clones handed out and not yet released
+  users: number;
+  lastUsed: number;
+}
+
+const DEFAULT_MAX_CACHE_BYTES = 50 * 1024 * 1024;
+// Unused templates kept in memory so objects streaming back in are cheap
+const DEFAULT_MAX_IDLE_TEMPLATES = 8;
+const INDEX_KEY = '__index__';
+
+function bundleSize(bundle: AssetBundle): number {
+  return Object.values(bundle).reduce(
+    (total, data) => total + (typeof data === 'string' ? data.length * 2 : data.byteLength),
+    0
+  );
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b0 = bytes[i];
+    const b1 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const b2 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    output += BASE64_ALPHABET[b0 >> 2];
+    output += BASE64_ALPHABET[((b0 & 0x03) << 4) | (b1 >> 4)];
+    output += i + 1 < bytes.length ? BASE64_ALPHABET[((b1 & 0x0f) << 2) | (b2 >> 6)] : '=';
+    output += i + 2 < bytes.length ? BASE64_ALPHABET[b2 & 0x3f] : '=';
+  }
+  return output;
+}
+
+function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const clean = base64.replace(/=+$/, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+  for (let i = 0; i < clean.length; i++) {
+    buffer = (buffer << 6) | BASE64_ALPHABET.indexOf(clean[i]);
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes.buffer;
+}
+
+class IndexedDBAssetStore implements AssetStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open('ar-asset-cache', 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore('bundles');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction('bundles', mode).objectStore('bundles'));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async read(key: string): Promise<AssetBundle | null> {
+    return (await this.request<AssetBundle | undefined>('readonly', (store) => store.get(key))) ?? null;
+  }
+
+  async write(key: string, bundle: AssetBundle): Promise<void> {
+    await this.request('readwrite', (store) => store.put(bundle, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(key));
+  }
+
+  async readIndex(): Promise<CacheIndex> {
+    return (await this.request<CacheIndex | undefined>('readonly', (store) => store.get(INDEX_KEY))) ?? {};
+  }
+
+  async writeIndex(index: CacheIndex): Promise<void> {
+    await this.request('readwrite', (store) => store.put(index, INDEX_KEY));
+  }
+}
+
+class FileSystemAssetStore implements AssetStore {
+  private directory = `${FileSystem.cacheDirectory}ar-assets/`;
+  private ready: Promise<void> | null = null;
+
+  private ensureDirectory(): Promise<void> {
+    if (!this.ready) {
+      this.ready = FileSystem.getInfoAsync(this.directory).then(async (info) => {
+        if (!info.exists) {
+          await FileSystem.makeDirectoryAsync(this.directory, { intermediates: true });
+        }
+      });
+    }
+    return this.ready;
+  }
+
+  // URLs are not valid file names, so bundles are stored under a hash
+  private pathFor(key: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+      hash ^= key.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return `${this.directory}${(hash >>> 0).toString(16)}-${key.length}.json`;
+  }
+
+  private async readJson<T>(path: string): Promise<T | null> {
+    await this.ensureDirectory();
+    const info = await FileSystem.getInfoAsync(path);
+    if (!info.exists) {
+      return null;
+    }
+    return JSON.parse(await FileSystem.readAsStringAsync(path)) as T;
+  }
+
+  async read(key: string): Promise<AssetBundle | null> {
+    const stored = await this.readJson<Record<string, { binary: boolean; data: string }>>(this.pathFor(key));
+    if (!stored) {
+      return null;
+    }
+
+    const bundle: AssetBundle = {};
+    for (const [url, entry] of Object.entries(stored)) {
+      bundle[url] = entry.binary ? base64ToArrayBuffer(entry.data) : entry.data;
+    }
+    return bundle;
+  }
+
+  async write(key: string, bundle: AssetBundle): Promise<void> {
+    await this.ensureDirectory();
+    const stored: Record<string, { binary: boolean; data: string }> = {};
+    for (const [url, data] of Object.entries(bundle)) {
+      stored[url] = typeof data === 'string'
+        ? { binary: false, data }
+        : { binary: true, data: arrayBufferToBase64(data) };
+    }
+    await FileSystem.writeAsStringAsync(this.pathFor(key), JSON.stringify(stored));
+  }
+
+  async remove(key: string): Promise<void> {
+    await FileSystem.deleteAsync(this.pathFor(key), { idempotent: true });
+  }
+
+  async readIndex(): Promise<CacheIndex> {
+    return (await this.readJson<CacheIndex>(`${this.directory}index.json`)) ?? {};
+  }
+
+  async writeIndex(index: CacheIndex): Promise<void> {
+    await this.ensureDirectory();
+    await FileSystem.writeAsStringAsync(`${this.directory}index.json`, JSON.stringify(index));
+  }
+}
+
+function createPersistentStore(): AssetStore | null {
+  if (Platform.OS === 'web') {
+    return typeof indexedDB !== 'undefined' ? new IndexedDBAssetStore() : null;
+  }
+  return FileSystem.cacheDirectory ? new FileSystemAssetStore() : null;
+}
+
+/**
+ * Loads models once and hands out clones. Parsed models are kept as
+ * templates whose geometry, materials and animation clips are shared by
+ * every clone, until the last clone is released and the template falls out
+ * of a small LRU of unused ones; the raw responses are also kept in a
+ * size-bounded LRU store that survives app restarts.
+ */
+export class AssetManager {
+  private static instance: AssetManager;
+  private templates: Map<string, Template> = new Map();
+  private store: AssetStore | null;
+  private index: Promise<CacheIndex> | null = null;
+  private maxCacheBytes: number;
+  private maxIdleTemplates = DEFAULT_MAX_IDLE_TEMPLATES;
+  private stats = { hits: 0, misses: 0, persistentHits: 0 };
+  // Models loading, and the THREE.Cache setting before the first of them
+  private activeLoads = 0;
+  private cacheWasEnabled = false;
+
+  private constructor(maxCacheBytes: number = DEFAULT_MAX_CACHE_BYTES) {
+    this.maxCacheBytes = maxCacheBytes;
+    this.store = createPersistentStore();
+  }
+
+  static getInstance(): AssetManager {
+    if (!AssetManager.instance) {
+      AssetManager.instance = new AssetManager();
+    }
+    return AssetManager.instance;
+  }
+
+  /**
+   * Load a model, reusing an in-flight or already parsed copy when there is
+   * one. The returned object is a fresh clone that can be transformed
+   * independently; its geometry and materials are shared and must not be
+   * disposed by the caller, who releases the clone instead.
+   */
+  async loadModel(url: string, modelType?: string, options: ModelLoadOptions = {}): Promise<AssetModel> {
+    const key = `${modelType ?? ''}|${url}`;
+    let template = this.templates.get(key);
+
+    if (template) {
+      this.stats.hits++;
+    } else {
+      const model = this.loadTemplate(key, url, modelType, options);
+      template = { model, users: 0, lastUsed: Date.now() };
+      this.templates.set(key, template);
+      // Failed loads are not cached so they can be retried
+      model.catch(() => this.templates.delete(key));
+    }
+
+    const claimed = template;
+    claimed.users++;
+    let loaded: LoadedModel;
+    try {
+      loaded = await claimed.model;
+    } catch (error) {
+      claimed.users--;
+      throw error;
+    }
+
+    let released = false;
+    return {
+      object: cloneSkinned(loaded.object),
+      animations: loaded.animations,
+      format: loaded.format,
+      release: () => {
+        if (released) return;
+        released = true;
+        claimed.users--;
+        claimed.lastUsed = Date.now();
+        this.evictIdleTemplates(this.maxIdleTemplates);
+      },
+    };
+  }
+
+  private async loadTemplate(
+    key: string,
+    url: string,
+    modelType: string | undefined,
+    options: ModelLoadOptions
+  ): Promise<LoadedModel> {
+    const persisted = await this.readPersisted(key);
+
+    // Loaders consult THREE.Cache before going to the network, which is how
+    // persisted responses are fed back to them and new ones captured. It is
+    // switched on only while models load, and restored afterwards.
+    if (this.activeLoads === 0) {
+      this.cacheWasEnabled = THREE.Cache.enabled;
+    }
+    this.activeLoads++;
+    THREE.Cache.enabled = true;
+
+    if (persisted) {
+      for (const [resourceUrl, data] of Object.entries(persisted)) {
+        THREE.Cache.add(resourceUrl, data);
+      }
+      this.stats.hits++;
+      this.stats.persistentHits++;
+    } else {
+      this.stats.misses++;
+    }
+
+    // Record every resource the loaders request so the whole model, not just
+    // its entry file, can be persisted
+    const requested = new Set<string>();
+    const manager = new THREE.LoadingManager();
+    const itemStart = manager.itemStart.bind(manager);
+    manager.itemStart = (resourceUrl: string) => {
+      requested.add(resourceUrl);
+      itemStart(resourceUrl);
+    };
+
+    try {
+      const loaded = await loadModel(url, modelType, { ...options, manager });
+      this.markShared(loaded.object);
+
+      if (!persisted) {
+        const bundle: AssetBundle = {};
+        requested.forEach((resourceUrl) => {
+          const data = THREE.Cache.get(resourceUrl);
+          if (typeof data === 'string' || data instanceof ArrayBuffer) {
+            bundle[resourceUrl] = data;
+          }
+        });
+        this.writePersisted(key, bundle).catch((error) => {
+          console.warn('⚠️ Failed to persist model asset:', error);
+        });
+      }
+
+      return loaded;
+    } finally {
+      // The parsed template is the in-memory copy from here on
+      requested.forEach((resourceUrl) => THREE.Cache.remove(resourceUrl));
+      if (persisted) {
+        Object.keys(persisted).forEach((resourceUrl) => THREE.Cache.remove(resourceUrl));
+      }
+      this.activeLoads--;
+      if (this.activeLoads === 0) {
+        THREE.Cache.enabled = this.cacheWasEnabled;
+      }
+    }
+  }
+
+  // Dispose unused templates, least recently used first, until at most
+  // `keep` of them remain
+  private evictIdleTemplates(keep: number) {
+    const idle = Array.from(this.templates.entries())
+      .filter(([, template]) => template.users === 0)
+      .sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+
+    idle.slice(0, Math.max(0, idle.length - keep)).forEach(([key, template]) => {
+      this.templates.delete(key);
+      this.disposeTemplate(template);
+    });
+  }
+
+  private async disposeTemplate(template: Template) {
+    try {
+      const { object } = await template.model;
+      object.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          child.geometry.dispose();
+          const materials = Array.isArray(child.material) ? child.material : [child.material];
+          materials.forEach((material) => material.dispose());
+        }
+      });
+    } catch (error) {
+      console.warn('⚠️ Skipping failed model template during cleanup:', error);
+    }
+  }
+
+  private markShared(object: THREE.Object3D) {
+    object.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.userData.sharedAsset = true;
+        const materials = Array.isArray(child.material) ? child.material : [child.material];
+        materials.forEach((material) => {
+          material.userData.sharedAsset = true;
+        });
+      }
+    });
+  }
+
+  private getIndex(): Promise<CacheIndex> {
+    if (!this.index) {
+      this.index = this.store
+        ? this.store.readIndex().catch((error) => {
+            console.warn('⚠️ Asset cache index unreadable, starting empty:', error);
+            return {};
+          })
+        : Promise.resolve({});
+    }
+    return this.index;
+  }
+
+  private async readPersisted(key: string): Promise<AssetBundle | null> {
+    if (!this.store) {
+      return null;
+    }
+
+    try {
+      const index = await this.getIndex();
+      if (!index[key]) {
+        return null;
+      }
+
+      const bundle = await this.store.read(key);
+      if (!bundle) {
+        delete index[key];
+        return null;
+      }
+
+      index[key].lastAccess = Date.now();
+      await this.store.writeIndex(index);
+      return bundle;
+    } catch (error) {
+      console.warn('⚠️ Failed to read persisted model asset:', error);
+      return null;
+    }
+  }
+
+  private async writePersisted(key: string, bundle: AssetBundle) {
+    if (!this.store) {
+      return;
+    }
+
+    const size = bundleSize(bundle);
+    if (size === 0 || size > this.maxCacheBytes) {
+      return;
+    }
+
+    const index = await this.getIndex();
+    await this.store.write(key, bundle);
+    index[key] = { size, lastAccess: Date.now() };
+
+    // Evict least recently used bundles until the store fits its budget
+    const byAge = Object.entries(index).sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+    let total = byAge.reduce((sum, [, entry]) => sum + entry.size, 0);
+    for (const [evictKey, entry] of byAge) {
+      if (total <= this.maxCacheBytes) {
+        break;
+      }
+      if (evictKey === key) {
+        continue;
+      }
+      await this.store.remove(evictKey);
+      delete index[evictKey];
+      total -= entry.size;
+      console.log(`🗑️ Evicted cached model asset: ${evictKey}`);
+    }
+
+    await this.store.writeIndex(index);
+  }
+
+  public setMaxCacheBytes(maxCacheBytes: number) {
+    this.maxCacheBytes = maxCacheBytes;
+  }
+
+  public getStats(): AssetCacheStats {
+    return {
+      ...this.stats,
+      templates: this.templates.size,
+    };
+  }
+
+  public async getPersistentSize(): Promise<number> {
+    const index = await this.getIndex();
+    return Object.values(index).reduce((sum, entry) => sum + entry.size, 0);
+  }
+
+  public setMaxIdleTemplates(maxIdleTemplates: number) {
+    this.maxIdleTemplates = maxIdleTemplates;
+    this.evictIdleTemplates(maxIdleTemplates);
+  }
+
+  /**
+   * Dispose every template no clone is using, e.g. when the AR view closes.
+   * Templates still in use stay until their clones are released.
+   */
+  public trimMemory() {
+    this.evictIdleTemplates(0);
+  }
+
+  /**
+   * Drop the in-memory templates and free their GPU resources. Clones still
+   * in a scene keep rendering until they are removed.
+   */
+  public async clearMemory() {
+    const templates = Array.from(this.templates.values());
+    this.templates.clear();
+    await Promise.all(templates.map((template) => this.disposeTemplate(template)));
+  }
+
+  public async clearPersistent() {
+    if (!this.store) {
+      return;
+    }
+
+    const index = await this.getIndex();
+    for (const key of Object.keys(index)) {
+      await this.store.remove(key);
+      delete index[key];
+    }
+    await this.store.writeIndex(index);
+  }
+}
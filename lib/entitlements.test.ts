@@ -0,0 +1,61 @@
+import { InteractionEntitlement } from '@/types/database';
+import { describeEntitlement, getRemainingInteractions, isEntitlementActive } from '@/lib/entitlements';
+
+const NOW = Date.parse('2025-06-01T12:00:00Z');
+
+function makeEntitlement(overrides: Partial<InteractionEntitlement> = {}): InteractionEntitlement {
+  return {
+    id: 'pass-1',
+    agent_id: 'agent-1',
+    wallet_address: '0x2222222222222222222222222222222222222222',
+    payment_session_id: 'ps_1',
+    amount: '1000000000000000000',
+    expires_at: new Date(NOW + (5 * 60 + 20) * 60 * 1000).toISOString(),
+    max_interactions: 20,
+    interactions_used: 8,
+    revoked: false,
+    ...overrides,
+  };
+}
+
+describe('getRemainingInteractions', () => {
+  it('counts down to zero', () => {
+    expect(getRemainingInteractions(makeEntitlement())).toBe(12);
+    expect(getRemainingInteractions(makeEntitlement({ interactions_used: 25 }))).toBe(0);
+  });
+
+  it('is null for passes with only a time limit', () => {
+    expect(getRemainingInteractions(makeEntitlement({ max_interactions: null }))).toBeNull();
+    expect(getRemainingInteractions(makeEntitlement({ max_interactions: undefined }))).toBeNull();
+  });
+});
+
+describe('isEntitlementActive', () => {
+  it('accepts a pass with time and interactions left', () => {
+    expect(isEntitlementActive(makeEntitlement(), NOW)).toBe(true);
+    expect(isEntitlementActive(makeEntitlement({ expires_at: null, max_interactions: null }), NOW)).toBe(true);
+  });
+
+  it('rejects revoked, expired and used up passes', () => {
+    expect(isEntitlementActive(makeEntitlement({ revoked: true }), NOW)).toBe(false);
+    expect(isEntitlementActive(makeEntitlement({ expires_at: new Date(NOW).toISOString() }), NOW)).toBe(false);
+    expect(isEntitlementActive(makeEntitlement({ interactions_used: 20 }), NOW)).toBe(false);
+  });
+});
+
+describe('describeEntitlement', () => {
+  it('shows what is left of the pass', () => {
+    expect(describeEntitlement(makeEntitlement(), NOW)).toBe('12 interactions left · expires in 5h 20m');
+    expect(describeEntitlement(makeEntitlement({ interactions_used: 19 }), NOW)).toContain('1 interaction left');
+    expect(describeEntitlement(makeEntitlement({ expires_at: new Date(NOW + 50 * 3600 * 1000).toISOString() }), NOW))
+      .toBe('12 interactions left · expires in 2d 2h');
+    expect(describeEntitlement(makeEntitlement({ expires_at: new Date(NOW + 30 * 1000).toISOString() }), NOW))
+      .toBe('12 interactions left · expires in 1m');
+    expect(describeEntitlement(makeEntitlement({ max_interactions: null }), NOW)).toBe('expires in 5h 20m');
+  });
+
+  it('says why a pass cannot be used', () => {
+    expect(describeEntitlement(makeEntitlement({ revoked: true }), NOW)).toBe('Pass revoked');
+    expect(describeEntitlement(makeEntitlement({ interactions_used: 20 }), NOW)).toBe('Pass used up or expired');
+  });
+});
@@ -0,0 +1,56 @@
+// Interaction passes: what a verified payment buys and how much of it is left
+
+import { InteractionEntitlement } from '@/types/database';
+
+// Terms of the pass one interaction fee buys; it ends at whichever bound is
+// reached first
+export const ENTITLEMENT_DURATION_MS = 24 * 60 * 60 * 1000;
+export const ENTITLEMENT_MAX_INTERACTIONS = 20;
+
+// Interactions left, or null when the pass only has a time limit
+export function getRemainingInteractions(entitlement: InteractionEntitlement): number | null {
+  if (entitlement.max_interactions === null || entitlement.max_interactions === undefined) {
+    return null;
+  }
+  return Math.max(0, entitlement.max_interactions - entitlement.interactions_used);
+}
+
+export function isEntitlementActive(entitlement: InteractionEntitlement, now: number = Date.now()): boolean {
+  if (entitlement.revoked) {
+    return false;
+  }
+  if (entitlement.expires_at && new Date(entitlement.expires_at).getTime() <= now) {
+    return false;
+  }
+  return getRemainingInteractions(entitlement) !== 0;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.max(1, Math.floor(ms / 60000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) {
+    return `${days}d ${hours}h`;
+  }
+  if (hours > 0) {
+    return `${hours}h ${minutes % 60}m`;
+  }
+  return `${minutes}m`;
+}
+
+// Usage and expiry for display, e.g. "12 interactions left · expires in 5h 20m"
+export function describeEntitlement(entitlement: InteractionEntitlement, now: number = Date.now()): string {
+  if (!isEntitlementActive(entitlement, now)) {
+    return entitlement.revoked ? 'Pass revoked' : 'Pass used up or expired';
+  }
+
+  const parts: string[] = [];
+  const remaining = getRemainingInteractions(entitlement);
+  if (remaining !== null) {
+    parts.push(`${remaining} interaction${remaining === 1 ? '' : 's'} left`);
+  }
+  if (entitlement.expires_at) {
+    parts.push(`expires in ${formatDuration(new Date(entitlement.expires_at).getTime() - now)}`);
+  }
+  return parts.join(' · ');
+}
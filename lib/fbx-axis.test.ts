@@ -0,0 +1,77 @@
+import * as THREE from 'three';
+import { getYUpRotation, readFbxUpAxis } from '@/lib/fbx-axis';
+
+function asciiFbx(settings: string): ArrayBuffer {
+  const text = `; FBX 7.4.0 project file
+FBXHeaderExtension:  {
+	FBXVersion: 7400
+}
+GlobalSettings:  {
+	Version: 1000
+	Properties70:  {
+${settings}
+		P: "UnitScaleFactor", "double", "Number", "",2.54
+	}
+}
+`;
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+// Binary FBX with the magic header and a Properties70 "P" record for each
+// integer setting; only the parts readFbxUpAxis looks at are filled in
+function binaryFbx(settings: [string, number][]): ArrayBuffer {
+  const bytes: number[] = [];
+  const pushString = (value: string) => {
+    bytes.push('S'.charCodeAt(0), ...uint32(value.length), ...Array.from(value, (char) => char.charCodeAt(0)));
+  };
+  const uint32 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff];
+
+  bytes.push(...Array.from('Kaydara FBX Binary  \0', (char) => char.charCodeAt(0)), 0x1a, 0x00, ...uint32(7400));
+  settings.forEach(([name, value]) => {
+    bytes.push(...uint32(0), ...uint32(5), ...uint32(0), 1, 'P'.charCodeAt(0));
+    pushString(name);
+    pushString('int');
+    pushString('Integer');
+    pushString('');
+    bytes.push('I'.charCodeAt(0), ...uint32(value));
+  });
+  return new Uint8Array(bytes).buffer;
+}
+
+const AXIS_PROPERTIES = (axis: number, sign: number) => `		P: "UpAxis", "int", "Integer", "",${axis}
+		P: "UpAxisSign", "int", "Integer", "",${sign}`;
+
+describe('readFbxUpAxis', () => {
+  it('reads ASCII files', () => {
+    expect(readFbxUpAxis(asciiFbx(AXIS_PROPERTIES(2, 1))).toArray()).toEqual([0, 0, 1]);
+    expect(readFbxUpAxis(asciiFbx(AXIS_PROPERTIES(1, -1))).toArray()).toEqual([0, -1, 0]);
+    expect(readFbxUpAxis(asciiFbx(AXIS_PROPERTIES(0, 1))).toArray()).toEqual([1, 0, 0]);
+  });
+
+  it('reads binary files', () => {
+    expect(readFbxUpAxis(binaryFbx([['UpAxis', 2], ['UpAxisSign', 1]])).toArray()).toEqual([0, 0, 1]);
+    expect(readFbxUpAxis(binaryFbx([['UpAxisSign', -1], ['UpAxis', 2]])).toArray()).toEqual([0, 0, -1]);
+  });
+
+  it('defaults to Y-up when the settings are missing', () => {
+    expect(readFbxUpAxis(asciiFbx('')).toArray()).toEqual([0, 1, 0]);
+    expect(readFbxUpAxis(binaryFbx([])).toArray()).toEqual([0, 1, 0]);
+    expect(readFbxUpAxis(asciiFbx(AXIS_PROPERTIES(7, 1))).toArray()).toEqual([0, 1, 0]);
+  });
+});
+
+describe('getYUpRotation', () => {
+  it('turns the model up direction onto +Y', () => {
+    [[0, 0, 1], [0, 0, -1], [1, 0, 0], [0, -1, 0], [0, 1, 0]].forEach((axis) => {
+      const up = new THREE.Vector3(...axis);
+      const rotated = up.clone().applyQuaternion(getYUpRotation(up));
+      expect(rotated.distanceTo(new THREE.Vector3(0, 1, 0))).toBeLessThan(1e-9);
+    });
+  });
+
+  it('stands a Z-up model upright with its front facing the viewer', () => {
+    // Z-up exports face -Y; after the rotation that is +Z, towards the camera
+    const front = new THREE.Vector3(0, -1, 0).applyQuaternion(getYUpRotation(new THREE.Vector3(0, 0, 1)));
+    expect(front.distanceTo(new THREE.Vector3(0, 0, 1))).toBeLessThan(1e-9);
+  });
+});
@@ -0,0 +1,109 @@
+import * as THREE from 'three';
+
+const Y_UP = new THREE.Vector3(0, 1, 0);
+
+const BINARY_MAGIC = 'Kaydara FBX Binary  \0';
+
+function isBinaryFbx(bytes: Uint8Array): boolean {
+  if (bytes.length < BINARY_MAGIC.length) {
+    return false;
+  }
+  for (let i = 0; i < BINARY_MAGIC.length; i++) {
+    if (bytes[i] !== BINARY_MAGIC.charCodeAt(i)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Index of the first occurrence of `needle` in `bytes`, or -1
+function indexOfBytes(bytes: Uint8Array, needle: Uint8Array, from = 0): number {
+  outer: for (let i = from; i <= bytes.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (bytes[i + j] !== needle[j]) {
+        continue outer;
+      }
+    }
+    return i;
+  }
+  return -1;
+}
+
+/**
+ * Value of an integer property `P: "name", "int", "Integer", "", value` in a
+ * binary FBX. Properties are stored as a string record ('S', length, bytes)
+ * for each of the four names followed by the typed value, so the name is
+ * found by its record and the value is the first number after it.
+ */
+function readBinaryIntProperty(bytes: Uint8Array, name: string): number | null {
+  const record = new Uint8Array(5 + name.length);
+  const view = new DataView(record.buffer);
+  record[0] = 'S'.charCodeAt(0);
+  view.setUint32(1, name.length, true);
+  for (let i = 0; i < name.length; i++) {
+    record[5 + i] = name.charCodeAt(i);
+  }
+
+  const start = indexOfBytes(bytes, record);
+  if (start < 0) {
+    return null;
+  }
+
+  const data = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = start + record.length;
+  // The type names and flags come first; stop at anything unexpected
+  for (let i = 0; i < 4 && offset < bytes.length; i++) {
+    const type = String.fromCharCode(bytes[offset]);
+    offset += 1;
+    switch (type) {
+      case 'S':
+        offset += 4 + data.getUint32(offset, true);
+        break;
+      case 'I':
+        return data.getInt32(offset, true);
+      case 'L':
+        return Number(data.getBigInt64(offset, true));
+      case 'D':
+        return data.getFloat64(offset, true);
+      default:
+        return null;
+    }
+  }
+  return null;
+}
+
+function readAsciiIntProperty(text: string, name: string): number | null {
+  const match = text.match(new RegExp(`P:\\s*"${name}"\\s*,\\s*"[^"]*"\\s*,\\s*"[^"]*"\\s*,\\s*"[^"]*"\\s*,\\s*(-?[\\d.]+)`));
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * The model's up direction from its GlobalSettings UpAxis and UpAxisSign,
+ * which FBXLoader reads but neither applies nor exposes. Defaults to +Y,
+ * the FBX default, when the file does not say.
+ */
+export function readFbxUpAxis(buffer: ArrayBuffer): THREE.Vector3 {
+  const bytes = new Uint8Array(buffer);
+  let axis: number | null;
+  let sign: number | null;
+  if (isBinaryFbx(bytes)) {
+    axis = readBinaryIntProperty(bytes, 'UpAxis');
+    sign = readBinaryIntProperty(bytes, 'UpAxisSign');
+  } else {
+    const text = new TextDecoder().decode(bytes);
+    axis = readAsciiIntProperty(text, 'UpAxis');
+    sign = readAsciiIntProperty(text, 'UpAxisSign');
+  }
+
+  // UpAxis is 0, 1 or 2 for X, Y or Z
+  const index = axis === 0 || axis === 2 ? axis : 1;
+  return new THREE.Vector3().setComponent(index, sign !== null && sign < 0 ? -1 : 1);
+}
+
+/**
+ * Rotation that turns a model with the given up direction Y-up, as the AR
+ * scene expects
+ */
+export function getYUpRotation(up: THREE.Vector3): THREE.Quaternion {
+  return new THREE.Quaternion().setFromUnitVectors(up.clone().normalize(), Y_UP);
+}
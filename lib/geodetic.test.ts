@@ -0,0 +1,149 @@
+import {
+  EnuFrame,
+  GeodeticConverter,
+  GeodeticPosition,
+  WGS84,
+  ecefToGeodetic,
+  enuToWorld,
+  geodeticToEcef,
+  worldToEnu,
+} from '@/lib/geodetic';
+
+// Straight-line distance in meters between two geodetic positions
+function separation(a: GeodeticPosition, b: GeodeticPosition): number {
+  const p = geodeticToEcef(a.lat, a.lng, a.alt);
+  const q = geodeticToEcef(b.lat, b.lng, b.alt);
+  return Math.hypot(p.x - q.x, p.y - q.y, p.z - q.z);
+}
+
+const MILLIMETRE = 0.001;
+
+// Equator, mid latitudes, the far north and south, near the poles and the
+// antimeridian, at sea level, below it and at altitude
+const POSITIONS: GeodeticPosition[] = [
+  { lat: 0, lng: 0, alt: 0 },
+  { lat: 37.7749, lng: -122.4194, alt: 16 },
+  { lat: 27.9881, lng: 86.925, alt: 8848 },
+  { lat: 31.559, lng: 35.4732, alt: -430 },
+  { lat: 78.2232, lng: 15.6267, alt: 40 },
+  { lat: -77.8463, lng: 166.6683, alt: 24 },
+  { lat: 89.99, lng: 45, alt: 2835 },
+  { lat: -45, lng: 179.9999, alt: 12_000 },
+];
+
+describe('geodeticToEcef', () => {
+  it('puts the equator on the semi-major axis and the pole on the semi-minor', () => {
+    expect(geodeticToEcef(0, 0)).toEqual({ x: WGS84.a, y: 0, z: 0 });
+    const pole = geodeticToEcef(90, 0);
+    expect(pole.x).toBeCloseTo(0, 6);
+    expect(pole.z).toBeCloseTo(WGS84.b, 6);
+  });
+
+  it('round-trips through ECEF to within a millimetre', () => {
+    POSITIONS.forEach((position) => {
+      const restored = ecefToGeodetic(geodeticToEcef(position.lat, position.lng, position.alt));
+      expect(separation(restored, position)).toBeLessThan(MILLIMETRE);
+      expect(Math.abs(restored.alt - position.alt)).toBeLessThan(MILLIMETRE);
+    });
+  });
+
+  it('reads points on the polar axis', () => {
+    expect(ecefToGeodetic(geodeticToEcef(90, 0, 100))).toMatchObject({ lat: 90, lng: 0 });
+    expect(ecefToGeodetic(geodeticToEcef(-90, 0, 100)).alt).toBeCloseTo(100, 6);
+  });
+});
+
+describe('EnuFrame', () => {
+  it('round-trips nearby positions to within a millimetre', () => {
+    POSITIONS.forEach((origin) => {
+      const frame = new EnuFrame(origin.lat, origin.lng, origin.alt);
+      [
+        { east: 0, north: 0, up: 0 },
+        { east: 0.3, north: -0.7, up: 1.6 },
+        { east: 850, north: -420, up: 35 },
+        { east: -2500, north: 3100, up: -120 },
+      ].forEach((enu) => {
+        const position = frame.enuToGeodetic(enu);
+        const restored = frame.geodeticToEnu(position.lat, position.lng, position.alt);
+        expect(Math.hypot(restored.east - enu.east, restored.north - enu.north, restored.up - enu.up)).toBeLessThan(MILLIMETRE);
+      });
+    });
+  });
+
+  it('keeps distances and the local axes', () => {
+    const frame = new EnuFrame(78.2232, 15.6267, 40);
+
+    // Straight up is straight up, and due north gains latitude only
+    const above = frame.geodeticToEnu(78.2232, 15.6267, 140);
+    expect(above.up).toBeCloseTo(100, 6);
+    expect(Math.hypot(above.east, above.north)).toBeLessThan(MILLIMETRE);
+    const north = frame.geodeticToEnu(78.2332, 15.6267, 40);
+    expect(north.north).toBeGreaterThan(1000);
+    expect(Math.abs(north.east)).toBeLessThan(MILLIMETRE);
+
+    // The frame is a rotation of ECEF, so lengths carry over unchanged
+    const point = { lat: 78.24, lng: 15.58, alt: 310 };
+    const enu = frame.geodeticToEnu(point.lat, point.lng, point.alt);
+    expect(Math.hypot(enu.east, enu.north, enu.up)).toBeCloseTo(separation(frame.origin, point), 6);
+  });
+
+  it('maps ENU onto the engine axes and back', () => {
+    const enu = { east: 1, north: 2, up: 3 };
+    expect(enuToWorld(enu)).toEqual({ x: 1, y: 3, z: -2 });
+    expect(worldToEnu(enuToWorld(enu))).toEqual(enu);
+  });
+});
+
+describe('GeodeticConverter', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('round-trips world positions to within a millimetre', () => {
+    const converter = new GeodeticConverter();
+    converter.setOrigin(-77.8463, 166.6683, 24);
+    const point = { lat: -77.8431, lng: 166.6812, alt: 61.5 };
+
+    const world = converter.gpsToWorld(point.lat, point.lng, point.alt);
+    expect(separation(converter.worldToGPS(world), point)).toBeLessThan(MILLIMETRE);
+  });
+
+  it('keeps positions stable across a re-anchor', () => {
+    const converter = new GeodeticConverter({ reanchorDistance: 1000 });
+    converter.setOrigin(69.6492, 18.9553, 10);
+    const agents = [
+      { lat: 69.6571, lng: 18.9702, alt: 15 },
+      { lat: 69.6583, lng: 18.9731, alt: 42 },
+    ];
+    const before = agents.map((agent) => converter.gpsToWorld(agent.lat, agent.lng, agent.alt));
+
+    // The user walks about 1.2 km north-east and the frame follows
+    const user = { lat: 69.6575, lng: 18.9752, alt: 12 };
+    expect(converter.shouldReanchor(user.lat, user.lng, user.alt)).toBe(true);
+    converter.setOrigin(user.lat, user.lng, user.alt);
+    expect(converter.shouldReanchor(user.lat, user.lng, user.alt)).toBe(false);
+    expect(converter.getOrigin()).toEqual(user);
+
+    const after = agents.map((agent) => converter.gpsToWorld(agent.lat, agent.lng, agent.alt));
+    after.forEach((world, i) => {
+      expect(separation(converter.worldToGPS(world), agents[i])).toBeLessThan(MILLIMETRE);
+    });
+
+    // The agents are as far apart as before; only the frame moved
+    const gap = (a: typeof before[0], b: typeof before[0]) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+    expect(gap(after[0], after[1])).toBeCloseTo(gap(before[0], before[1]), 3);
+  });
+
+  it('refuses invalid origins and warns before one is set', () => {
+    const converter = new GeodeticConverter();
+    expect(converter.shouldReanchor(0, 0)).toBe(true);
+    expect(converter.gpsToWorld(1, 2, 3)).toEqual({ x: 0, y: 3, z: 0 });
+    expect(console.warn).toHaveBeenCalled();
+    expect(() => converter.setOrigin(NaN, 0)).toThrow('Invalid geodetic origin');
+    expect(converter.hasOrigin()).toBe(false);
+  });
+});
@@ -0,0 +1,232 @@
+import { Vector3, CoordinateConversion } from '@/types/ar';
+
+// WGS84 reference ellipsoid
+export const WGS84 = {
+  a: 6378137.0, // semi-major axis (meters)
+  f: 1 / 298.257223563, // flattening
+  b: 6378137.0 * (1 - 1 / 298.257223563), // semi-minor axis (meters)
+  e2: (1 / 298.257223563) * (2 - 1 / 298.257223563), // first eccentricity squared
+};
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+// Second eccentricity squared, used by the inverse conversion
+const EP2 = (WGS84.a * WGS84.a - WGS84.b * WGS84.b) / (WGS84.b * WGS84.b);
+
+export interface GeodeticPosition {
+  lat: number;
+  lng: number;
+  alt: number;
+}
+
+// Earth-Centered, Earth-Fixed cartesian coordinates in meters
+export interface EcefPosition {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Local East-North-Up tangent frame offsets in meters
+export interface EnuPosition {
+  east: number;
+  north: number;
+  up: number;
+}
+
+/**
+ * Convert geodetic latitude/longitude (degrees) and ellipsoidal height
+ * (meters) to ECEF coordinates
+ */
+export function geodeticToEcef(lat: number, lng: number, alt: number = 0): EcefPosition {
+  const latRad = lat * DEG_TO_RAD;
+  const lngRad = lng * DEG_TO_RAD;
+  const sinLat = Math.sin(latRad);
+  const cosLat = Math.cos(latRad);
+
+  // Prime vertical radius of curvature
+  const N = WGS84.a / Math.sqrt(1 - WGS84.e2 * sinLat * sinLat);
+
+  return {
+    x: (N + alt) * cosLat * Math.cos(lngRad),
+    y: (N + alt) * cosLat * Math.sin(lngRad),
+    z: (N * (1 - WGS84.e2) + alt) * sinLat,
+  };
+}
+
+/**
+ * Convert ECEF coordinates back to geodetic latitude/longitude (degrees)
+ * and ellipsoidal height (meters).
+ *
+ * Starts from Bowring's estimate and refines it iteratively, which converges
+ * well below a millimetre for any point near the Earth's surface.
+ */
+export function ecefToGeodetic(ecef: EcefPosition): GeodeticPosition {
+  const { x, y, z } = ecef;
+  const p = Math.sqrt(x * x + y * y);
+  const lng = Math.atan2(y, x);
+
+  // Points on the polar axis have no defined longitude
+  if (p < 1e-9) {
+    const lat = z >= 0 ? 90 : -90;
+    return { lat, lng: 0, alt: Math.abs(z) - WGS84.b };
+  }
+
+  const theta = Math.atan2(z * WGS84.a, p * WGS84.b);
+  const sinTheta = Math.sin(theta);
+  const cosTheta = Math.cos(theta);
+  let latRad = Math.atan2(
+    z + EP2 * WGS84.b * sinTheta * sinTheta * sinTheta,
+    p - WGS84.e2 * WGS84.a * cosTheta * cosTheta * cosTheta
+  );
+
+  let alt = 0;
+  for (let i = 0; i < 5; i++) {
+    const sinLat = Math.sin(latRad);
+    const N = WGS84.a / Math.sqrt(1 - WGS84.e2 * sinLat * sinLat);
+    alt = p / Math.cos(latRad) - N;
+    const nextLat = Math.atan2(z, p * (1 - WGS84.e2 * (N / (N + alt))));
+    if (Math.abs(nextLat - latRad) < 1e-14) {
+      latRad = nextLat;
+      break;
+    }
+    latRad = nextLat;
+  }
+
+  return { lat: latRad * RAD_TO_DEG, lng: lng * RAD_TO_DEG, alt };
+}
+
+/**
+ * Local tangent frame anchored at a geodetic origin. The rotation terms are
+ * cached because every conversion in the render path goes through them.
+ */
+export class EnuFrame {
+  readonly origin: GeodeticPosition;
+  readonly originEcef: EcefPosition;
+  private sinLat: number;
+  private cosLat: number;
+  private sinLng: number;
+  private cosLng: number;
+
+  constructor(lat: number, lng: number, alt: number = 0) {
+    this.origin = { lat, lng, alt };
+    this.originEcef = geodeticToEcef(lat, lng, alt);
+    this.sinLat = Math.sin(lat * DEG_TO_RAD);
+    this.cosLat = Math.cos(lat * DEG_TO_RAD);
+    this.sinLng = Math.sin(lng * DEG_TO_RAD);
+    this.cosLng = Math.cos(lng * DEG_TO_RAD);
+  }
+
+  ecefToEnu(ecef: EcefPosition): EnuPosition {
+    const dx = ecef.x - this.originEcef.x;
+    const dy = ecef.y - this.originEcef.y;
+    const dz = ecef.z - this.originEcef.z;
+
+    return {
+      east: -this.sinLng * dx + this.cosLng * dy,
+      north: -this.sinLat * this.cosLng * dx - this.sinLat * this.sinLng * dy + this.cosLat * dz,
+      up: this.cosLat * this.cosLng * dx + this.cosLat * this.sinLng * dy + this.sinLat * dz,
+    };
+  }
+
+  enuToEcef(enu: EnuPosition): EcefPosition {
+    const { east, north, up } = enu;
+
+    return {
+      x: this.originEcef.x - this.sinLng * east - this.sinLat * this.cosLng * north + this.cosLat * this.cosLng * up,
+      y: this.originEcef.y + this.cosLng * east - this.sinLat * this.sinLng * north + this.cosLat * this.sinLng * up,
+      z: this.originEcef.z + this.cosLat * north + this.sinLat * up,
+    };
+  }
+
+  geodeticToEnu(lat: number, lng: number, alt: number = 0): EnuPosition {
+    return this.ecefToEnu(geodeticToEcef(lat, lng, alt));
+  }
+
+  enuToGeodetic(enu: EnuPosition): GeodeticPosition {
+    return ecefToGeodetic(this.enuToEcef(enu));
+  }
+}
+
+/**
+ * Map an ENU offset onto the Three.js world axes used by the AR engine:
+ * +X east, +Y up, -Z north (the camera looks down -Z).
+ */
+export function enuToWorld(enu: EnuPosition): Vector3 {
+  return { x: enu.east, y: enu.up, z: -enu.north };
+}
+
+export function worldToEnu(position: Vector3): EnuPosition {
+  return { east: position.x, north: -position.z, up: position.y };
+}
+
+export interface GeodeticConverterOptions {
+  // Horizontal distance from the origin (meters) after which the frame should
+  // be re-anchored. Float32 vertex positions lose sub-millimetre precision
+  // past a few kilometres, so this stays well inside that.
+  reanchorDistance?: number;
+}
+
+const DEFAULT_REANCHOR_DISTANCE = 1000;
+
+/**
+ * WGS84 -> ECEF -> ENU implementation of the AR coordinate conversion.
+ * World positions are expressed relative to an origin that callers move with
+ * `setOrigin` when `shouldReanchor` reports the user has drifted too far.
+ */
+export class GeodeticConverter implements CoordinateConversion {
+  private frame: EnuFrame | null = null;
+  private reanchorDistance: number;
+
+  constructor(options: GeodeticConverterOptions = {}) {
+    this.reanchorDistance = options.reanchorDistance ?? DEFAULT_REANCHOR_DISTANCE;
+  }
+
+  public setOrigin(lat: number, lng: number, alt: number = 0) {
+    if (!isFinite(lat) || !isFinite(lng) || !isFinite(alt)) {
+      throw new Error(`Invalid geodetic origin: ${lat}, ${lng}, ${alt}`);
+    }
+    this.frame = new EnuFrame(lat, lng, alt);
+  }
+
+  public getOrigin(): GeodeticPosition | null {
+    return this.frame ? { ...this.frame.origin } : null;
+  }
+
+  public hasOrigin(): boolean {
+    return this.frame !== null;
+  }
+
+  public getFrame(): EnuFrame | null {
+    return this.frame;
+  }
+
+  // True when the given position is far enough from the origin that the
+  // frame should be moved to keep world coordinates small
+  public shouldReanchor(lat: number, lng: number, alt: number = 0): boolean {
+    if (!this.frame) {
+      return true;
+    }
+
+    const enu = this.frame.geodeticToEnu(lat, lng, alt);
+    return Math.hypot(enu.east, enu.north) > this.reanchorDistance;
+  }
+
+  public gpsToWorld = (lat: number, lng: number, alt: number = 0): Vector3 => {
+    if (!this.frame) {
+      console.warn('Geodetic origin not set, using origin coordinates');
+      return { x: 0, y: alt, z: 0 };
+    }
+
+    return enuToWorld(this.frame.geodeticToEnu(lat, lng, alt));
+  };
+
+  public worldToGPS = (position: Vector3): { lat: number; lng: number; alt: number } => {
+    if (!this.frame) {
+      console.warn('Geodetic origin not set for world to GPS conversion');
+      return { lat: 0, lng: 0, alt: position.y };
+    }
+
+    return this.frame.enuToGeodetic(worldToEnu(position));
+  };
+}
@@ -0,0 +1,109 @@
+// Screen-space placement of the floating name/distance labels shown above AR
+// objects. Pure functions so the layout can run on any renderer's output.
+
+export interface LabelAnchor {
+  objectId: string;
+  // Screen position of the point the label hangs above (CSS pixels)
+  x: number;
+  y: number;
+  // Distance from the camera to the object (meters)
+  distance: number;
+  // False when the anchor is behind the camera; x and y are meaningless then
+  inFront: boolean;
+}
+
+export interface LabelPlacement {
+  objectId: string;
+  // Top-left corner of the label (CSS pixels)
+  x: number;
+  y: number;
+  scale: number;
+  distance: number;
+}
+
+export interface LabelLayoutOptions {
+  // Label box at scale 1 (CSS pixels)
+  labelWidth?: number;
+  labelHeight?: number;
+  // Gap kept between labels and between a label and its anchor
+  spacing?: number;
+  // Labels are drawn at scale 1 at this distance (meters) and shrink beyond
+  referenceDistance?: number;
+  minScale?: number;
+  maxScale?: number;
+  // How many label heights a label may be pushed up to clear the ones in
+  // front of it before it is hidden
+  maxStack?: number;
+}
+
+interface Rect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+const DEFAULT_OPTIONS: Required<LabelLayoutOptions> = {
+  labelWidth: 140,
+  labelHeight: 44,
+  spacing: 4,
+  referenceDistance: 10,
+  minScale: 0.6,
+  maxScale: 1.2,
+  maxStack: 3,
+};
+
+export function labelScaleForDistance(distance: number, options: LabelLayoutOptions = {}): number {
+  const { referenceDistance, minScale, maxScale } = { ...DEFAULT_OPTIONS, ...options };
+  if (!(distance > 0)) {
+    return maxScale;
+  }
+  return Math.min(maxScale, Math.max(minScale, Math.sqrt(referenceDistance / distance)));
+}
+
+function overlaps(a: Rect, b: Rect): boolean {
+  return a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom;
+}
+
+/**
+ * Place labels nearest first so closer agents keep the spot directly above
+ * them; further labels are stacked upwards out of the way, or hidden when
+ * there is no free slot. Anchors behind the camera or off screen are dropped.
+ */
+export function layoutLabels(
+  anchors: LabelAnchor[],
+  viewport: { width: number; height: number },
+  options: LabelLayoutOptions = {}
+): LabelPlacement[] {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const placed: Rect[] = [];
+  const placements: LabelPlacement[] = [];
+
+  const visible = anchors
+    .filter((anchor) => anchor.inFront && Number.isFinite(anchor.x) && Number.isFinite(anchor.y))
+    .filter((anchor) => anchor.x >= 0 && anchor.x <= viewport.width && anchor.y >= 0 && anchor.y <= viewport.height)
+    .sort((a, b) => a.distance - b.distance);
+
+  for (const anchor of visible) {
+    const scale = labelScaleForDistance(anchor.distance, settings);
+    const width = settings.labelWidth * scale;
+    const height = settings.labelHeight * scale;
+    const left = Math.min(Math.max(anchor.x - width / 2, 0), Math.max(viewport.width - width, 0));
+
+    for (let step = 0; step <= settings.maxStack; step++) {
+      const top = anchor.y - settings.spacing - height - step * (height + settings.spacing);
+      if (top < 0) {
+        break;
+      }
+
+      const rect = { left, top, right: left + width, bottom: top + height };
+      if (!placed.some((other) => overlaps(rect, other))) {
+        placed.push(rect);
+        placements.push({ objectId: anchor.objectId, x: left, y: top, scale, distance: anchor.distance });
+        break;
+      }
+    }
+  }
+
+  return placements;
+}
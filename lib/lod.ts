@@ -0,0 +1,248 @@
+import * as THREE from 'three';
+import { SimplifyModifier } from 'three/examples/jsm/modifiers/SimplifyModifier.js';
+import { ARCapabilities } from '@/types/ar';
+
+export type LODLevel = 'full' | 'simplified' | 'billboard';
+
+// Index of each level inside the THREE.LOD created by createLODObject
+const LEVEL_INDEX: Record<LODLevel, number> = {
+  full: 0,
+  simplified: 1,
+  billboard: 2,
+};
+
+export interface StreamingBudget {
+  // Objects further than this (meters) are unloaded
+  renderDistance: number;
+  // Upper bound on objects kept in the scene at once
+  maxLoadedObjects: number;
+  // Upper bound on objects rendered with their full model
+  maxFullDetailObjects: number;
+  // Distances (meters) at which objects drop to the simplified model and to
+  // the billboard icon
+  simplifiedDistance: number;
+  billboardDistance: number;
+  // Fraction of vertices kept by the simplified model
+  simplifyRatio: number;
+}
+
+const BUDGET_PRESETS: Record<ARCapabilities['performanceLevel'], StreamingBudget> = {
+  high: {
+    renderDistance: 150,
+    maxLoadedObjects: 50,
+    maxFullDetailObjects: 20,
+    simplifiedDistance: 30,
+    billboardDistance: 80,
+    simplifyRatio: 0.5,
+  },
+  medium: {
+    renderDistance: 100,
+    maxLoadedObjects: 30,
+    maxFullDetailObjects: 10,
+    simplifiedDistance: 20,
+    billboardDistance: 50,
+    simplifyRatio: 0.35,
+  },
+  low: {
+    renderDistance: 60,
+    maxLoadedObjects: 15,
+    maxFullDetailObjects: 4,
+    simplifiedDistance: 10,
+    billboardDistance: 25,
+    simplifyRatio: 0.2,
+  },
+};
+
+export interface StreamingResult {
+  loaded: number;
+  failed: number;
+  unloaded: number;
+}
+
+// Objects are only unloaded once they are this much further than the render
+// distance, so agents on the boundary do not reload on every GPS jitter
+export const STREAMING_HYSTERESIS = 1.1;
+
+// SimplifyModifier is quadratic in the worst case; anything larger than this
+// gets a bounding box proxy instead
+const MAX_SIMPLIFY_VERTICES = 10000;
+
+/**
+ * Streaming budget for a device class. Caller limits such as useAR's
+ * `renderDistance` and `maxObjects` can only tighten the preset.
+ */
+export function getStreamingBudget(
+  performanceLevel: ARCapabilities['performanceLevel'],
+  limits: { renderDistance?: number; maxObjects?: number } = {}
+): StreamingBudget {
+  const preset = BUDGET_PRESETS[performanceLevel] ?? BUDGET_PRESETS.medium;
+  const renderDistance = Math.min(preset.renderDistance, limits.renderDistance ?? Infinity);
+  const maxLoadedObjects = Math.min(preset.maxLoadedObjects, limits.maxObjects ?? Infinity);
+
+  return {
+    ...preset,
+    renderDistance,
+    maxLoadedObjects,
+    maxFullDetailObjects: Math.min(preset.maxFullDetailObjects, maxLoadedObjects),
+    simplifiedDistance: Math.min(preset.simplifiedDistance, renderDistance),
+    billboardDistance: Math.min(preset.billboardDistance, renderDistance),
+  };
+}
+
+/**
+ * Level for an object at the given distance, before the full-detail budget
+ * is applied
+ */
+export function selectLODLevel(distance: number, budget: StreamingBudget): LODLevel {
+  if (distance >= budget.billboardDistance) {
+    return 'billboard';
+  }
+  if (distance >= budget.simplifiedDistance) {
+    return 'simplified';
+  }
+  return 'full';
+}
+
+// Simplified geometry per source geometry, so clones sharing a template also
+// share its simplified version
+const simplifiedGeometries = new WeakMap<THREE.BufferGeometry, THREE.BufferGeometry>();
+
+function simplifyGeometry(geometry: THREE.BufferGeometry, ratio: number): THREE.BufferGeometry {
+  const cached = simplifiedGeometries.get(geometry);
+  if (cached) {
+    return cached;
+  }
+
+  const position = geometry.getAttribute('position');
+  let simplified: THREE.BufferGeometry;
+
+  if (!position || position.count > MAX_SIMPLIFY_VERTICES) {
+    geometry.computeBoundingBox();
+    const box = geometry.boundingBox ?? new THREE.Box3(new THREE.Vector3(-0.5, -0.5, -0.5), new THREE.Vector3(0.5, 0.5, 0.5));
+    const size = box.getSize(new THREE.Vector3());
+    const center = box.getCenter(new THREE.Vector3());
+    simplified = new THREE.BoxGeometry(size.x, size.y, size.z).translate(center.x, center.y, center.z);
+  } else {
+    const removeCount = Math.floor(position.count * (1 - ratio));
+    simplified = new SimplifyModifier().modify(geometry, removeCount);
+  }
+
+  simplified.computeBoundingSphere();
+  simplified.userData.sharedAsset = geometry.userData.sharedAsset;
+  simplifiedGeometries.set(geometry, simplified);
+  return simplified;
+}
+
+/**
+ * Copy of a model with reduced geometry. Materials are reused; skinned meshes
+ * keep their original geometry since simplification would break skinning.
+ */
+export function createSimplifiedModel(object: THREE.Object3D, ratio: number): THREE.Object3D {
+  const simplified = object.clone();
+
+  simplified.traverse((child) => {
+    if (child instanceof THREE.Mesh && !(child instanceof THREE.SkinnedMesh)) {
+      try {
+        child.geometry = simplifyGeometry(child.geometry, ratio);
+      } catch (error) {
+        console.warn('⚠️ Could not simplify geometry, keeping original:', error);
+      }
+      child.castShadow = false;
+    }
+  });
+
+  return simplified;
+}
+
+function createIconTexture(label: string, color: string): THREE.Texture | null {
+  if (typeof document === 'undefined') {
+    return null;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = 128;
+  canvas.height = 128;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return null;
+  }
+
+  context.fillStyle = color;
+  context.beginPath();
+  context.arc(64, 64, 60, 0, Math.PI * 2);
+  context.fill();
+  context.lineWidth = 6;
+  context.strokeStyle = '#ffffff';
+  context.stroke();
+
+  context.fillStyle = '#ffffff';
+  context.font = 'bold 64px sans-serif';
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillText(label.charAt(0).toUpperCase() || '?', 64, 68);
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return texture;
+}
+
+/**
+ * Camera-facing icon used for distant objects
+ */
+export function createBillboard(name: string, color: string = '#00d4ff'): THREE.Sprite {
+  const texture = createIconTexture(name, color);
+  const material = new THREE.SpriteMaterial({
+    map: texture,
+    color: texture ? 0xffffff : new THREE.Color(color),
+    sizeAttenuation: true,
+    depthWrite: false,
+  });
+
+  const sprite = new THREE.Sprite(material);
+  sprite.scale.set(1.5, 1.5, 1);
+  sprite.position.y = 1;
+  return sprite;
+}
+
+// Simplified levels not built yet. Simplifying is slow enough that it only
+// happens the first time an object actually drops to that level.
+const pendingSimplified = new WeakMap<THREE.LOD, () => THREE.Object3D>();
+
+/**
+ * Group the three representations of an object under a THREE.LOD. Levels are
+ * switched explicitly with setLODLevel because the full-detail budget can
+ * override the purely distance based choice. The simplified level starts
+ * empty and is built from the full model when first shown.
+ */
+export function createLODObject(
+  full: THREE.Object3D,
+  billboard: THREE.Object3D,
+  budget: StreamingBudget
+): THREE.LOD {
+  const lod = new THREE.LOD();
+  lod.addLevel(full, 0);
+  lod.addLevel(new THREE.Group(), budget.simplifiedDistance);
+  lod.addLevel(billboard, budget.billboardDistance);
+  lod.autoUpdate = false;
+  pendingSimplified.set(lod, () => createSimplifiedModel(full, budget.simplifyRatio));
+  setLODLevel(lod, 'full');
+  return lod;
+}
+
+export function setLODLevel(lod: THREE.LOD, level: LODLevel) {
+  const index = LEVEL_INDEX[level];
+  const build = level === 'simplified' ? pendingSimplified.get(lod) : undefined;
+  if (build) {
+    pendingSimplified.delete(lod);
+    lod.levels[index].object.add(build());
+  }
+
+  lod.levels.forEach((entry, i) => {
+    entry.object.visible = i === index;
+  });
+  lod.userData.lodLevel = level;
+}
+
+export function getLODLevel(lod: THREE.LOD): LODLevel {
+  return lod.userData.lodLevel ?? 'full';
+}
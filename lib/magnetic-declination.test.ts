@@ -0,0 +1,35 @@
+import { getMagneticDeclination } from '@/lib/magnetic-declination';
+
+const MID_2026 = new Date(Date.UTC(2026, 6, 1));
+
+// Declination (degrees, east positive) from the full WMM2025 model for mid
+// 2026; the truncated table stays within a degree or two of it
+const REFERENCE: [string, number, number, number][] = [
+  ['San Francisco', 37.7749, -122.4194, 12.9],
+  ['Boulder', 40.015, -105.27, 7.6],
+  ['London', 51.5074, -0.1278, 1.3],
+  ['Reykjavik', 64.1466, -21.9426, -11.4],
+  ['Tokyo', 35.6762, 139.6503, -7.7],
+  ['Sydney', -33.8688, 151.2093, 12.9],
+];
+
+describe('getMagneticDeclination', () => {
+  REFERENCE.forEach(([place, lat, lng, declination]) => {
+    it(`matches the model in ${place}`, () => {
+      expect(Math.abs(getMagneticDeclination(lat, lng, 0, MID_2026) - declination)).toBeLessThan(1.5);
+    });
+  });
+
+  it('follows the secular variation over the model period', () => {
+    // Declination in San Francisco drifts west by about a tenth of a degree a year
+    const start = getMagneticDeclination(37.7749, -122.4194, 0, new Date(Date.UTC(2025, 0, 1)));
+    const end = getMagneticDeclination(37.7749, -122.4194, 0, new Date(Date.UTC(2030, 0, 1)));
+    expect(start - end).toBeGreaterThan(0.2);
+    expect(start - end).toBeLessThan(1);
+  });
+
+  it('returns zero for positions it cannot place', () => {
+    expect(getMagneticDeclination(NaN, 0)).toBe(0);
+    expect(getMagneticDeclination(0, Infinity)).toBe(0);
+  });
+});
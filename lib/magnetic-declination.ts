@@ -0,0 +1,149 @@
+import { WGS84 } from '@/lib/geodetic';
+
+/**
+ * World Magnetic Model (WMM2025, valid 2025.0 to 2030.0) main field and
+ * secular variation, truncated at degree 6. Columns: n, m, g, h, gDot, hDot
+ * (nT and nT/year).
+ *
+ * The truncation keeps the table small while staying within one to two
+ * degrees of the full model at inhabited latitudes, which is below the noise
+ * floor of phone magnetometers.
+ */
+const WMM_EPOCH = 2025.0;
+const WMM_COEFFICIENTS: [number, number, number, number, number, number][] = [
+  [1, 0, -29351.8, 0.0, 12.0, 0.0],
+  [1, 1, -1410.8, 4545.4, 9.7, -21.5],
+  [2, 0, -2556.6, 0.0, -11.6, 0.0],
+  [2, 1, 2951.1, -3133.6, -5.2, -27.7],
+  [2, 2, 1649.3, -815.1, -8.0, -12.1],
+  [3, 0, 1361.0, 0.0, -1.3, 0.0],
+  [3, 1, -2404.1, -56.6, -4.2, 4.0],
+  [3, 2, 1243.8, 237.5, 0.4, -0.3],
+  [3, 3, 453.6, -549.5, -15.6, -4.1],
+  [4, 0, 895.0, 0.0, -1.6, 0.0],
+  [4, 1, 799.5, 278.6, -2.4, -1.1],
+  [4, 2, 55.7, -133.9, -6.0, 4.1],
+  [4, 3, -281.1, 212.0, 5.6, 1.6],
+  [4, 4, 12.1, -375.6, -7.0, -4.4],
+  [5, 0, -233.2, 0.0, 0.6, 0.0],
+  [5, 1, 368.9, 45.4, 1.4, -0.5],
+  [5, 2, 187.2, 220.2, 0.0, 2.2],
+  [5, 3, -138.7, -122.9, 0.6, 0.4],
+  [5, 4, -142.0, 43.0, 2.2, 1.7],
+  [5, 5, 20.9, 106.1, 0.9, 1.9],
+  [6, 0, 64.4, 0.0, -0.2, 0.0],
+  [6, 1, 63.8, -18.4, -0.4, 0.3],
+  [6, 2, 76.9, 16.8, 0.9, -1.6],
+  [6, 3, -115.7, 48.8, 1.2, -0.4],
+  [6, 4, -40.9, -59.8, -0.9, 0.9],
+  [6, 5, 14.9, 10.9, 0.3, 0.7],
+  [6, 6, -60.7, 72.7, 0.9, 0.9],
+];
+
+const MAX_DEGREE = 6;
+
+// Geomagnetic reference radius (meters)
+const WMM_REFERENCE_RADIUS = 6371200;
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+function factorial(n: number): number {
+  let result = 1;
+  for (let i = 2; i <= n; i++) {
+    result *= i;
+  }
+  return result;
+}
+
+// Schmidt semi-normalisation factors, indexed [n][m]
+const SCHMIDT = Array.from({ length: MAX_DEGREE + 1 }, (_, n) =>
+  Array.from({ length: n + 1 }, (_, m) =>
+    Math.sqrt(((m === 0 ? 1 : 2) * factorial(n - m)) / factorial(n + m))
+  )
+);
+
+// Convert a Date to a decimal year for the secular variation terms
+function decimalYear(date: Date): number {
+  const year = date.getUTCFullYear();
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  return year + (date.getTime() - start) / (end - start);
+}
+
+/**
+ * Magnetic declination (degrees, east positive) at a geodetic position.
+ * Add it to a magnetic heading to get a true heading.
+ */
+export function getMagneticDeclination(
+  lat: number,
+  lng: number,
+  alt: number = 0,
+  date: Date = new Date()
+): number {
+  if (!isFinite(lat) || !isFinite(lng)) {
+    return 0;
+  }
+
+  const dt = decimalYear(date) - WMM_EPOCH;
+
+  // Geodetic -> geocentric spherical coordinates
+  const latRad = lat * DEG_TO_RAD;
+  const sinLat = Math.sin(latRad);
+  const cosLat = Math.cos(latRad);
+  const N = WGS84.a / Math.sqrt(1 - WGS84.e2 * sinLat * sinLat);
+  const p = (N + alt) * cosLat;
+  const z = (N * (1 - WGS84.e2) + alt) * sinLat;
+  const r = Math.sqrt(p * p + z * z);
+  const geocentricLat = Math.asin(z / r);
+
+  const theta = Math.PI / 2 - geocentricLat; // colatitude
+  const x = Math.cos(theta);
+  // Clamp away from the poles where the east component is undefined
+  const s = Math.max(Math.sin(theta), 1e-9);
+  const lngRad = lng * DEG_TO_RAD;
+
+  // Unnormalised associated Legendre functions P[n][m](cos theta)
+  const P: number[][] = Array.from({ length: MAX_DEGREE + 1 }, () => new Array(MAX_DEGREE + 1).fill(0));
+  for (let m = 0; m <= MAX_DEGREE; m++) {
+    let pmm = 1;
+    for (let k = 1; k <= m; k++) {
+      pmm *= (2 * k - 1) * s;
+    }
+    P[m][m] = pmm;
+    if (m + 1 <= MAX_DEGREE) {
+      P[m + 1][m] = x * (2 * m + 1) * pmm;
+    }
+    for (let n = m + 2; n <= MAX_DEGREE; n++) {
+      P[n][m] = ((2 * n - 1) * x * P[n - 1][m] - (n + m - 1) * P[n - 2][m]) / (n - m);
+    }
+  }
+
+  let bTheta = 0;
+  let bPhi = 0;
+  let bR = 0;
+
+  for (const [n, m, g0, h0, gDot, hDot] of WMM_COEFFICIENTS) {
+    const g = g0 + gDot * dt;
+    const h = h0 + hDot * dt;
+    const ratio = Math.pow(WMM_REFERENCE_RADIUS / r, n + 2);
+    const pnm = P[n][m] * SCHMIDT[n][m];
+    const prev = n - 1 >= m ? P[n - 1][m] : 0;
+    const dpnm = ((n * x * P[n][m] - (n + m) * prev) / s) * SCHMIDT[n][m];
+    const cosM = Math.cos(m * lngRad);
+    const sinM = Math.sin(m * lngRad);
+
+    bR += (n + 1) * ratio * (g * cosM + h * sinM) * pnm;
+    bTheta -= ratio * (g * cosM + h * sinM) * dpnm;
+    bPhi += (ratio * m * (g * sinM - h * cosM) * pnm) / s;
+  }
+
+  // Geocentric north/east/down, rotated into the geodetic frame
+  const north = -bTheta;
+  const east = bPhi;
+  const down = -bR;
+  const psi = latRad - geocentricLat;
+  const geodeticNorth = north * Math.cos(psi) + down * Math.sin(psi);
+
+  return Math.atan2(east, geodeticNorth) * RAD_TO_DEG;
+}
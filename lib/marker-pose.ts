@@ -0,0 +1,186 @@
+// Camera pose from a detected QR marker: payload parsing, a planar pose
+// estimate from the symbol's corners, and the geodetic fix that follows from
+// the marker's surveyed position
+
+import { EnuFrame } from '@/lib/geodetic';
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+// Matches the camera overlay's default field of view
+const DEFAULT_HORIZONTAL_FOV = 60;
+
+// Printed markers carry `myapp://marker/<id>`; bare `armarker:<id>` payloads
+// are accepted for hand-made test markers
+const MARKER_PAYLOAD_PATTERNS = [
+  /^myapp:\/\/marker\/([A-Za-z0-9_-]{1,64})\/?$/,
+  /^armarker:([A-Za-z0-9_-]{1,64})$/,
+];
+
+export interface ImagePoint {
+  x: number;
+  y: number;
+}
+
+export interface CameraIntrinsics {
+  // Size of the image the corner points are expressed in
+  width: number;
+  height: number;
+  horizontalFov?: number;
+}
+
+/**
+ * Where the camera is relative to the marker, in the marker's own horizontal
+ * frame: `right` along the printed face (as seen from the front), `out`
+ * along its normal towards the viewer.
+ */
+export interface MarkerPose {
+  right: number;
+  out: number;
+  // Straight-line distance from the camera to the marker centre (meters)
+  distance: number;
+  // Camera yaw relative to looking straight at the face, clockwise (degrees)
+  yaw: number;
+}
+
+export interface SurveyedMarker {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  heading: number;
+  size_meters: number;
+  mount_height: number;
+}
+
+export interface MarkerFix {
+  latitude: number;
+  longitude: number;
+  // Ground altitude under the camera
+  altitude: number;
+  // True heading the camera was facing when the marker was seen (degrees)
+  heading: number;
+  distance: number;
+}
+
+/**
+ * A marker sighting resolved against the registry, as handed to the AR engine
+ */
+export interface MarkerAnchor {
+  markerId: string;
+  // Surveyed marker position; the AR frame origin moves here
+  origin: { latitude: number; longitude: number; altitude: number };
+  fix: MarkerFix;
+  // Marker-derived true heading minus the compass heading at the same moment,
+  // or null when there was no compass reading to compare against
+  headingOffset: number | null;
+  timestamp: number;
+}
+
+export function parseMarkerPayload(data: string): string | null {
+  const trimmed = data.trim();
+  for (const pattern of MARKER_PAYLOAD_PATTERNS) {
+    const match = trimmed.match(pattern);
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+export function normalizeHeading(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * Estimate the camera pose from the four corners of a marker mounted upright
+ * on a wall, seen by a roughly upright camera. Each vertical edge's apparent
+ * height gives its depth, which places both edges in the camera's horizontal
+ * plane; the marker's position and facing follow from those two points.
+ *
+ * Returns null when the corners are degenerate (fewer than four, or edges too
+ * short to measure).
+ */
+export function estimateMarkerPose(
+  corners: ImagePoint[],
+  markerSize: number,
+  intrinsics: CameraIntrinsics
+): MarkerPose | null {
+  if (corners.length < 4 || markerSize <= 0) {
+    return null;
+  }
+
+  const tanHalfHorizontal = Math.tan(((intrinsics.horizontalFov ?? DEFAULT_HORIZONTAL_FOV) / 2) * DEG_TO_RAD);
+  const focal = intrinsics.width / 2 / tanHalfHorizontal;
+  const cx = intrinsics.width / 2;
+
+  // Corner order differs between platforms, so split by image x instead
+  const sorted = [...corners].sort((a, b) => a.x - b.x);
+  const leftEdge = [sorted[0], sorted[1]];
+  const rightEdge = [sorted[2], sorted[3]];
+
+  const edgePoint = (edge: ImagePoint[]) => {
+    const height = Math.abs(edge[0].y - edge[1].y);
+    if (height < 2) {
+      return null;
+    }
+    const depth = (focal * markerSize) / height;
+    const x = (edge[0].x + edge[1].x) / 2;
+    return { x: (depth * (x - cx)) / focal, z: depth };
+  };
+
+  const left = edgePoint(leftEdge);
+  const right = edgePoint(rightEdge);
+  if (!left || !right) {
+    return null;
+  }
+
+  const centre = { x: (left.x + right.x) / 2, z: (left.z + right.z) / 2 };
+  const across = { x: right.x - left.x, z: right.z - left.z };
+  const acrossLength = Math.hypot(across.x, across.z);
+  if (acrossLength < 1e-6) {
+    return null;
+  }
+
+  // Unit vectors of the marker frame in camera coordinates; the normal points
+  // back towards the camera
+  const rightAxis = { x: across.x / acrossLength, z: across.z / acrossLength };
+  const outAxis = { x: rightAxis.z, z: -rightAxis.x };
+
+  // Camera sits at the camera-frame origin, so its offset from the marker is
+  // minus the marker centre
+  const lateral = -(centre.x * rightAxis.x + centre.z * rightAxis.z);
+  const out = -(centre.x * outAxis.x + centre.z * outAxis.z);
+
+  return {
+    right: lateral,
+    out,
+    distance: Math.hypot(centre.x, centre.z),
+    yaw: -Math.atan2(-outAxis.x, -outAxis.z) * RAD_TO_DEG,
+  };
+}
+
+/**
+ * Geodetic position and true heading of the camera, given its pose relative
+ * to a surveyed marker
+ */
+export function markerPoseToFix(pose: MarkerPose, marker: SurveyedMarker): MarkerFix {
+  const facing = marker.heading * DEG_TO_RAD;
+  // The marker's right-hand side, seen from the front, is 90° anticlockwise
+  // of the direction it faces
+  const rightBearing = facing - Math.PI / 2;
+
+  const east = pose.out * Math.sin(facing) + pose.right * Math.sin(rightBearing);
+  const north = pose.out * Math.cos(facing) + pose.right * Math.cos(rightBearing);
+
+  const markerAltitude = marker.altitude ?? 0;
+  const frame = new EnuFrame(marker.latitude, marker.longitude, markerAltitude);
+  const position = frame.enuToGeodetic({ east, north, up: -marker.mount_height });
+
+  return {
+    latitude: position.lat,
+    longitude: position.lng,
+    altitude: position.alt,
+    heading: normalizeHeading(marker.heading + 180 + pose.yaw),
+    distance: pose.distance,
+  };
+}
@@ -0,0 +1,247 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { MTLLoader } from 'three/examples/jsm/loaders/MTLLoader.js';
+import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js';
+import { ColladaLoader } from 'three/examples/jsm/loaders/ColladaLoader.js';
+import { getYUpRotation, readFbxUpAxis } from '@/lib/fbx-axis';
+import { ModelFormat } from '@/types/ar';
+
+export interface LoadedModel {
+  object: THREE.Object3D;
+  animations: THREE.AnimationClip[];
+  format: ModelFormat;
+}
+
+export interface ModelLoadOptions {
+  // Explicit material library for OBJ models. Defaults to the OBJ URL with
+  // an .mtl extension, which is how most exporters write it.
+  materialUrl?: string;
+  onProgress?: (event: ProgressEvent) => void;
+  // Shared by every loader involved in the model, including the requests for
+  // its buffers, textures and material libraries
+  manager?: THREE.LoadingManager;
+}
+
+export interface ModelNormalizationOptions {
+  // Models whose largest dimension falls outside [minSize, maxSize] meters
+  // after unit conversion are rescaled to targetSize
+  minSize?: number;
+  maxSize?: number;
+  targetSize?: number;
+}
+
+type FormatLoader = (url: string, options: ModelLoadOptions) => Promise<LoadedModel>;
+
+export class ModelLoadError extends Error {
+  readonly format: ModelFormat | null;
+  readonly url: string;
+
+  constructor(format: ModelFormat | null, url: string, message: string) {
+    super(`[${format ?? 'unknown'}] ${message} (${url})`);
+    this.name = 'ModelLoadError';
+    this.format = format;
+    this.url = url;
+  }
+}
+
+const DEFAULT_NORMALIZATION: Required<ModelNormalizationOptions> = {
+  minSize: 0.1,
+  maxSize: 10,
+  targetSize: 1,
+};
+
+// model_type values and file extensions that map onto each loader
+const FORMAT_ALIASES: Record<string, ModelFormat> = {
+  gltf: 'gltf',
+  glb: 'gltf',
+  obj: 'obj',
+  fbx: 'fbx',
+  dae: 'dae',
+  collada: 'dae',
+};
+
+/**
+ * Resolve the loader format for a model. A recognised `model_type` wins;
+ * otherwise the URL extension decides. Returns null for primitive types such
+ * as 'sphere' or 'cube' with no recognisable URL.
+ */
+export function resolveModelFormat(url: string, modelType?: string): ModelFormat | null {
+  if (modelType) {
+    const fromType = FORMAT_ALIASES[modelType.toLowerCase()];
+    if (fromType) {
+      return fromType;
+    }
+  }
+
+  const path = url.split(/[?#]/)[0];
+  const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  return FORMAT_ALIASES[extension] ?? null;
+}
+
+// XHR failures from FileLoader surface as the raw ProgressEvent
+function isRequestEvent(error: unknown): error is { target: { status?: unknown } | null } {
+  return !!error && typeof error === 'object' && 'target' in error;
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (isRequestEvent(error)) {
+    const status = error.target?.status;
+    return typeof status === 'number' && status > 0 ? `HTTP ${status}` : 'Network error';
+  }
+  return String(error);
+}
+
+const loadGltf: FormatLoader = async (url, options) => {
+  const gltf = await new GLTFLoader(options.manager).loadAsync(url, options.onProgress);
+  if (!gltf || !gltf.scene) {
+    throw new Error('File contains no scene');
+  }
+
+  // glTF is Y-up and in meters by specification
+  return { object: gltf.scene, animations: gltf.animations ?? [], format: 'gltf' };
+};
+
+const loadObj: FormatLoader = async (url, options) => {
+  const objLoader = new OBJLoader(options.manager);
+  const materialUrl = options.materialUrl ?? url.replace(/\.obj(?=$|[?#])/i, '.mtl');
+
+  if (materialUrl !== url) {
+    try {
+      const mtlLoader = new MTLLoader(options.manager);
+      // Textures referenced by the MTL are relative to its own location
+      mtlLoader.setResourcePath(materialUrl.slice(0, materialUrl.lastIndexOf('/') + 1));
+      const materials = await mtlLoader.loadAsync(materialUrl);
+      materials.preload();
+      objLoader.setMaterials(materials);
+    } catch (error) {
+      console.warn(`⚠️ No material library for OBJ model, using default materials: ${errorMessage(error)}`);
+    }
+  }
+
+  const group = await objLoader.loadAsync(url, options.onProgress);
+  if (group.children.length === 0) {
+    throw new Error('File contains no geometry');
+  }
+
+  // OBJ has no unit or axis metadata; Y-up is the de facto convention
+  return { object: group, animations: [], format: 'obj' };
+};
+
+const loadFbx: FormatLoader = async (url, options) => {
+  // Fetched here rather than by FBXLoader.load so the up axis can be read
+  // from the same bytes
+  const fileLoader = new THREE.FileLoader(options.manager);
+  fileLoader.setResponseType('arraybuffer');
+  const buffer = (await fileLoader.loadAsync(url, options.onProgress)) as ArrayBuffer;
+  const group = new FBXLoader(options.manager).parse(buffer, THREE.LoaderUtils.extractUrlBase(url));
+
+  // FBX stores a unit scale factor in centimeters per unit, which the loader
+  // records but does not apply
+  const unitScaleFactor = Number(group.userData.unitScaleFactor ?? 1);
+  const metersPerUnit = (isFinite(unitScaleFactor) && unitScaleFactor > 0 ? unitScaleFactor : 1) / 100;
+  group.scale.multiplyScalar(metersPerUnit);
+
+  // Z-up exports (3ds Max, Blender with default settings) would otherwise
+  // lie on their side
+  group.quaternion.premultiply(getYUpRotation(readFbxUpAxis(buffer)));
+
+  return { object: group, animations: group.animations ?? [], format: 'fbx' };
+};
+
+const loadCollada: FormatLoader = async (url, options) => {
+  const collada = await new ColladaLoader(options.manager).loadAsync(url, options.onProgress);
+  if (!collada || !collada.scene) {
+    throw new Error('File contains no scene');
+  }
+
+  // ColladaLoader already applies the <unit> scale and rotates Z_UP assets
+  // into Y-up on the returned scene
+  return { object: collada.scene, animations: collada.scene.animations ?? [], format: 'dae' };
+};
+
+const registry = new Map<ModelFormat, FormatLoader>([
+  ['gltf', loadGltf],
+  ['obj', loadObj],
+  ['fbx', loadFbx],
+  ['dae', loadCollada],
+]);
+
+/**
+ * Register or replace the loader for a format
+ */
+export function registerModelLoader(format: ModelFormat, loader: FormatLoader) {
+  registry.set(format, loader);
+}
+
+/**
+ * Wrap a loaded model in a group whose transform brings it to a sensible
+ * real-world size, centres it horizontally and rests it on y = 0. Transforms
+ * applied to the returned group by callers then compose on top.
+ */
+export function normalizeModel(
+  object: THREE.Object3D,
+  options: ModelNormalizationOptions = {}
+): THREE.Group {
+  const { minSize, maxSize, targetSize } = { ...DEFAULT_NORMALIZATION, ...options };
+
+  // Outer group is left at identity for callers; the inner one carries the
+  // normalisation scale
+  const container = new THREE.Group();
+  const normalized = new THREE.Group();
+  container.add(normalized);
+
+  object.updateMatrixWorld(true);
+  const box = new THREE.Box3().setFromObject(object);
+
+  if (!box.isEmpty()) {
+    const size = box.getSize(new THREE.Vector3());
+    const largest = Math.max(size.x, size.y, size.z);
+    if (largest > 0 && (largest < minSize || largest > maxSize)) {
+      normalized.scale.setScalar(targetSize / largest);
+    }
+
+    const center = box.getCenter(new THREE.Vector3());
+    object.position.x -= center.x;
+    object.position.y -= box.min.y;
+    object.position.z -= center.z;
+  }
+
+  normalized.add(object);
+  return container;
+}
+
+/**
+ * Load a model with the loader matching its format and normalise its scale
+ * and up axis. Failures are reported as ModelLoadError with the format.
+ */
+export async function loadModel(
+  url: string,
+  modelType?: string,
+  options: ModelLoadOptions & ModelNormalizationOptions = {}
+): Promise<LoadedModel> {
+  const format = resolveModelFormat(url, modelType);
+  if (!format) {
+    throw new ModelLoadError(null, url, `Unsupported model type "${modelType ?? 'unknown'}"`);
+  }
+
+  const loader = registry.get(format);
+  if (!loader) {
+    throw new ModelLoadError(format, url, 'No loader registered for format');
+  }
+
+  let loaded: LoadedModel;
+  try {
+    loaded = await loader(url, options);
+  } catch (error) {
+    throw new ModelLoadError(format, url, errorMessage(error));
+  }
+
+  return {
+    ...loaded,
+    object: normalizeModel(loaded.object, options),
+  };
+}
@@ -0,0 +1,193 @@
+// Walking navigation helpers: great-circle distance and bearing, route
+// progress, and the pluggable route providers used by NavigationService
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+// Mean Earth radius (meters); plenty for walking distances
+const EARTH_RADIUS = 6371000;
+
+// Typical walking pace (meters per second) used for the ETA
+export const WALKING_SPEED = 1.4;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+}
+
+export interface NavigationRoute {
+  // Ordered waypoints from the start to the destination
+  points: GeoPoint[];
+  // Name of the provider that produced it, for logging
+  provider: string;
+}
+
+/**
+ * Produces a walking route between two points. Providers backed by a routing
+ * API should reject on failure; NavigationService then falls back to a
+ * straight line.
+ */
+export interface RouteProvider {
+  name: string;
+  getRoute(from: GeoPoint, to: GeoPoint): Promise<NavigationRoute>;
+}
+
+export const straightLineRouteProvider: RouteProvider = {
+  name: 'straight-line',
+  getRoute: async (from, to) => ({
+    points: [from, to],
+    provider: 'straight-line',
+  }),
+};
+
+// Haversine distance in meters
+export function distanceBetween(from: GeoPoint, to: GeoPoint): number {
+  const φ1 = from.latitude * DEG_TO_RAD;
+  const φ2 = to.latitude * DEG_TO_RAD;
+  const Δφ = (to.latitude - from.latitude) * DEG_TO_RAD;
+  const Δλ = (to.longitude - from.longitude) * DEG_TO_RAD;
+
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  return EARTH_RADIUS * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Initial great-circle bearing, clockwise from true north (0-360)
+export function bearingBetween(from: GeoPoint, to: GeoPoint): number {
+  const φ1 = from.latitude * DEG_TO_RAD;
+  const φ2 = to.latitude * DEG_TO_RAD;
+  const Δλ = (to.longitude - from.longitude) * DEG_TO_RAD;
+
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+  return (Math.atan2(y, x) * RAD_TO_DEG + 360) % 360;
+}
+
+/**
+ * Index of the waypoint the user should head for next. Waypoints within the
+ * arrival radius count as reached, and so does every waypoint before the one
+ * the user is currently closest to, so cutting a corner does not send them
+ * back.
+ */
+export function nextWaypointIndex(
+  route: NavigationRoute,
+  position: GeoPoint,
+  currentIndex: number,
+  reachedRadius: number
+): number {
+  const { points } = route;
+  let index = Math.max(1, Math.min(currentIndex, points.length - 1));
+
+  let closest = index;
+  let closestDistance = distanceBetween(position, points[index]);
+  for (let i = index + 1; i < points.length; i++) {
+    const distance = distanceBetween(position, points[i]);
+    if (distance < closestDistance) {
+      closest = i;
+      closestDistance = distance;
+    }
+  }
+  index = closest;
+
+  while (index < points.length - 1 && distanceBetween(position, points[index]) <= reachedRadius) {
+    index++;
+  }
+  return index;
+}
+
+// Distance from the user along the rest of the route (meters)
+export function remainingDistance(route: NavigationRoute, position: GeoPoint, nextIndex: number): number {
+  const { points } = route;
+  if (nextIndex >= points.length) {
+    return 0;
+  }
+
+  let total = distanceBetween(position, points[nextIndex]);
+  for (let i = nextIndex; i < points.length - 1; i++) {
+    total += distanceBetween(points[i], points[i + 1]);
+  }
+  return total;
+}
+
+// Shortest distance from a point to the route polyline (meters), using a
+// local flat approximation that is accurate at walking scale
+export function distanceFromRoute(route: NavigationRoute, position: GeoPoint): number {
+  const { points } = route;
+  if (points.length === 0) {
+    return Infinity;
+  }
+  if (points.length === 1) {
+    return distanceBetween(position, points[0]);
+  }
+
+  const cosLat = Math.cos(position.latitude * DEG_TO_RAD);
+  const toLocal = (point: GeoPoint) => ({
+    x: (point.longitude - position.longitude) * DEG_TO_RAD * EARTH_RADIUS * cosLat,
+    y: (point.latitude - position.latitude) * DEG_TO_RAD * EARTH_RADIUS,
+  });
+
+  let best = Infinity;
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = toLocal(points[i]);
+    const b = toLocal(points[i + 1]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared)) : 0;
+    const x = a.x + t * dx;
+    const y = a.y + t * dy;
+    best = Math.min(best, Math.sqrt(x * x + y * y));
+  }
+  return best;
+}
+
+/**
+ * Points every `spacing` meters along the route, for drawing breadcrumbs
+ */
+export function sampleRoute(points: GeoPoint[], spacing: number): GeoPoint[] {
+  if (points.length < 2 || spacing <= 0) {
+    return [...points];
+  }
+
+  const samples: GeoPoint[] = [];
+  let carried = 0;
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const from = points[i];
+    const to = points[i + 1];
+    const length = distanceBetween(from, to);
+
+    for (let offset = carried; offset < length; offset += spacing) {
+      const t = offset / length;
+      samples.push({
+        latitude: from.latitude + (to.latitude - from.latitude) * t,
+        longitude: from.longitude + (to.longitude - from.longitude) * t,
+        altitude: from.altitude !== undefined && to.altitude !== undefined
+          ? from.altitude + (to.altitude - from.altitude) * t
+          : from.altitude ?? to.altitude,
+      });
+    }
+    carried = length > 0 ? (carried - length) % spacing : carried;
+    if (carried < 0) {
+      carried += spacing;
+    }
+  }
+
+  samples.push(points[points.length - 1]);
+  return samples;
+}
+
+export function formatEta(seconds: number): string {
+  if (!isFinite(seconds)) {
+    return '--';
+  }
+  if (seconds < 60) {
+    return '<1 min';
+  }
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes} min`;
+  }
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
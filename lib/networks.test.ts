@@ -0,0 +1,134 @@
+import {
+  EvmNetworkConfig,
+  NetworkRegistryConfig,
+  getDefaultEvmNetwork,
+  getEvmNetwork,
+  getNetwork,
+  loadNetworkRegistry,
+  validateNetworkRegistry,
+} from '@/lib/networks';
+
+const CUSTOM_CHAIN: EvmNetworkConfig = {
+  type: 'evm',
+  id: 'custom-testnet',
+  name: 'Custom Testnet',
+  testnet: true,
+  chainId: 424242,
+  rpcUrls: ['https://rpc.custom.example'],
+  explorerUrl: 'https://explorer.custom.example',
+  nativeCurrency: { symbol: 'CUS', name: 'Custom', decimals: 18 },
+  tokens: [{ symbol: 'USDC', name: 'USD Coin', decimals: 6, address: '0x1111111111111111111111111111111111111111' }],
+  paymentToken: 'USDC',
+};
+
+// The built-in registry with the given changes
+function withNetworks(
+  change: (networks: NetworkRegistryConfig['networks']) => NetworkRegistryConfig['networks'],
+  defaults: Partial<NetworkRegistryConfig> = {}
+): NetworkRegistryConfig {
+  const builtIn = loadNetworkRegistry();
+  return { ...builtIn, ...defaults, networks: change(builtIn.networks.map((network) => ({ ...network }))) };
+}
+
+afterEach(() => {
+  loadNetworkRegistry();
+});
+
+describe('validateNetworkRegistry', () => {
+  it('accepts the built-in networks', () => {
+    expect(validateNetworkRegistry(loadNetworkRegistry())).toEqual([]);
+  });
+
+  it('reports invalid addresses and asset IDs', () => {
+    const config = withNetworks((networks) => [
+      ...networks,
+      {
+        ...CUSTOM_CHAIN,
+        tokens: [
+          { ...CUSTOM_CHAIN.tokens[0], address: '0x1234' },
+          { symbol: 'DAI', name: 'Dai', decimals: 18 },
+          { symbol: 'ASA', name: 'Asset', decimals: 6, address: '0x2222222222222222222222222222222222222222', assetId: 7 },
+        ],
+      },
+    ]);
+
+    expect(validateNetworkRegistry(config)).toEqual([
+      'Network "custom-testnet" token USDC has invalid contract address "0x1234"',
+      'Network "custom-testnet" token DAI has no contract address',
+      'Network "custom-testnet" token ASA has an asset ID on an EVM chain',
+    ]);
+  });
+
+  it('reports networks that reuse an id or chain ID', () => {
+    const config = withNetworks((networks) => [
+      ...networks,
+      { ...CUSTOM_CHAIN, chainId: 314159 },
+      { ...CUSTOM_CHAIN, chainId: 424243 },
+    ]);
+
+    expect(validateNetworkRegistry(config)).toEqual([
+      'Network "custom-testnet" reuses chain ID 314159',
+      'Network "custom-testnet" is listed more than once',
+    ]);
+  });
+
+  it('reports defaults that are missing or of the wrong type', () => {
+    expect(validateNetworkRegistry(withNetworks((networks) => networks, { defaultEvmNetwork: 'mainnet' }))).toEqual([
+      'Default EVM network "mainnet" is not in the registry',
+    ]);
+    expect(validateNetworkRegistry(withNetworks((networks) => networks, {
+      defaultEvmNetwork: 'algorand-testnet',
+      defaultAlgorandNetwork: 'filecoin-calibration',
+    }))).toEqual([
+      'Default EVM network "algorand-testnet" is not an EVM network',
+      'Default Algorand network "filecoin-calibration" is not an Algorand network',
+    ]);
+  });
+
+  it('reports bad URLs and payment tokens', () => {
+    const config = withNetworks((networks) => [
+      ...networks,
+      { ...CUSTOM_CHAIN, rpcUrls: ['wss://rpc.custom.example'], explorerUrl: '', paymentToken: 'EUR' },
+    ]);
+
+    expect(validateNetworkRegistry(config)).toEqual([
+      'Network "custom-testnet" has invalid explorer URL ""',
+      'Network "custom-testnet" has invalid RPC URL "wss://rpc.custom.example"',
+      'Network "custom-testnet" pays in unknown token "EUR"',
+    ]);
+  });
+});
+
+describe('loadNetworkRegistry', () => {
+  it('merges overrides into known networks field by field', () => {
+    loadNetworkRegistry({ networks: [{ id: 'filecoin-calibration', rpcUrls: ['https://my-rpc.example'] }] });
+
+    const network = getEvmNetwork(314159);
+    expect(network?.rpcUrls).toEqual(['https://my-rpc.example']);
+    expect(network?.name).toBe('Filecoin Calibration');
+    expect(network?.paymentToken).toBe('USDFC');
+  });
+
+  it('adds new networks and switches defaults', () => {
+    loadNetworkRegistry({ networks: [CUSTOM_CHAIN], defaultEvmNetwork: 'custom-testnet' });
+
+    expect(getEvmNetwork(424242)).toEqual(CUSTOM_CHAIN);
+    expect(getDefaultEvmNetwork().id).toBe('custom-testnet');
+    expect(getNetwork('blockdag-primordial')).toBeDefined();
+  });
+
+  it('throws every problem and keeps the current registry when the result is invalid', () => {
+    expect(() =>
+      loadNetworkRegistry({
+        networks: [{ id: 'filecoin-calibration', chainId: 7001 }],
+        defaultAlgorandNetwork: 'missing',
+      })
+    ).toThrow(
+      'Invalid network config:\n' +
+      '- Network "filecoin-calibration" reuses chain ID 7001\n' +
+      '- Default Algorand network "missing" is not in the registry'
+    );
+    expect(getEvmNetwork(314159)?.id).toBe('filecoin-calibration');
+    expect(getDefaultEvmNetwork().id).toBe('filecoin-calibration');
+  });
+});
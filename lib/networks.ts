@@ -0,0 +1,339 @@
+// Registry of the chains and tokens the app can pay and verify on: chain IDs,
+// RPC endpoints, explorers, token contracts and decimals for EVM chains and
+// Algorand. Built-in networks can be overridden, or new ones added, from the
+// EXPO_PUBLIC_NETWORK_CONFIG JSON at startup; the interaction-pass function
+// reads the same overrides from its NETWORK_CONFIG secret.
+
+import { isAddress } from 'ethers';
+import builtInNetworks from '@/supabase/functions/_shared/networks.json';
+
+export interface TokenConfig {
+  symbol: string;
+  name: string;
+  decimals: number;
+  // ERC-20 contract on EVM chains
+  address?: string;
+  // Algorand Standard Asset ID
+  assetId?: number;
+}
+
+interface BaseNetworkConfig {
+  // Stable key used by config overrides and defaults
+  id: string;
+  name: string;
+  testnet: boolean;
+  // The chain's own coin, with no address or asset ID
+  nativeCurrency: TokenConfig;
+  // Addresses and transactions live under /address/ and /tx/
+  explorerUrl: string;
+  tokens: TokenConfig[];
+  // Symbol of the token agents are paid in; the native coin when absent
+  paymentToken?: string;
+}
+
+export interface EvmNetworkConfig extends BaseNetworkConfig {
+  type: 'evm';
+  chainId: number;
+  // The first endpoint is used for verification
+  rpcUrls: string[];
+}
+
+export interface AlgorandNetworkConfig extends BaseNetworkConfig {
+  type: 'algorand';
+  genesisId: string;
+  algodUrl: string;
+  indexerUrl?: string;
+}
+
+export type NetworkConfig = EvmNetworkConfig | AlgorandNetworkConfig;
+
+export interface NetworkRegistryConfig {
+  networks: NetworkConfig[];
+  // Network ids agents are paid on when they do not name one
+  defaultEvmNetwork: string;
+  defaultAlgorandNetwork: string;
+}
+
+// Overrides merged onto the built-in registry; networks with a known id are
+// updated field by field, others are added whole
+export interface NetworkConfigOverrides {
+  networks?: (Partial<NetworkConfig> & { id: string })[];
+  defaultEvmNetwork?: string;
+  defaultAlgorandNetwork?: string;
+}
+
+// Enough of ERC-20 to read balances
+export const ERC20_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)',
+];
+
+// Built-in networks, shared with the interaction-pass function so both accept
+// the same chains and tokens. Interaction fees are priced in USDFC, so
+// Filecoin Calibration is the default EVM network.
+const BUILT_IN_REGISTRY: NetworkRegistryConfig = {
+  ...(builtInNetworks as NetworkRegistryConfig),
+  networks: (builtInNetworks.networks as NetworkConfig[]).map((network) =>
+    network.id === 'blockdag-primordial' && process.env.EXPO_PUBLIC_BLOCKDAG_RPC_URL
+      ? { ...network, rpcUrls: [process.env.EXPO_PUBLIC_BLOCKDAG_RPC_URL] }
+      : network
+  ),
+};
+
+let registry: NetworkRegistryConfig = BUILT_IN_REGISTRY;
+
+const isHttpUrl = (value: unknown) => typeof value === 'string' && /^https?:\/\/[^\s]+$/.test(value);
+const isDecimals = (value: unknown) => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 36;
+
+function validateToken(token: TokenConfig, network: NetworkConfig, where: string, problems: string[]) {
+  if (!token || typeof token !== 'object') {
+    problems.push(`${where} is not an object`);
+    return;
+  }
+  if (typeof token.symbol !== 'string' || !token.symbol) problems.push(`${where} has no symbol`);
+  if (typeof token.name !== 'string' || !token.name) problems.push(`${where} has no name`);
+  if (!isDecimals(token.decimals)) problems.push(`${where} has invalid decimals "${token.decimals}"`);
+
+  if (network.type === 'evm' && token.address !== undefined && !isAddress(token.address)) {
+    problems.push(`${where} has invalid contract address "${token.address}"`);
+  }
+  if (network.type === 'algorand' && token.assetId !== undefined &&
+    !(Number.isSafeInteger(token.assetId) && token.assetId > 0)) {
+    problems.push(`${where} has invalid asset ID "${token.assetId}"`);
+  }
+  if (network.type === 'evm' && token.assetId !== undefined) problems.push(`${where} has an asset ID on an EVM chain`);
+  if (network.type === 'algorand' && token.address !== undefined) problems.push(`${where} has a contract address on Algorand`);
+}
+
+/**
+ * Everything wrong with a registry, one readable message each; empty when it
+ * can be used
+ */
+export function validateNetworkRegistry(config: NetworkRegistryConfig): string[] {
+  const problems: string[] = [];
+  if (!config || !Array.isArray(config.networks)) {
+    return ['Network config has no networks list'];
+  }
+
+  const ids = new Set<string>();
+  const chainIds = new Set<number>();
+  config.networks.forEach((network, index) => {
+    if (!network || typeof network !== 'object') {
+      problems.push(`Network ${index} is not an object`);
+      return;
+    }
+    const where = `Network "${network.id ?? index}"`;
+
+    if (typeof network.id !== 'string' || !network.id) {
+      problems.push(`Network ${index} has no id`);
+    } else if (ids.has(network.id)) {
+      problems.push(`${where} is listed more than once`);
+    } else {
+      ids.add(network.id);
+    }
+    if (typeof network.name !== 'string' || !network.name) problems.push(`${where} has no name`);
+    if (!isHttpUrl(network.explorerUrl)) problems.push(`${where} has invalid explorer URL "${network.explorerUrl}"`);
+
+    if (network.type === 'evm') {
+      if (!Number.isSafeInteger(network.chainId) || network.chainId <= 0) {
+        problems.push(`${where} has invalid chain ID "${network.chainId}"`);
+      } else if (chainIds.has(network.chainId)) {
+        problems.push(`${where} reuses chain ID ${network.chainId}`);
+      } else {
+        chainIds.add(network.chainId);
+      }
+      if (!Array.isArray(network.rpcUrls) || network.rpcUrls.length === 0) {
+        problems.push(`${where} has no RPC URLs`);
+      } else {
+        network.rpcUrls.filter((url) => !isHttpUrl(url)).forEach((url) => problems.push(`${where} has invalid RPC URL "${url}"`));
+      }
+    } else if (network.type === 'algorand') {
+      if (typeof network.genesisId !== 'string' || !network.genesisId) problems.push(`${where} has no genesis ID`);
+      if (!isHttpUrl(network.algodUrl)) problems.push(`${where} has invalid algod URL "${network.algodUrl}"`);
+      if (network.indexerUrl !== undefined && !isHttpUrl(network.indexerUrl)) {
+        problems.push(`${where} has invalid indexer URL "${network.indexerUrl}"`);
+      }
+    } else {
+      problems.push(`${where} has unknown type "${(network as { type?: unknown }).type}"`);
+      return;
+    }
+
+    validateToken(network.nativeCurrency, network, `${where} native currency`, problems);
+    if (!Array.isArray(network.tokens)) {
+      problems.push(`${where} has no tokens list`);
+      return;
+    }
+    const symbols = new Set<string>();
+    network.tokens.forEach((token, tokenIndex) => {
+      validateToken(token, network, `${where} token ${token?.symbol ?? tokenIndex}`, problems);
+      if (network.type === 'evm' && !token?.address) problems.push(`${where} token ${token?.symbol ?? tokenIndex} has no contract address`);
+      if (network.type === 'algorand' && token?.assetId === undefined) problems.push(`${where} token ${token?.symbol ?? tokenIndex} has no asset ID`);
+      if (token?.symbol && symbols.has(token.symbol)) problems.push(`${where} lists token ${token.symbol} more than once`);
+      symbols.add(token?.symbol);
+    });
+    if (network.paymentToken !== undefined && !symbols.has(network.paymentToken)) {
+      problems.push(`${where} pays in unknown token "${network.paymentToken}"`);
+    }
+  });
+
+  const checkDefault = (id: string, type: NetworkConfig['type'], name: string) => {
+    const network = config.networks.find((other) => other?.id === id);
+    if (!network) {
+      problems.push(`Default ${name} network "${id}" is not in the registry`);
+    } else if (network.type !== type) {
+      problems.push(`Default ${name} network "${id}" is not an ${name} network`);
+    }
+  };
+  checkDefault(config.defaultEvmNetwork, 'evm', 'EVM');
+  checkDefault(config.defaultAlgorandNetwork, 'algorand', 'Algorand');
+
+  return problems;
+}
+
+/**
+ * Apply overrides to the built-in networks and use the result. Throws with
+ * every problem found when the result is invalid, leaving the registry as
+ * it was.
+ */
+export function loadNetworkRegistry(overrides: NetworkConfigOverrides = {}): NetworkRegistryConfig {
+  const networks = BUILT_IN_REGISTRY.networks.map((network) => ({ ...network }));
+  (overrides.networks ?? []).forEach((override) => {
+    const index = networks.findIndex((network) => network.id === override?.id);
+    if (index > -1) {
+      networks[index] = { ...networks[index], ...override } as NetworkConfig;
+    } else {
+      networks.push(override as NetworkConfig);
+    }
+  });
+
+  const next: NetworkRegistryConfig = {
+    networks,
+    defaultEvmNetwork: overrides.defaultEvmNetwork ?? BUILT_IN_REGISTRY.defaultEvmNetwork,
+    defaultAlgorandNetwork: overrides.defaultAlgorandNetwork ?? BUILT_IN_REGISTRY.defaultAlgorandNetwork,
+  };
+  const problems = validateNetworkRegistry(next);
+  if (problems.length > 0) {
+    throw new Error(`Invalid network config:\n- ${problems.join('\n- ')}`);
+  }
+
+  registry = next;
+  return registry;
+}
+
+/**
+ * Load the registry from EXPO_PUBLIC_NETWORK_CONFIG (JSON overrides, see
+ * NetworkConfigOverrides) and validate it. Keeps the built-in networks when
+ * the config is invalid. Call once at startup.
+ */
+export function initializeNetworkRegistry() {
+  try {
+    const json = process.env.EXPO_PUBLIC_NETWORK_CONFIG;
+    const loaded = loadNetworkRegistry(json ? JSON.parse(json) : {});
+    console.log('🌐 Network registry loaded:', loaded.networks.map((network) => network.name).join(', '));
+  } catch (error) {
+    console.error('❌ Failed to load network config, keeping the current networks:', error);
+  }
+}
+
+export function getNetworks(): NetworkConfig[] {
+  return registry.networks;
+}
+
+export function getNetwork(id: string): NetworkConfig | undefined {
+  return registry.networks.find((network) => network.id === id);
+}
+
+export function getEvmNetwork(chainId: number): EvmNetworkConfig | undefined {
+  return registry.networks.find(
+    (network): network is EvmNetworkConfig => network.type === 'evm' && network.chainId === chainId
+  );
+}
+
+export function getDefaultEvmNetwork(): EvmNetworkConfig {
+  return getNetwork(registry.defaultEvmNetwork) as EvmNetworkConfig;
+}
+
+export function getDefaultAlgorandNetwork(): AlgorandNetworkConfig {
+  return getNetwork(registry.defaultAlgorandNetwork) as AlgorandNetworkConfig;
+}
+
+// The token agents on the network are paid in
+export function getNetworkPaymentToken(network: NetworkConfig): TokenConfig {
+  return network.tokens.find((token) => token.symbol === network.paymentToken) ?? network.nativeCurrency;
+}
+
+// Known ERC-20 token at the address on the chain
+export function findEvmToken(chainId: number, address: string): TokenConfig | undefined {
+  return getEvmNetwork(chainId)?.tokens.find((token) => token.address?.toLowerCase() === address.toLowerCase());
+}
+
+// Known Algorand Standard Asset on the default Algorand network
+export function findAlgorandAsset(assetId: number): TokenConfig | undefined {
+  return getDefaultAlgorandNetwork().tokens.find((token) => token.assetId === assetId);
+}
+
+/**
+ * The EVM network and token an agent's `payment_token` names: a contract
+ * address or token symbol, looked up on the default network first; without
+ * one, the default network's payment token. Null when no network lists it.
+ */
+export function findEvmPaymentToken(
+  paymentToken?: string
+): { network: EvmNetworkConfig; token: TokenConfig } | null {
+  const fallback = getDefaultEvmNetwork();
+  if (!paymentToken) {
+    return { network: fallback, token: getNetworkPaymentToken(fallback) };
+  }
+
+  const networks = [fallback, ...registry.networks.filter((network) => network.id !== fallback.id)]
+    .filter((network): network is EvmNetworkConfig => network.type === 'evm');
+  const address = isAddress(paymentToken) ? paymentToken.toLowerCase() : null;
+  for (const network of networks) {
+    const token = network.tokens.find((other) =>
+      address ? other.address?.toLowerCase() === address : other.symbol === paymentToken
+    );
+    if (token) {
+      return { network, token };
+    }
+  }
+  return null;
+}
+
+// As findEvmPaymentToken, but throws for tokens no network lists, whose
+// decimals and value are unknown
+export function resolveEvmPaymentToken(paymentToken?: string): { network: EvmNetworkConfig; token: TokenConfig } {
+  const resolved = findEvmPaymentToken(paymentToken);
+  if (!resolved) {
+    throw new Error(`Unknown payment token "${paymentToken}"`);
+  }
+  return resolved;
+}
+
+// Chain ID as wallets report it ("0x1b59")
+export function toHexChainId(chainId: number): string {
+  return `0x${chainId.toString(16)}`;
+}
+
+// Parameters for the wallet_addEthereumChain request (EIP-3085)
+export function toAddEthereumChainParams(network: EvmNetworkConfig) {
+  return {
+    chainId: toHexChainId(network.chainId),
+    chainName: network.name,
+    nativeCurrency: {
+      name: network.nativeCurrency.name,
+      symbol: network.nativeCurrency.symbol,
+      decimals: network.nativeCurrency.decimals,
+    },
+    rpcUrls: network.rpcUrls,
+    blockExplorerUrls: [network.explorerUrl],
+  };
+}
+
+export function getExplorerAddressUrl(network: NetworkConfig, address: string): string {
+  return `${network.explorerUrl}/address/${address}`;
+}
+
+export function getExplorerTxUrl(network: NetworkConfig, txHash: string): string {
+  return `${network.explorerUrl}/tx/${txHash}`;
+}
@@ -0,0 +1,206 @@
+import {
+  OrientationFilter,
+  OrientationTraceEvent,
+  deviceOrientationToQuaternion,
+  deviceToCameraQuaternion,
+  motionRotationToReading,
+  replayOrientationTrace,
+} from '@/lib/orientation';
+import * as THREE from 'three';
+
+// Heading and pitch of the camera view direction, as OrientationFilter reports them
+function viewAngles(quaternion: THREE.Quaternion) {
+  const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(quaternion);
+  const heading = (Math.atan2(forward.x, -forward.z) * 180 / Math.PI + 360) % 360;
+  const pitch = Math.asin(Math.max(-1, Math.min(1, forward.y))) * 180 / Math.PI;
+  return { heading, pitch };
+}
+
+// Smallest difference between two headings in degrees
+function headingError(actual: number, expected: number) {
+  const difference = Math.abs(actual - expected) % 360;
+  return Math.min(difference, 360 - difference);
+}
+
+/**
+ * A phone held upright and turning left at a steady rate, sampled at 50 Hz.
+ * Orientation readings carry deterministic compass jitter; motion readings
+ * carry the true rotation rate about the device's (vertical) y axis.
+ */
+function turningTrace(options: { seconds: number; degreesPerSecond: number; jitter: number; withGyro: boolean }) {
+  const trace: OrientationTraceEvent[] = [];
+  const intervalMs = 20;
+  const samples = Math.round(options.seconds * 1000 / intervalMs);
+
+  for (let i = 0; i <= samples; i++) {
+    const timestamp = i * intervalMs;
+    const alpha = (options.degreesPerSecond * timestamp / 1000 + 360) % 360;
+    const noise = options.jitter * Math.sin(i * 2.3) * Math.cos(i * 0.7);
+    if (options.withGyro) {
+      trace.push({ type: 'motion', timestamp, alpha: 0, beta: 0, gamma: options.degreesPerSecond });
+    }
+    trace.push({ type: 'orientation', timestamp, alpha: alpha + noise, beta: 90, gamma: 0, absolute: true });
+  }
+  return trace;
+}
+
+describe('deviceOrientationToQuaternion', () => {
+  it('looks north and level when held upright with alpha 0', () => {
+    const device = deviceOrientationToQuaternion(0, 90, 0);
+    const { heading, pitch } = viewAngles(deviceToCameraQuaternion(device, 0));
+    expect(headingError(heading, 0)).toBeLessThan(1e-6);
+    expect(pitch).toBeCloseTo(0, 6);
+  });
+
+  it('turns counter-clockwise as alpha grows', () => {
+    const device = deviceOrientationToQuaternion(90, 90, 0);
+    expect(headingError(viewAngles(deviceToCameraQuaternion(device, 0)).heading, 270)).toBeLessThan(1e-6);
+  });
+
+  it('looks straight down when lying flat', () => {
+    const device = deviceOrientationToQuaternion(0, 0, 0);
+    expect(viewAngles(deviceToCameraQuaternion(device, 0)).pitch).toBeCloseTo(-90, 6);
+  });
+
+  it('keeps the view direction when the screen rotates', () => {
+    const device = deviceOrientationToQuaternion(30, 70, 0);
+    const portrait = viewAngles(deviceToCameraQuaternion(device, 0));
+    const landscape = viewAngles(deviceToCameraQuaternion(device, 90));
+    expect(headingError(landscape.heading, portrait.heading)).toBeLessThan(1e-6);
+    expect(landscape.pitch).toBeCloseTo(portrait.pitch, 6);
+  });
+});
+
+describe('motionRotationToReading', () => {
+  function viewOf(reading: ReturnType<typeof motionRotationToReading>) {
+    const filter = new OrientationFilter();
+    filter.updateOrientation(reading);
+    return { heading: filter.getHeading(), pitch: filter.getPitch() };
+  }
+
+  it('reads Android rotations as DeviceOrientation angles', () => {
+    const reading = motionRotationToReading({ timestamp: 2.5, alpha: -Math.PI / 2, beta: Math.PI / 3, gamma: 0 }, 'android');
+    expect(reading).toMatchObject({ timestamp: 2500, absolute: true });
+    const { heading, pitch } = viewOf(reading);
+    expect(headingError(heading, 90)).toBeLessThan(1e-6);
+    expect(pitch).toBeCloseTo(-30, 6);
+  });
+
+  it('turns iOS yaw from its x-north frame to north', () => {
+    const north = viewOf(motionRotationToReading({ timestamp: 0, alpha: -Math.PI / 2, beta: Math.PI / 2, gamma: 0 }, 'ios'));
+    expect(headingError(north.heading, 0)).toBeLessThan(1e-6);
+    expect(north.pitch).toBeCloseTo(0, 6);
+
+    const west = viewOf(motionRotationToReading({ timestamp: 0, alpha: 0, beta: Math.PI / 2, gamma: 0 }, 'ios'));
+    expect(headingError(west.heading, 270)).toBeLessThan(1e-6);
+  });
+});
+
+describe('OrientationFilter', () => {
+  it('corrects absolute headings from magnetic to true north', () => {
+    const filter = new OrientationFilter();
+    filter.setDeclination(10);
+    filter.updateOrientation({ timestamp: 0, alpha: 0, beta: 90, gamma: 0, absolute: true });
+    expect(filter.isHeadingAbsolute()).toBe(true);
+    expect(headingError(filter.getHeading(), 10)).toBeLessThan(1e-6);
+  });
+
+  it('leaves relative headings uncorrected', () => {
+    const filter = new OrientationFilter();
+    filter.setDeclination(10);
+    filter.updateOrientation({ timestamp: 0, alpha: 0, beta: 90, gamma: 0, absolute: false });
+    expect(filter.isHeadingAbsolute()).toBe(false);
+    expect(headingError(filter.getHeading(), 0)).toBeLessThan(1e-6);
+  });
+
+  it('uses the iOS compass heading when present', () => {
+    const filter = new OrientationFilter();
+    filter.updateOrientation({ timestamp: 0, alpha: 123, beta: 90, gamma: 0, absolute: false, compassHeading: 90 });
+    expect(filter.isHeadingAbsolute()).toBe(true);
+    expect(headingError(filter.getHeading(), 90)).toBeLessThan(1e-6);
+  });
+
+  it('ignores readings with missing angles', () => {
+    const filter = new OrientationFilter();
+    expect(filter.updateOrientation({ timestamp: 0, alpha: NaN, beta: 90, gamma: 0, absolute: true })).toBeNull();
+    expect(filter.hasReading()).toBe(false);
+  });
+
+  it('low-pass filters a sudden jump without a gyroscope', () => {
+    const filter = new OrientationFilter({ smoothingTimeConstant: 0.12 });
+    filter.updateOrientation({ timestamp: 0, alpha: 0, beta: 90, gamma: 0, absolute: true });
+    filter.updateOrientation({ timestamp: 20, alpha: 330, beta: 90, gamma: 0, absolute: true });
+
+    // One 20 ms step covers 1 - e^(-20/120) ≈ 15% of the 30° jump
+    expect(headingError(filter.getHeading(), 4.6)).toBeLessThan(0.5);
+  });
+
+  it('integrates the gyroscope between orientation readings', () => {
+    const filter = new OrientationFilter();
+    filter.updateOrientation({ timestamp: 0, alpha: 0, beta: 90, gamma: 0, absolute: true });
+    filter.updateRotationRate({ timestamp: 0, alpha: 0, beta: 0, gamma: 0 });
+    for (let timestamp = 20; timestamp <= 200; timestamp += 20) {
+      filter.updateRotationRate({ timestamp, alpha: 0, beta: 0, gamma: 100 });
+    }
+
+    // Upright, turning left is a rotation about the device's y axis (gamma):
+    // 100°/s for 0.2 s
+    expect(headingError(filter.getHeading(), 340)).toBeLessThan(0.01);
+  });
+
+  it('drops stale gyroscope intervals', () => {
+    const filter = new OrientationFilter();
+    filter.updateOrientation({ timestamp: 0, alpha: 0, beta: 90, gamma: 0, absolute: true });
+    filter.updateRotationRate({ timestamp: 0, alpha: 0, beta: 0, gamma: 0 });
+    expect(filter.updateRotationRate({ timestamp: 1000, alpha: 100, beta: 0, gamma: 0 })).toBeNull();
+    expect(headingError(filter.getHeading(), 0)).toBeLessThan(1e-6);
+  });
+
+  it('starts over after reset', () => {
+    const filter = new OrientationFilter();
+    filter.updateOrientation({ timestamp: 0, alpha: 90, beta: 90, gamma: 0, absolute: true });
+    filter.reset();
+    expect(filter.hasReading()).toBe(false);
+
+    filter.updateOrientation({ timestamp: 1000, alpha: 0, beta: 90, gamma: 0, absolute: true });
+    expect(headingError(filter.getHeading(), 0)).toBeLessThan(1e-6);
+  });
+});
+
+describe('replayOrientationTrace', () => {
+  it('follows a turn and smooths compass jitter with the gyroscope', () => {
+    const trace = turningTrace({ seconds: 2, degreesPerSecond: 45, jitter: 4, withGyro: true });
+    const results = replayOrientationTrace(trace);
+    expect(results).toHaveLength(101);
+
+    // 45°/s counter-clockwise for 2 s ends facing 270°
+    expect(headingError(viewAngles(results[results.length - 1]).heading, 270)).toBeLessThan(1.5);
+
+    // Heading steps stay close to the true 0.9° per sample despite ±4° jitter
+    for (let i = 1; i < results.length; i++) {
+      const step = headingError(viewAngles(results[i]).heading, viewAngles(results[i - 1]).heading);
+      expect(step).toBeLessThan(1.5);
+    }
+  });
+
+  it('lags behind a turn without a gyroscope but settles once it stops', () => {
+    const trace = turningTrace({ seconds: 1, degreesPerSecond: 90, jitter: 0, withGyro: false });
+    for (let timestamp = 1020; timestamp <= 2000; timestamp += 20) {
+      trace.push({ type: 'orientation', timestamp, alpha: 90, beta: 90, gamma: 0, absolute: true });
+    }
+    const results = replayOrientationTrace(trace);
+
+    const endOfTurn = viewAngles(results[50]).heading;
+    expect(headingError(endOfTurn, 270)).toBeGreaterThan(5);
+    expect(headingError(viewAngles(results[results.length - 1]).heading, 270)).toBeLessThan(0.1);
+  });
+
+  it('applies declination and screen rotation events', () => {
+    const trace: OrientationTraceEvent[] = [
+      { type: 'screen', timestamp: 0, angle: 90 },
+      { type: 'orientation', timestamp: 0, alpha: 0, beta: 90, gamma: 0, absolute: true },
+    ];
+    const [quaternion] = replayOrientationTrace(trace, { declination: -5 });
+    expect(headingError(viewAngles(quaternion).heading, 355)).toBeLessThan(1e-6);
+  });
+});
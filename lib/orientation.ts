@@ -0,0 +1,436 @@
+import * as THREE from 'three';
+import { Platform } from 'react-native';
+import { LocationData } from '@/hooks/useLocation';
+import { getMagneticDeclination } from '@/lib/magnetic-declination';
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+// A single DeviceOrientation reading (angles in degrees, timestamp in ms)
+export interface OrientationReading {
+  timestamp: number;
+  alpha: number;
+  beta: number;
+  gamma: number;
+  // True when alpha is referenced to magnetic north
+  absolute: boolean;
+  // iOS only: clockwise heading from magnetic north
+  compassHeading?: number | null;
+}
+
+// Gyroscope rotation rate from DeviceMotion (degrees per second)
+export interface RotationRateReading {
+  timestamp: number;
+  alpha: number;
+  beta: number;
+  gamma: number;
+}
+
+// Recorded sensor events, replayable through `replayOrientationTrace`
+export type OrientationTraceEvent =
+  | ({ type: 'orientation' } & OrientationReading)
+  | ({ type: 'motion' } & RotationRateReading)
+  | { type: 'screen'; timestamp: number; angle: number };
+
+export interface OrientationFilterOptions {
+  // Low-pass time constant (seconds) applied when no gyroscope is available
+  smoothingTimeConstant?: number;
+  // Complementary filter weight given to the integrated gyroscope (0-1)
+  gyroWeight?: number;
+}
+
+const DEFAULT_FILTER_OPTIONS: Required<OrientationFilterOptions> = {
+  smoothingTimeConstant: 0.12,
+  gyroWeight: 0.98,
+};
+
+// Gyro readings older than this no longer drive the complementary filter
+const GYRO_STALE_MS = 250;
+
+const WORLD_UP = new THREE.Vector3(0, 1, 0);
+const SCREEN_AXIS = new THREE.Vector3(0, 0, 1);
+
+// Rotates the device frame so the camera looks out of the back of the screen
+const CAMERA_FROM_DEVICE = new THREE.Quaternion(-Math.sqrt(0.5), 0, 0, Math.sqrt(0.5));
+
+/**
+ * Convert DeviceOrientation Euler angles (Z-X'-Y'' intrinsic, degrees) into a
+ * device quaternion in the engine's world frame (+X east, +Y up, -Z north).
+ */
+export function deviceOrientationToQuaternion(
+  alpha: number,
+  beta: number,
+  gamma: number,
+  out: THREE.Quaternion = new THREE.Quaternion()
+): THREE.Quaternion {
+  // The W3C frame maps onto Three.js axes by swapping Y/Z, which turns the
+  // spec's ZXY rotation order into YXZ with gamma negated
+  const euler = new THREE.Euler(beta * DEG_TO_RAD, alpha * DEG_TO_RAD, -gamma * DEG_TO_RAD, 'YXZ');
+  return out.setFromEuler(euler);
+}
+
+// Apply the back-camera offset and screen rotation to a device quaternion
+export function deviceToCameraQuaternion(
+  deviceQuaternion: THREE.Quaternion,
+  screenAngle: number,
+  out: THREE.Quaternion = new THREE.Quaternion()
+): THREE.Quaternion {
+  const screenQuaternion = new THREE.Quaternion().setFromAxisAngle(SCREEN_AXIS, -screenAngle * DEG_TO_RAD);
+  return out.copy(deviceQuaternion).multiply(CAMERA_FROM_DEVICE).multiply(screenQuaternion);
+}
+
+// Current screen rotation in degrees (0, 90, 180 or 270)
+export function getScreenOrientationAngle(): number {
+  if (typeof window === 'undefined') {
+    return 0;
+  }
+
+  const screenOrientation = (window.screen as any)?.orientation;
+  if (screenOrientation && typeof screenOrientation.angle === 'number') {
+    return screenOrientation.angle;
+  }
+
+  const legacyOrientation = (window as any).orientation;
+  return typeof legacyOrientation === 'number' ? legacyOrientation : 0;
+}
+
+// DeviceMotion `rotation` from expo-sensors (angles in radians, timestamp in seconds)
+export interface MotionRotation {
+  timestamp: number;
+  alpha: number;
+  beta: number;
+  gamma: number;
+}
+
+/**
+ * Convert an expo-sensors DeviceMotion rotation into a DeviceOrientation
+ * reading. Android reports DeviceOrientation angles against magnetic north;
+ * iOS reports CoreMotion yaw in a frame whose x axis points to magnetic north,
+ * a quarter turn from alpha 0 with the top of the device facing north.
+ */
+export function motionRotationToReading(rotation: MotionRotation, platform: string = Platform.OS): OrientationReading {
+  const yawOffset = platform === 'ios' ? 90 : 0;
+  return {
+    timestamp: rotation.timestamp * 1000,
+    alpha: (rotation.alpha * RAD_TO_DEG + yawOffset + 360) % 360,
+    beta: rotation.beta * RAD_TO_DEG,
+    gamma: rotation.gamma * RAD_TO_DEG,
+    absolute: true,
+  };
+}
+
+/**
+ * Fuses orientation and gyroscope readings into a stable camera quaternion.
+ *
+ * Absolute readings are corrected from magnetic to true north. When gyroscope
+ * data is flowing the filter integrates it and only leans on the (noisy)
+ * absolute orientation with a small complementary weight; otherwise it falls
+ * back to a time-constant low-pass filter.
+ */
+export class OrientationFilter {
+  private options: Required<OrientationFilterOptions>;
+  private deviceQuaternion = new THREE.Quaternion();
+  private measuredQuaternion = new THREE.Quaternion();
+  private isInitialized = false;
+  private lastOrientationTimestamp: number | null = null;
+  private lastMotionTimestamp: number | null = null;
+  private screenAngle = 0;
+  private declination = 0;
+  private hasAbsoluteHeading = false;
+
+  constructor(options: OrientationFilterOptions = {}) {
+    this.options = { ...DEFAULT_FILTER_OPTIONS, ...options };
+  }
+
+  // Magnetic declination (degrees, east positive) used for true north
+  public setDeclination(declination: number) {
+    this.declination = isFinite(declination) ? declination : 0;
+  }
+
+  public getDeclination(): number {
+    return this.declination;
+  }
+
+  public setLocation(latitude: number, longitude: number, altitude: number = 0) {
+    this.setDeclination(getMagneticDeclination(latitude, longitude, altitude));
+  }
+
+  public setScreenAngle(angle: number) {
+    this.screenAngle = angle;
+  }
+
+  public isHeadingAbsolute(): boolean {
+    return this.hasAbsoluteHeading;
+  }
+
+  public updateOrientation(reading: OrientationReading): THREE.Quaternion | null {
+    if (!isFinite(reading.alpha) || !isFinite(reading.beta) || !isFinite(reading.gamma)) {
+      return null;
+    }
+
+    // iOS reports a clockwise compass heading instead of an absolute alpha
+    const hasCompass = typeof reading.compassHeading === 'number' && isFinite(reading.compassHeading);
+    const alpha = hasCompass ? 360 - (reading.compassHeading as number) : reading.alpha;
+    const absolute = reading.absolute || hasCompass;
+
+    deviceOrientationToQuaternion(alpha, reading.beta, reading.gamma, this.measuredQuaternion);
+
+    if (absolute) {
+      // Alpha grows counter-clockwise, so true alpha = magnetic alpha - declination
+      const correction = new THREE.Quaternion().setFromAxisAngle(WORLD_UP, -this.declination * DEG_TO_RAD);
+      this.measuredQuaternion.premultiply(correction);
+    }
+    this.hasAbsoluteHeading = absolute;
+
+    if (!this.isInitialized) {
+      this.deviceQuaternion.copy(this.measuredQuaternion);
+      this.isInitialized = true;
+    } else if (this.isGyroActive(reading.timestamp)) {
+      this.deviceQuaternion.slerp(this.measuredQuaternion, 1 - this.options.gyroWeight);
+    } else {
+      const dt = this.lastOrientationTimestamp !== null
+        ? Math.min(Math.max((reading.timestamp - this.lastOrientationTimestamp) / 1000, 0), 1)
+        : 0;
+      const blend = this.options.smoothingTimeConstant > 0
+        ? 1 - Math.exp(-dt / this.options.smoothingTimeConstant)
+        : 1;
+      this.deviceQuaternion.slerp(this.measuredQuaternion, blend);
+    }
+
+    this.lastOrientationTimestamp = reading.timestamp;
+    return this.getCameraQuaternion();
+  }
+
+  public updateRotationRate(reading: RotationRateReading): THREE.Quaternion | null {
+    if (!isFinite(reading.alpha) || !isFinite(reading.beta) || !isFinite(reading.gamma)) {
+      return null;
+    }
+
+    const previous = this.lastMotionTimestamp;
+    this.lastMotionTimestamp = reading.timestamp;
+
+    if (!this.isInitialized || previous === null) {
+      return null;
+    }
+
+    const dt = (reading.timestamp - previous) / 1000;
+    if (dt <= 0 || dt > GYRO_STALE_MS / 1000) {
+      return null;
+    }
+
+    // Body rates expressed on the same swapped axes as the orientation Euler
+    const omega = new THREE.Vector3(reading.beta, reading.alpha, -reading.gamma).multiplyScalar(DEG_TO_RAD);
+    const angle = omega.length() * dt;
+    if (angle > 0) {
+      const delta = new THREE.Quaternion().setFromAxisAngle(omega.normalize(), angle);
+      this.deviceQuaternion.multiply(delta).normalize();
+    }
+
+    return this.getCameraQuaternion();
+  }
+
+  public getCameraQuaternion(out: THREE.Quaternion = new THREE.Quaternion()): THREE.Quaternion {
+    return deviceToCameraQuaternion(this.deviceQuaternion, this.screenAngle, out);
+  }
+
+  // Heading of the camera's view direction, clockwise from true north (0-360)
+  public getHeading(): number {
+    const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(this.getCameraQuaternion());
+    const heading = Math.atan2(forward.x, -forward.z) * RAD_TO_DEG;
+    return (heading + 360) % 360;
+  }
+
+  // Elevation of the camera's view direction above the horizon (degrees)
+  public getPitch(): number {
+    const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(this.getCameraQuaternion());
+    return Math.asin(Math.max(-1, Math.min(1, forward.y))) * RAD_TO_DEG;
+  }
+
+  public hasReading(): boolean {
+    return this.isInitialized;
+  }
+
+  public reset() {
+    this.deviceQuaternion.identity();
+    this.isInitialized = false;
+    this.lastOrientationTimestamp = null;
+    this.lastMotionTimestamp = null;
+    this.hasAbsoluteHeading = false;
+  }
+
+  private isGyroActive(timestamp: number): boolean {
+    return this.lastMotionTimestamp !== null && Math.abs(timestamp - this.lastMotionTimestamp) < GYRO_STALE_MS;
+  }
+}
+
+/**
+ * Run a recorded sensor trace through a fresh filter and return the camera
+ * quaternion after every orientation event
+ */
+export function replayOrientationTrace(
+  trace: OrientationTraceEvent[],
+  options: OrientationFilterOptions & { declination?: number } = {}
+): THREE.Quaternion[] {
+  const filter = new OrientationFilter(options);
+  if (typeof options.declination === 'number') {
+    filter.setDeclination(options.declination);
+  }
+
+  const results: THREE.Quaternion[] = [];
+  for (const event of trace) {
+    switch (event.type) {
+      case 'orientation': {
+        const quaternion = filter.updateOrientation(event);
+        if (quaternion) {
+          results.push(quaternion);
+        }
+        break;
+      }
+      case 'motion':
+        filter.updateRotationRate(event);
+        break;
+      case 'screen':
+        filter.setScreenAngle(event.angle);
+        break;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Subscribes to browser orientation, motion and screen rotation events and
+ * feeds them through an OrientationFilter
+ */
+export class DeviceOrientationTracker {
+  private filter: OrientationFilter;
+  private onChange: (quaternion: THREE.Quaternion, filter: OrientationFilter) => void;
+  private removeListeners: (() => void) | null = null;
+
+  constructor(
+    onChange: (quaternion: THREE.Quaternion, filter: OrientationFilter) => void,
+    options: OrientationFilterOptions = {}
+  ) {
+    this.filter = new OrientationFilter(options);
+    this.onChange = onChange;
+  }
+
+  // True where sensor events stay silent until the user grants access from a
+  // tap (iOS 13+ Safari)
+  public static needsPermission(): boolean {
+    if (Platform.OS !== 'web' || typeof window === 'undefined') {
+      return false;
+    }
+    return [(window as any).DeviceOrientationEvent, (window as any).DeviceMotionEvent].some(
+      (SensorEvent) => typeof SensorEvent?.requestPermission === 'function'
+    );
+  }
+
+  // Asks for orientation and motion access; iOS only grants it when called
+  // from a tap handler
+  public static async requestPermission(): Promise<boolean> {
+    if (Platform.OS !== 'web' || typeof window === 'undefined') {
+      return false;
+    }
+
+    // Both requests start before anything is awaited, so they belong to the
+    // same user gesture
+    const requests: Promise<string>[] = [(window as any).DeviceOrientationEvent, (window as any).DeviceMotionEvent]
+      .filter((SensorEvent) => typeof SensorEvent?.requestPermission === 'function')
+      .map((SensorEvent) => SensorEvent.requestPermission());
+
+    try {
+      const results = await Promise.all(requests);
+      return results.every((result) => result === 'granted');
+    } catch (error) {
+      console.warn('Device orientation permission request failed:', error);
+      return false;
+    }
+  }
+
+  public start(): boolean {
+    if (Platform.OS !== 'web' || typeof window === 'undefined') {
+      return false;
+    }
+
+    if (this.removeListeners) {
+      return true;
+    }
+
+    // Prefer the absolute (magnetic north) stream where the browser has one
+    const useAbsolute = 'ondeviceorientationabsolute' in window;
+    const orientationEvent = useAbsolute ? 'deviceorientationabsolute' : 'deviceorientation';
+
+    const handleOrientation = (event: DeviceOrientationEvent) => {
+      if (event.alpha === null || event.beta === null || event.gamma === null) {
+        return;
+      }
+
+      const quaternion = this.filter.updateOrientation({
+        timestamp: event.timeStamp,
+        alpha: event.alpha,
+        beta: event.beta,
+        gamma: event.gamma,
+        absolute: useAbsolute || event.absolute,
+        compassHeading: (event as any).webkitCompassHeading ?? null,
+      });
+
+      if (quaternion) {
+        this.onChange(quaternion, this.filter);
+      }
+    };
+
+    const handleMotion = (event: DeviceMotionEvent) => {
+      const rate = event.rotationRate;
+      if (!rate || rate.alpha === null || rate.beta === null || rate.gamma === null) {
+        return;
+      }
+
+      const quaternion = this.filter.updateRotationRate({
+        timestamp: event.timeStamp,
+        alpha: rate.alpha,
+        beta: rate.beta,
+        gamma: rate.gamma,
+      });
+
+      if (quaternion) {
+        this.onChange(quaternion, this.filter);
+      }
+    };
+
+    const handleScreenChange = () => {
+      this.filter.setScreenAngle(getScreenOrientationAngle());
+    };
+
+    this.filter.setScreenAngle(getScreenOrientationAngle());
+    window.addEventListener(orientationEvent, handleOrientation as EventListener);
+    window.addEventListener('devicemotion', handleMotion);
+    window.addEventListener('orientationchange', handleScreenChange);
+
+    this.removeListeners = () => {
+      window.removeEventListener(orientationEvent, handleOrientation as EventListener);
+      window.removeEventListener('devicemotion', handleMotion);
+      window.removeEventListener('orientationchange', handleScreenChange);
+    };
+
+    console.log(`🧭 Device orientation tracking started (${orientationEvent})`);
+    return true;
+  }
+
+  public stop() {
+    if (this.removeListeners) {
+      this.removeListeners();
+      this.removeListeners = null;
+      console.log('🧭 Device orientation tracking stopped');
+    }
+    this.filter.reset();
+  }
+
+  public setLocation(location: LocationData) {
+    this.filter.setLocation(location.latitude, location.longitude, location.altitude || 0);
+  }
+
+  public getFilter(): OrientationFilter {
+    return this.filter;
+  }
+}
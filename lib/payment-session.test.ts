@@ -0,0 +1,173 @@
+import {
+  PaymentSession,
+  PaymentSessionEvent,
+  PaymentSessionState,
+  applyPaymentSessionEvent,
+  canApplyEvent,
+  fromStoredPaymentSession,
+  isTerminalState,
+  toStoredPaymentSession,
+} from '@/lib/payment-session';
+
+function makeSession(overrides: Partial<PaymentSession> = {}): PaymentSession {
+  return {
+    id: 'ps_1',
+    agentId: 'agent-1',
+    agentName: 'Test Agent',
+    state: 'quote',
+    fee: 1,
+    currency: 'BDAG',
+    request: {
+      type: 'evm',
+      chainId: 7001,
+      recipient: '0x1111111111111111111111111111111111111111',
+      tokenAddress: '0x6533fe2Ebb66CcE28FDdBA9663Fe433A308137e9',
+      amount: 10n ** 18n + 123_456n,
+    },
+    uri: 'ethereum:0x6533fe2Ebb66CcE28FDdBA9663Fe433A308137e9@7001/transfer',
+    reference: '123456',
+    createdAt: 1000,
+    updatedAt: 1000,
+    expiresAt: 301_000,
+    ...overrides,
+  };
+}
+
+const DETECTED: PaymentSessionEvent = {
+  type: 'payment_detected',
+  txHash: '0xabc',
+  payer: '0x2222222222222222222222222222222222222222',
+  blockNumber: 101,
+  confirmations: 1,
+  requiredConfirmations: 3,
+};
+
+// Apply events in order from a fresh quote
+function run(...events: PaymentSessionEvent[]): PaymentSession {
+  return events.reduce((session, event, i) => applyPaymentSessionEvent(session, event, 2000 + i), makeSession());
+}
+
+describe('applyPaymentSessionEvent', () => {
+  it('walks a paid session from quote to settled', () => {
+    const states: PaymentSessionState[] = [];
+    let session = makeSession();
+    const events: PaymentSessionEvent[] = [
+      { type: 'accepted', expiresAt: 400_000 },
+      { type: 'watching', fromBlock: 100 },
+      DETECTED,
+      { ...DETECTED, confirmations: 2 },
+      { type: 'settled', confirmations: 3 },
+    ];
+    events.forEach((event) => {
+      session = applyPaymentSessionEvent(session, event, 5000);
+      states.push(session.state);
+    });
+
+    expect(states).toEqual(['awaiting', 'awaiting', 'detected', 'confirming', 'settled']);
+    expect(session).toMatchObject({
+      txHash: '0xabc',
+      payer: DETECTED.payer,
+      blockNumber: 101,
+      confirmations: 3,
+      fromBlock: 100,
+      expiresAt: 400_000,
+      updatedAt: 5000,
+      settledAt: 5000,
+    });
+
+    // A later refund does not move the settlement time
+    const refunded = applyPaymentSessionEvent(session, { type: 'refunded', refundTxHash: '0xfee' }, 9000);
+    expect(refunded).toMatchObject({ updatedAt: 9000, settledAt: 5000 });
+  });
+
+  it('keeps the first block searched', () => {
+    const session = run({ type: 'accepted', expiresAt: 400_000 }, { type: 'watching', fromBlock: 100 }, { type: 'watching', fromBlock: 150 });
+    expect(session.fromBlock).toBe(100);
+  });
+
+  it('starts over as detected when a different transaction turns up', () => {
+    const session = run({ type: 'accepted', expiresAt: 400_000 }, DETECTED, { ...DETECTED, txHash: '0xdef' });
+    expect(session.state).toBe('detected');
+    expect(session.txHash).toBe('0xdef');
+  });
+
+  it('forgets a dropped payment and waits again', () => {
+    const session = run({ type: 'accepted', expiresAt: 400_000 }, DETECTED, { type: 'payment_dropped' });
+    expect(session.state).toBe('awaiting');
+    expect(session.txHash).toBeUndefined();
+    expect(session.payer).toBeUndefined();
+    expect(session.confirmations).toBeUndefined();
+  });
+
+  it('detects a payment that turns up after the request expired', () => {
+    const session = run({ type: 'accepted', expiresAt: 400_000 }, { type: 'expired' }, DETECTED);
+    expect(session).toMatchObject({ state: 'detected', txHash: '0xabc' });
+  });
+
+  it('records failures and refunds', () => {
+    const failed = run({ type: 'failed', error: 'Payment cancelled' });
+    expect(failed).toMatchObject({ state: 'failed', error: 'Payment cancelled' });
+
+    const refunded = applyPaymentSessionEvent(failed, { type: 'refunded', refundTxHash: '0xfee' });
+    expect(refunded).toMatchObject({ state: 'refunded', refundTxHash: '0xfee' });
+  });
+
+  it('does not change the session it is given', () => {
+    const session = makeSession();
+    applyPaymentSessionEvent(session, { type: 'accepted', expiresAt: 400_000 });
+    expect(session.state).toBe('quote');
+  });
+
+  ([
+    ['quote', DETECTED],
+    ['quote', { type: 'settled', confirmations: 3 }],
+    ['awaiting', { type: 'accepted', expiresAt: 0 }],
+    ['awaiting', { type: 'refunded' }],
+    ['detected', { type: 'expired' }],
+    ['settled', { type: 'failed', error: 'late' }],
+    ['expired', { type: 'settled', confirmations: 3 }],
+    ['refunded', { type: 'refunded' }],
+  ] as [PaymentSessionState, PaymentSessionEvent][]).forEach(([state, event]) => {
+    it(`refuses ${event.type} when ${state}`, () => {
+      const session = makeSession({ state });
+      expect(canApplyEvent(session, event)).toBe(false);
+      expect(() => applyPaymentSessionEvent(session, event)).toThrow(`Cannot apply ${event.type} to a payment session that is ${state}`);
+    });
+  });
+});
+
+describe('isTerminalState', () => {
+  it('marks finished sessions', () => {
+    expect(['quote', 'awaiting', 'detected', 'confirming', 'settled', 'expired', 'failed', 'refunded'].filter(
+      (state) => isTerminalState(state as PaymentSessionState)
+    )).toEqual(['settled', 'expired', 'failed', 'refunded']);
+  });
+});
+
+describe('stored payment sessions', () => {
+  it('round-trips through JSON', () => {
+    const session = run({ type: 'accepted', expiresAt: 400_000 }, DETECTED);
+    const restored = fromStoredPaymentSession(JSON.parse(JSON.stringify(toStoredPaymentSession(session))));
+    expect(restored).toEqual(session);
+    expect(typeof restored.request.amount).toBe('bigint');
+  });
+
+  it('rejects values that are not sessions', () => {
+    const stored = toStoredPaymentSession(makeSession());
+    [
+      null,
+      'ps_1',
+      {},
+      { ...stored, state: 'paid' },
+      { ...stored, request: undefined },
+      { ...stored, request: { ...stored.request, type: 'bitcoin' } },
+      { ...stored, request: { ...stored.request, recipient: '0x1234' } },
+      { ...stored, request: { ...stored.request, chainId: '7001' } },
+      { ...stored, request: { ...stored.request, amount: '1.5' } },
+      { ...stored, request: { ...stored.request, amount: 100 } },
+      { ...stored, request: { type: 'algorand', recipient: 'NOTANADDRESS', amount: '1000000' } },
+    ].forEach((value) => {
+      expect(() => fromStoredPaymentSession(value)).toThrow('Invalid stored payment session');
+    });
+  });
+});
@@ -0,0 +1,185 @@
+// Payment session state machine: a quoted fee becomes a payment request the
+// user pays by scanning, which is then detected and confirmed on chain. Pure
+// functions only; PaymentSessionService drives them and persists the result.
+
+import { isAddress } from 'ethers';
+import { isValidAddress as isValidAlgorandAddress } from 'algosdk';
+import { AlgorandPaymentRequest, EvmPaymentRequest, PaymentRequest } from '@/lib/payment-uri';
+
+export type PaymentSessionState =
+  | 'quote'
+  | 'awaiting'
+  | 'detected'
+  | 'confirming'
+  | 'settled'
+  | 'expired'
+  | 'failed'
+  | 'refunded';
+
+export interface PaymentSession {
+  id: string;
+  agentId: string;
+  agentName: string;
+  state: PaymentSessionState;
+  // Fee in token units and the token it is paid in, for display
+  fee: number;
+  currency: string;
+  request: PaymentRequest;
+  uri: string;
+  // Amount tag that identifies this session's transfer, if any
+  reference: string | null;
+  // Address the payment must come from, when known
+  expectedPayer?: string;
+  createdAt: number;
+  updatedAt: number;
+  // When the payment was confirmed; later events (refunds) do not change it
+  settledAt?: number;
+  // Quotes and unpaid requests expire; detected payments do not. A payment
+  // that turns up after expiry is still detected
+  expiresAt: number;
+  // First block searched for the payment, so a resumed session searches the
+  // same range
+  fromBlock?: number;
+  txHash?: string;
+  payer?: string;
+  blockNumber?: number;
+  confirmations?: number;
+  requiredConfirmations?: number;
+  refundTxHash?: string;
+  error?: string;
+}
+
+export type PaymentSessionEvent =
+  | { type: 'accepted'; expiresAt: number }
+  | { type: 'watching'; fromBlock: number }
+  | {
+      type: 'payment_detected';
+      txHash: string;
+      payer: string;
+      blockNumber: number;
+      confirmations: number;
+      requiredConfirmations: number;
+    }
+  | { type: 'payment_dropped' }
+  | { type: 'settled'; confirmations: number }
+  | { type: 'expired' }
+  | { type: 'failed'; error: string }
+  | { type: 'refunded'; refundTxHash?: string };
+
+// States each event may be applied in
+const ALLOWED_FROM: Record<PaymentSessionEvent['type'], PaymentSessionState[]> = {
+  accepted: ['quote'],
+  watching: ['awaiting', 'detected', 'confirming'],
+  // A late payment for an expired request still counts
+  payment_detected: ['awaiting', 'detected', 'confirming', 'expired'],
+  payment_dropped: ['detected', 'confirming'],
+  settled: ['detected', 'confirming'],
+  expired: ['quote', 'awaiting'],
+  failed: ['quote', 'awaiting', 'detected', 'confirming'],
+  refunded: ['settled', 'failed'],
+};
+
+const TERMINAL_STATES: PaymentSessionState[] = ['settled', 'expired', 'failed', 'refunded'];
+const ALL_STATES: PaymentSessionState[] = ['quote', 'awaiting', 'detected', 'confirming', ...TERMINAL_STATES];
+
+export function isTerminalState(state: PaymentSessionState): boolean {
+  return TERMINAL_STATES.includes(state);
+}
+
+export function canApplyEvent(session: PaymentSession, event: PaymentSessionEvent): boolean {
+  return ALLOWED_FROM[event.type].includes(session.state);
+}
+
+/**
+ * The session after an event. Throws when the event is not valid in the
+ * session's current state.
+ */
+export function applyPaymentSessionEvent(
+  session: PaymentSession,
+  event: PaymentSessionEvent,
+  now: number = Date.now()
+): PaymentSession {
+  if (!canApplyEvent(session, event)) {
+    throw new Error(`Cannot apply ${event.type} to a payment session that is ${session.state}`);
+  }
+  const next: PaymentSession = { ...session, updatedAt: now };
+
+  switch (event.type) {
+    case 'accepted':
+      return { ...next, state: 'awaiting', expiresAt: event.expiresAt };
+    case 'watching':
+      return { ...next, fromBlock: next.fromBlock ?? event.fromBlock };
+    case 'payment_detected':
+      return {
+        ...next,
+        // The first sighting is "detected"; later confirmations are "confirming"
+        state:
+          session.state === 'awaiting' || session.state === 'expired' || session.txHash !== event.txHash
+            ? 'detected'
+            : 'confirming',
+        txHash: event.txHash,
+        payer: event.payer,
+        blockNumber: event.blockNumber,
+        confirmations: event.confirmations,
+        requiredConfirmations: event.requiredConfirmations,
+      };
+    case 'payment_dropped':
+      return {
+        ...next,
+        state: 'awaiting',
+        txHash: undefined,
+        payer: undefined,
+        blockNumber: undefined,
+        confirmations: undefined,
+      };
+    case 'settled':
+      return { ...next, state: 'settled', confirmations: event.confirmations, settledAt: now };
+    case 'expired':
+      return { ...next, state: 'expired' };
+    case 'failed':
+      return { ...next, state: 'failed', error: event.error };
+    case 'refunded':
+      return { ...next, state: 'refunded', refundTxHash: event.refundTxHash };
+  }
+}
+
+// Sessions are stored as JSON, which has no bigint
+type StoredPaymentRequest =
+  | (Omit<EvmPaymentRequest, 'amount'> & { amount: string })
+  | (Omit<AlgorandPaymentRequest, 'amount'> & { amount: string });
+
+export type StoredPaymentSession = Omit<PaymentSession, 'request'> & { request: StoredPaymentRequest };
+
+export function toStoredPaymentSession(session: PaymentSession): StoredPaymentSession {
+  return { ...session, request: { ...session.request, amount: session.request.amount.toString() } };
+}
+
+function isStoredPaymentRequest(request: unknown): request is StoredPaymentRequest {
+  if (!request || typeof request !== 'object') {
+    return false;
+  }
+  const { type, recipient, chainId, amount } = request as Record<string, unknown>;
+  if (typeof amount !== 'string' || !/^\d+$/.test(amount) || typeof recipient !== 'string') {
+    return false;
+  }
+  if (type === 'evm') {
+    return typeof chainId === 'number' && Number.isInteger(chainId) && chainId > 0 && isAddress(recipient);
+  }
+  return type === 'algorand' && isValidAlgorandAddress(recipient);
+}
+
+function isStoredPaymentSession(value: unknown): value is StoredPaymentSession {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const { id, state, request } = value as Record<string, unknown>;
+  return typeof id === 'string' && ALL_STATES.includes(state as PaymentSessionState) && isStoredPaymentRequest(request);
+}
+
+// Throws when the stored value is not a session
+export function fromStoredPaymentSession(stored: unknown): PaymentSession {
+  if (!isStoredPaymentSession(stored)) {
+    throw new Error('Invalid stored payment session');
+  }
+  return { ...stored, request: { ...stored.request, amount: BigInt(stored.request.amount) } };
+}
@@ -0,0 +1,350 @@
+// Payment request URIs that wallets understand: EIP-681 `ethereum:` links for
+// EVM chains (native coin or ERC-20 transfer) and ARC-26 `algorand://` links
+// for Algorand, with a parser for scanned requests
+
+import { getAddress, isAddress } from 'ethers';
+import { isValidAddress as isValidAlgorandAddress } from 'algosdk';
+import { DeployedObject } from '@/types/database';
+import {
+  TokenConfig,
+  findAlgorandAsset,
+  findEvmToken,
+  getDefaultAlgorandNetwork,
+  getEvmNetwork,
+  resolveEvmPaymentToken,
+} from '@/lib/networks';
+
+export interface EvmPaymentRequest {
+  type: 'evm';
+  chainId: number;
+  recipient: string;
+  // ERC-20 contract; absent when paying in the chain's native coin
+  tokenAddress?: string;
+  // In the token's smallest unit
+  amount: bigint;
+}
+
+export interface AlgorandPaymentRequest {
+  type: 'algorand';
+  recipient: string;
+  // In microAlgos, or the asset's smallest unit
+  amount: bigint;
+  // Algorand Standard Asset ID; absent when paying in Algos
+  assetId?: number;
+  label?: string;
+  // Note the payer's wallet may let them edit
+  note?: string;
+  // Note the payer's wallet must send unchanged
+  lockedNote?: string;
+}
+
+export type PaymentRequest = EvmPaymentRequest | AlgorandPaymentRequest;
+
+// Charged when an agent has no interaction fee configured (token units)
+const DEFAULT_INTERACTION_FEE = 1;
+
+// EIP-681 assumes Ethereum mainnet when the URI names no chain
+const DEFAULT_EVM_CHAIN_ID = 1;
+
+const EVM_SCHEME = 'ethereum:';
+const ALGORAND_SCHEME = 'algorand://';
+
+// Interaction fee in token units, as shown to the user and requested
+export function getAgentInteractionFee(agent: DeployedObject): number {
+  return agent.interaction_fee_usdfc || DEFAULT_INTERACTION_FEE;
+}
+
+export function isPaymentUri(text: string): boolean {
+  const lower = text.trim().toLowerCase();
+  return lower.startsWith(EVM_SCHEME) || lower.startsWith(ALGORAND_SCHEME);
+}
+
+/**
+ * Convert a decimal amount ("1.5", 0.25) to the token's smallest unit. Throws
+ * when the amount is negative or more precise than the token allows.
+ */
+export function toBaseUnits(amount: number | string, decimals: number): bigint {
+  let text = typeof amount === 'number' ? amount.toString() : amount.trim();
+  if (typeof amount === 'number' && /e/i.test(text)) {
+    text = amount.toFixed(decimals);
+  }
+
+  const match = text.match(/^(\d*)(?:\.(\d*))?$/);
+  if (!match || (match[1] === '' && !match[2])) {
+    throw new Error(`Invalid amount "${amount}"`);
+  }
+  const fraction = (match[2] ?? '').replace(/0+$/, '');
+  if (fraction.length > decimals) {
+    throw new Error(`Amount "${amount}" has more than ${decimals} decimal places`);
+  }
+  return BigInt((match[1] || '0') + fraction.padEnd(decimals, '0'));
+}
+
+// Decimal representation of an amount in the token's smallest unit
+export function fromBaseUnits(amount: bigint, decimals: number): string {
+  const negative = amount < 0n;
+  const digits = (negative ? -amount : amount).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+// EIP-681 numbers may use a fraction and exponent ("2.014e18") as long as
+// the value is a whole number
+function parseEip681Number(text: string): bigint {
+  const match = text.match(/^\+?(\d+)(?:\.(\d+))?(?:[eE](\d+))?$/);
+  if (!match) {
+    throw new Error(`Invalid number "${text}"`);
+  }
+  const fraction = match[2] ?? '';
+  const exponent = match[3] ? parseInt(match[3], 10) : 0;
+  if (fraction.replace(/0+$/, '').length > exponent) {
+    throw new Error(`"${text}" is not a whole number`);
+  }
+  return BigInt(match[1] + fraction.padEnd(exponent, '0'));
+}
+
+function parseInteger(text: string, name: string): bigint {
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`Invalid ${name} "${text}"`);
+  }
+  return BigInt(text);
+}
+
+function parseQuery(query: string): Map<string, string> {
+  const params = new Map<string, string>();
+  for (const part of query.split('&')) {
+    if (!part) continue;
+    const separator = part.indexOf('=');
+    const key = decodeURIComponent(separator === -1 ? part : part.slice(0, separator));
+    const value = separator === -1 ? '' : decodeURIComponent(part.slice(separator + 1).replace(/\+/g, ' '));
+    if (params.has(key)) {
+      throw new Error(`Duplicate parameter "${key}"`);
+    }
+    params.set(key, value);
+  }
+  return params;
+}
+
+function checksumEvmAddress(address: string, role: string): string {
+  if (!isAddress(address)) {
+    throw new Error(`Invalid ${role} address "${address}"`);
+  }
+  return getAddress(address);
+}
+
+function buildEvmUri(request: EvmPaymentRequest): string {
+  const recipient = checksumEvmAddress(request.recipient, 'recipient');
+  if (request.amount < 0n) {
+    throw new Error('Payment amount cannot be negative');
+  }
+
+  if (request.tokenAddress) {
+    const token = checksumEvmAddress(request.tokenAddress, 'token');
+    return `${EVM_SCHEME}${token}@${request.chainId}/transfer?address=${recipient}&uint256=${request.amount}`;
+  }
+  return `${EVM_SCHEME}${recipient}@${request.chainId}?value=${request.amount}`;
+}
+
+function parseEvmUri(uri: string): EvmPaymentRequest {
+  const match = uri.slice(EVM_SCHEME.length).match(/^(?:pay-)?([^@/?]+)(?:@(\d+))?(?:\/([^?]+))?(?:\?(.*))?$/);
+  if (!match) {
+    throw new Error('Malformed EIP-681 URI');
+  }
+  const [, target, chain, functionName, query = ''] = match;
+  const chainId = chain ? parseInt(chain, 10) : DEFAULT_EVM_CHAIN_ID;
+  const params = parseQuery(query);
+
+  if (!functionName) {
+    const value = params.get('value');
+    return {
+      type: 'evm',
+      chainId,
+      recipient: checksumEvmAddress(target, 'recipient'),
+      amount: value !== undefined ? parseEip681Number(value) : 0n,
+    };
+  }
+
+  if (functionName !== 'transfer') {
+    throw new Error(`Unsupported contract function "${functionName}"`);
+  }
+  const recipient = params.get('address');
+  const amount = params.get('uint256');
+  if (!recipient || !amount) {
+    throw new Error('Token transfer needs an address and a uint256 amount');
+  }
+  return {
+    type: 'evm',
+    chainId,
+    recipient: checksumEvmAddress(recipient, 'recipient'),
+    tokenAddress: checksumEvmAddress(target, 'token'),
+    amount: parseEip681Number(amount),
+  };
+}
+
+function buildAlgorandUri(request: AlgorandPaymentRequest): string {
+  if (!isValidAlgorandAddress(request.recipient)) {
+    throw new Error(`Invalid Algorand address "${request.recipient}"`);
+  }
+  if (request.amount < 0n) {
+    throw new Error('Payment amount cannot be negative');
+  }
+  if (request.note !== undefined && request.lockedNote !== undefined) {
+    throw new Error('A payment request has either an editable or a locked note, not both');
+  }
+
+  const params = [`amount=${request.amount}`];
+  if (request.assetId !== undefined) params.push(`asset=${request.assetId}`);
+  if (request.label !== undefined) params.push(`label=${encodeURIComponent(request.label)}`);
+  if (request.note !== undefined) params.push(`note=${encodeURIComponent(request.note)}`);
+  if (request.lockedNote !== undefined) params.push(`xnote=${encodeURIComponent(request.lockedNote)}`);
+  return `${ALGORAND_SCHEME}${request.recipient}?${params.join('&')}`;
+}
+
+function parseAlgorandUri(uri: string): AlgorandPaymentRequest {
+  const match = uri.slice(ALGORAND_SCHEME.length).match(/^([A-Z2-7]+)\/?(?:\?(.*))?$/);
+  if (!match || !isValidAlgorandAddress(match[1])) {
+    throw new Error('Invalid Algorand address in ARC-26 URI');
+  }
+  const params = parseQuery(match[2] ?? '');
+  if (params.has('note') && params.has('xnote')) {
+    throw new Error('ARC-26 URI has both note and xnote');
+  }
+
+  const amount = params.get('amount');
+  const asset = params.get('asset');
+  const request: AlgorandPaymentRequest = {
+    type: 'algorand',
+    recipient: match[1],
+    amount: amount !== undefined ? parseInteger(amount, 'amount') : 0n,
+  };
+  if (asset !== undefined) {
+    const assetId = parseInteger(asset, 'asset ID');
+    if (assetId > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new Error(`Asset ID ${assetId} is out of range`);
+    }
+    request.assetId = Number(assetId);
+  }
+  if (params.has('label')) request.label = params.get('label');
+  if (params.has('note')) request.note = params.get('note');
+  if (params.has('xnote')) request.lockedNote = params.get('xnote');
+  return request;
+}
+
+export function buildPaymentUri(request: PaymentRequest): string {
+  return request.type === 'evm' ? buildEvmUri(request) : buildAlgorandUri(request);
+}
+
+/**
+ * Parse and validate a scanned payment request. Throws with a readable
+ * message when the URI is not a valid EIP-681 or ARC-26 request.
+ */
+export function parsePaymentUri(uri: string): PaymentRequest {
+  const trimmed = uri.trim();
+  const lower = trimmed.toLowerCase();
+  if (lower.startsWith(EVM_SCHEME)) {
+    return parseEvmUri(trimmed);
+  }
+  if (lower.startsWith(ALGORAND_SCHEME)) {
+    return parseAlgorandUri(trimmed);
+  }
+  throw new Error('Not an ethereum: or algorand:// payment request');
+}
+
+// The registry's token (or native coin) a request is paid in; null when the
+// chain or token is unknown
+export function getPaymentToken(request: PaymentRequest): TokenConfig | null {
+  if (request.type === 'algorand') {
+    return request.assetId === undefined
+      ? getDefaultAlgorandNetwork().nativeCurrency
+      : findAlgorandAsset(request.assetId) ?? null;
+  }
+  if (!request.tokenAddress) {
+    return getEvmNetwork(request.chainId)?.nativeCurrency ?? null;
+  }
+  return findEvmToken(request.chainId, request.tokenAddress) ?? null;
+}
+
+// Decimal places of the request's token. Throws for unknown tokens, whose
+// amounts cannot be read.
+export function getPaymentDecimals(request: PaymentRequest): number {
+  const token = getPaymentToken(request);
+  if (!token) {
+    throw new Error(`Unknown payment token ${request.type === 'algorand' ? `ASA ${request.assetId}` : request.tokenAddress}`);
+  }
+  return token.decimals;
+}
+
+// Name of the token a request is paid in, for display
+export function getPaymentCurrency(request: PaymentRequest): string {
+  const token = getPaymentToken(request);
+  if (token) {
+    return token.symbol;
+  }
+  if (request.type === 'algorand') {
+    return `ASA ${request.assetId}`;
+  }
+  return request.tokenAddress ? 'tokens' : 'native coin';
+}
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+// One-line summary of a request, for confirmation prompts
+export function describePaymentRequest(request: PaymentRequest): string {
+  const recipient = shortenAddress(request.recipient);
+  const token = getPaymentToken(request);
+
+  if (request.type === 'algorand') {
+    const amount = token
+      ? `${fromBaseUnits(request.amount, token.decimals)} ${token.symbol}`
+      : `${request.amount} base units of asset ${request.assetId}`;
+    return `${amount} to ${recipient} on Algorand`;
+  }
+
+  let amount: string;
+  if (token) {
+    amount = `${fromBaseUnits(request.amount, token.decimals)} ${token.symbol}`;
+  } else if (!request.tokenAddress) {
+    amount = `${fromBaseUnits(request.amount, 18)} (native coin)`;
+  } else {
+    amount = `${request.amount} base units of token ${shortenAddress(request.tokenAddress)}`;
+  }
+  const network = getEvmNetwork(request.chainId);
+  return `${amount} to ${recipient} on ${network ? network.name : `chain ${request.chainId}`}`;
+}
+
+/**
+ * The request for an agent's interaction fee: Algorand agents are paid in
+ * Algos (or the ASA named by `payment_token`), everyone else on the default
+ * EVM network in its payment token (USDFC), or in the token `payment_token`
+ * names by address or symbol on whichever network lists it. `decimals`
+ * overrides the token's decimal places. Throws when the agent has no wallet
+ * to pay, or names a token the registry does not list.
+ */
+export function createAgentPaymentRequest(
+  agent: DeployedObject,
+  options: { decimals?: number; note?: string } = {}
+): PaymentRequest {
+  const recipient = agent.payment_address || agent.agent_wallet_address;
+  if (!recipient) {
+    throw new Error(`Agent ${agent.name || agent.id} has no payment address`);
+  }
+  const fee = getAgentInteractionFee(agent);
+
+  if (agent.agent_wallet_type === 'algorand' || isValidAlgorandAddress(recipient)) {
+    const assetId = agent.payment_token && /^\d+$/.test(agent.payment_token) ? Number(agent.payment_token) : undefined;
+    const request: AlgorandPaymentRequest = { type: 'algorand', recipient, amount: 0n, assetId, label: agent.name, note: options.note };
+    return { ...request, amount: toBaseUnits(fee, options.decimals ?? getPaymentDecimals(request)) };
+  }
+
+  const { network, token } = resolveEvmPaymentToken(agent.payment_token);
+  const request: EvmPaymentRequest = {
+    type: 'evm',
+    chainId: network.chainId,
+    recipient,
+    // Absent for the native coin
+    tokenAddress: token.address,
+    amount: 0n,
+  };
+  return { ...request, amount: toBaseUnits(fee, options.decimals ?? getPaymentDecimals(request)) };
+}
@@ -0,0 +1,144 @@
+// Conversion of camera frames and images to black/white modules, with a
+// locally adaptive threshold so uneven lighting across the code still reads
+
+export interface QRImageData {
+  // RGBA pixels, row by row, as in the web ImageData
+  data: Uint8ClampedArray | Uint8Array;
+  width: number;
+  height: number;
+}
+
+export class BitMatrix {
+  readonly width: number;
+  readonly height: number;
+  private bits: Uint8Array;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.bits = new Uint8Array(width * height);
+  }
+
+  // Out-of-bounds reads count as white, like the quiet zone
+  get(x: number, y: number): boolean {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) {
+      return false;
+    }
+    return this.bits[y * this.width + x] === 1;
+  }
+
+  set(x: number, y: number, value: boolean) {
+    this.bits[y * this.width + x] = value ? 1 : 0;
+  }
+
+  inverted(): BitMatrix {
+    const result = new BitMatrix(this.width, this.height);
+    for (let i = 0; i < this.bits.length; i++) {
+      result.bits[i] = this.bits[i] ^ 1;
+    }
+    return result;
+  }
+}
+
+// Threshold blocks are BLOCK_SIZE pixels square; each is compared against the
+// average of the 5x5 blocks around it
+const BLOCK_SIZE = 8;
+
+// Blocks with less contrast than this are assumed to be all background
+const MIN_DYNAMIC_RANGE = 24;
+
+export function toLuminance(image: QRImageData): Uint8Array {
+  const { data, width, height } = image;
+  const luminance = new Uint8Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    luminance[i] = (r * 77 + g * 150 + b * 29) >> 8;
+  }
+  return luminance;
+}
+
+export function binarize(luminance: Uint8Array, width: number, height: number): BitMatrix {
+  const matrix = new BitMatrix(width, height);
+
+  // Too small for blocks; fall back to a single global threshold
+  if (width < BLOCK_SIZE * 5 || height < BLOCK_SIZE * 5) {
+    let sum = 0;
+    for (let i = 0; i < luminance.length; i++) {
+      sum += luminance[i];
+    }
+    const threshold = sum / luminance.length;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        matrix.set(x, y, luminance[y * width + x] < threshold);
+      }
+    }
+    return matrix;
+  }
+
+  const blocksX = Math.ceil(width / BLOCK_SIZE);
+  const blocksY = Math.ceil(height / BLOCK_SIZE);
+  const blackPoints = new Float32Array(blocksX * blocksY);
+
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      // Edge blocks are shifted inwards so they are always full size
+      const left = Math.min(bx * BLOCK_SIZE, width - BLOCK_SIZE);
+      const top = Math.min(by * BLOCK_SIZE, height - BLOCK_SIZE);
+      let sum = 0;
+      let min = 255;
+      let max = 0;
+      for (let y = top; y < top + BLOCK_SIZE; y++) {
+        for (let x = left; x < left + BLOCK_SIZE; x++) {
+          const value = luminance[y * width + x];
+          sum += value;
+          min = Math.min(min, value);
+          max = Math.max(max, value);
+        }
+      }
+
+      let average = sum / (BLOCK_SIZE * BLOCK_SIZE);
+      if (max - min <= MIN_DYNAMIC_RANGE) {
+        // Flat block: assume background, unless the neighbours already found
+        // a darker black point, in which case it is inside a dark region
+        average = min / 2;
+        if (bx > 0 && by > 0) {
+          const neighbours = (
+            blackPoints[(by - 1) * blocksX + bx] +
+            2 * blackPoints[by * blocksX + bx - 1] +
+            blackPoints[(by - 1) * blocksX + bx - 1]
+          ) / 4;
+          if (min < neighbours) {
+            average = neighbours;
+          }
+        }
+      }
+      blackPoints[by * blocksX + bx] = average;
+    }
+  }
+
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      const centreX = Math.max(2, Math.min(bx, blocksX - 3));
+      const centreY = Math.max(2, Math.min(by, blocksY - 3));
+      let sum = 0;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          sum += blackPoints[(centreY + dy) * blocksX + centreX + dx];
+        }
+      }
+      const threshold = sum / 25;
+
+      const left = Math.min(bx * BLOCK_SIZE, width - BLOCK_SIZE);
+      const top = Math.min(by * BLOCK_SIZE, height - BLOCK_SIZE);
+      for (let y = top; y < top + BLOCK_SIZE; y++) {
+        for (let x = left; x < left + BLOCK_SIZE; x++) {
+          matrix.set(x, y, luminance[y * width + x] <= threshold);
+        }
+      }
+    }
+  }
+
+  return matrix;
+}
@@ -0,0 +1,331 @@
+// Reading a sampled module grid: format and version information, unmasking,
+// codeword de-interleaving with Reed-Solomon correction, and the segment
+// bit stream
+
+import { BitMatrix } from './binarizer';
+import { correctErrors } from './reed-solomon';
+import {
+  ALPHANUMERIC_CHARSET,
+  ErrorCorrectionLevel,
+  QRMode,
+  decodeFormatBits,
+  decodeVersionBits,
+  getBlockLayout,
+  getCharacterCountBits,
+  getCodewordPositions,
+  getFormatBitPositions,
+  getVersionBitPositions,
+  isMasked,
+} from './version';
+
+export interface QRSegment {
+  mode: QRMode;
+  text: string;
+}
+
+export interface DecodedSymbol {
+  text: string;
+  // Raw bytes of the byte mode segments, for binary payloads
+  bytes: number[];
+  segments: QRSegment[];
+  version: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  mask: number;
+  // Codewords repaired by error correction
+  correctedErrors: number;
+}
+
+/**
+ * Thrown when the version information in the grid says it was sampled at the
+ * wrong size, so the caller can resample
+ */
+export class VersionMismatchError extends Error {
+  constructor(readonly version: number) {
+    super(`Symbol is version ${version}`);
+    this.name = 'VersionMismatchError';
+  }
+}
+
+class BitReader {
+  private offset = 0;
+
+  constructor(private bytes: number[]) {}
+
+  available(): number {
+    return this.bytes.length * 8 - this.offset;
+  }
+
+  read(count: number): number {
+    if (count > this.available()) {
+      throw new Error('Unexpected end of QR data');
+    }
+    let result = 0;
+    for (let i = 0; i < count; i++) {
+      const byte = this.bytes[this.offset >> 3];
+      result = (result << 1) | ((byte >> (7 - (this.offset & 7))) & 1);
+      this.offset++;
+    }
+    return result;
+  }
+}
+
+// ECI designators for the character sets a byte segment may declare
+const ECI_CHARSETS: Record<number, string> = {
+  1: 'iso-8859-1',
+  3: 'iso-8859-1',
+  20: 'shift_jis',
+  26: 'utf-8',
+};
+
+function decodeLatin1(bytes: number[]): string {
+  return String.fromCharCode(...bytes);
+}
+
+// Strict UTF-8: null on malformed input so the caller can fall back
+function decodeUtf8(bytes: number[]): string | null {
+  let result = '';
+  for (let i = 0; i < bytes.length;) {
+    const byte = bytes[i];
+    let codePoint: number;
+    let extra: number;
+    if (byte < 0x80) {
+      codePoint = byte;
+      extra = 0;
+    } else if (byte >= 0xc2 && byte < 0xe0) {
+      codePoint = byte & 0x1f;
+      extra = 1;
+    } else if (byte >= 0xe0 && byte < 0xf0) {
+      codePoint = byte & 0x0f;
+      extra = 2;
+    } else if (byte >= 0xf0 && byte < 0xf5) {
+      codePoint = byte & 0x07;
+      extra = 3;
+    } else {
+      return null;
+    }
+    if (i + extra >= bytes.length) {
+      return null;
+    }
+    for (let j = 1; j <= extra; j++) {
+      const next = bytes[i + j];
+      if ((next & 0xc0) !== 0x80) {
+        return null;
+      }
+      codePoint = (codePoint << 6) | (next & 0x3f);
+    }
+    if (codePoint > 0x10ffff) {
+      return null;
+    }
+    result += String.fromCodePoint(codePoint);
+    i += extra + 1;
+  }
+  return result;
+}
+
+// Shift JIS needs the platform's TextDecoder; without one the characters are
+// replaced rather than guessed
+function decodeShiftJis(bytes: number[]): string {
+  try {
+    if (typeof TextDecoder !== 'undefined') {
+      return new TextDecoder('shift_jis').decode(new Uint8Array(bytes));
+    }
+  } catch (error) {
+    console.warn('Shift JIS decoding is not available:', error);
+  }
+  return '�'.repeat(Math.ceil(bytes.length / 2));
+}
+
+function decodeBytes(bytes: number[], charset: string | null): string {
+  if (charset === 'shift_jis') {
+    return decodeShiftJis(bytes);
+  }
+  if (charset === 'iso-8859-1') {
+    return decodeLatin1(bytes);
+  }
+  // UTF-8 is what nearly every generator writes; invalid sequences mean the
+  // spec default, ISO-8859-1
+  return decodeUtf8(bytes) ?? decodeLatin1(bytes);
+}
+
+function readSegments(data: number[], version: number): { segments: QRSegment[]; bytes: number[] } {
+  const reader = new BitReader(data);
+  const segments: QRSegment[] = [];
+  const allBytes: number[] = [];
+  let charset: string | null = null;
+
+  while (reader.available() >= 4) {
+    const mode = reader.read(4);
+    if (mode === 0x0) {
+      break;
+    }
+
+    switch (mode) {
+      case 0x7: {
+        // ECI designator: 1, 2 or 3 bytes depending on the leading bits
+        const first = reader.read(8);
+        let designator: number;
+        if ((first & 0x80) === 0) {
+          designator = first & 0x7f;
+        } else if ((first & 0xc0) === 0x80) {
+          designator = ((first & 0x3f) << 8) | reader.read(8);
+        } else if ((first & 0xe0) === 0xc0) {
+          designator = ((first & 0x1f) << 16) | reader.read(16);
+        } else {
+          throw new Error('Invalid ECI designator');
+        }
+        charset = ECI_CHARSETS[designator] ?? null;
+        break;
+      }
+      case 0x3:
+        // Structured append header: sequence and parity, not needed here
+        reader.read(16);
+        break;
+      case 0x5:
+        break;
+      case 0x9:
+        reader.read(8);
+        break;
+      case 0x1: {
+        let count = reader.read(getCharacterCountBits('numeric', version));
+        let text = '';
+        while (count >= 3) {
+          const value = reader.read(10);
+          if (value >= 1000) throw new Error('Invalid numeric value');
+          text += value.toString().padStart(3, '0');
+          count -= 3;
+        }
+        if (count === 2) {
+          const value = reader.read(7);
+          if (value >= 100) throw new Error('Invalid numeric value');
+          text += value.toString().padStart(2, '0');
+        } else if (count === 1) {
+          const value = reader.read(4);
+          if (value >= 10) throw new Error('Invalid numeric value');
+          text += value.toString();
+        }
+        segments.push({ mode: 'numeric', text });
+        break;
+      }
+      case 0x2: {
+        let count = reader.read(getCharacterCountBits('alphanumeric', version));
+        let text = '';
+        while (count >= 2) {
+          const value = reader.read(11);
+          if (value >= 45 * 45) throw new Error('Invalid alphanumeric value');
+          text += ALPHANUMERIC_CHARSET[Math.floor(value / 45)] + ALPHANUMERIC_CHARSET[value % 45];
+          count -= 2;
+        }
+        if (count === 1) {
+          const value = reader.read(6);
+          if (value >= 45) throw new Error('Invalid alphanumeric value');
+          text += ALPHANUMERIC_CHARSET[value];
+        }
+        segments.push({ mode: 'alphanumeric', text });
+        break;
+      }
+      case 0x4: {
+        const count = reader.read(getCharacterCountBits('byte', version));
+        const bytes: number[] = [];
+        for (let i = 0; i < count; i++) {
+          bytes.push(reader.read(8));
+        }
+        allBytes.push(...bytes);
+        segments.push({ mode: 'byte', text: decodeBytes(bytes, charset) });
+        break;
+      }
+      case 0x8: {
+        const count = reader.read(getCharacterCountBits('kanji', version));
+        const bytes: number[] = [];
+        for (let i = 0; i < count; i++) {
+          const value = reader.read(13);
+          let code = (Math.floor(value / 0xc0) << 8) | (value % 0xc0);
+          code += code < 0x1f00 ? 0x8140 : 0xc140;
+          bytes.push(code >> 8, code & 0xff);
+        }
+        segments.push({ mode: 'kanji', text: decodeShiftJis(bytes) });
+        break;
+      }
+      default:
+        throw new Error(`Unsupported QR mode ${mode}`);
+    }
+  }
+
+  return { segments, bytes: allBytes };
+}
+
+/**
+ * Decode a module grid (get(column, row) is dark) sampled at the symbol's
+ * size. Throws VersionMismatchError when the grid size disagrees with the
+ * version information, and Error when the symbol cannot be read.
+ */
+export function decodeGrid(grid: BitMatrix): DecodedSymbol {
+  const dimension = grid.width;
+  let version = (dimension - 17) / 4;
+  if (!Number.isInteger(version) || version < 1 || version > 40) {
+    throw new Error(`Invalid symbol size ${dimension}`);
+  }
+
+  const readBits = (positions: [number, number][]) =>
+    positions.reduce((bits, [row, column]) => (bits << 1) | (grid.get(column, row) ? 1 : 0), 0);
+
+  if (version >= 7) {
+    const { bottomLeft, topRight } = getVersionBitPositions(version);
+    const decoded = decodeVersionBits(readBits(bottomLeft), readBits(topRight));
+    if (decoded !== null && decoded !== version) {
+      throw new VersionMismatchError(decoded);
+    }
+    version = decoded ?? version;
+  }
+
+  const { primary, secondary } = getFormatBitPositions(version);
+  const format = decodeFormatBits(readBits(primary), readBits(secondary));
+  if (!format) {
+    throw new Error('Unreadable format information');
+  }
+
+  // Unmasked codewords in placement order
+  const layout = getBlockLayout(version, format.level);
+  const codewords = new Array<number>(layout.totalCodewords).fill(0);
+  const positions = getCodewordPositions(version);
+  for (let i = 0; i < layout.totalCodewords * 8; i++) {
+    const [row, column] = positions[i];
+    const dark = grid.get(column, row) !== isMasked(format.mask, row, column);
+    if (dark) {
+      codewords[i >> 3] |= 0x80 >> (i & 7);
+    }
+  }
+
+  // De-interleave: data codewords round-robin across blocks (the longer
+  // blocks take one extra at the end), then the error correction codewords
+  const blocks = layout.blockDataLengths.map(() => [] as number[]);
+  const longest = Math.max(...layout.blockDataLengths);
+  let index = 0;
+  for (let i = 0; i < longest; i++) {
+    layout.blockDataLengths.forEach((length, block) => {
+      if (i < length) {
+        blocks[block].push(codewords[index++]);
+      }
+    });
+  }
+  for (let i = 0; i < layout.ecCodewordsPerBlock; i++) {
+    blocks.forEach((block) => block.push(codewords[index++]));
+  }
+
+  let correctedErrors = 0;
+  const data: number[] = [];
+  blocks.forEach((block, i) => {
+    correctedErrors += correctErrors(block, layout.ecCodewordsPerBlock);
+    data.push(...block.slice(0, layout.blockDataLengths[i]));
+  });
+
+  const { segments, bytes } = readSegments(data, version);
+  return {
+    text: segments.map((segment) => segment.text).join(''),
+    bytes,
+    segments,
+    version,
+    errorCorrectionLevel: format.level,
+    mask: format.mask,
+    correctedErrors,
+  };
+}
@@ -0,0 +1,725 @@
+// Locating a QR code in a binarized image: finder pattern search, module
+// size and dimension estimates, the bottom-right alignment pattern, and the
+// perspective transform used to sample the module grid
+
+import { BitMatrix } from './binarizer';
+import { decodeVersionBits, getFunctionPatterns, getSymbolSize } from './version';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface FinderPattern extends Point {
+  moduleSize: number;
+  // How many scan rows confirmed the pattern
+  count: number;
+}
+
+export interface QRLocation {
+  topLeft: FinderPattern;
+  topRight: FinderPattern;
+  bottomLeft: FinderPattern;
+  // Estimated modules per side (version * 4 + 17)
+  dimension: number;
+  moduleSize: number;
+}
+
+/**
+ * A fourth point tying the grid to the image: where `module` (in module
+ * coordinates) appears in the image
+ */
+export interface GridAnchor {
+  image: Point;
+  module: Point;
+}
+
+// Finder candidate triples tried per image, best first
+const MAX_LOCATIONS = 3;
+
+// Candidates kept when searching for the best triple (the search is cubic)
+const MAX_TRIPLE_CANDIDATES = 12;
+
+// Finder candidates confirmed by fewer than 1/MIN_RELATIVE_COUNT as many scan
+// rows as the best one are weak; see selectFinderTriples
+const MIN_RELATIVE_COUNT = 3;
+
+// Widest symbol, version 40
+const MAX_DIMENSION = 177;
+
+// Alignment pattern candidates tried per location, nearest to the estimate
+// first
+const MAX_ALIGNMENT_CANDIDATES = 3;
+
+// Offsets (in modules) tried around the estimated fourth point when no
+// alignment pattern confirms it, to absorb perspective the three finder
+// patterns cannot reveal
+const ANCHOR_OFFSETS = [0, -0.75, 0.75, -1.5, 1.5];
+
+// ---------------------------------------------------------------------------
+// Finder patterns: 1:1:3:1:1 dark/light runs through the centre both ways
+// ---------------------------------------------------------------------------
+
+function isFinderRatio(counts: number[]): boolean {
+  const total = counts[0] + counts[1] + counts[2] + counts[3] + counts[4];
+  if (total < 7) {
+    return false;
+  }
+  const moduleSize = total / 7;
+  const maxVariance = moduleSize / 2;
+  return (
+    Math.abs(moduleSize - counts[0]) < maxVariance &&
+    Math.abs(moduleSize - counts[1]) < maxVariance &&
+    Math.abs(3 * moduleSize - counts[2]) < 3 * maxVariance &&
+    Math.abs(moduleSize - counts[3]) < maxVariance &&
+    Math.abs(moduleSize - counts[4]) < maxVariance
+  );
+}
+
+function centreFromEnd(counts: number[], end: number): number {
+  return end - counts[4] - counts[3] - counts[2] / 2;
+}
+
+// Runs along one axis through (x, y); `vertical` swaps the scan direction.
+// Returns the refined centre coordinate and the run total, or null. The total
+// may differ from the original scan's by up to 2x, as it does for a finder
+// pattern seen at an angle.
+function crossCheck(
+  matrix: BitMatrix,
+  x: number,
+  y: number,
+  vertical: boolean,
+  maxCount: number,
+  originalTotal: number
+): { centre: number; total: number } | null {
+  const get = (offset: number) => (vertical ? matrix.get(x, offset) : matrix.get(offset, y));
+  const limit = vertical ? matrix.height : matrix.width;
+  const start = vertical ? y : x;
+  const counts = [0, 0, 0, 0, 0];
+
+  let i = start;
+  while (i >= 0 && get(i)) {
+    counts[2]++;
+    i--;
+  }
+  if (i < 0) return null;
+  while (i >= 0 && !get(i) && counts[1] <= maxCount) {
+    counts[1]++;
+    i--;
+  }
+  if (i < 0 || counts[1] > maxCount) return null;
+  while (i >= 0 && get(i) && counts[0] <= maxCount) {
+    counts[0]++;
+    i--;
+  }
+  if (counts[0] > maxCount) return null;
+
+  i = start + 1;
+  while (i < limit && get(i)) {
+    counts[2]++;
+    i++;
+  }
+  if (i === limit) return null;
+  while (i < limit && !get(i) && counts[3] < maxCount) {
+    counts[3]++;
+    i++;
+  }
+  if (i === limit || counts[3] >= maxCount) return null;
+  while (i < limit && get(i) && counts[4] < maxCount) {
+    counts[4]++;
+    i++;
+  }
+  if (counts[4] >= maxCount) return null;
+
+  const total = counts[0] + counts[1] + counts[2] + counts[3] + counts[4];
+  if (Math.abs(total - originalTotal) >= originalTotal || !isFinderRatio(counts)) {
+    return null;
+  }
+  return { centre: centreFromEnd(counts, i), total };
+}
+
+function findFinderPatterns(matrix: BitMatrix): FinderPattern[] {
+  const candidates: FinderPattern[] = [];
+
+  const handleCandidate = (counts: number[], row: number, end: number) => {
+    const total = counts[0] + counts[1] + counts[2] + counts[3] + counts[4];
+    const columnEstimate = centreFromEnd(counts, end);
+
+    const vertical = crossCheck(matrix, Math.floor(columnEstimate), row, true, counts[2], total);
+    if (!vertical) return;
+    const horizontal = crossCheck(matrix, Math.floor(columnEstimate), Math.floor(vertical.centre), false, counts[2], total);
+    if (!horizontal) return;
+
+    const x = horizontal.centre;
+    const y = vertical.centre;
+    const moduleSize = (horizontal.total + vertical.total) / 14;
+
+    const existing = candidates.find((candidate) =>
+      Math.abs(candidate.x - x) <= moduleSize &&
+      Math.abs(candidate.y - y) <= moduleSize &&
+      Math.abs(candidate.moduleSize - moduleSize) <= Math.max(1, candidate.moduleSize)
+    );
+    if (existing) {
+      const count = existing.count + 1;
+      existing.x = (existing.x * existing.count + x) / count;
+      existing.y = (existing.y * existing.count + y) / count;
+      existing.moduleSize = (existing.moduleSize * existing.count + moduleSize) / count;
+      existing.count = count;
+    } else {
+      candidates.push({ x, y, moduleSize, count: 1 });
+    }
+  };
+
+  for (let y = 0; y < matrix.height; y++) {
+    const counts = [0, 0, 0, 0, 0];
+    let state = 0;
+
+    for (let x = 0; x < matrix.width; x++) {
+      if (matrix.get(x, y)) {
+        if (state & 1) {
+          state++;
+        }
+        counts[state]++;
+      } else if (state & 1) {
+        counts[state]++;
+      } else if (state === 4) {
+        if (isFinderRatio(counts)) {
+          handleCandidate(counts, y, x);
+        }
+        // Keep the last black/white/black as the start of the next match
+        counts[0] = counts[2];
+        counts[1] = counts[3];
+        counts[2] = counts[4];
+        counts[3] = 1;
+        counts[4] = 0;
+        state = 3;
+      } else {
+        state++;
+        counts[state]++;
+      }
+    }
+
+    if (state === 4 && isFinderRatio(counts)) {
+      handleCandidate(counts, y, matrix.width);
+    }
+  }
+
+  return candidates;
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Assign corners: the top-left finder is opposite the longest side, and the
+// other two are ordered so the code reads clockwise in image coordinates
+function orderFinderPatterns(patterns: FinderPattern[]): [FinderPattern, FinderPattern, FinderPattern] {
+  const [a, b, c] = patterns;
+  const ab = distance(a, b);
+  const bc = distance(b, c);
+  const ac = distance(a, c);
+
+  let topLeft: FinderPattern;
+  let first: FinderPattern;
+  let second: FinderPattern;
+  if (bc >= ab && bc >= ac) {
+    [topLeft, first, second] = [a, b, c];
+  } else if (ac >= ab && ac >= bc) {
+    [topLeft, first, second] = [b, a, c];
+  } else {
+    [topLeft, first, second] = [c, a, b];
+  }
+
+  const cross = (first.x - topLeft.x) * (second.y - topLeft.y) - (first.y - topLeft.y) * (second.x - topLeft.x);
+  return cross >= 0 ? [topLeft, first, second] : [topLeft, second, first];
+}
+
+// Finder triples that look like the corners of one symbol, with a score
+// (lower is better): similar module sizes and a right isosceles triangle
+// between the centres
+function scoreFinderTriples(pool: FinderPattern[]): { triple: FinderPattern[]; score: number }[] {
+  const scored: { triple: FinderPattern[]; score: number }[] = [];
+  for (let i = 0; i < pool.length; i++) {
+    for (let j = i + 1; j < pool.length; j++) {
+      for (let k = j + 1; k < pool.length; k++) {
+        const triple = [pool[i], pool[j], pool[k]];
+        const sizes = triple.map((pattern) => pattern.moduleSize);
+        const minSize = Math.min(...sizes);
+        const maxSize = Math.max(...sizes);
+        // Perspective can make the nearest finder pattern up to twice the size
+        // of the furthest
+        if (maxSize > minSize * 2) continue;
+
+        const sides = [distance(pool[i], pool[j]), distance(pool[j], pool[k]), distance(pool[i], pool[k])].sort((a, b) => a - b);
+        const averageSize = (sizes[0] + sizes[1] + sizes[2]) / 3;
+        // Finder centres are at least 14 modules apart (version 1); scans
+        // across a rotated code overestimate module size by up to sqrt(2)
+        if (sides[0] < 7 * averageSize || sides[0] > MAX_DIMENSION * averageSize) continue;
+
+        const legs = sides[0] * sides[0] + sides[1] * sides[1];
+        const hypotenuse = sides[2] * sides[2];
+        const score =
+          Math.abs(hypotenuse - legs) / hypotenuse +
+          Math.abs(sides[1] - sides[0]) / sides[1] +
+          (maxSize - minSize) / maxSize;
+        if (score < 1.2) {
+          scored.push({ triple, score });
+        }
+      }
+    }
+  }
+  return scored;
+}
+
+// Ranked finder triples, best first. Real finder patterns are crossed by
+// several scan rows per module, so candidates that only a row or two of data
+// matched are paired only when the well-confirmed ones do not form a symbol.
+// Under strong perspective such data patterns can form a neater triangle than
+// the real corners.
+function selectFinderTriples(candidates: FinderPattern[]): [FinderPattern, FinderPattern, FinderPattern][] {
+  const maxCount = Math.max(...candidates.map((candidate) => candidate.count));
+  const pools = [
+    candidates.filter((candidate) => candidate.count * MIN_RELATIVE_COUNT >= maxCount),
+    candidates.filter((candidate) => candidate.count >= 2),
+    candidates,
+  ];
+
+  for (const pool of pools) {
+    if (pool.length < 3) continue;
+
+    const scored = scoreFinderTriples(
+      pool
+        .slice()
+        .sort((a, b) => b.count - a.count)
+        .slice(0, MAX_TRIPLE_CANDIDATES)
+    );
+    if (scored.length > 0) {
+      return scored
+        .sort((a, b) => a.score - b.score)
+        .slice(0, MAX_LOCATIONS)
+        .map(({ triple }) => orderFinderPatterns(triple));
+    }
+  }
+  return [];
+}
+
+// ---------------------------------------------------------------------------
+// Module size and dimension
+// ---------------------------------------------------------------------------
+
+// Distance walked from a finder centre towards `target` until leaving the
+// outer dark ring (3.5 modules), or NaN if the walk leaves the image
+function runToRingEdge(matrix: BitMatrix, from: Point, target: Point): number {
+  const dx = target.x - from.x;
+  const dy = target.y - from.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return NaN;
+
+  const stepX = dx / length;
+  const stepY = dy / length;
+  let state = 0; // 0: centre, 1: light ring, 2: outer dark ring
+
+  for (let step = 0; step < length; step++) {
+    const x = Math.floor(from.x + stepX * step);
+    const y = Math.floor(from.y + stepY * step);
+    if (x < 0 || y < 0 || x >= matrix.width || y >= matrix.height) {
+      return NaN;
+    }
+    const dark = matrix.get(x, y);
+    if ((state === 0 || state === 2) && !dark) {
+      if (state === 2) return step;
+      state = 1;
+    } else if (state === 1 && dark) {
+      state = 2;
+    }
+  }
+  return NaN;
+}
+
+function moduleSizeAlong(matrix: BitMatrix, a: Point, b: Point): number {
+  const away = (from: Point, to: Point): Point => ({ x: 2 * from.x - to.x, y: 2 * from.y - to.y });
+  const runs = [
+    runToRingEdge(matrix, a, b),
+    runToRingEdge(matrix, a, away(a, b)),
+    runToRingEdge(matrix, b, a),
+    runToRingEdge(matrix, b, away(b, a)),
+  ].filter((run) => !isNaN(run));
+
+  if (runs.length === 0) return NaN;
+  return runs.reduce((sum, run) => sum + run, 0) / runs.length / 3.5;
+}
+
+// Re-measure each finder pattern's module size along the symbol's axes. The
+// scan-row estimate grows by up to sqrt(2) with rotation, and by a different
+// amount for each finder of a tilted code, which skews the depth estimates
+// used to extrapolate the fourth corner.
+function measureAlongAxes(
+  matrix: BitMatrix,
+  [topLeft, topRight, bottomLeft]: [FinderPattern, FinderPattern, FinderPattern]
+): [FinderPattern, FinderPattern, FinderPattern] {
+  const axes = [
+    { x: topRight.x - topLeft.x, y: topRight.y - topLeft.y },
+    { x: bottomLeft.x - topLeft.x, y: bottomLeft.y - topLeft.y },
+  ];
+
+  const measure = (pattern: FinderPattern): FinderPattern => {
+    const runs = axes
+      .flatMap((axis) => [1, -1].map((sign) =>
+        runToRingEdge(matrix, pattern, { x: pattern.x + sign * axis.x, y: pattern.y + sign * axis.y })
+      ))
+      .filter((run) => !isNaN(run));
+    if (runs.length === 0) return pattern;
+    return { ...pattern, moduleSize: runs.reduce((sum, run) => sum + run, 0) / runs.length / 3.5 };
+  };
+
+  return [measure(topLeft), measure(topRight), measure(bottomLeft)];
+}
+
+// Versions 7 and up carry their version next to the top-right and
+// bottom-left finders. Reading it from the image fixes large symbols whose
+// size estimate is a version or two off, which would otherwise never sample
+// well enough to report the mismatch. Garbage can still pass for a version, so
+// the result is only trusted close to the estimate.
+const MIN_VERSION_WITH_INFORMATION = 7;
+const MAX_VERSION_CORRECTION = 3;
+
+function readVersion(
+  matrix: BitMatrix,
+  topLeft: FinderPattern,
+  topRight: FinderPattern,
+  bottomLeft: FinderPattern,
+  estimate: number
+): number | null {
+  if (estimate < MIN_VERSION_WITH_INFORMATION - MAX_VERSION_CORRECTION) {
+    return null;
+  }
+
+  const sideX = { x: topRight.x - topLeft.x, y: topRight.y - topLeft.y };
+  const sideY = { x: bottomLeft.x - topLeft.x, y: bottomLeft.y - topLeft.y };
+  const lengthX = Math.hypot(sideX.x, sideX.y);
+  const lengthY = Math.hypot(sideY.x, sideY.y);
+
+  // Bits most significant first; bit i sits (i % 3) - 7 modules across and
+  // floor(i / 3) - 3 along from the finder centre, mirrored for bottom-left
+  const readBlock = (finder: FinderPattern, across: Point, along: Point) => {
+    let bits = 0;
+    for (let i = 17; i >= 0; i--) {
+      const a = ((i % 3) - 7) * finder.moduleSize;
+      const b = (Math.floor(i / 3) - 3) * finder.moduleSize;
+      const x = Math.floor(finder.x + across.x * a + along.x * b);
+      const y = Math.floor(finder.y + across.y * a + along.y * b);
+      const dark = x >= 0 && y >= 0 && x < matrix.width && y < matrix.height && matrix.get(x, y);
+      bits = (bits << 1) | (dark ? 1 : 0);
+    }
+    return bits;
+  };
+
+  const axisX = { x: sideX.x / lengthX, y: sideX.y / lengthX };
+  const axisY = { x: sideY.x / lengthY, y: sideY.y / lengthY };
+  const version = decodeVersionBits(readBlock(topRight, axisX, axisY), readBlock(bottomLeft, axisY, axisX));
+  if (version === null || Math.abs(version - estimate) > MAX_VERSION_CORRECTION) {
+    return null;
+  }
+  return version;
+}
+
+// Dimension rounded to the nearest valid size (4n + 17)
+function snapDimension(dimension: number): number {
+  const version = Math.round((dimension - 17) / 4);
+  return Math.max(1, Math.min(40, version)) * 4 + 17;
+}
+
+// ---------------------------------------------------------------------------
+// Alignment pattern: dark centre module inside a light ring inside a dark ring
+// ---------------------------------------------------------------------------
+
+function runsAround(matrix: BitMatrix, x: number, y: number, vertical: boolean, moduleSize: number): number | null {
+  const get = (offset: number) => (vertical ? matrix.get(x, offset) : matrix.get(offset, y));
+  const start = vertical ? y : x;
+  const limit = Math.ceil(moduleSize * 3);
+  const measure = (direction: number) => {
+    const runs = [0, 0, 0];
+    let i = start;
+    let steps = 0;
+    for (let state = 0; state < 3; state++) {
+      const dark = state !== 1;
+      while (get(i) === dark && steps < limit) {
+        runs[state]++;
+        i += direction;
+        steps++;
+      }
+    }
+    return runs;
+  };
+
+  const before = measure(-1);
+  const after = measure(1);
+  const centre = before[0] + after[0] - 1;
+  const tolerance = moduleSize * 0.7;
+  if (
+    Math.abs(centre - moduleSize) > tolerance ||
+    Math.abs(before[1] - moduleSize) > tolerance ||
+    Math.abs(after[1] - moduleSize) > tolerance ||
+    before[2] === 0 ||
+    after[2] === 0
+  ) {
+    return null;
+  }
+  return start + (after[0] - before[0]) / 2;
+}
+
+function findAlignmentPatterns(matrix: BitMatrix, estimate: Point, moduleSize: number): Point[] {
+  for (const allowance of [4, 8, 16]) {
+    const radius = Math.ceil(allowance * moduleSize);
+    const left = Math.max(0, Math.floor(estimate.x - radius));
+    const right = Math.min(matrix.width - 1, Math.ceil(estimate.x + radius));
+    const top = Math.max(0, Math.floor(estimate.y - radius));
+    const bottom = Math.min(matrix.height - 1, Math.ceil(estimate.y + radius));
+
+    const found: Point[] = [];
+    for (let y = top; y <= bottom; y++) {
+      for (let x = left + 1; x <= right; x++) {
+        // Only test the leading edge of each dark run
+        if (!matrix.get(x, y) || matrix.get(x - 1, y)) continue;
+
+        let end = x;
+        while (end <= right && matrix.get(end, y)) end++;
+        const centreX = Math.floor((x + end - 1) / 2);
+
+        const refinedY = runsAround(matrix, centreX, y, true, moduleSize);
+        if (refinedY === null) continue;
+        const refinedX = runsAround(matrix, centreX, Math.floor(refinedY), false, moduleSize);
+        if (refinedX === null) continue;
+
+        const candidate = { x: refinedX + 0.5, y: refinedY + 0.5 };
+        if (!found.some((point) => distance(point, candidate) < moduleSize)) {
+          found.push(candidate);
+        }
+      }
+    }
+    if (found.length > 0) {
+      return found
+        .sort((a, b) => distance(a, estimate) - distance(b, estimate))
+        .slice(0, MAX_ALIGNMENT_CANDIDATES);
+    }
+  }
+  return [];
+}
+
+// ---------------------------------------------------------------------------
+// Perspective transform
+// ---------------------------------------------------------------------------
+
+/**
+ * Projective mapping between two quadrilaterals, applied to points with
+ * `transform`
+ */
+export class PerspectiveTransform {
+  private constructor(
+    private a11: number, private a21: number, private a31: number,
+    private a12: number, private a22: number, private a32: number,
+    private a13: number, private a23: number, private a33: number
+  ) {}
+
+  static quadrilateralToQuadrilateral(from: Point[], to: Point[]): PerspectiveTransform {
+    const toSquare = PerspectiveTransform.squareToQuadrilateral(from).adjoint();
+    const fromSquare = PerspectiveTransform.squareToQuadrilateral(to);
+    return fromSquare.times(toSquare);
+  }
+
+  private static squareToQuadrilateral([p0, p1, p2, p3]: Point[]): PerspectiveTransform {
+    const dx3 = p0.x - p1.x + p2.x - p3.x;
+    const dy3 = p0.y - p1.y + p2.y - p3.y;
+    if (dx3 === 0 && dy3 === 0) {
+      return new PerspectiveTransform(
+        p1.x - p0.x, p2.x - p1.x, p0.x,
+        p1.y - p0.y, p2.y - p1.y, p0.y,
+        0, 0, 1
+      );
+    }
+    const dx1 = p1.x - p2.x;
+    const dx2 = p3.x - p2.x;
+    const dy1 = p1.y - p2.y;
+    const dy2 = p3.y - p2.y;
+    const denominator = dx1 * dy2 - dx2 * dy1;
+    const a13 = (dx3 * dy2 - dx2 * dy3) / denominator;
+    const a23 = (dx1 * dy3 - dx3 * dy1) / denominator;
+    return new PerspectiveTransform(
+      p1.x - p0.x + a13 * p1.x, p3.x - p0.x + a23 * p3.x, p0.x,
+      p1.y - p0.y + a13 * p1.y, p3.y - p0.y + a23 * p3.y, p0.y,
+      a13, a23, 1
+    );
+  }
+
+  private adjoint(): PerspectiveTransform {
+    return new PerspectiveTransform(
+      this.a22 * this.a33 - this.a23 * this.a32,
+      this.a23 * this.a31 - this.a21 * this.a33,
+      this.a21 * this.a32 - this.a22 * this.a31,
+      this.a13 * this.a32 - this.a12 * this.a33,
+      this.a11 * this.a33 - this.a13 * this.a31,
+      this.a12 * this.a31 - this.a11 * this.a32,
+      this.a12 * this.a23 - this.a13 * this.a22,
+      this.a13 * this.a21 - this.a11 * this.a23,
+      this.a11 * this.a22 - this.a12 * this.a21
+    );
+  }
+
+  private times(other: PerspectiveTransform): PerspectiveTransform {
+    return new PerspectiveTransform(
+      this.a11 * other.a11 + this.a21 * other.a12 + this.a31 * other.a13,
+      this.a11 * other.a21 + this.a21 * other.a22 + this.a31 * other.a23,
+      this.a11 * other.a31 + this.a21 * other.a32 + this.a31 * other.a33,
+      this.a12 * other.a11 + this.a22 * other.a12 + this.a32 * other.a13,
+      this.a12 * other.a21 + this.a22 * other.a22 + this.a32 * other.a23,
+      this.a12 * other.a31 + this.a22 * other.a32 + this.a32 * other.a33,
+      this.a13 * other.a11 + this.a23 * other.a12 + this.a33 * other.a13,
+      this.a13 * other.a21 + this.a23 * other.a22 + this.a33 * other.a23,
+      this.a13 * other.a31 + this.a23 * other.a32 + this.a33 * other.a33
+    );
+  }
+
+  transform(point: Point): Point {
+    const denominator = this.a13 * point.x + this.a23 * point.y + this.a33;
+    return {
+      x: (this.a11 * point.x + this.a21 * point.y + this.a31) / denominator,
+      y: (this.a12 * point.x + this.a22 * point.y + this.a32) / denominator,
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public entry points
+// ---------------------------------------------------------------------------
+
+/**
+ * Candidate symbol locations in the image, most plausible first
+ */
+export function locateQRCodes(matrix: BitMatrix): QRLocation[] {
+  const triples = selectFinderTriples(findFinderPatterns(matrix));
+
+  return triples.map((triple) => {
+    const [topLeft, topRight, bottomLeft] = measureAlongAxes(matrix, triple);
+    const finderModuleSize = (topLeft.moduleSize + topRight.moduleSize + bottomLeft.moduleSize) / 3;
+    const horizontal = moduleSizeAlong(matrix, topLeft, topRight);
+    const vertical = moduleSizeAlong(matrix, topLeft, bottomLeft);
+    const alongX = isNaN(horizontal) ? finderModuleSize : horizontal;
+    const alongY = isNaN(vertical) ? finderModuleSize : vertical;
+
+    const estimate = snapDimension(
+      (distance(topLeft, topRight) / alongX + distance(topLeft, bottomLeft) / alongY) / 2 + 7
+    );
+    const version = readVersion(matrix, topLeft, topRight, bottomLeft, (estimate - 17) / 4);
+    const dimension = version !== null ? getSymbolSize(version) : estimate;
+    const moduleSize = (alongX + alongY) / 2;
+
+    return { topLeft, topRight, bottomLeft, dimension, moduleSize };
+  });
+}
+
+// Where the point `fraction` of the way from the top-left finder centre
+// towards the bottom-right one appears. With `perspective`, each finder centre
+// is weighted by its depth, so a tilted code is extrapolated projectively
+// rather than as a parallelogram. On a tilted plane the apparent area of a
+// module falls with the cube of depth, so depth goes as moduleSize^(-2/3).
+function extrapolate(location: QRLocation, fraction: number, perspective: boolean): Point {
+  const { topLeft, topRight, bottomLeft } = location;
+  const weight = (pattern: FinderPattern) => (perspective ? Math.pow(pattern.moduleSize, -2 / 3) : 1);
+  const combine = (value: (pattern: FinderPattern) => number) =>
+    value(topLeft) + fraction * (value(topRight) + value(bottomLeft) - 2 * value(topLeft));
+
+  const w = combine(weight);
+  return {
+    x: combine((pattern) => pattern.x * weight(pattern)) / w,
+    y: combine((pattern) => pattern.y * weight(pattern)) / w,
+  };
+}
+
+/**
+ * Candidate fourth points for a symbol of the given size, most likely first:
+ * alignment patterns found near where the bottom-right one should be, then a
+ * small grid around the estimates of it (or of the bottom-right finder
+ * position for version 1, which has no alignment pattern)
+ */
+export function getGridAnchors(matrix: BitMatrix, location: QRLocation, dimension: number): GridAnchor[] {
+  const { topLeft, topRight, bottomLeft, moduleSize } = location;
+  const hasAlignment = dimension > 21;
+  const module = hasAlignment
+    ? { x: dimension - 6.5, y: dimension - 6.5 }
+    : { x: dimension - 3.5, y: dimension - 3.5 };
+
+  const fraction = (module.x - 3.5) / (dimension - 7);
+  const estimates = [extrapolate(location, fraction, true)];
+  const affine = extrapolate(location, fraction, false);
+  if (distance(affine, estimates[0]) > moduleSize) {
+    estimates.push(affine);
+  }
+
+  const anchors: GridAnchor[] = [];
+  if (hasAlignment) {
+    for (const estimate of estimates) {
+      for (const image of findAlignmentPatterns(matrix, estimate, moduleSize)) {
+        if (!anchors.some((anchor) => distance(anchor.image, image) < moduleSize)) {
+          anchors.push({ image, module });
+        }
+      }
+    }
+  }
+
+  // Offsets run along the symbol's own axes so they stay meaningful when it
+  // is rotated
+  const axisX = { x: (topRight.x - topLeft.x) / (dimension - 7), y: (topRight.y - topLeft.y) / (dimension - 7) };
+  const axisY = { x: (bottomLeft.x - topLeft.x) / (dimension - 7), y: (bottomLeft.y - topLeft.y) / (dimension - 7) };
+  for (const estimate of estimates) {
+    for (const dy of ANCHOR_OFFSETS) {
+      for (const dx of ANCHOR_OFFSETS) {
+        anchors.push({
+          image: {
+            x: estimate.x + dx * axisX.x + dy * axisY.x,
+            y: estimate.y + dx * axisX.y + dy * axisY.y,
+          },
+          module,
+        });
+      }
+    }
+  }
+
+  return anchors;
+}
+
+// Mapping from module coordinates (column, row) to image pixels
+export function getModuleTransform(location: QRLocation, dimension: number, anchor: GridAnchor): PerspectiveTransform {
+  const { topLeft, topRight, bottomLeft } = location;
+  const far = dimension - 3.5;
+
+  return PerspectiveTransform.quadrilateralToQuadrilateral(
+    [{ x: 3.5, y: 3.5 }, { x: far, y: 3.5 }, anchor.module, { x: 3.5, y: far }],
+    [topLeft, topRight, anchor.image, bottomLeft]
+  );
+}
+
+// Module grid read through the transform; get(column, row) is dark
+/**
+ * Fraction of the fixed function pattern modules that the transform samples
+ * with the right colour; a cheap test of a candidate grid before decoding it
+ */
+export function scoreGridFit(matrix: BitMatrix, transform: PerspectiveTransform, dimension: number): number {
+  const patterns = getFunctionPatterns((dimension - 17) / 4);
+  let matches = 0;
+  for (const [row, column, dark] of patterns) {
+    const point = transform.transform({ x: column + 0.5, y: row + 0.5 });
+    if (matrix.get(Math.floor(point.x), Math.floor(point.y)) === dark) {
+      matches++;
+    }
+  }
+  return matches / patterns.length;
+}
+
+export function sampleGrid(matrix: BitMatrix, transform: PerspectiveTransform, dimension: number): BitMatrix {
+  const grid = new BitMatrix(dimension, dimension);
+  for (let row = 0; row < dimension; row++) {
+    for (let column = 0; column < dimension; column++) {
+      const point = transform.transform({ x: column + 0.5, y: row + 0.5 });
+      grid.set(column, row, matrix.get(Math.floor(point.x), Math.floor(point.y)));
+    }
+  }
+  return grid;
+}
@@ -0,0 +1,364 @@
+// Building QR code symbols (ISO/IEC 18004): mode selection, version fitting,
+// block interleaving with Reed-Solomon error correction, module placement and
+// mask selection
+
+import { computeErrorCorrection } from './reed-solomon';
+import {
+  ALPHANUMERIC_CHARSET,
+  ErrorCorrectionLevel,
+  MAX_VERSION,
+  MIN_VERSION,
+  MODE_INDICATORS,
+  QRMode,
+  getBlockLayout,
+  getCharacterCountBits,
+  getCodewordPositions,
+  getFormatBitPositions,
+  getFormatBits,
+  getFunctionPatterns,
+  getSymbolSize,
+  getVersionBitPositions,
+  getVersionBits,
+  isMasked,
+} from './version';
+
+export interface QREncodeOptions {
+  // Minimum error correction level (default M)
+  errorCorrectionLevel?: ErrorCorrectionLevel;
+  minVersion?: number;
+  maxVersion?: number;
+  // Fixed mask pattern (0-7); by default the one with the lowest penalty
+  mask?: number;
+  // Raise the error correction level when the data still fits the same
+  // version (default true)
+  boostErrorCorrection?: boolean;
+}
+
+export interface QRSymbol {
+  version: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  mask: number;
+  mode: QRMode;
+  // Modules per side
+  size: number;
+  // modules[row][column] is dark
+  modules: boolean[][];
+}
+
+const LEVELS: ErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H'];
+
+// Padding codewords alternate between these after the data
+const PAD_CODEWORDS = [0xec, 0x11];
+
+// Mask penalty weights from the standard
+const PENALTY_RUN = 3;
+const PENALTY_BLOCK = 3;
+const PENALTY_FINDER_LIKE = 40;
+const PENALTY_BALANCE = 10;
+
+// Dark/light sequence resembling a finder pattern, for the mask penalty
+const FINDER_LIKE = [true, false, true, true, true, false, true];
+
+function encodeUtf8(text: string): number[] {
+  const bytes: number[] = [];
+  for (const character of text) {
+    const codePoint = character.codePointAt(0) ?? 0;
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(0xe0 | (codePoint >> 12), 0x80 | ((codePoint >> 6) & 0x3f), 0x80 | (codePoint & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    }
+  }
+  return bytes;
+}
+
+// The most compact mode that can hold the whole text
+function selectMode(text: string): QRMode {
+  if (/^[0-9]*$/.test(text)) {
+    return 'numeric';
+  }
+  if ([...text].every((character) => ALPHANUMERIC_CHARSET.includes(character))) {
+    return 'alphanumeric';
+  }
+  return 'byte';
+}
+
+class BitBuffer {
+  readonly bits: number[] = [];
+
+  append(value: number, length: number) {
+    for (let i = length - 1; i >= 0; i--) {
+      this.bits.push((value >>> i) & 1);
+    }
+  }
+}
+
+// Payload bits and character count for a mode, without header
+function encodePayload(text: string, mode: QRMode): { payload: BitBuffer; count: number } {
+  const payload = new BitBuffer();
+
+  if (mode === 'numeric') {
+    for (let i = 0; i < text.length; i += 3) {
+      const group = text.slice(i, i + 3);
+      payload.append(parseInt(group, 10), group.length * 3 + 1);
+    }
+    return { payload, count: text.length };
+  }
+
+  if (mode === 'alphanumeric') {
+    for (let i = 0; i < text.length; i += 2) {
+      const first = ALPHANUMERIC_CHARSET.indexOf(text[i]);
+      if (i + 1 < text.length) {
+        payload.append(first * 45 + ALPHANUMERIC_CHARSET.indexOf(text[i + 1]), 11);
+      } else {
+        payload.append(first, 6);
+      }
+    }
+    return { payload, count: text.length };
+  }
+
+  if (mode === 'byte') {
+    const bytes = encodeUtf8(text);
+    bytes.forEach((byte) => payload.append(byte, 8));
+    return { payload, count: bytes.length };
+  }
+
+  throw new Error(`Encoding in ${mode} mode is not supported`);
+}
+
+// Data codewords: header, payload, terminator and padding
+function buildDataCodewords(
+  mode: QRMode,
+  payload: BitBuffer,
+  count: number,
+  version: number,
+  capacity: number
+): number[] {
+  const buffer = new BitBuffer();
+  buffer.append(MODE_INDICATORS[mode], 4);
+  buffer.append(count, getCharacterCountBits(mode, version));
+  buffer.bits.push(...payload.bits);
+
+  const capacityBits = capacity * 8;
+  buffer.append(0, Math.min(4, capacityBits - buffer.bits.length));
+  buffer.append(0, (8 - (buffer.bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < buffer.bits.length; i += 8) {
+    codewords.push(buffer.bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let i = 0; codewords.length < capacity; i++) {
+    codewords.push(PAD_CODEWORDS[i % 2]);
+  }
+  return codewords;
+}
+
+// Split into blocks, add error correction to each, and interleave
+function buildCodewords(data: number[], version: number, level: ErrorCorrectionLevel): number[] {
+  const layout = getBlockLayout(version, level);
+
+  const blocks: number[][] = [];
+  let offset = 0;
+  for (const length of layout.blockDataLengths) {
+    blocks.push(data.slice(offset, offset + length));
+    offset += length;
+  }
+  const ecBlocks = blocks.map((block) => computeErrorCorrection(block, layout.ecCodewordsPerBlock));
+
+  const result: number[] = [];
+  const longest = Math.max(...layout.blockDataLengths);
+  for (let i = 0; i < longest; i++) {
+    blocks.forEach((block) => {
+      if (i < block.length) {
+        result.push(block[i]);
+      }
+    });
+  }
+  for (let i = 0; i < layout.ecCodewordsPerBlock; i++) {
+    ecBlocks.forEach((block) => result.push(block[i]));
+  }
+  return result;
+}
+
+function penaltyForLine(line: boolean[]): number {
+  let penalty = 0;
+
+  // Runs of five or more modules of one colour
+  let runLength = 1;
+  for (let i = 1; i <= line.length; i++) {
+    if (i < line.length && line[i] === line[i - 1]) {
+      runLength++;
+    } else {
+      if (runLength >= 5) {
+        penalty += PENALTY_RUN + runLength - 5;
+      }
+      runLength = 1;
+    }
+  }
+
+  // 1:1:3:1:1 dark/light patterns with four light modules on one side;
+  // modules outside the symbol are light, like the quiet zone
+  const isLight = (start: number, end: number) => {
+    for (let i = start; i < end; i++) {
+      if (i >= 0 && i < line.length && line[i]) {
+        return false;
+      }
+    }
+    return true;
+  };
+  for (let i = 0; i + FINDER_LIKE.length <= line.length; i++) {
+    if (FINDER_LIKE.every((dark, j) => line[i + j] === dark)) {
+      if (isLight(i - 4, i) || isLight(i + FINDER_LIKE.length, i + FINDER_LIKE.length + 4)) {
+        penalty += PENALTY_FINDER_LIKE;
+      }
+    }
+  }
+
+  return penalty;
+}
+
+// Mask penalty score; lower is easier for readers
+function getPenalty(modules: boolean[][]): number {
+  const size = modules.length;
+  let penalty = 0;
+  let dark = 0;
+
+  for (let i = 0; i < size; i++) {
+    penalty += penaltyForLine(modules[i]);
+    penalty += penaltyForLine(modules.map((row) => row[i]));
+  }
+
+  for (let row = 0; row < size; row++) {
+    for (let column = 0; column < size; column++) {
+      const value = modules[row][column];
+      if (value) {
+        dark++;
+      }
+      if (
+        row < size - 1 &&
+        column < size - 1 &&
+        value === modules[row][column + 1] &&
+        value === modules[row + 1][column] &&
+        value === modules[row + 1][column + 1]
+      ) {
+        penalty += PENALTY_BLOCK;
+      }
+    }
+  }
+
+  // Deviation of the dark proportion from 50%, in 5% steps
+  const total = size * size;
+  const steps = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+  penalty += Math.max(0, steps) * PENALTY_BALANCE;
+
+  return penalty;
+}
+
+function buildModules(codewords: number[], version: number, level: ErrorCorrectionLevel, mask: number): boolean[][] {
+  const size = getSymbolSize(version);
+  const modules: boolean[][] = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+
+  for (const [row, column, dark] of getFunctionPatterns(version)) {
+    modules[row][column] = dark;
+  }
+
+  // Remainder bits past the last codeword stay light before masking
+  getCodewordPositions(version).forEach(([row, column], i) => {
+    const bit = i < codewords.length * 8 && ((codewords[i >> 3] >> (7 - (i & 7))) & 1) === 1;
+    modules[row][column] = bit !== isMasked(mask, row, column);
+  });
+
+  const place = (positions: [number, number][], bits: number, length: number) => {
+    positions.forEach(([row, column], i) => {
+      modules[row][column] = ((bits >> (length - 1 - i)) & 1) === 1;
+    });
+  };
+
+  const format = getFormatBits(level, mask);
+  const { primary, secondary } = getFormatBitPositions(version);
+  place(primary, format, 15);
+  place(secondary, format, 15);
+
+  if (version >= 7) {
+    const versionBits = getVersionBits(version);
+    const { bottomLeft, topRight } = getVersionBitPositions(version);
+    place(bottomLeft, versionBits, 18);
+    place(topRight, versionBits, 18);
+  }
+
+  return modules;
+}
+
+/**
+ * Encode text as a QR code symbol, in the smallest version that holds it at
+ * the requested error correction level. Throws when the text does not fit.
+ */
+export function encodeQR(text: string, options: QREncodeOptions = {}): QRSymbol {
+  const {
+    errorCorrectionLevel = 'M',
+    minVersion = MIN_VERSION,
+    maxVersion = MAX_VERSION,
+    mask,
+    boostErrorCorrection = true,
+  } = options;
+
+  if (minVersion < MIN_VERSION || maxVersion > MAX_VERSION || minVersion > maxVersion) {
+    throw new Error(`Invalid version range ${minVersion}-${maxVersion}`);
+  }
+  if (mask !== undefined && (!Number.isInteger(mask) || mask < 0 || mask > 7)) {
+    throw new Error(`Invalid mask pattern ${mask}`);
+  }
+
+  const mode = selectMode(text);
+  const { payload, count } = encodePayload(text, mode);
+  const bitsNeeded = (version: number) => 4 + getCharacterCountBits(mode, version) + payload.bits.length;
+  const fits = (version: number, level: ErrorCorrectionLevel) =>
+    bitsNeeded(version) <= getBlockLayout(version, level).dataCodewords * 8 &&
+    count < 2 ** getCharacterCountBits(mode, version);
+
+  let version = minVersion;
+  while (!fits(version, errorCorrectionLevel)) {
+    if (version >= maxVersion) {
+      throw new Error(`Data too long for a QR code (${text.length} characters at level ${errorCorrectionLevel})`);
+    }
+    version++;
+  }
+
+  let level = errorCorrectionLevel;
+  if (boostErrorCorrection) {
+    for (const higher of LEVELS.slice(LEVELS.indexOf(errorCorrectionLevel) + 1)) {
+      if (fits(version, higher)) {
+        level = higher;
+      }
+    }
+  }
+
+  const data = buildDataCodewords(mode, payload, count, version, getBlockLayout(version, level).dataCodewords);
+  const codewords = buildCodewords(data, version, level);
+
+  const masks = mask !== undefined ? [mask] : [0, 1, 2, 3, 4, 5, 6, 7];
+  const best = masks
+    .map((candidate) => {
+      const modules = buildModules(codewords, version, level, candidate);
+      return { mask: candidate, modules, penalty: masks.length > 1 ? getPenalty(modules) : 0 };
+    })
+    .reduce((a, b) => (b.penalty < a.penalty ? b : a));
+
+  return {
+    version,
+    errorCorrectionLevel: level,
+    mask: best.mask,
+    mode,
+    size: getSymbolSize(version),
+    modules: best.modules,
+  };
+}
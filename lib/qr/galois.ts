@@ -0,0 +1,54 @@
+// Arithmetic in GF(256) with the QR code field polynomial
+// x^8 + x^4 + x^3 + x^2 + 1 (0x11d) and generator 2
+
+const FIELD_SIZE = 256;
+const PRIMITIVE = 0x11d;
+
+// EXP is doubled so products of two logs never need a modulo
+const EXP = new Uint8Array(FIELD_SIZE * 2);
+const LOG = new Uint8Array(FIELD_SIZE);
+
+(() => {
+  let x = 1;
+  for (let i = 0; i < FIELD_SIZE - 1; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x <<= 1;
+    if (x >= FIELD_SIZE) {
+      x ^= PRIMITIVE;
+    }
+  }
+  for (let i = FIELD_SIZE - 1; i < EXP.length; i++) {
+    EXP[i] = EXP[i - (FIELD_SIZE - 1)];
+  }
+})();
+
+// 2^power, for any non-negative power
+export function gfExp(power: number): number {
+  return EXP[power % (FIELD_SIZE - 1)];
+}
+
+export function gfLog(value: number): number {
+  if (value === 0) {
+    throw new Error('Logarithm of zero in GF(256)');
+  }
+  return LOG[value];
+}
+
+export function gfMultiply(a: number, b: number): number {
+  if (a === 0 || b === 0) {
+    return 0;
+  }
+  return EXP[LOG[a] + LOG[b]];
+}
+
+export function gfInverse(value: number): number {
+  if (value === 0) {
+    throw new Error('Inverse of zero in GF(256)');
+  }
+  return EXP[FIELD_SIZE - 1 - LOG[value]];
+}
+
+export function gfDivide(a: number, b: number): number {
+  return gfMultiply(a, gfInverse(b));
+}
@@ -0,0 +1,435 @@
+import { QRImageData, decodeQR, encodeQR } from '@/lib/qr';
+import { computeErrorCorrection } from '@/lib/qr/reed-solomon';
+import {
+  ErrorCorrectionLevel,
+  getBlockLayout,
+  getCodewordPositions,
+  getFormatBitPositions,
+  getFormatBits,
+  getFunctionPatterns,
+  getSymbolSize,
+  isMasked,
+} from '@/lib/qr/version';
+
+interface RenderOptions {
+  // Pixels per module before perspective
+  moduleSize?: number;
+  // Clockwise rotation in degrees
+  rotation?: number;
+  // Perspective: the top edge is this fraction shorter than the bottom edge
+  tilt?: number;
+  // Sub-pixel shift of the whole symbol
+  offset?: number;
+  quietZone?: number;
+  margin?: number;
+  // Light modules on a dark background
+  inverted?: boolean;
+  // Samples per pixel along each axis. Tilted codes need at least 2: a
+  // camera always blurs perspective edges, hard-stepped ones do not occur.
+  samples?: number;
+}
+
+type Homography = number[];
+
+// Unit square onto the quadrilateral p0..p3 (clockwise from top-left)
+function squareToQuad([p0, p1, p2, p3]: { x: number; y: number }[]): Homography {
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const denominator = dx1 * dy2 - dx2 * dy1;
+  const g = (dx3 * dy2 - dx2 * dy3) / denominator;
+  const h = (dx1 * dy3 - dx3 * dy1) / denominator;
+  return [
+    p1.x - p0.x + g * p1.x, p3.x - p0.x + h * p3.x, p0.x,
+    p1.y - p0.y + g * p1.y, p3.y - p0.y + h * p3.y, p0.y,
+    g, h, 1,
+  ];
+}
+
+function invert([a, b, c, d, e, f, g, h, i]: Homography): Homography {
+  return [e * i - f * h, c * h - b * i, b * f - c * e, f * g - d * i, a * i - c * g, c * d - a * f, d * h - e * g, b * g - a * h, a * e - b * d];
+}
+
+function project(m: Homography, x: number, y: number) {
+  const w = m[6] * x + m[7] * y + m[8];
+  return { x: (m[0] * x + m[1] * y + m[2]) / w, y: (m[3] * x + m[4] * y + m[5]) / w };
+}
+
+/**
+ * Draw a module grid as an anti-aliased grey RGBA image, the way a camera
+ * sees a printed code: rotated, tilted away and off the pixel grid
+ */
+function renderQR(modules: boolean[][], options: RenderOptions = {}): QRImageData {
+  const { moduleSize = 6, rotation = 0, tilt = 0, offset = 0, quietZone = 4, margin = 16, inverted = false, samples = 1 } = options;
+  const size = modules.length;
+  const span = size + 2 * quietZone;
+  const side = span * moduleSize;
+  const angle = rotation * Math.PI / 180;
+
+  let corners = [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([x, y], i) => {
+    const scale = i < 2 ? 1 - tilt : 1;
+    return { x: x * scale * side / 2, y: y * side / 2 };
+  });
+  corners = corners.map(({ x, y }) => ({
+    x: x * Math.cos(angle) - y * Math.sin(angle),
+    y: x * Math.sin(angle) + y * Math.cos(angle),
+  }));
+  const minX = Math.min(...corners.map((point) => point.x));
+  const minY = Math.min(...corners.map((point) => point.y));
+  const width = Math.ceil(Math.max(...corners.map((point) => point.x)) - minX) + 2 * margin;
+  const height = Math.ceil(Math.max(...corners.map((point) => point.y)) - minY) + 2 * margin;
+  corners = corners.map(({ x, y }) => ({ x: x - minX + margin + offset, y: y - minY + margin + offset }));
+
+  const toSymbol = invert(squareToQuad(corners));
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let dark = 0;
+      for (let sy = 0; sy < samples; sy++) {
+        for (let sx = 0; sx < samples; sx++) {
+          const point = project(toSymbol, x + (sx + 0.5) / samples, y + (sy + 0.5) / samples);
+          const column = Math.floor(point.x * span - quietZone);
+          const row = Math.floor(point.y * span - quietZone);
+          const inside = column >= 0 && row >= 0 && column < size && row < size;
+          if ((inside && modules[row][column]) !== inverted) {
+            dark++;
+          }
+        }
+      }
+      const luminance = 255 - Math.round(255 * dark / (samples * samples));
+      const index = (y * width + x) * 4;
+      data[index] = data[index + 1] = data[index + 2] = luminance;
+      data[index + 3] = 255;
+    }
+  }
+
+  return { data, width, height };
+}
+
+// Deterministic pseudo-random numbers in [0, 1)
+function random(seed: number) {
+  return () => {
+    seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+    return seed / 0x100000000;
+  };
+}
+
+// Module coordinates of each codeword, grouped by error correction block
+function getBlockCodewords(version: number, level: ErrorCorrectionLevel): [number, number][][][] {
+  const layout = getBlockLayout(version, level);
+  const positions = getCodewordPositions(version);
+  const blocks: [number, number][][][] = layout.blockDataLengths.map(() => []);
+
+  // Data codewords are interleaved across blocks, then the EC codewords
+  const order: number[] = [];
+  const longest = Math.max(...layout.blockDataLengths);
+  for (let i = 0; i < longest; i++) {
+    layout.blockDataLengths.forEach((length, block) => {
+      if (i < length) order.push(block);
+    });
+  }
+  for (let i = 0; i < layout.ecCodewordsPerBlock; i++) {
+    layout.blockDataLengths.forEach((_, block) => order.push(block));
+  }
+
+  order.forEach((block, codeword) => {
+    blocks[block].push(positions.slice(codeword * 8, codeword * 8 + 8));
+  });
+  return blocks;
+}
+
+function flip(modules: boolean[][], cells: [number, number][]): boolean[][] {
+  const damaged = modules.map((row) => row.slice());
+  cells.forEach(([row, column]) => {
+    damaged[row][column] = !damaged[row][column];
+  });
+  return damaged;
+}
+
+/**
+ * Lay out a version 1 symbol from hand-assembled codewords, for modes and
+ * bitstreams encodeQR never produces. Version 1 has a single block, so the
+ * codewords are the data followed by its error correction.
+ */
+function layoutVersion1(codewords: number[], level: ErrorCorrectionLevel, mask: number): boolean[][] {
+  const size = getSymbolSize(1);
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  getFunctionPatterns(1).forEach(([row, column, dark]) => {
+    modules[row][column] = dark;
+  });
+  getCodewordPositions(1).forEach(([row, column], i) => {
+    const bit = i < codewords.length * 8 && ((codewords[i >> 3] >> (7 - (i & 7))) & 1) === 1;
+    modules[row][column] = bit !== isMasked(mask, row, column);
+  });
+
+  const format = getFormatBits(level, mask);
+  const { primary, secondary } = getFormatBitPositions(1);
+  [primary, secondary].forEach((positions) => {
+    positions.forEach(([row, column], i) => {
+      modules[row][column] = ((format >> (14 - i)) & 1) === 1;
+    });
+  });
+  return modules;
+}
+
+const LEVELS: ErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H'];
+
+const PAYLOADS = [
+  '31415926535897932384626433',
+  'HTTPS://EXAMPLE.COM/AR/MARKER-42',
+  'myapp://agent/3f2c9a1e-77b0-4d1e-9d7a-0c5e2b8f6a11',
+  'ethereum:0x6533fe2Ebb66CcE28FDdBA9663Fe433A308137e9@7001/transfer?address=0x1234567890123456789012345678901234567890&uint256=1.5e18',
+  'Café ☕ near the 東京 tower',
+];
+
+// A fixed pseudo-random lower-case text of the given length
+function textOfLength(length: number, seed: number): string {
+  const next = random(seed);
+  let text = '';
+  while (text.length < length) {
+    text += String.fromCharCode(97 + Math.floor(next() * 26));
+  }
+  return text;
+}
+
+describe('decodeQR on rendered codes', () => {
+  describe.each(LEVELS)('level %s', (level) => {
+    it.each(PAYLOADS)('reads %s upright', (text) => {
+      const symbol = encodeQR(text, { errorCorrectionLevel: level, boostErrorCorrection: false });
+      const result = decodeQR(renderQR(symbol.modules));
+
+      expect(result?.text).toBe(text);
+      expect(result?.version).toBe(symbol.version);
+      expect(result?.errorCorrectionLevel).toBe(level);
+    });
+
+    it('reads rotations from 0° to 90° at about 6 px per module', () => {
+      const text = PAYLOADS[2];
+      const symbol = encodeQR(text, { errorCorrectionLevel: level, boostErrorCorrection: false });
+      const next = random(level.charCodeAt(0));
+
+      const failures: string[] = [];
+      for (const rotation of [10, 35, 60, 85]) {
+        const moduleSize = 5.5 + next();
+        const image = renderQR(symbol.modules, { moduleSize, rotation, offset: next() });
+        if (decodeQR(image)?.text !== text) {
+          failures.push(`${rotation}° at ${moduleSize.toFixed(2)} px`);
+        }
+      }
+      expect(failures).toEqual([]);
+    });
+
+    it('reads codes tilted away from the camera', () => {
+      const text = PAYLOADS[3];
+      const symbol = encodeQR(text, { errorCorrectionLevel: level, boostErrorCorrection: false });
+      const next = random(level.charCodeAt(0) + 1);
+
+      const failures: string[] = [];
+      for (const [rotation, tilt] of [[0, 0.2], [30, 0.1], [50, 0.2], [75, 0.1]]) {
+        const image = renderQR(symbol.modules, { moduleSize: 5.5 + next(), rotation, tilt, offset: next(), samples: 2 });
+        if (decodeQR(image)?.text !== text) {
+          failures.push(`${rotation}° with tilt ${tilt}`);
+        }
+      }
+      expect(failures).toEqual([]);
+    });
+  });
+
+  // Large symbols under rotation and perspective used to pick data that looks
+  // like a finder pattern, or miss the alignment pattern, between 25° and 65°
+  it.each([
+    [300, 'M' as ErrorCorrectionLevel],
+    [300, 'H' as ErrorCorrectionLevel],
+    [500, 'H' as ErrorCorrectionLevel],
+  ])('reads %i characters at level %s rotated and tilted', (length, level) => {
+    const text = textOfLength(length, length);
+    const symbol = encodeQR(text, { errorCorrectionLevel: level, boostErrorCorrection: false });
+    const next = random(length);
+
+    const failures: string[] = [];
+    for (const [rotation, tilt] of [[25, 0.2], [45, 0], [65, 0.2]]) {
+      const image = renderQR(symbol.modules, { moduleSize: 4.5 + next(), rotation, tilt, offset: next(), samples: 2 });
+      if (decodeQR(image)?.text !== text) {
+        failures.push(`${rotation}° with tilt ${tilt}`);
+      }
+    }
+    expect(failures).toEqual([]);
+  });
+
+  it('reads the version of large symbols whose size is hard to estimate', () => {
+    const text = textOfLength(1000, 1);
+    const symbol = encodeQR(text, { errorCorrectionLevel: 'H', boostErrorCorrection: false });
+    expect(symbol.version).toBeGreaterThan(30);
+
+    const result = decodeQR(renderQR(symbol.modules, { moduleSize: 4.5, rotation: 3, offset: 0.8 }));
+    expect(result?.text).toBe(text);
+  });
+
+  it('reads small modules', () => {
+    const text = PAYLOADS[2];
+    const symbol = encodeQR(text, { errorCorrectionLevel: 'M' });
+    [3, 3.5, 4].forEach((moduleSize) => {
+      expect(decodeQR(renderQR(symbol.modules, { moduleSize, rotation: 30 }))?.text).toBe(text);
+    });
+  });
+
+  it('reads mirrored codes', () => {
+    const text = PAYLOADS[1];
+    const symbol = encodeQR(text);
+    const mirrored = symbol.modules.map((row) => row.slice().reverse());
+    expect(decodeQR(renderQR(mirrored))?.text).toBe(text);
+  });
+
+  it('reads light-on-dark codes only when asked to', () => {
+    const text = PAYLOADS[1];
+    const image = renderQR(encodeQR(text).modules, { inverted: true, margin: 40 });
+    expect(decodeQR(image)).toBeNull();
+    expect(decodeQR(image, { tryInverted: true })?.text).toBe(text);
+  });
+
+  it('reports the corners of the symbol', () => {
+    const symbol = encodeQR(PAYLOADS[0]);
+    const result = decodeQR(renderQR(symbol.modules, { moduleSize: 10, quietZone: 4, margin: 0 }));
+
+    // The symbol starts after the 4-module quiet zone
+    expect(result?.corners[0].x).toBeCloseTo(40, 0);
+    expect(result?.corners[0].y).toBeCloseTo(40, 0);
+    expect(result?.corners[2].x).toBeCloseTo(40 + symbol.size * 10, 0);
+    expect(result?.corners[2].y).toBeCloseTo(40 + symbol.size * 10, 0);
+  });
+
+  it('returns null without a code', () => {
+    const blank = { data: new Uint8ClampedArray(200 * 200 * 4).fill(255), width: 200, height: 200 };
+    expect(decodeQR(blank)).toBeNull();
+  });
+
+  it('rejects truncated image data', () => {
+    expect(() => decodeQR({ data: new Uint8ClampedArray(10), width: 100, height: 100 })).toThrow('Invalid image data');
+  });
+});
+
+// Bitstreams assembled by hand from the worked examples in ISO/IEC 18004
+describe('decodeQR on hand-built codes', () => {
+  it('reads numeric mode', () => {
+    // 0001 | count 8 | 012 345 as 10 bits each | 67 as 7 bits | terminator
+    const data = [0x10, 0x20, 0x0c, 0x56, 0x61, 0x80, 0xec, 0x11, 0xec, 0x11, 0xec, 0x11, 0xec, 0x11, 0xec, 0x11];
+    const ec = computeErrorCorrection(data, getBlockLayout(1, 'M').ecCodewordsPerBlock);
+    // The error correction codewords the standard lists for this example
+    expect(ec).toEqual([0xa5, 0x24, 0xd4, 0xc1, 0xed, 0x36, 0xc7, 0x87, 0x2c, 0x55]);
+
+    const result = decodeQR(renderQR(layoutVersion1([...data, ...ec], 'M', 2), { rotation: 15 }));
+    expect(result?.text).toBe('01234567');
+    expect(result?.segments).toEqual([{ mode: 'numeric', text: '01234567' }]);
+    expect(result?.errorCorrectionLevel).toBe('M');
+  });
+
+  describe('kanji mode', () => {
+    // 1000 | count 2 | 点 (Shift JIS 935F) and 茗 (E4AA) as 13 bits each
+    const data = [0x80, 0x26, 0xcf, 0xea, 0xa8, 0x00, 0xec, 0x11, 0xec];
+    const image = renderQR(
+      layoutVersion1([...data, ...computeErrorCorrection(data, getBlockLayout(1, 'H').ecCodewordsPerBlock)], 'H', 5),
+      { rotation: 40 }
+    );
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('reads it with a Shift JIS capable TextDecoder', () => {
+      // Node's decoder knows Shift JIS; the one Expo installs does not
+      jest.spyOn(global, 'TextDecoder', 'get').mockReturnValue(require('util').TextDecoder);
+
+      const result = decodeQR(image);
+      expect(result?.text).toBe('点茗');
+      expect(result?.segments).toEqual([{ mode: 'kanji', text: '点茗' }]);
+      expect(result?.bytes).toEqual([]);
+    });
+
+    it('replaces the characters without one', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest.spyOn(global, 'TextDecoder', 'get').mockReturnValue(class {
+        constructor(label: string) {
+          throw new RangeError(`Unknown encoding: ${label}`);
+        }
+      } as unknown as typeof TextDecoder);
+
+      expect(decodeQR(image)?.segments).toEqual([{ mode: 'kanji', text: '��' }]);
+    });
+  });
+});
+
+describe('decodeQR on damaged codes', () => {
+  const text = 'myapp://agent/3f2c9a1e?pay=1';
+  const symbol = encodeQR(text, { errorCorrectionLevel: 'H', minVersion: 5, maxVersion: 5, boostErrorCorrection: false });
+  const blocks = getBlockCodewords(5, 'H');
+  // Each block corrects up to half its EC codewords
+  const correctable = getBlockLayout(5, 'H').ecCodewordsPerBlock / 2;
+
+  it.each(LEVELS)('corrects a level %s code damaged up to its capacity', (level) => {
+    const leveled = encodeQR(text, { errorCorrectionLevel: level, minVersion: 5, maxVersion: 5, boostErrorCorrection: false });
+    const layoutBlocks = getBlockCodewords(5, level);
+    const capacity = getBlockLayout(5, level).ecCodewordsPerBlock / 2;
+    const next = random(7);
+
+    // Wreck whole codewords: every module of `capacity` codewords per block
+    const cells = layoutBlocks.flatMap((codewords) =>
+      codewords
+        .map((codeword) => ({ codeword, order: next() }))
+        .sort((a, b) => a.order - b.order)
+        .slice(0, capacity)
+        .flatMap(({ codeword }) => codeword)
+    );
+    const image = renderQR(flip(leveled.modules, cells), { rotation: 20 });
+    expect(decodeQR(image)?.text).toBe(text);
+  });
+
+  it('gives up one codeword past the capacity of a block', () => {
+    const cells = blocks[0].slice(0, correctable + 1).map((codeword) => codeword[0]);
+    expect(decodeQR(renderQR(flip(symbol.modules, cells)))).toBeNull();
+  });
+
+  it('survives a large blotch over the data', () => {
+    // 12x12 modules, about 18 codewords spread over the four blocks
+    const cells: [number, number][] = [];
+    for (let row = 12; row < 24; row++) {
+      for (let column = 12; column < 24; column++) {
+        cells.push([row, column]);
+      }
+    }
+    expect(decodeQR(renderQR(flip(symbol.modules, cells), { rotation: 45 }))?.text).toBe(text);
+  });
+
+  // Scattered damage hits a different codeword with nearly every module, so
+  // about 40 flipped modules already exceed some block's capacity about half
+  // the time. That is the Reed–Solomon limit, not a decoder fault.
+  it('reads scattered damage whenever every block is within its capacity', () => {
+    const positions = blocks.map((codewords) => codewords.flat());
+    const dataCells = positions.flat();
+    const next = random(11);
+    const outcomes = new Set<boolean>();
+
+    for (let trial = 0; trial < 12; trial++) {
+      const cells = new Map<string, [number, number]>();
+      while (cells.size < 40) {
+        const cell = dataCells[Math.floor(next() * dataCells.length)];
+        cells.set(cell.join(','), cell);
+      }
+
+      const hitPerBlock = blocks.map((codewords) =>
+        codewords.filter((codeword) => codeword.some((cell) => cells.has(cell.join(',')))).length
+      );
+      const withinCapacity = hitPerBlock.every((hits) => hits <= correctable);
+      const result = decodeQR(renderQR(flip(symbol.modules, Array.from(cells.values())), { moduleSize: 4 }));
+
+      expect(result?.text === text).toBe(withinCapacity);
+      outcomes.add(withinCapacity);
+    }
+
+    // The trials cover both sides of the limit
+    expect(outcomes.size).toBe(2);
+  });
+});
@@ -0,0 +1,129 @@
+// Pure TypeScript QR code reader for camera frames and images, and encoder
+// for generating codes. Works on raw RGBA pixels and plain module grids, so
+// it runs anywhere without a native module.
+
+import { BitMatrix, QRImageData, binarize, toLuminance } from './binarizer';
+import { DecodedSymbol, VersionMismatchError, decodeGrid } from './decoder';
+import { Point, QRLocation, getGridAnchors, getModuleTransform, locateQRCodes, sampleGrid, scoreGridFit } from './detector';
+import { getSymbolSize } from './version';
+
+export { encodeQR } from './encoder';
+export type { QREncodeOptions, QRSymbol } from './encoder';
+export type { QRImageData } from './binarizer';
+export type { DecodedSymbol, QRSegment } from './decoder';
+export type { Point } from './detector';
+export type { ErrorCorrectionLevel, QRMode } from './version';
+
+export interface QRDecodeResult extends DecodedSymbol {
+  // Outer corners of the symbol in image pixels, clockwise from top-left
+  corners: [Point, Point, Point, Point];
+  // Finder pattern centres
+  finderPatterns: { topLeft: Point; topRight: Point; bottomLeft: Point };
+}
+
+export interface QRDecodeOptions {
+  // Also look for light-on-dark codes (slower when nothing is found)
+  tryInverted?: boolean;
+}
+
+// Grids whose function patterns match worse than this are not decoded
+const MIN_GRID_FIT = 0.75;
+
+// Best-fitting grids decoded per candidate size
+const MAX_DECODE_ATTEMPTS = 4;
+
+function transpose(grid: BitMatrix): BitMatrix {
+  const result = new BitMatrix(grid.height, grid.width);
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 0; x < grid.width; x++) {
+      result.set(y, x, grid.get(x, y));
+    }
+  }
+  return result;
+}
+
+function decodeAt(matrix: BitMatrix, location: QRLocation): QRDecodeResult | null {
+  // The estimated size can be off by a version either way under perspective
+  const dimensions = [location.dimension, location.dimension + 4, location.dimension - 4]
+    .filter((dimension) => dimension >= getSymbolSize(1) && dimension <= getSymbolSize(40));
+
+  for (let i = 0; i < dimensions.length; i++) {
+    const dimension = dimensions[i];
+
+    const transforms = getGridAnchors(matrix, location, dimension)
+      .map((anchor) => {
+        const transform = getModuleTransform(location, dimension, anchor);
+        return { transform, fit: scoreGridFit(matrix, transform, dimension) };
+      })
+      .filter(({ fit }) => fit >= MIN_GRID_FIT)
+      .sort((a, b) => b.fit - a.fit)
+      .slice(0, MAX_DECODE_ATTEMPTS);
+
+    for (const { transform } of transforms) {
+      const grid = sampleGrid(matrix, transform, dimension);
+
+      // Mirrored codes read correctly once transposed
+      for (const candidate of [grid, transpose(grid)]) {
+        try {
+          const symbol = decodeGrid(candidate);
+          return {
+            ...symbol,
+            corners: [
+              transform.transform({ x: 0, y: 0 }),
+              transform.transform({ x: dimension, y: 0 }),
+              transform.transform({ x: dimension, y: dimension }),
+              transform.transform({ x: 0, y: dimension }),
+            ],
+            finderPatterns: {
+              topLeft: { x: location.topLeft.x, y: location.topLeft.y },
+              topRight: { x: location.topRight.x, y: location.topRight.y },
+              bottomLeft: { x: location.bottomLeft.x, y: location.bottomLeft.y },
+            },
+          };
+        } catch (error) {
+          if (error instanceof VersionMismatchError) {
+            const size = getSymbolSize(error.version);
+            if (!dimensions.includes(size)) {
+              dimensions.splice(i + 1, 0, size);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+function decodeMatrix(matrix: BitMatrix): QRDecodeResult | null {
+  for (const location of locateQRCodes(matrix)) {
+    const result = decodeAt(matrix, location);
+    if (result) {
+      return result;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find and decode a QR code in an RGBA image. Returns null when no readable
+ * code is found.
+ *
+ * Codes read at any rotation and with moderate perspective; symbols above
+ * version 16 may be missed when one edge looks about a third shorter than
+ * the other. Damage is corrected up to the Reed–Solomon limit of half the
+ * EC codewords per block, so a compact blotch is survivable where the same
+ * number of scattered modules (about 40 in a 5-H code) is often not.
+ */
+export function decodeQR(image: QRImageData, options: QRDecodeOptions = {}): QRDecodeResult | null {
+  if (image.width <= 0 || image.height <= 0 || image.data.length < image.width * image.height * 4) {
+    throw new Error(`Invalid image data (${image.width}x${image.height}, ${image.data.length} bytes)`);
+  }
+
+  const matrix = binarize(toLuminance(image), image.width, image.height);
+  const result = decodeMatrix(matrix);
+  if (result || !options.tryInverted) {
+    return result;
+  }
+  return decodeMatrix(matrix.inverted());
+}
@@ -0,0 +1,161 @@
+// Reed-Solomon encoding and error correction over GF(256) as used by QR
+// codes: the generator's roots are 2^0 .. 2^(ecCount - 1)
+
+import { gfExp, gfDivide, gfMultiply } from './galois';
+
+// Polynomials below are stored lowest degree first
+function evaluate(poly: number[], x: number): number {
+  let result = 0;
+  for (let i = poly.length - 1; i >= 0; i--) {
+    result = gfMultiply(result, x) ^ poly[i];
+  }
+  return result;
+}
+
+/**
+ * Correct a block of codewords in place (data followed by `ecCount` error
+ * correction codewords, first codeword being the highest-degree term).
+ * Returns the number of corrected codewords; throws when the block has more
+ * errors than the code can correct.
+ */
+export function correctErrors(codewords: number[], ecCount: number): number {
+  const n = codewords.length;
+
+  const syndromes: number[] = [];
+  let hasErrors = false;
+  for (let j = 0; j < ecCount; j++) {
+    let value = 0;
+    const root = gfExp(j);
+    for (let i = 0; i < n; i++) {
+      value = gfMultiply(value, root) ^ codewords[i];
+    }
+    syndromes.push(value);
+    hasErrors = hasErrors || value !== 0;
+  }
+  if (!hasErrors) {
+    return 0;
+  }
+
+  // Berlekamp-Massey for the error locator polynomial
+  let locator = [1];
+  let previous = [1];
+  let errorCount = 0;
+  let shift = 1;
+  let previousDiscrepancy = 1;
+
+  for (let k = 0; k < ecCount; k++) {
+    let discrepancy = syndromes[k];
+    for (let i = 1; i <= errorCount; i++) {
+      discrepancy ^= gfMultiply(locator[i] ?? 0, syndromes[k - i]);
+    }
+
+    if (discrepancy === 0) {
+      shift++;
+      continue;
+    }
+
+    const scale = gfDivide(discrepancy, previousDiscrepancy);
+    const next = locator.slice();
+    for (let i = 0; i < previous.length; i++) {
+      next[i + shift] = (next[i + shift] ?? 0) ^ gfMultiply(scale, previous[i]);
+    }
+
+    if (2 * errorCount <= k) {
+      previous = locator;
+      errorCount = k + 1 - errorCount;
+      previousDiscrepancy = discrepancy;
+      shift = 1;
+    } else {
+      shift++;
+    }
+    locator = next;
+  }
+
+  if (errorCount * 2 > ecCount) {
+    throw new Error('Too many errors to correct');
+  }
+
+  // Chien search: codeword i is the coefficient of x^(n - 1 - i)
+  const positions: number[] = [];
+  for (let i = 0; i < n; i++) {
+    const degree = n - 1 - i;
+    if (evaluate(locator, gfExp(255 - (degree % 255))) === 0) {
+      positions.push(i);
+    }
+  }
+  if (positions.length !== errorCount) {
+    throw new Error('Error locator does not match the codewords');
+  }
+
+  // Forney: error evaluator and the locator's formal derivative
+  const evaluator: number[] = new Array(ecCount).fill(0);
+  for (let i = 0; i < ecCount; i++) {
+    for (let j = 0; j <= i && j < locator.length; j++) {
+      evaluator[i] ^= gfMultiply(locator[j], syndromes[i - j]);
+    }
+  }
+  const derivative: number[] = [];
+  for (let i = 1; i < locator.length; i += 2) {
+    derivative[i - 1] = locator[i];
+    derivative[i] = 0;
+  }
+
+  for (const position of positions) {
+    const degree = n - 1 - position;
+    const x = gfExp(degree);
+    const xInverse = gfExp(255 - (degree % 255));
+    const denominator = evaluate(derivative, xInverse);
+    if (denominator === 0) {
+      throw new Error('Cannot compute error magnitude');
+    }
+    codewords[position] ^= gfMultiply(x, gfDivide(evaluate(evaluator, xInverse), denominator));
+  }
+
+  return errorCount;
+}
+
+// Generator polynomials by degree, highest degree first (leading 1 included)
+const generators = new Map<number, number[]>();
+
+function getGenerator(degree: number): number[] {
+  const cached = generators.get(degree);
+  if (cached) {
+    return cached;
+  }
+
+  // Product of (x - 2^i) for i in 0 .. degree - 1
+  let generator = [1];
+  for (let i = 0; i < degree; i++) {
+    const root = gfExp(i);
+    const next = new Array<number>(generator.length + 1).fill(0);
+    generator.forEach((coefficient, j) => {
+      next[j] ^= coefficient;
+      next[j + 1] ^= gfMultiply(coefficient, root);
+    });
+    generator = next;
+  }
+
+  generators.set(degree, generator);
+  return generator;
+}
+
+/**
+ * Error correction codewords for a block of data codewords (first codeword
+ * being the highest-degree term): the remainder of the data, shifted up by
+ * `ecCount` terms, divided by the generator
+ */
+export function computeErrorCorrection(data: number[], ecCount: number): number[] {
+  const generator = getGenerator(ecCount);
+  const remainder = new Array<number>(ecCount).fill(0);
+
+  for (const codeword of data) {
+    const factor = codeword ^ remainder[0];
+    remainder.shift();
+    remainder.push(0);
+    for (let i = 0; i < ecCount; i++) {
+      remainder[i] ^= gfMultiply(generator[i + 1], factor);
+    }
+  }
+
+  return remainder;
+}
@@ -0,0 +1,387 @@
+// QR code symbol structure from ISO/IEC 18004: error correction block
+// layout, alignment pattern positions, function pattern areas and the BCH
+// coded format and version information
+
+export type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export type QRMode = 'numeric' | 'alphanumeric' | 'byte' | 'kanji';
+
+export const MIN_VERSION = 1;
+export const MAX_VERSION = 40;
+
+// Format information encodes the level in two bits, not in L/M/Q/H order
+export const ECC_FORMAT_BITS: Record<ErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+const LEVEL_INDEX: Record<ErrorCorrectionLevel, number> = { L: 0, M: 1, Q: 2, H: 3 };
+
+// Error correction codewords per block, by level then version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: number[][] = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+// Number of error correction blocks, by level then version (index 0 unused)
+const ECC_BLOCK_COUNT: number[][] = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+// Character count indicator widths for versions 1-9, 10-26 and 27-40
+const CHARACTER_COUNT_BITS: Record<QRMode, [number, number, number]> = {
+  numeric: [10, 12, 14],
+  alphanumeric: [9, 11, 13],
+  byte: [8, 16, 16],
+  kanji: [8, 10, 12],
+};
+
+export const MODE_INDICATORS: Record<QRMode, number> = {
+  numeric: 0x1,
+  alphanumeric: 0x2,
+  byte: 0x4,
+  kanji: 0x8,
+};
+
+export const ALPHANUMERIC_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+const FORMAT_GENERATOR = 0x537;
+const FORMAT_MASK = 0x5412;
+const VERSION_GENERATOR = 0x1f25;
+
+export interface BlockLayout {
+  // Codewords in the whole symbol, data and error correction
+  totalCodewords: number;
+  dataCodewords: number;
+  ecCodewordsPerBlock: number;
+  // Data codewords of each block in interleaving order; the short blocks
+  // come first and are one codeword shorter
+  blockDataLengths: number[];
+}
+
+export function getSymbolSize(version: number): number {
+  return version * 4 + 17;
+}
+
+export function getCharacterCountBits(mode: QRMode, version: number): number {
+  const widths = CHARACTER_COUNT_BITS[mode];
+  return version <= 9 ? widths[0] : version <= 26 ? widths[1] : widths[2];
+}
+
+// Modules left for codewords once function patterns are placed, including
+// the remainder bits
+function getRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignmentCount - 10) * alignmentCount - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+}
+
+export function getBlockLayout(version: number, level: ErrorCorrectionLevel): BlockLayout {
+  const levelIndex = LEVEL_INDEX[level];
+  const blockCount = ECC_BLOCK_COUNT[levelIndex][version];
+  const ecCodewordsPerBlock = ECC_CODEWORDS_PER_BLOCK[levelIndex][version];
+  const totalCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlockCount = blockCount - (totalCodewords % blockCount);
+  const shortBlockLength = Math.floor(totalCodewords / blockCount);
+
+  const blockDataLengths: number[] = [];
+  for (let i = 0; i < blockCount; i++) {
+    blockDataLengths.push(shortBlockLength - ecCodewordsPerBlock + (i < shortBlockCount ? 0 : 1));
+  }
+
+  return {
+    totalCodewords,
+    dataCodewords: totalCodewords - ecCodewordsPerBlock * blockCount,
+    ecCodewordsPerBlock,
+    blockDataLengths,
+  };
+}
+
+// Centre coordinates of the alignment patterns along each axis
+export function getAlignmentPositions(version: number): number[] {
+  if (version === 1) {
+    return [];
+  }
+
+  const count = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let position = getSymbolSize(version) - 7; positions.length < count; position -= step) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+}
+
+/**
+ * The fixed modules of the finder patterns (with their separators), timing
+ * patterns, alignment patterns and the dark module, as [row, column, dark].
+ * Format and version information are not included.
+ */
+export function getFunctionPatterns(version: number): [number, number, boolean][] {
+  const size = getSymbolSize(version);
+  const modules: [number, number, boolean][] = [];
+
+  // Finder patterns: 7x7 concentric squares in a light separator ring
+  for (const [top, left] of [[0, 0], [0, size - 7], [size - 7, 0]]) {
+    for (let dy = -1; dy <= 7; dy++) {
+      for (let dx = -1; dx <= 7; dx++) {
+        const row = top + dy;
+        const column = left + dx;
+        if (row < 0 || column < 0 || row >= size || column >= size) {
+          continue;
+        }
+        const ring = Math.max(Math.abs(dy - 3), Math.abs(dx - 3));
+        modules.push([row, column, ring !== 2 && ring !== 4]);
+      }
+    }
+  }
+
+  for (let i = 8; i < size - 8; i++) {
+    modules.push([6, i, i % 2 === 0]);
+    modules.push([i, 6, i % 2 === 0]);
+  }
+
+  const alignment = getAlignmentPositions(version);
+  const last = alignment.length - 1;
+  alignment.forEach((row, i) => {
+    alignment.forEach((column, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+        return;
+      }
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          modules.push([row + dy, column + dx, Math.max(Math.abs(dy), Math.abs(dx)) !== 1]);
+        }
+      }
+    });
+  });
+
+  modules.push([size - 8, 8, true]);
+  return modules;
+}
+
+/**
+ * Modules reserved for finder, timing and alignment patterns and for format
+ * and version information, indexed [row][column]. Everything else carries
+ * codewords.
+ */
+export function getFunctionPatternMask(version: number): boolean[][] {
+  const size = getSymbolSize(version);
+  const mask: boolean[][] = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const fill = (top: number, left: number, height: number, width: number) => {
+    for (let y = Math.max(0, top); y < Math.min(size, top + height); y++) {
+      for (let x = Math.max(0, left); x < Math.min(size, left + width); x++) {
+        mask[y][x] = true;
+      }
+    }
+  };
+
+  // Finder patterns with separators and the format information next to them
+  fill(0, 0, 9, 9);
+  fill(0, size - 8, 9, 8);
+  fill(size - 8, 0, 8, 9);
+
+  // Timing patterns
+  fill(6, 0, 1, size);
+  fill(0, 6, size, 1);
+
+  const alignment = getAlignmentPositions(version);
+  const last = alignment.length - 1;
+  alignment.forEach((row, i) => {
+    alignment.forEach((column, j) => {
+      // The three corners overlap the finder patterns
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+        return;
+      }
+      fill(row - 2, column - 2, 5, 5);
+    });
+  });
+
+  if (version >= 7) {
+    fill(0, size - 11, 6, 3);
+    fill(size - 11, 0, 3, 6);
+  }
+
+  return mask;
+}
+
+export function isMasked(mask: number, row: number, column: number): boolean {
+  switch (mask) {
+    case 0: return (row + column) % 2 === 0;
+    case 1: return row % 2 === 0;
+    case 2: return column % 3 === 0;
+    case 3: return (row + column) % 3 === 0;
+    case 4: return (Math.floor(row / 2) + Math.floor(column / 3)) % 2 === 0;
+    case 5: return ((row * column) % 2) + ((row * column) % 3) === 0;
+    case 6: return (((row * column) % 2) + ((row * column) % 3)) % 2 === 0;
+    case 7: return (((row + column) % 2) + ((row * column) % 3)) % 2 === 0;
+    default: throw new Error(`Invalid mask pattern ${mask}`);
+  }
+}
+
+// Remainder of value * x^(generator degree) divided by the generator
+function bchRemainder(value: number, generator: number): number {
+  const degree = Math.floor(Math.log2(generator));
+  let remainder = value << degree;
+  for (let bit = Math.floor(Math.log2(remainder || 1)); bit >= degree; bit--) {
+    if ((remainder >> bit) & 1) {
+      remainder ^= generator << (bit - degree);
+    }
+  }
+  return remainder;
+}
+
+// The 15-bit format information word, bit 14 first
+export function getFormatBits(level: ErrorCorrectionLevel, mask: number): number {
+  const data = (ECC_FORMAT_BITS[level] << 3) | mask;
+  return ((data << 10) | bchRemainder(data, FORMAT_GENERATOR)) ^ FORMAT_MASK;
+}
+
+// The 18-bit version information word for versions 7 and up
+export function getVersionBits(version: number): number {
+  return (version << 12) | bchRemainder(version, VERSION_GENERATOR);
+}
+
+function hammingDistance(a: number, b: number): number {
+  let difference = a ^ b;
+  let count = 0;
+  while (difference) {
+    count += difference & 1;
+    difference >>>= 1;
+  }
+  return count;
+}
+
+/**
+ * Closest valid format information to the bits read from either copy, or
+ * null when neither is within the code's three-bit correction capacity
+ */
+export function decodeFormatBits(...candidates: number[]): { level: ErrorCorrectionLevel; mask: number } | null {
+  let best: { level: ErrorCorrectionLevel; mask: number } | null = null;
+  let bestDistance = 4;
+
+  (Object.keys(ECC_FORMAT_BITS) as ErrorCorrectionLevel[]).forEach((level) => {
+    for (let mask = 0; mask < 8; mask++) {
+      const expected = getFormatBits(level, mask);
+      candidates.forEach((candidate) => {
+        const distance = hammingDistance(candidate, expected);
+        if (distance < bestDistance) {
+          best = { level, mask };
+          bestDistance = distance;
+        }
+      });
+    }
+  });
+
+  return best;
+}
+
+// Closest version to the version information read from either copy
+export function decodeVersionBits(...candidates: number[]): number | null {
+  let best: number | null = null;
+  let bestDistance = 4;
+
+  for (let version = 7; version <= MAX_VERSION; version++) {
+    const expected = getVersionBits(version);
+    candidates.forEach((candidate) => {
+      const distance = hammingDistance(candidate, expected);
+      if (distance < bestDistance) {
+        best = version;
+        bestDistance = distance;
+      }
+    });
+  }
+
+  return best;
+}
+
+/**
+ * Module coordinates ([row, column]) of the format information bits, most
+ * significant bit first, for the copy around the top-left finder and the
+ * copy split between the other two
+ */
+export function getFormatBitPositions(version: number): { primary: [number, number][]; secondary: [number, number][] } {
+  const size = getSymbolSize(version);
+  const primary: [number, number][] = [];
+  const secondary: [number, number][] = [];
+
+  // Bit i (0 = least significant) of the word
+  for (let i = 14; i >= 0; i--) {
+    if (i <= 5) primary.push([i, 8]);
+    else if (i === 6) primary.push([7, 8]);
+    else if (i === 7) primary.push([8, 8]);
+    else if (i === 8) primary.push([8, 7]);
+    else primary.push([8, 14 - i]);
+
+    if (i <= 7) secondary.push([8, size - 1 - i]);
+    else secondary.push([size - 15 + i, 8]);
+  }
+
+  return { primary, secondary };
+}
+
+/**
+ * Module coordinates ([row, column]) of the version information bits, most
+ * significant bit first, for the copies above the bottom-left finder and
+ * left of the top-right finder
+ */
+export function getVersionBitPositions(version: number): { bottomLeft: [number, number][]; topRight: [number, number][] } {
+  const size = getSymbolSize(version);
+  const bottomLeft: [number, number][] = [];
+  const topRight: [number, number][] = [];
+
+  for (let i = 17; i >= 0; i--) {
+    const a = size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    bottomLeft.push([a, b]);
+    topRight.push([b, a]);
+  }
+
+  return { bottomLeft, topRight };
+}
+
+// Placement order per version, computed once
+const codewordPositions = new Map<number, [number, number][]>();
+
+/**
+ * Module coordinates ([row, column]) in codeword placement order: two-column
+ * strips from the right edge, alternating upwards and downwards, skipping
+ * the vertical timing pattern and every function module
+ */
+export function getCodewordPositions(version: number): [number, number][] {
+  const cached = codewordPositions.get(version);
+  if (cached) {
+    return cached;
+  }
+
+  const size = getSymbolSize(version);
+  const functionMask = getFunctionPatternMask(version);
+  const positions: [number, number][] = [];
+
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) {
+      right = 5;
+    }
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < size; vertical++) {
+      const row = upward ? size - 1 - vertical : vertical;
+      for (let j = 0; j < 2; j++) {
+        const column = right - j;
+        if (!functionMask[row][column]) {
+          positions.push([row, column]);
+        }
+      }
+    }
+  }
+
+  codewordPositions.set(version, positions);
+  return positions;
+}
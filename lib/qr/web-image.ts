@@ -0,0 +1,94 @@
+// Getting pixels for the decoder on web: images (data URLs, object URLs,
+// uploaded files) are drawn to a canvas and read back as RGBA
+
+import { Platform } from 'react-native';
+import { QRImageData } from './binarizer';
+
+// Larger images are scaled down before decoding; QR codes stay readable and
+// decoding time stays bounded (pixels on the longest side)
+const DEFAULT_MAX_DIMENSION = 1024;
+
+function assertWeb() {
+  if (Platform.OS !== 'web' || typeof document === 'undefined') {
+    throw new Error('Image decoding needs a browser canvas');
+  }
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load image'));
+    image.src = url;
+  });
+}
+
+/**
+ * Load an image URL or file into RGBA pixels, scaled so its longest side is at
+ * most `maxDimension`. Web only.
+ */
+export async function loadImageData(
+  source: string | Blob,
+  maxDimension: number = DEFAULT_MAX_DIMENSION
+): Promise<QRImageData> {
+  assertWeb();
+
+  const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+  try {
+    const image = await loadImage(url);
+    const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+    const width = Math.max(1, Math.round(image.naturalWidth * scale));
+    const height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context not available');
+    }
+    context.drawImage(image, 0, 0, width, height);
+
+    const { data } = context.getImageData(0, 0, width, height);
+    return { data, width, height };
+  } finally {
+    if (typeof source !== 'string') {
+      URL.revokeObjectURL(url);
+    }
+  }
+}
+
+/**
+ * Let the user pick an image file. Resolves null when the picker is dismissed
+ * without a choice. Web only.
+ */
+export function pickImageFile(): Promise<File | null> {
+  assertWeb();
+
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'image/*';
+    input.style.display = 'none';
+
+    const finish = (file: File | null) => {
+      window.removeEventListener('focus', handleFocus);
+      input.remove();
+      resolve(file);
+    };
+    // Browsers fire no event when the dialog is cancelled; the window
+    // regaining focus without a change is the closest signal
+    const handleFocus = () => {
+      setTimeout(() => {
+        if (!input.files || input.files.length === 0) {
+          finish(null);
+        }
+      }, 500);
+    };
+
+    input.addEventListener('change', () => finish(input.files?.[0] ?? null));
+    window.addEventListener('focus', handleFocus);
+    document.body.appendChild(input);
+    input.click();
+  });
+}
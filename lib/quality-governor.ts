@@ -0,0 +1,186 @@
+import { ARCapabilities } from '@/types/ar';
+import { ProfilerSnapshot } from '@/lib/render-profiler';
+
+export type QualityLevel = ARCapabilities['performanceLevel'];
+
+// 'auto' adapts to the measured frame time; 'battery-saver' pins the lowest
+// preset (the "Performance Mode" toggle in settings)
+export type QualityPreference = 'auto' | 'battery-saver';
+
+export interface QualityPreset {
+  level: QualityLevel;
+  antialias: boolean;
+  shadows: boolean;
+  shadowMapSize: number;
+  // Upper bound on the renderer pixel ratio; the device ratio still applies
+  maxPixelRatio: number;
+  // Multiplier on the LOD switch distances; lower drops detail sooner
+  lodBias: number;
+  maxObjects: number;
+}
+
+export const QUALITY_PRESETS: Record<QualityLevel, QualityPreset> = {
+  high: {
+    level: 'high',
+    antialias: true,
+    shadows: true,
+    shadowMapSize: 2048,
+    maxPixelRatio: 2,
+    lodBias: 1,
+    maxObjects: 50,
+  },
+  medium: {
+    level: 'medium',
+    antialias: true,
+    shadows: true,
+    shadowMapSize: 1024,
+    maxPixelRatio: 1.5,
+    lodBias: 0.75,
+    maxObjects: 30,
+  },
+  low: {
+    level: 'low',
+    antialias: false,
+    shadows: false,
+    shadowMapSize: 512,
+    maxPixelRatio: 1,
+    lodBias: 0.5,
+    maxObjects: 15,
+  },
+};
+
+const LEVELS: QualityLevel[] = ['low', 'medium', 'high'];
+
+export interface QualityGovernorOptions {
+  // Frame time the governor tries to hold at the 95th percentile
+  targetFrameTimeMs?: number;
+  // How often the frame statistics are evaluated (milliseconds)
+  evaluationIntervalMs?: number;
+  // Time after a change before the next one, so the rolling window reflects
+  // the new settings (milliseconds)
+  settleTimeMs?: number;
+  // Consecutive good evaluations needed before stepping back up
+  upgradeAfter?: number;
+}
+
+/**
+ * Picks a quality preset from the device class and steps it down when the
+ * measured frame time misses the target, and back up (never above the
+ * device's own level) once there is sustained headroom
+ */
+export class QualityGovernor {
+  private ceiling: QualityLevel;
+  private current: QualityLevel;
+  private preference: QualityPreference = 'auto';
+  private lastEvaluation = 0;
+  private lastChange = 0;
+  private goodEvaluations = 0;
+  private callbacks: ((preset: QualityPreset) => void)[] = [];
+  private targetFrameTimeMs: number;
+  private evaluationIntervalMs: number;
+  private settleTimeMs: number;
+  private upgradeAfter: number;
+
+  constructor(performanceLevel: QualityLevel = 'medium', options: QualityGovernorOptions = {}) {
+    this.ceiling = performanceLevel;
+    this.current = performanceLevel;
+    this.targetFrameTimeMs = options.targetFrameTimeMs ?? 1000 / 30;
+    this.evaluationIntervalMs = options.evaluationIntervalMs ?? 2000;
+    this.settleTimeMs = options.settleTimeMs ?? 4000;
+    this.upgradeAfter = options.upgradeAfter ?? 3;
+  }
+
+  public getPreset(): QualityPreset {
+    return QUALITY_PRESETS[this.current];
+  }
+
+  public getPreference(): QualityPreference {
+    return this.preference;
+  }
+
+  public setPreference(preference: QualityPreference) {
+    if (preference === this.preference) {
+      return;
+    }
+
+    this.preference = preference;
+    this.goodEvaluations = 0;
+    this.setLevel(preference === 'battery-saver' ? 'low' : this.ceiling);
+  }
+
+  // Re-seed from new device capabilities, e.g. once detection has finished
+  public setPerformanceLevel(performanceLevel: QualityLevel) {
+    this.ceiling = performanceLevel;
+    if (this.preference === 'auto') {
+      this.setLevel(performanceLevel);
+    }
+  }
+
+  /**
+   * Feed the latest profiler snapshot. Returns the new preset when the level
+   * changed, otherwise null.
+   */
+  public update(snapshot: ProfilerSnapshot, now: number): QualityPreset | null {
+    if (this.preference !== 'auto' || now - this.lastEvaluation < this.evaluationIntervalMs) {
+      return null;
+    }
+    this.lastEvaluation = now;
+
+    if (now - this.lastChange < this.settleTimeMs || snapshot.frameTimeP95 <= 0) {
+      return null;
+    }
+
+    const index = LEVELS.indexOf(this.current);
+
+    if (snapshot.frameTimeP95 > this.targetFrameTimeMs * 1.25 && index > 0) {
+      console.log(`📉 Frame time p95 ${snapshot.frameTimeP95}ms over budget, lowering quality`);
+      return this.setLevel(LEVELS[index - 1], now);
+    }
+
+    if (snapshot.frameTimeP95 < this.targetFrameTimeMs * 0.6) {
+      this.goodEvaluations++;
+      if (this.goodEvaluations >= this.upgradeAfter && index < LEVELS.indexOf(this.ceiling)) {
+        console.log(`📈 Frame time p95 ${snapshot.frameTimeP95}ms has headroom, raising quality`);
+        return this.setLevel(LEVELS[index + 1], now);
+      }
+    } else {
+      this.goodEvaluations = 0;
+    }
+
+    return null;
+  }
+
+  public onChange(callback: (preset: QualityPreset) => void): () => void {
+    this.callbacks.push(callback);
+
+    return () => {
+      const index = this.callbacks.indexOf(callback);
+      if (index > -1) {
+        this.callbacks.splice(index, 1);
+      }
+    };
+  }
+
+  // Changes made outside update() are timed from the last evaluation so the
+  // settle time stays on the caller's clock
+  private setLevel(level: QualityLevel, now: number = this.lastEvaluation): QualityPreset | null {
+    this.goodEvaluations = 0;
+    if (level === this.current) {
+      return null;
+    }
+
+    this.current = level;
+    this.lastChange = now;
+    const preset = QUALITY_PRESETS[level];
+
+    this.callbacks.forEach((callback) => {
+      try {
+        callback(preset);
+      } catch (error) {
+        console.error('Error in quality change callback:', error);
+      }
+    });
+
+    return preset;
+  }
+}
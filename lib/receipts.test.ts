@@ -0,0 +1,107 @@
+import { PaymentSession } from '@/lib/payment-session';
+import { createReceipt, receiptsToCsv, receiptsToJson } from '@/lib/receipts';
+import { InteractionEntitlement } from '@/types/database';
+
+const SETTLED_AT = Date.UTC(2026, 9, 19, 12, 0, 0);
+
+function makeSession(overrides: Partial<PaymentSession> = {}): PaymentSession {
+  return {
+    id: 'ps_1',
+    agentId: 'agent-1',
+    agentName: 'Test Agent',
+    state: 'settled',
+    fee: 1,
+    currency: 'USDFC',
+    request: {
+      type: 'evm',
+      chainId: 314159,
+      recipient: '0x1111111111111111111111111111111111111111',
+      tokenAddress: '0xb3042734b608a1B16e9e86B374A3f3e389B4cDf0',
+      amount: 10n ** 18n + 123_456n,
+    },
+    uri: 'ethereum:0xb3042734b608a1B16e9e86B374A3f3e389B4cDf0@314159/transfer',
+    reference: '123456',
+    createdAt: SETTLED_AT - 60_000,
+    updatedAt: SETTLED_AT,
+    settledAt: SETTLED_AT,
+    expiresAt: SETTLED_AT + 240_000,
+    txHash: '0xabc',
+    payer: '0x2222222222222222222222222222222222222222',
+    confirmations: 3,
+    ...overrides,
+  };
+}
+
+const ENTITLEMENT: InteractionEntitlement = {
+  id: 'pass-1',
+  agent_id: 'agent-1',
+  wallet_address: '0x2222222222222222222222222222222222222222',
+  payment_session_id: 'ps_1',
+  amount: '1000000000000123456',
+  expires_at: '2026-10-20T12:00:00.000Z',
+  max_interactions: 20,
+  interactions_used: 0,
+};
+
+describe('createReceipt', () => {
+  it('records the payment and the pass it granted', () => {
+    expect(createReceipt(makeSession(), ENTITLEMENT)).toMatchObject({
+      id: 'ps_1',
+      amount: '1.000000000000123456',
+      amountBaseUnits: '1000000000000123456',
+      currency: 'USDFC',
+      network: 'evm',
+      chainId: 314159,
+      txHash: '0xabc',
+      settledAt: SETTLED_AT,
+      entitlementId: 'pass-1',
+      entitlementMaxInteractions: 20,
+      refunded: false,
+    });
+  });
+
+  it('keeps the settlement time of a refunded payment', () => {
+    const session = makeSession({ state: 'refunded', updatedAt: SETTLED_AT + 3_600_000, refundTxHash: '0xfee' });
+    expect(createReceipt(session, { ...ENTITLEMENT, revoked: true })).toMatchObject({
+      settledAt: SETTLED_AT,
+      entitlementId: 'pass-1',
+      refunded: true,
+      refundTxHash: '0xfee',
+    });
+  });
+
+  it('refuses sessions that were never paid', () => {
+    expect(() => createReceipt(makeSession({ state: 'expired', txHash: undefined }), null)).toThrow('has no settled payment');
+  });
+});
+
+describe('receiptsToCsv', () => {
+  it('writes a header and one row per receipt', () => {
+    const csv = receiptsToCsv([createReceipt(makeSession(), ENTITLEMENT)]);
+    const [header, row, end] = csv.split('\r\n');
+
+    expect(header.split(',')[0]).toBe('id');
+    expect(row.split(',').slice(0, 4)).toEqual(['ps_1', '2026-10-19T12:00:00.000Z', 'agent-1', 'Test Agent']);
+    expect(end).toBe('');
+  });
+
+  it('quotes fields with separators', () => {
+    const csv = receiptsToCsv([createReceipt(makeSession({ agentName: 'Bob, "the" agent' }), null)]);
+    expect(csv).toContain(',"Bob, ""the"" agent",');
+  });
+
+  it('keeps spreadsheets from running fields as formulas', () => {
+    ['=HYPERLINK("http://evil")', '+1+2', '-2+3', '@SUM(A1)', '\t=1+2', '\r=1+2'].forEach((agentName) => {
+      const row = receiptsToCsv([createReceipt(makeSession({ agentName }), null)]).split('\r\n')[1];
+      const field = row.includes('"') ? `"'${agentName.replace(/"/g, '""')}"` : `'${agentName}`;
+      expect(row).toContain(`,${field},`);
+    });
+  });
+});
+
+describe('receiptsToJson', () => {
+  it('writes timestamps as ISO 8601', () => {
+    const [receipt] = JSON.parse(receiptsToJson([createReceipt(makeSession(), null)]));
+    expect(receipt.settledAt).toBe('2026-10-19T12:00:00.000Z');
+  });
+});
@@ -0,0 +1,117 @@
+// Receipts for settled agent payments, and their CSV/JSON export for
+// accounting
+
+import { InteractionEntitlement } from '@/types/database';
+import { PaymentSession } from '@/lib/payment-session';
+import { fromBaseUnits, getPaymentDecimals } from '@/lib/payment-uri';
+
+export interface PaymentReceipt {
+  // The payment session's id; one receipt per settled session
+  id: string;
+  agentId: string;
+  agentName: string;
+  // Decimal amount in token units, and the exact amount in base units
+  amount: string;
+  amountBaseUnits: string;
+  currency: string;
+  network: 'evm' | 'algorand';
+  // Absent for Algorand
+  chainId?: number;
+  tokenAddress?: string;
+  txHash: string;
+  payer: string;
+  recipient: string;
+  // Milliseconds since the epoch
+  settledAt: number;
+  entitlementId?: string;
+  entitlementExpiresAt?: string | null;
+  entitlementMaxInteractions?: number | null;
+  refunded: boolean;
+  refundTxHash?: string;
+}
+
+// Export columns, in order
+const CSV_COLUMNS: (keyof PaymentReceipt)[] = [
+  'id',
+  'settledAt',
+  'agentId',
+  'agentName',
+  'amount',
+  'amountBaseUnits',
+  'currency',
+  'network',
+  'chainId',
+  'tokenAddress',
+  'txHash',
+  'payer',
+  'recipient',
+  'entitlementId',
+  'entitlementExpiresAt',
+  'entitlementMaxInteractions',
+  'refunded',
+  'refundTxHash',
+];
+
+/**
+ * The receipt for a settled (or later refunded) session and the pass it
+ * granted. Throws when the session was never paid.
+ */
+export function createReceipt(session: PaymentSession, entitlement: InteractionEntitlement | null): PaymentReceipt {
+  if (!session.txHash || !session.payer) {
+    throw new Error(`Payment session ${session.id} has no settled payment`);
+  }
+
+  const { request } = session;
+  return {
+    id: session.id,
+    agentId: session.agentId,
+    agentName: session.agentName,
+    amount: fromBaseUnits(request.amount, getPaymentDecimals(request)),
+    amountBaseUnits: request.amount.toString(),
+    currency: session.currency,
+    network: request.type,
+    chainId: request.type === 'evm' ? request.chainId : undefined,
+    tokenAddress: request.type === 'evm' ? request.tokenAddress : undefined,
+    txHash: session.txHash,
+    payer: session.payer,
+    recipient: request.recipient,
+    // Sessions stored before settledAt was recorded last changed on settling
+    settledAt: session.settledAt ?? session.updatedAt,
+    entitlementId: entitlement?.id,
+    entitlementExpiresAt: entitlement?.expires_at,
+    entitlementMaxInteractions: entitlement?.max_interactions,
+    refunded: session.state === 'refunded',
+    refundTxHash: session.refundTxHash,
+  };
+}
+
+function toCsvField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  let text = String(value);
+  // Spreadsheets run cells starting with these (or a tab or carriage return
+  // before a formula) as formulas; agent names come from other users
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180 CSV with a header row; timestamps as ISO 8601
+export function receiptsToCsv(receipts: PaymentReceipt[]): string {
+  const rows = receipts.map((receipt) =>
+    CSV_COLUMNS.map((column) =>
+      toCsvField(column === 'settledAt' ? new Date(receipt.settledAt).toISOString() : receipt[column])
+    ).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export function receiptsToJson(receipts: PaymentReceipt[]): string {
+  return JSON.stringify(
+    receipts.map((receipt) => ({ ...receipt, settledAt: new Date(receipt.settledAt).toISOString() })),
+    null,
+    2
+  );
+}
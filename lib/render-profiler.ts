@@ -0,0 +1,186 @@
+export interface ObjectLoadSample {
+  objectId: string;
+  name: string;
+  durationMs: number;
+  // 'model' when the model loaded, 'fallback' when a primitive replaced it
+  result: 'model' | 'fallback' | 'error';
+  timestamp: number;
+}
+
+export interface GpuMemoryInfo {
+  geometries: number;
+  textures: number;
+}
+
+export interface ProfilerSnapshot {
+  fps: number;
+  frameTimeP50: number;
+  frameTimeP95: number;
+  droppedFrames: number;
+  totalFrames: number;
+  geometries: number;
+  textures: number;
+  averageLoadTimeMs: number;
+}
+
+export interface ProfilerReport {
+  generatedAt: string;
+  durationMs: number;
+  targetFrameTimeMs: number;
+  snapshot: ProfilerSnapshot;
+  frameTimesMs: number[];
+  loads: ObjectLoadSample[];
+  environment: {
+    userAgent: string | null;
+    devicePixelRatio: number | null;
+  };
+}
+
+export interface RenderProfilerOptions {
+  // Number of recent frames the rolling statistics are computed over
+  windowSize?: number;
+  // Frame budget used to count dropped frames (milliseconds)
+  targetFrameTimeMs?: number;
+  // Number of object load samples kept for the report
+  maxLoadSamples?: number;
+}
+
+// Gaps longer than this are treated as the app being paused or backgrounded
+// rather than as slow frames
+const MAX_FRAME_GAP_MS = 1000;
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[index];
+}
+
+const round = (value: number, digits: number = 2) => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Rolling frame-time and load-time statistics for the AR render loop
+ */
+export class RenderProfiler {
+  private frameTimes: number[];
+  private frameIndex = 0;
+  private frameCount = 0;
+  private lastFrameTime: number | null = null;
+  private droppedFrames = 0;
+  private totalFrames = 0;
+  private startTime: number;
+  private loads: ObjectLoadSample[] = [];
+  private memory: GpuMemoryInfo = { geometries: 0, textures: 0 };
+  private windowSize: number;
+  private targetFrameTimeMs: number;
+  private maxLoadSamples: number;
+
+  constructor(options: RenderProfilerOptions = {}) {
+    this.windowSize = options.windowSize ?? 120;
+    this.targetFrameTimeMs = options.targetFrameTimeMs ?? 1000 / 60;
+    this.maxLoadSamples = options.maxLoadSamples ?? 200;
+    this.frameTimes = new Array(this.windowSize).fill(0);
+    this.startTime = Date.now();
+  }
+
+  /**
+   * Record the start of a rendered frame (timestamp in milliseconds, e.g.
+   * performance.now())
+   */
+  public recordFrame(now: number) {
+    if (this.lastFrameTime !== null) {
+      const delta = now - this.lastFrameTime;
+
+      if (delta > 0 && delta < MAX_FRAME_GAP_MS) {
+        this.frameTimes[this.frameIndex] = delta;
+        this.frameIndex = (this.frameIndex + 1) % this.windowSize;
+        this.frameCount = Math.min(this.frameCount + 1, this.windowSize);
+
+        // A frame that took more than one and a half budgets displaced at
+        // least one vsync
+        if (delta > this.targetFrameTimeMs * 1.5) {
+          this.droppedFrames += Math.round(delta / this.targetFrameTimeMs) - 1;
+        }
+      }
+    }
+
+    this.lastFrameTime = now;
+    this.totalFrames++;
+  }
+
+  public recordMemory(memory: GpuMemoryInfo) {
+    this.memory = { ...memory };
+  }
+
+  public recordLoad(sample: Omit<ObjectLoadSample, 'timestamp'>) {
+    this.loads.push({ ...sample, timestamp: Date.now() });
+    if (this.loads.length > this.maxLoadSamples) {
+      this.loads.shift();
+    }
+  }
+
+  // Frame times in the rolling window, oldest first
+  private getWindow(): number[] {
+    if (this.frameCount < this.windowSize) {
+      return this.frameTimes.slice(0, this.frameCount);
+    }
+    return [...this.frameTimes.slice(this.frameIndex), ...this.frameTimes.slice(0, this.frameIndex)];
+  }
+
+  public getSnapshot(): ProfilerSnapshot {
+    const window = this.getWindow();
+    const sorted = [...window].sort((a, b) => a - b);
+    const total = window.reduce((sum, value) => sum + value, 0);
+    const loadTimes = this.loads.filter((load) => load.result !== 'error');
+
+    return {
+      fps: total > 0 ? round((window.length * 1000) / total, 1) : 0,
+      frameTimeP50: round(percentile(sorted, 50)),
+      frameTimeP95: round(percentile(sorted, 95)),
+      droppedFrames: this.droppedFrames,
+      totalFrames: this.totalFrames,
+      geometries: this.memory.geometries,
+      textures: this.memory.textures,
+      averageLoadTimeMs: loadTimes.length > 0
+        ? round(loadTimes.reduce((sum, load) => sum + load.durationMs, 0) / loadTimes.length, 1)
+        : 0,
+    };
+  }
+
+  public getReport(): ProfilerReport {
+    return {
+      generatedAt: new Date().toISOString(),
+      durationMs: Date.now() - this.startTime,
+      targetFrameTimeMs: round(this.targetFrameTimeMs),
+      snapshot: this.getSnapshot(),
+      frameTimesMs: this.getWindow().map((value) => round(value)),
+      loads: [...this.loads],
+      environment: {
+        userAgent: typeof navigator !== 'undefined' && navigator.userAgent ? navigator.userAgent : null,
+        devicePixelRatio: typeof window !== 'undefined' && window.devicePixelRatio ? window.devicePixelRatio : null,
+      },
+    };
+  }
+
+  /**
+   * JSON report for comparing runs across builds
+   */
+  public exportJSON(): string {
+    return JSON.stringify(this.getReport(), null, 2);
+  }
+
+  public reset() {
+    this.frameTimes.fill(0);
+    this.frameIndex = 0;
+    this.frameCount = 0;
+    this.lastFrameTime = null;
+    this.droppedFrames = 0;
+    this.totalFrames = 0;
+    this.loads = [];
+    this.startTime = Date.now();
+  }
+}
@@ -1,5 +1,6 @@
-import { createClient } from '@supabase/supabase-js';
+import { FunctionsFetchError, FunctionsHttpError, createClient } from '@supabase/supabase-js';
 import { Platform } from 'react-native';
+import { ARMarker, InteractionEntitlement } from '@/types/database';
 
 // Get environment variables for Supabase connection
 const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL || 'https://ncjbwzibnqrbrvicdmec.supabase.co';
@@ -139,6 +140,206 @@ export const getNearbyObjectsFromSupabase = async (
   }
 };
 
+// Look up a surveyed AR marker by the id printed in its QR code. `marker` is
+// null both for unregistered ids and for failed lookups; `error` is only set
+// for the latter, so callers can retry it.
+export const getARMarkerFromSupabase = async (markerId: string): Promise<{
+  marker: ARMarker | null;
+  error?: string;
+}> => {
+  try {
+    if (!hasValidCredentials || !supabase) {
+      console.warn('⚠️ No valid Supabase credentials, cannot resolve AR marker');
+      return { marker: null, error: 'Supabase not configured' };
+    }
+
+    const { data, error } = await supabase
+      .from('ar_markers')
+      .select('*')
+      .eq('marker_id', markerId)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error fetching AR marker from Supabase:', error);
+      return { marker: null, error: error.message };
+    }
+
+    return { marker: data as ARMarker | null };
+  } catch (error: any) {
+    console.error('❌ Error in getARMarkerFromSupabase:', error);
+    return { marker: null, error: error?.message || 'Lookup failed' };
+  }
+};
+
+// Entitlements that are not revoked for an agent, paid from any of the wallets
+export const getInteractionEntitlementsFromSupabase = async (
+  agentId: string,
+  walletAddresses: string[]
+): Promise<InteractionEntitlement[] | null> => {
+  try {
+    if (!hasValidCredentials || !supabase) {
+      console.warn('⚠️ No valid Supabase credentials, cannot load entitlements');
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('interaction_entitlements')
+      .select('*')
+      .eq('agent_id', agentId)
+      .in('wallet_address', walletAddresses)
+      .eq('revoked', false);
+
+    if (error) {
+      console.error('❌ Error fetching entitlements from Supabase:', error);
+      return null;
+    }
+
+    return (data || []) as InteractionEntitlement[];
+  } catch (error) {
+    console.error('❌ Error in getInteractionEntitlementsFromSupabase:', error);
+    return null;
+  }
+};
+
+// The entitlement a payment session granted, revoked or not
+export const getInteractionEntitlementForSessionFromSupabase = async (
+  paymentSessionId: string
+): Promise<InteractionEntitlement | null> => {
+  try {
+    if (!hasValidCredentials || !supabase) {
+      console.warn('⚠️ No valid Supabase credentials, cannot load entitlement');
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('interaction_entitlements')
+      .select('*')
+      .eq('payment_session_id', paymentSessionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error fetching entitlement from Supabase:', error);
+      return null;
+    }
+
+    return data as InteractionEntitlement | null;
+  } catch (error) {
+    console.error('❌ Error in getInteractionEntitlementForSessionFromSupabase:', error);
+    return null;
+  }
+};
+
+// Outcome of asking for a pass: `unreachable` when Supabase could not be
+// asked (no credentials or no network), `retry` when the payment is not
+// confirmed enough yet or the function failed, and `refused` when the
+// function checked the payment and turned it down
+export type EntitlementGrantResult =
+  | { status: 'granted'; entitlement: InteractionEntitlement }
+  | { status: 'retry' | 'refused' | 'unreachable'; error: string };
+
+// Ask the interaction-pass function to grant the pass a payment bought. It
+// checks the transaction on chain and sets the pass terms; a payment session
+// that already granted one gets the existing pass back.
+export const grantInteractionEntitlementInSupabase = async (payment: {
+  paymentSessionId: string;
+  agentId: string;
+  chainId: number;
+  txHash: string;
+}): Promise<EntitlementGrantResult> => {
+  try {
+    if (!hasValidCredentials || !supabase) {
+      console.warn('⚠️ No valid Supabase credentials, cannot store entitlement');
+      return { status: 'unreachable', error: 'Supabase not configured' };
+    }
+
+    const { data, error } = await supabase.functions.invoke('interaction-pass', {
+      body: { action: 'grant', ...payment },
+    });
+
+    if (error) {
+      console.error('❌ Error granting entitlement in Supabase:', error);
+      if (error instanceof FunctionsFetchError) {
+        return { status: 'unreachable', error: error.message };
+      }
+      if (!(error instanceof FunctionsHttpError)) {
+        return { status: 'retry', error: error.message };
+      }
+
+      // 425: not confirmed yet; 5xx: the function itself failed
+      const response: Response = error.context;
+      const body = await response.json().catch(() => null);
+      const message = typeof body?.error === 'string' ? body.error : error.message;
+      return { status: response.status === 425 || response.status >= 500 ? 'retry' : 'refused', error: message };
+    }
+
+    if (!data?.entitlement) {
+      return { status: 'retry', error: 'No pass returned' };
+    }
+    return { status: 'granted', entitlement: data.entitlement as InteractionEntitlement };
+  } catch (error: any) {
+    console.error('❌ Error in grantInteractionEntitlementInSupabase:', error);
+    return { status: 'unreachable', error: error?.message || 'Request failed' };
+  }
+};
+
+// Count one interaction against an entitlement. Only applies while the stored
+// usage still equals `usedBefore`, so concurrent uses cannot both count the
+// same slot; returns null when it did not apply.
+export const recordEntitlementInteractionInSupabase = async (
+  entitlementId: string,
+  usedBefore: number
+): Promise<InteractionEntitlement | null> => {
+  try {
+    if (!hasValidCredentials || !supabase) {
+      console.warn('⚠️ No valid Supabase credentials, cannot record entitlement usage');
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .rpc('record_entitlement_interaction', { entitlement_id: entitlementId, used_before: usedBefore })
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error recording entitlement usage in Supabase:', error);
+      return null;
+    }
+
+    return data as InteractionEntitlement | null;
+  } catch (error) {
+    console.error('❌ Error in recordEntitlementInteractionInSupabase:', error);
+    return null;
+  }
+};
+
+// Revoke the entitlement a payment session granted after a refund; the
+// interaction-pass function checks the refund transaction on chain
+export const revokeInteractionEntitlementInSupabase = async (
+  paymentSessionId: string,
+  refundTxHash: string
+): Promise<boolean> => {
+  try {
+    if (!hasValidCredentials || !supabase) {
+      console.warn('⚠️ No valid Supabase credentials, cannot revoke entitlement');
+      return false;
+    }
+
+    const { error } = await supabase.functions.invoke('interaction-pass', {
+      body: { action: 'revoke', paymentSessionId, refundTxHash },
+    });
+
+    if (error) {
+      console.error('❌ Error revoking entitlement in Supabase:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('❌ Error in revokeInteractionEntitlementInSupabase:', error);
+    return false;
+  }
+};
+
 // Calculate distance between two coordinates (Haversine formula)
 function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
   const R = 6371; // Earth's radius in km
@@ -0,0 +1,35 @@
+import { Algodv2, Transaction } from 'algosdk';
+import { getDefaultAlgorandNetwork } from '@/lib/networks';
+import { BaseWalletConnector } from '@/lib/wallet/base';
+import { WalletChain, WalletTransactionRequest } from '@/lib/wallet/types';
+
+/**
+ * Connector for Algorand wallets. They only sign; signed groups are sent
+ * through the default Algorand network's algod node.
+ */
+export abstract class AlgorandConnector extends BaseWalletConnector {
+  readonly chainType = 'algorand';
+
+  // Signed transactions in group order
+  protected abstract signTransactions(transactions: Transaction[]): Promise<Uint8Array[]>;
+
+  protected getChain(): WalletChain {
+    return { type: 'algorand', genesisId: getDefaultAlgorandNetwork().genesisId };
+  }
+
+  async sendTransaction(transaction: WalletTransactionRequest): Promise<string> {
+    this.requireAccount();
+    const { transactions } = this.requireTransactionType(transaction, 'algorand');
+    if (transactions.length === 0) {
+      throw new Error('No transactions to send');
+    }
+
+    const signed = await this.signTransactions(transactions);
+    if (signed.length !== transactions.length) {
+      throw new Error(`${this.name} signed ${signed.length} of ${transactions.length} transactions`);
+    }
+    const algod = new Algodv2('', getDefaultAlgorandNetwork().algodUrl, '');
+    await algod.sendRawTransaction(signed).do();
+    return transactions[0].txID();
+  }
+}
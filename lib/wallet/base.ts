@@ -0,0 +1,132 @@
+import { Platform } from 'react-native';
+import * as Linking from 'expo-linking';
+import {
+  WalletChain,
+  WalletConnector,
+  WalletConnectorEvent,
+  WalletConnectorEvents,
+  WalletConnectorId,
+  WalletTransactionRequest,
+} from '@/lib/wallet/types';
+
+// How the app introduces itself to wallets
+export function getDappMetadata() {
+  return {
+    name: 'AR Viewer',
+    description: 'Geospatial AR agents you can pay and talk to',
+    // Wallets return to the app through its URL scheme on mobile
+    url: Platform.OS === 'web' ? window.location.origin : Linking.createURL(''),
+  };
+}
+
+function isSameChain(a: WalletChain | null, b: WalletChain | null): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  if (a.type === 'evm') {
+    return b.type === 'evm' && a.chainId === b.chainId;
+  }
+  return b.type === 'algorand' && a.genesisId === b.genesisId;
+}
+
+/**
+ * Connection state and events shared by all connectors; subclasses talk to
+ * their SDK and report what happened through the protected setters.
+ */
+export abstract class BaseWalletConnector implements WalletConnector {
+  abstract readonly id: WalletConnectorId;
+  abstract readonly name: string;
+  abstract readonly chainType: 'evm' | 'algorand';
+
+  private currentAccount: string | null = null;
+  private currentChain: WalletChain | null = null;
+  private listeners: { [E in WalletConnectorEvent]?: ((payload: WalletConnectorEvents[E]) => void)[] } = {};
+
+  get account(): string | null {
+    return this.currentAccount;
+  }
+
+  get chain(): WalletChain | null {
+    return this.currentChain;
+  }
+
+  abstract isAvailable(): boolean;
+  abstract connect(): Promise<string>;
+  abstract disconnect(): Promise<void>;
+  abstract signMessage(message: string): Promise<string>;
+  abstract sendTransaction(transaction: WalletTransactionRequest): Promise<string>;
+
+  on<E extends WalletConnectorEvent>(event: E, listener: (payload: WalletConnectorEvents[E]) => void): () => void {
+    const listeners = (this.listeners[event] ?? []) as ((payload: WalletConnectorEvents[E]) => void)[];
+    listeners.push(listener);
+    this.listeners[event] = listeners as typeof this.listeners[E];
+
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }
+
+  protected emit<E extends WalletConnectorEvent>(event: E, payload: WalletConnectorEvents[E]) {
+    (this.listeners[event] ?? []).forEach((listener) => {
+      try {
+        (listener as (payload: WalletConnectorEvents[E]) => void)(payload);
+      } catch (error) {
+        console.error(`Error in ${this.name} ${event} listener:`, error);
+      }
+    });
+  }
+
+  protected setConnected(account: string, chain: WalletChain) {
+    this.currentAccount = account;
+    this.currentChain = chain;
+    console.log(`👛 ${this.name} connected:`, account);
+    this.emit('connect', { account, chain });
+  }
+
+  protected setAccount(account: string) {
+    if (this.currentAccount === null || this.currentAccount === account) {
+      return;
+    }
+    this.currentAccount = account;
+    this.emit('accountChanged', { account });
+  }
+
+  protected setChain(chain: WalletChain) {
+    if (this.currentAccount === null || isSameChain(this.currentChain, chain)) {
+      return;
+    }
+    this.currentChain = chain;
+    this.emit('chainChanged', { chain });
+  }
+
+  protected setDisconnected() {
+    if (this.currentAccount === null) {
+      return;
+    }
+    this.currentAccount = null;
+    this.currentChain = null;
+    console.log(`👛 ${this.name} disconnected`);
+    this.emit('disconnect', {});
+  }
+
+  // The connected account; throws while disconnected
+  protected requireAccount(): string {
+    if (!this.currentAccount) {
+      throw new Error(`${this.name} is not connected`);
+    }
+    return this.currentAccount;
+  }
+
+  protected requireTransactionType<T extends WalletTransactionRequest['type']>(
+    transaction: WalletTransactionRequest,
+    type: T
+  ): Extract<WalletTransactionRequest, { type: T }> {
+    if (transaction.type !== type) {
+      throw new Error(`${this.name} cannot send ${transaction.type} transactions`);
+    }
+    return transaction as Extract<WalletTransactionRequest, { type: T }>;
+  }
+}
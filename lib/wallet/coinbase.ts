@@ -0,0 +1,43 @@
+import { Platform } from 'react-native';
+import * as Linking from 'expo-linking';
+import { getDefaultEvmNetwork } from '@/lib/networks';
+import { Eip1193Connector, Eip1193Provider } from '@/lib/wallet/evm';
+
+// Coinbase Wallet app, reached through the mobile SDK's universal links
+const COINBASE_HOST_URL = 'https://wallet.coinbase.com/wsegue';
+const COINBASE_ANDROID_PACKAGE = 'org.toshi';
+
+let isConfigured = false;
+
+// Coinbase Wallet through its mobile SDK; needs the native module, so not
+// on web
+export class CoinbaseConnector extends Eip1193Connector {
+  readonly id = 'coinbase';
+  readonly name = 'Coinbase Wallet';
+
+  isAvailable(): boolean {
+    return Platform.OS !== 'web';
+  }
+
+  protected async createProvider(): Promise<Eip1193Provider> {
+    // Loaded on demand: the native module throws where it is missing
+    const sdk: typeof import('@coinbase/wallet-mobile-sdk') = require('@coinbase/wallet-mobile-sdk');
+    if (!isConfigured) {
+      sdk.configure({
+        hostURL: new URL(COINBASE_HOST_URL),
+        callbackURL: new URL(Linking.createURL('')),
+        hostPackageName: COINBASE_ANDROID_PACKAGE,
+      });
+      // Wallet responses come back as links to the app
+      Linking.addEventListener('url', ({ url }) => sdk.handleResponse(new URL(url)));
+      isConfigured = true;
+    }
+
+    const network = getDefaultEvmNetwork();
+    return new sdk.WalletMobileSDKEVMProvider({ chainId: network.chainId, jsonRpcUrl: network.rpcUrls[0] });
+  }
+
+  protected async closeProvider(provider: Eip1193Provider): Promise<void> {
+    (provider as { disconnect?: () => boolean }).disconnect?.();
+  }
+}
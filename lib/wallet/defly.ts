@@ -0,0 +1,82 @@
+import { Platform } from 'react-native';
+import { Transaction } from 'algosdk';
+import type { DeflyWalletConnect } from '@blockshake/defly-connect';
+import { getDefaultAlgorandNetwork } from '@/lib/networks';
+import { AlgorandConnector } from '@/lib/wallet/algorand';
+
+// Defly's IDs for Algorand networks, by genesis ID; 4160 means any network
+const DEFLY_CHAIN_IDS: Record<string, 416001 | 416002 | 416003> = {
+  'mainnet-v1.0': 416001,
+  'testnet-v1.0': 416002,
+  'betanet-v1.0': 416003,
+};
+
+// Defly Wallet through WalletConnect v1: a QR modal on desktop web, the
+// Defly app on mobile browsers
+export class DeflyConnector extends AlgorandConnector {
+  readonly id = 'defly';
+  readonly name = 'Defly Wallet';
+  private defly: DeflyWalletConnect | null = null;
+  // Session connector the disconnect listener is on; Defly makes a new one
+  // for each session
+  private watchedConnector: DeflyWalletConnect['connector'] = null;
+
+  isAvailable(): boolean {
+    return Platform.OS === 'web';
+  }
+
+  async connect(): Promise<string> {
+    if (!this.defly) {
+      const { DeflyWalletConnect: Defly }: typeof import('@blockshake/defly-connect') = require('@blockshake/defly-connect');
+      this.defly = new Defly({ chainId: DEFLY_CHAIN_IDS[getDefaultAlgorandNetwork().genesisId] ?? 4160 });
+    }
+
+    // Pick up the session from a previous visit before asking again
+    let accounts = await this.defly.reconnectSession().catch(() => [] as string[]);
+    if (accounts.length === 0) {
+      accounts = await this.defly.connect();
+    }
+    if (accounts.length === 0) {
+      throw new Error('Defly Wallet did not share an account');
+    }
+    this.watchDisconnect(this.defly.connector);
+
+    this.setConnected(accounts[0], this.getChain());
+    return accounts[0];
+  }
+
+  private watchDisconnect(connector: DeflyWalletConnect['connector']) {
+    if (connector === this.watchedConnector) {
+      return;
+    }
+    this.unwatchDisconnect();
+    connector?.on('disconnect', () => this.setDisconnected());
+    this.watchedConnector = connector;
+  }
+
+  private unwatchDisconnect() {
+    this.watchedConnector?.off('disconnect');
+    this.watchedConnector = null;
+  }
+
+  async disconnect(): Promise<void> {
+    this.unwatchDisconnect();
+    try {
+      await this.defly?.disconnect();
+    } catch (error) {
+      console.error('Failed to disconnect Defly Wallet:', error);
+    }
+    this.setDisconnected();
+  }
+
+  async signMessage(): Promise<string> {
+    throw new Error('Defly Wallet cannot sign messages');
+  }
+
+  protected async signTransactions(transactions: Transaction[]): Promise<Uint8Array[]> {
+    if (!this.defly) {
+      throw new Error('Defly Wallet is not connected');
+    }
+    return this.defly.signTransaction([transactions.map((txn) => ({ txn }))], this.requireAccount());
+  }
+}
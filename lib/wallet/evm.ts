@@ -0,0 +1,126 @@
+import { getAddress, hexlify, toQuantity, toUtf8Bytes } from 'ethers';
+import { EvmNetworkConfig, toAddEthereumChainParams, toHexChainId } from '@/lib/networks';
+import { BaseWalletConnector } from '@/lib/wallet/base';
+import { WalletTransactionRequest } from '@/lib/wallet/types';
+
+// The standard wallet provider interface (EIP-1193)
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] | Record<string, unknown> }): Promise<unknown>;
+  on?(event: string, listener: (...args: any[]) => void): unknown;
+  removeListener?(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+// wallet_switchEthereumChain error for chains the wallet does not know
+const UNRECOGNIZED_CHAIN_ERROR = 4902;
+
+const parseChainId = (value: unknown) => Number(BigInt(value as string));
+
+/**
+ * Connector for wallets that expose an EIP-1193 provider. Subclasses create
+ * the provider from their SDK, and may close it again on disconnect.
+ */
+export abstract class Eip1193Connector extends BaseWalletConnector {
+  readonly chainType = 'evm';
+  private provider: Eip1193Provider | null = null;
+
+  protected abstract createProvider(): Promise<Eip1193Provider>;
+
+  protected async closeProvider(_provider: Eip1193Provider): Promise<void> {}
+
+  private handleAccountsChanged = (accounts: string[]) => {
+    if (accounts.length > 0) {
+      this.setAccount(getAddress(accounts[0]));
+    } else {
+      this.setDisconnected();
+    }
+  };
+
+  private handleChainChanged = (chainId: string) => {
+    this.setChain({ type: 'evm', chainId: parseChainId(chainId) });
+  };
+
+  private handleDisconnect = () => {
+    this.setDisconnected();
+  };
+
+  private requireProvider(): Eip1193Provider {
+    if (!this.provider || !this.account) {
+      throw new Error(`${this.name} is not connected`);
+    }
+    return this.provider;
+  }
+
+  async connect(): Promise<string> {
+    if (!this.provider) {
+      this.provider = await this.createProvider();
+      this.provider.on?.('accountsChanged', this.handleAccountsChanged);
+      this.provider.on?.('chainChanged', this.handleChainChanged);
+      this.provider.on?.('disconnect', this.handleDisconnect);
+    }
+
+    const accounts = (await this.provider.request({ method: 'eth_requestAccounts' })) as string[];
+    if (!accounts || accounts.length === 0) {
+      throw new Error(`${this.name} did not share an account`);
+    }
+    const chainId = parseChainId(await this.provider.request({ method: 'eth_chainId' }));
+
+    const account = getAddress(accounts[0]);
+    this.setConnected(account, { type: 'evm', chainId });
+    return account;
+  }
+
+  async disconnect(): Promise<void> {
+    const provider = this.provider;
+    this.provider = null;
+    if (provider) {
+      provider.removeListener?.('accountsChanged', this.handleAccountsChanged);
+      provider.removeListener?.('chainChanged', this.handleChainChanged);
+      provider.removeListener?.('disconnect', this.handleDisconnect);
+      try {
+        await this.closeProvider(provider);
+      } catch (error) {
+        console.error(`Failed to close ${this.name}:`, error);
+      }
+    }
+    this.setDisconnected();
+  }
+
+  async switchChain(network: EvmNetworkConfig): Promise<void> {
+    const provider = this.requireProvider();
+    try {
+      await provider.request({
+        method: 'wallet_switchEthereumChain',
+        params: [{ chainId: toHexChainId(network.chainId) }],
+      });
+    } catch (error: any) {
+      if (error?.code !== UNRECOGNIZED_CHAIN_ERROR) {
+        throw error;
+      }
+      // Adding a chain also switches to it
+      await provider.request({ method: 'wallet_addEthereumChain', params: [toAddEthereumChainParams(network)] });
+    }
+    this.setChain({ type: 'evm', chainId: network.chainId });
+  }
+
+  async signMessage(message: string): Promise<string> {
+    const provider = this.requireProvider();
+    return (await provider.request({
+      method: 'personal_sign',
+      params: [hexlify(toUtf8Bytes(message)), this.requireAccount()],
+    })) as string;
+  }
+
+  async sendTransaction(transaction: WalletTransactionRequest): Promise<string> {
+    const provider = this.requireProvider();
+    const { to, value, data } = this.requireTransactionType(transaction, 'evm');
+    return (await provider.request({
+      method: 'eth_sendTransaction',
+      params: [{
+        from: this.requireAccount(),
+        to: getAddress(to),
+        value: value !== undefined ? toQuantity(value) : undefined,
+        data,
+      }],
+    })) as string;
+  }
+}
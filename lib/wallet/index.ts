@@ -0,0 +1,51 @@
+// One interface over the wallet SDKs the app supports: MetaMask, Coinbase
+// Wallet and WalletConnect for EVM chains, Defly and Lute for Algorand
+
+import { CoinbaseConnector } from '@/lib/wallet/coinbase';
+import { DeflyConnector } from '@/lib/wallet/defly';
+import { LuteConnector } from '@/lib/wallet/lute';
+import { MetaMaskConnector } from '@/lib/wallet/metamask';
+import { MockWalletConnector } from '@/lib/wallet/mock';
+import { WalletConnectConnector } from '@/lib/wallet/walletconnect';
+import { WalletConnector, WalletConnectorId } from '@/lib/wallet/types';
+
+export { BaseWalletConnector } from '@/lib/wallet/base';
+export { Eip1193Connector } from '@/lib/wallet/evm';
+export type { Eip1193Provider } from '@/lib/wallet/evm';
+export { AlgorandConnector } from '@/lib/wallet/algorand';
+export { MockWalletConnector } from '@/lib/wallet/mock';
+export type { MockWalletOptions } from '@/lib/wallet/mock';
+export type {
+  AlgorandTransactionRequest,
+  EvmTransactionRequest,
+  WalletChain,
+  WalletConnector,
+  WalletConnectorEvent,
+  WalletConnectorEvents,
+  WalletConnectorId,
+  WalletTransactionRequest,
+} from '@/lib/wallet/types';
+
+export function createWalletConnector(id: WalletConnectorId): WalletConnector {
+  switch (id) {
+    case 'metamask':
+      return new MetaMaskConnector();
+    case 'coinbase':
+      return new CoinbaseConnector();
+    case 'walletconnect':
+      return new WalletConnectConnector();
+    case 'defly':
+      return new DeflyConnector();
+    case 'lute':
+      return new LuteConnector();
+    case 'mock':
+      return new MockWalletConnector();
+  }
+}
+
+// The real wallets usable on this platform, in display order
+export function getAvailableWalletConnectors(): WalletConnector[] {
+  return (['metamask', 'coinbase', 'walletconnect', 'defly', 'lute'] as const)
+    .map(createWalletConnector)
+    .filter((connector) => connector.isAvailable());
+}
@@ -0,0 +1,77 @@
+import { Platform } from 'react-native';
+import { Transaction, bytesToBase64 } from 'algosdk';
+import type LuteConnect from 'lute-connect';
+import { getDefaultAlgorandNetwork } from '@/lib/networks';
+import { getDappMetadata } from '@/lib/wallet/base';
+import { AlgorandConnector } from '@/lib/wallet/algorand';
+
+// Chain ID ARC-60 sign-in messages use for Algorand
+const SIWA_CHAIN_ID = '283';
+
+// Lute, as its browser extension or the lute.app web wallet
+export class LuteConnector extends AlgorandConnector {
+  readonly id = 'lute';
+  readonly name = 'Lute';
+  private lute: LuteConnect | null = null;
+
+  isAvailable(): boolean {
+    return Platform.OS === 'web';
+  }
+
+  private async getLute(): Promise<LuteConnect> {
+    if (!this.lute) {
+      const { default: Lute }: typeof import('lute-connect') = require('lute-connect');
+      this.lute = new Lute(getDappMetadata().name);
+    }
+    return this.lute;
+  }
+
+  async connect(): Promise<string> {
+    const lute = await this.getLute();
+    const accounts = await lute.connect(getDefaultAlgorandNetwork().genesisId);
+    if (accounts.length === 0) {
+      throw new Error('Lute did not share an account');
+    }
+
+    this.setConnected(accounts[0], this.getChain());
+    return accounts[0];
+  }
+
+  // Lute keeps no session to end
+  async disconnect(): Promise<void> {
+    this.setDisconnected();
+  }
+
+  // Signs the message as the statement of an ARC-60 sign-in request
+  async signMessage(message: string): Promise<string> {
+    const account = this.requireAccount();
+    const lute = await this.getLute();
+    const { ScopeType }: typeof import('lute-connect') = require('lute-connect');
+    const domain = window.location.host;
+
+    const request = {
+      domain,
+      account_address: account,
+      uri: window.location.origin,
+      version: '1',
+      statement: message,
+      chain_id: SIWA_CHAIN_ID,
+      type: 'ed25519',
+      'issued-at': new Date().toISOString(),
+    };
+    const response = await lute.signData(
+      bytesToBase64(new TextEncoder().encode(JSON.stringify(request))),
+      { scope: ScopeType.AUTH, encoding: 'base64' }
+    );
+    return bytesToBase64(response.signature);
+  }
+
+  protected async signTransactions(transactions: Transaction[]): Promise<Uint8Array[]> {
+    const lute = await this.getLute();
+    const signed = await lute.signTxns(transactions.map((txn) => ({ txn: bytesToBase64(txn.toByte()) })));
+    if (signed.some((txn) => txn === null)) {
+      throw new Error('Lute did not sign every transaction');
+    }
+    return signed as Uint8Array[];
+  }
+}
@@ -0,0 +1,37 @@
+import { Platform } from 'react-native';
+import * as Linking from 'expo-linking';
+import { getDappMetadata } from '@/lib/wallet/base';
+import { Eip1193Connector, Eip1193Provider } from '@/lib/wallet/evm';
+
+// MetaMask through its SDK: the browser extension on web, the MetaMask app
+// through deep links on mobile
+export class MetaMaskConnector extends Eip1193Connector {
+  readonly id = 'metamask';
+  readonly name = 'MetaMask';
+  private sdk: import('@metamask/sdk').MetaMaskSDK | null = null;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  protected async createProvider(): Promise<Eip1193Provider> {
+    const { MetaMaskSDK }: typeof import('@metamask/sdk') = require('@metamask/sdk');
+    const { name, url } = getDappMetadata();
+    this.sdk = new MetaMaskSDK({
+      dappMetadata: { name, url },
+      openDeeplink: Platform.OS === 'web' ? undefined : (link: string) => Linking.openURL(link),
+    });
+    await this.sdk.init();
+
+    const provider = this.sdk.getProvider();
+    if (!provider) {
+      throw new Error('MetaMask SDK did not provide a wallet provider');
+    }
+    return provider as unknown as Eip1193Provider;
+  }
+
+  protected async closeProvider(): Promise<void> {
+    this.sdk?.terminate();
+    this.sdk = null;
+  }
+}
@@ -0,0 +1,214 @@
+import { getEvmNetwork } from '@/lib/networks';
+import { Eip1193Connector, Eip1193Provider } from '@/lib/wallet/evm';
+import { createWalletConnector } from '@/lib/wallet';
+import { MockWalletConnector } from '@/lib/wallet/mock';
+import { WalletConnectorEvents } from '@/lib/wallet/types';
+
+const ACCOUNT = '0x2222222222222222222222222222222222222222';
+
+// Everything a connector reports, in order
+function record(connector: MockWalletConnector | Eip1193Connector) {
+  const events: [string, unknown][] = [];
+  const unsubscribes = (['connect', 'disconnect', 'accountChanged', 'chainChanged'] as const).map((event) =>
+    connector.on(event, (payload: WalletConnectorEvents[typeof event]) => events.push([event, payload]))
+  );
+  return { events, stop: () => unsubscribes.forEach((unsubscribe) => unsubscribe()) };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('MockWalletConnector', () => {
+  it('connects and disconnects like a wallet', async () => {
+    const wallet = new MockWalletConnector({ account: ACCOUNT, chain: { type: 'evm', chainId: 7001 } });
+    const { events } = record(wallet);
+
+    expect(await wallet.connect()).toBe(ACCOUNT);
+    expect(wallet.account).toBe(ACCOUNT);
+    expect(wallet.chain).toEqual({ type: 'evm', chainId: 7001 });
+
+    await wallet.disconnect();
+    await wallet.disconnect();
+    expect(wallet.account).toBeNull();
+    expect(wallet.chain).toBeNull();
+    expect(events).toEqual([
+      ['connect', { account: ACCOUNT, chain: { type: 'evm', chainId: 7001 } }],
+      ['disconnect', {}],
+    ]);
+  });
+
+  it('is what the registry creates for mock', () => {
+    const wallet = createWalletConnector('mock');
+    expect(wallet).toBeInstanceOf(MockWalletConnector);
+    expect(wallet.chainType).toBe('evm');
+  });
+
+  it('reports changes made in the wallet only while connected', async () => {
+    const wallet = new MockWalletConnector();
+    const { events } = record(wallet);
+
+    wallet.simulateAccountChange(ACCOUNT);
+    expect(events).toEqual([]);
+
+    await wallet.connect();
+    wallet.simulateAccountChange(ACCOUNT);
+    wallet.simulateAccountChange(ACCOUNT);
+    wallet.simulateChainChange({ type: 'evm', chainId: 314159 });
+    wallet.simulateChainChange({ type: 'evm', chainId: 314159 });
+    wallet.simulateDisconnect();
+
+    expect(events.map(([event]) => event)).toEqual(['connect', 'accountChanged', 'chainChanged', 'disconnect']);
+    expect(events[1][1]).toEqual({ account: ACCOUNT });
+    expect(events[2][1]).toEqual({ chain: { type: 'evm', chainId: 314159 } });
+  });
+
+  it('switches to a configured network', async () => {
+    const wallet = new MockWalletConnector();
+    const network = getEvmNetwork(314159)!;
+    await expect(wallet.switchChain(network)).rejects.toThrow('Mock Wallet is not connected');
+
+    await wallet.connect();
+    await wallet.switchChain(network);
+    expect(wallet.chain).toEqual({ type: 'evm', chainId: 314159 });
+  });
+
+  it('stops calling listeners that unsubscribed', async () => {
+    const wallet = new MockWalletConnector();
+    const { events, stop } = record(wallet);
+    stop();
+    await wallet.connect();
+    expect(events).toEqual([]);
+  });
+
+  it('keeps calling other listeners when one throws', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const wallet = new MockWalletConnector();
+    wallet.on('connect', () => {
+      throw new Error('listener failed');
+    });
+    const { events } = record(wallet);
+
+    await wallet.connect();
+    expect(events).toHaveLength(1);
+    expect(console.error).toHaveBeenCalledWith('Error in Mock Wallet connect listener:', expect.any(Error));
+  });
+
+  it('signs and sends with repeatable results', async () => {
+    const wallet = new MockWalletConnector();
+    await expect(wallet.signMessage('hello')).rejects.toThrow('Mock Wallet is not connected');
+
+    await wallet.connect();
+    const signature = await wallet.signMessage('hello');
+    expect(signature).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(await wallet.signMessage('hello')).toBe(signature);
+    expect(wallet.signedMessages).toEqual(['hello', 'hello']);
+
+    const transaction = { type: 'evm' as const, to: ACCOUNT, value: 10n };
+    const first = await wallet.sendTransaction(transaction);
+    const second = await wallet.sendTransaction(transaction);
+    expect(first).not.toBe(second);
+    expect(wallet.sentTransactions).toEqual([transaction, transaction]);
+  });
+
+  it('rejects requests when told to', async () => {
+    const wallet = new MockWalletConnector({ rejectRequests: true });
+    await expect(wallet.connect()).rejects.toThrow('User rejected the connect request');
+    expect(wallet.account).toBeNull();
+  });
+});
+
+// Provider that records listeners and answers the requests a connect makes
+class FakeProvider implements Eip1193Provider {
+  listeners = new Map<string, ((...args: any[]) => void)[]>();
+  closed = false;
+
+  async request({ method }: { method: string }): Promise<unknown> {
+    if (method === 'eth_requestAccounts') return [ACCOUNT];
+    if (method === 'eth_chainId') return '0x1b59';
+    throw new Error(`Unexpected ${method}`);
+  }
+
+  on(event: string, listener: (...args: any[]) => void) {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+  }
+
+  removeListener(event: string, listener: (...args: any[]) => void) {
+    this.listeners.set(event, (this.listeners.get(event) ?? []).filter((other) => other !== listener));
+  }
+
+  emit(event: string, ...args: unknown[]) {
+    (this.listeners.get(event) ?? []).forEach((listener) => listener(...args));
+  }
+
+  count() {
+    return [...this.listeners.values()].reduce((total, listeners) => total + listeners.length, 0);
+  }
+}
+
+class FakeConnector extends Eip1193Connector {
+  readonly id = 'mock';
+  readonly name = 'Fake Wallet';
+  providers: FakeProvider[] = [];
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  protected async createProvider(): Promise<Eip1193Provider> {
+    const provider = new FakeProvider();
+    this.providers.push(provider);
+    return provider;
+  }
+
+  protected async closeProvider(provider: Eip1193Provider): Promise<void> {
+    (provider as FakeProvider).closed = true;
+  }
+}
+
+describe('Eip1193Connector', () => {
+  it('follows provider events and removes its listeners on disconnect', async () => {
+    const wallet = new FakeConnector();
+    const { events } = record(wallet);
+
+    await wallet.connect();
+    const [provider] = wallet.providers;
+    expect(wallet.chain).toEqual({ type: 'evm', chainId: 7001 });
+    expect(provider.count()).toBe(3);
+
+    provider.emit('chainChanged', '0x4cb2f');
+    provider.emit('accountsChanged', ['0x1111111111111111111111111111111111111111']);
+    await wallet.disconnect();
+
+    expect(events.map(([event]) => event)).toEqual(['connect', 'chainChanged', 'accountChanged', 'disconnect']);
+    expect(provider.count()).toBe(0);
+    expect(provider.closed).toBe(true);
+  });
+
+  it('does not pile up listeners over reconnects', async () => {
+    const wallet = new FakeConnector();
+    for (let i = 0; i < 3; i++) {
+      await wallet.connect();
+      await wallet.connect();
+      await wallet.disconnect();
+    }
+    expect(wallet.providers).toHaveLength(3);
+    expect(wallet.providers.map((provider) => provider.count())).toEqual([0, 0, 0]);
+  });
+
+  it('disconnects when the wallet ends the session', async () => {
+    const wallet = new FakeConnector();
+    await wallet.connect();
+    wallet.providers[0].emit('accountsChanged', []);
+    expect(wallet.account).toBeNull();
+
+    // Reconnecting reuses the provider and its listeners
+    await wallet.connect();
+    expect(wallet.providers).toHaveLength(1);
+    expect(wallet.providers[0].count()).toBe(3);
+  });
+});
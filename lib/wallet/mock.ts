@@ -0,0 +1,88 @@
+import { id } from 'ethers';
+import { EvmNetworkConfig } from '@/lib/networks';
+import { BaseWalletConnector } from '@/lib/wallet/base';
+import { WalletChain, WalletTransactionRequest } from '@/lib/wallet/types';
+
+export interface MockWalletOptions {
+  name?: string;
+  account?: string;
+  chain?: WalletChain;
+  // Reject connect, signMessage and sendTransaction as a user would
+  rejectRequests?: boolean;
+}
+
+const DEFAULT_ACCOUNT = '0x000000000000000000000000000000000000dEaD';
+
+/**
+ * In-memory wallet for tests and demos. Signatures and transaction hashes
+ * are derived from the input, so they repeat for the same request; every
+ * request is kept for inspection, and the simulate methods stand in for
+ * changes made in the wallet.
+ */
+export class MockWalletConnector extends BaseWalletConnector {
+  readonly id = 'mock';
+  readonly name: string;
+  readonly chainType: 'evm' | 'algorand';
+  readonly signedMessages: string[] = [];
+  readonly sentTransactions: WalletTransactionRequest[] = [];
+  private options: MockWalletOptions;
+
+  constructor(options: MockWalletOptions = {}) {
+    super();
+    this.options = options;
+    this.name = options.name ?? 'Mock Wallet';
+    this.chainType = options.chain?.type ?? 'evm';
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  private checkRequest(action: string) {
+    if (this.options.rejectRequests) {
+      throw new Error(`User rejected the ${action} request`);
+    }
+  }
+
+  async connect(): Promise<string> {
+    this.checkRequest('connect');
+    const account = this.options.account ?? DEFAULT_ACCOUNT;
+    this.setConnected(account, this.options.chain ?? { type: 'evm', chainId: 1 });
+    return account;
+  }
+
+  async disconnect(): Promise<void> {
+    this.setDisconnected();
+  }
+
+  async switchChain(network: EvmNetworkConfig): Promise<void> {
+    this.requireAccount();
+    this.setChain({ type: 'evm', chainId: network.chainId });
+  }
+
+  async signMessage(message: string): Promise<string> {
+    const account = this.requireAccount();
+    this.checkRequest('signature');
+    this.signedMessages.push(message);
+    return id(`${account}:${message}`);
+  }
+
+  async sendTransaction(transaction: WalletTransactionRequest): Promise<string> {
+    const account = this.requireAccount();
+    this.checkRequest('transaction');
+    this.sentTransactions.push(transaction);
+    return id(`${account}:${this.sentTransactions.length}`);
+  }
+
+  simulateAccountChange(account: string) {
+    this.setAccount(account);
+  }
+
+  simulateChainChange(chain: WalletChain) {
+    this.setChain(chain);
+  }
+
+  simulateDisconnect() {
+    this.setDisconnected();
+  }
+}
@@ -0,0 +1,64 @@
+import { Transaction } from 'algosdk';
+import { EvmNetworkConfig } from '@/lib/networks';
+
+export type WalletConnectorId = 'metamask' | 'coinbase' | 'walletconnect' | 'defly' | 'lute' | 'mock';
+
+// The chain a wallet is connected to
+export type WalletChain =
+  | { type: 'evm'; chainId: number }
+  | { type: 'algorand'; genesisId: string };
+
+export interface EvmTransactionRequest {
+  type: 'evm';
+  to: string;
+  // In wei
+  value?: bigint;
+  // Hex-encoded calldata
+  data?: string;
+}
+
+export interface AlgorandTransactionRequest {
+  type: 'algorand';
+  // Signed and sent as one group; more than one must already share a group
+  // ID (algosdk's assignGroupID)
+  transactions: Transaction[];
+}
+
+export type WalletTransactionRequest = EvmTransactionRequest | AlgorandTransactionRequest;
+
+export interface WalletConnectorEvents {
+  connect: { account: string; chain: WalletChain };
+  disconnect: Record<string, never>;
+  accountChanged: { account: string };
+  chainChanged: { chain: WalletChain };
+}
+
+export type WalletConnectorEvent = keyof WalletConnectorEvents;
+
+/**
+ * One wallet SDK behind a common surface. Connectors start disconnected and
+ * only load their SDK when asked to connect.
+ */
+export interface WalletConnector {
+  readonly id: WalletConnectorId;
+  readonly name: string;
+  readonly chainType: 'evm' | 'algorand';
+  // Connected account and chain; null while disconnected
+  readonly account: string | null;
+  readonly chain: WalletChain | null;
+
+  // Whether the wallet can be used on this platform
+  isAvailable(): boolean;
+  // Ask the wallet for an account; resolves with it
+  connect(): Promise<string>;
+  disconnect(): Promise<void>;
+  // EVM wallets: move to the network, adding it to the wallet if needed
+  switchChain?(network: EvmNetworkConfig): Promise<void>;
+  // Signature over the UTF-8 message: personal_sign hex on EVM chains,
+  // base64 ed25519 (ARC-60) on Algorand
+  signMessage(message: string): Promise<string>;
+  // Resolves with the transaction hash (the first transaction ID for
+  // Algorand groups) once the network accepted it
+  sendTransaction(transaction: WalletTransactionRequest): Promise<string>;
+  on<E extends WalletConnectorEvent>(event: E, listener: (payload: WalletConnectorEvents[E]) => void): () => void;
+}
@@ -0,0 +1,163 @@
+import { Linking, Platform } from 'react-native';
+import type SignClient from '@walletconnect/sign-client';
+import type { WalletConnectModal } from '@walletconnect/modal';
+import { getDefaultEvmNetwork, getNetworks, toHexChainId } from '@/lib/networks';
+import { getDappMetadata } from '@/lib/wallet/base';
+import { Eip1193Connector, Eip1193Provider } from '@/lib/wallet/evm';
+
+const PROJECT_ID = process.env.EXPO_PUBLIC_WALLETCONNECT_PROJECT_ID;
+
+const EVM_METHODS = ['eth_sendTransaction', 'personal_sign', 'wallet_switchEthereumChain', 'wallet_addEthereumChain'];
+const EVM_EVENTS = ['accountsChanged', 'chainChanged'];
+
+// Reason sent to the wallet when the user disconnects (WalletConnect SDK
+// error USER_DISCONNECTED)
+const USER_DISCONNECTED = { code: 6000, message: 'User disconnected.' };
+
+// "eip155:7001:0xabc…" → "0xabc…"
+const toAddress = (caipAccount: string) => caipAccount.split(':').pop() as string;
+
+/**
+ * EIP-1193 provider over one WalletConnect session: requests go to the
+ * paired wallet, and session events come back as provider events.
+ */
+class WalletConnectProvider implements Eip1193Provider {
+  private topic: string | null = null;
+  private chainId = getDefaultEvmNetwork().chainId;
+  private listeners = new Map<string, ((...args: any[]) => void)[]>();
+
+  constructor(private client: SignClient, private modal: WalletConnectModal | null) {
+    // The client outlives this provider, so close() removes these again
+    client.on('session_event', this.handleSessionEvent);
+    client.on('session_update', this.handleSessionUpdate);
+    client.on('session_delete', this.handleSessionEnd);
+    client.on('session_expire', this.handleSessionEnd);
+  }
+
+  private handleSessionEvent = ({ topic, params }: { topic: string; params: { event: { name: string; data: any } } }) => {
+    if (topic !== this.topic) return;
+    if (params.event.name === 'chainChanged') {
+      this.chainId = Number(params.event.data);
+      this.emit('chainChanged', toHexChainId(this.chainId));
+    } else if (params.event.name === 'accountsChanged') {
+      this.emit('accountsChanged', (params.event.data as string[]).map(toAddress));
+    }
+  };
+
+  private handleSessionUpdate = ({ topic, params }: { topic: string; params: { namespaces: Record<string, { accounts: string[] }> } }) => {
+    if (topic !== this.topic) return;
+    this.emit('accountsChanged', (params.namespaces.eip155?.accounts ?? []).map(toAddress));
+  };
+
+  private handleSessionEnd = ({ topic }: { topic: string }) => {
+    if (topic !== this.topic) return;
+    this.topic = null;
+    this.emit('disconnect');
+  };
+
+  on(event: string, listener: (...args: any[]) => void) {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+  }
+
+  removeListener(event: string, listener: (...args: any[]) => void) {
+    this.listeners.set(event, (this.listeners.get(event) ?? []).filter((other) => other !== listener));
+  }
+
+  private emit(event: string, ...args: unknown[]) {
+    (this.listeners.get(event) ?? []).forEach((listener) => listener(...args));
+  }
+
+  // Pair with a wallet through the QR modal (web) or a wc: link (mobile)
+  private async pair(): Promise<string[]> {
+    const chains = getNetworks().flatMap((network) => (network.type === 'evm' ? [`eip155:${network.chainId}`] : []));
+    const { uri, approval } = await this.client.connect({
+      optionalNamespaces: { eip155: { chains, methods: EVM_METHODS, events: EVM_EVENTS } },
+    });
+
+    if (uri) {
+      if (this.modal) {
+        await this.modal.openModal({ uri });
+      } else {
+        await Linking.openURL(uri);
+      }
+    }
+    try {
+      const session = await approval();
+      this.topic = session.topic;
+      const accounts = session.namespaces.eip155?.accounts ?? [];
+      if (accounts.length > 0) {
+        this.chainId = Number(accounts[0].split(':')[1]);
+      }
+      return accounts.map(toAddress);
+    } finally {
+      this.modal?.closeModal();
+    }
+  }
+
+  async request({ method, params }: { method: string; params?: unknown[] | Record<string, unknown> }): Promise<unknown> {
+    if (method === 'eth_requestAccounts') {
+      return this.pair();
+    }
+    if (method === 'eth_chainId') {
+      return toHexChainId(this.chainId);
+    }
+    if (!this.topic) {
+      throw new Error('WalletConnect session has ended');
+    }
+
+    const result = await this.client.request({
+      topic: this.topic,
+      chainId: `eip155:${this.chainId}`,
+      request: { method, params },
+    });
+    if (method === 'wallet_switchEthereumChain' || method === 'wallet_addEthereumChain') {
+      this.chainId = Number(BigInt((params as { chainId: string }[])[0].chainId));
+    }
+    return result;
+  }
+
+  async close() {
+    this.client.off('session_event', this.handleSessionEvent);
+    this.client.off('session_update', this.handleSessionUpdate);
+    this.client.off('session_delete', this.handleSessionEnd);
+    this.client.off('session_expire', this.handleSessionEnd);
+    if (this.topic) {
+      const topic = this.topic;
+      this.topic = null;
+      await this.client.disconnect({ topic, reason: USER_DISCONNECTED });
+    }
+  }
+}
+
+// Any WalletConnect v2 wallet, paired by QR code or deep link; needs a
+// project ID in EXPO_PUBLIC_WALLETCONNECT_PROJECT_ID
+export class WalletConnectConnector extends Eip1193Connector {
+  readonly id = 'walletconnect';
+  readonly name = 'WalletConnect';
+  private client: SignClient | null = null;
+
+  isAvailable(): boolean {
+    return !!PROJECT_ID;
+  }
+
+  protected async createProvider(): Promise<Eip1193Provider> {
+    if (!PROJECT_ID) {
+      throw new Error('WalletConnect needs EXPO_PUBLIC_WALLETCONNECT_PROJECT_ID');
+    }
+    if (!this.client) {
+      const { SignClient: Client }: typeof import('@walletconnect/sign-client') = require('@walletconnect/sign-client');
+      this.client = await Client.init({ projectId: PROJECT_ID, metadata: { ...getDappMetadata(), icons: [] } });
+    }
+
+    let modal: WalletConnectModal | null = null;
+    if (Platform.OS === 'web') {
+      const { WalletConnectModal: Modal }: typeof import('@walletconnect/modal') = require('@walletconnect/modal');
+      modal = new Modal({ projectId: PROJECT_ID });
+    }
+    return new WalletConnectProvider(this.client, modal);
+  }
+
+  protected async closeProvider(provider: Eip1193Provider): Promise<void> {
+    await (provider as WalletConnectProvider).close();
+  }
+}
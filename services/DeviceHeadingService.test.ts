@@ -0,0 +1,117 @@
+import * as Location from 'expo-location';
+import { DeviceMotion } from 'expo-sensors';
+import { getMagneticDeclination } from '@/lib/magnetic-declination';
+import { DeviceHeadingService, DeviceHeadingState } from '@/services/DeviceHeadingService';
+
+jest.mock('expo-sensors', () => ({
+  DeviceMotion: {
+    isAvailableAsync: jest.fn(),
+    setUpdateInterval: jest.fn(),
+    addListener: jest.fn(),
+  },
+}));
+
+jest.mock('expo-location', () => ({
+  watchHeadingAsync: jest.fn(),
+}));
+
+const isAvailableAsync = DeviceMotion.isAvailableAsync as jest.Mock;
+const addListener = DeviceMotion.addListener as jest.Mock;
+const watchHeadingAsync = Location.watchHeadingAsync as jest.Mock;
+
+// Lets the availability check and subscriptions settle
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('DeviceHeadingService', () => {
+  let now: number;
+  let emitMotion: (event: unknown) => void;
+  let removeMotion: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    now = 1000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    removeMotion = jest.fn();
+    isAvailableAsync.mockResolvedValue(true);
+    addListener.mockImplementation((listener) => {
+      emitMotion = listener;
+      return { remove: removeMotion };
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // An upright iOS device with its top facing north, turned by `turn` radians
+  const uprightRotation = (turn = 0) => ({
+    rotation: { alpha: -Math.PI / 2 - turn, beta: Math.PI / 2, gamma: 0, timestamp: now / 1000 },
+  });
+
+  it('reads the sensors once for every subscriber', async () => {
+    const service = new DeviceHeadingService();
+    const first = jest.fn();
+    const second = jest.fn();
+    const unsubscribeFirst = service.subscribe(first);
+    const unsubscribeSecond = service.subscribe(second);
+    await flush();
+
+    expect(addListener).toHaveBeenCalledTimes(1);
+    emitMotion(uprightRotation());
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+    const state: DeviceHeadingState = first.mock.calls[0][0];
+    expect(state.heading).toBeCloseTo(0, 6);
+    expect(state.pitch).toBeCloseTo(0, 6);
+    expect(state.isAbsolute).toBe(true);
+
+    unsubscribeFirst();
+    expect(removeMotion).not.toHaveBeenCalled();
+    unsubscribeSecond();
+    expect(removeMotion).toHaveBeenCalledTimes(1);
+    expect(service.getState().heading).toBeNull();
+
+    // The next subscriber starts the sensors again
+    service.subscribe(jest.fn());
+    await flush();
+    expect(addListener).toHaveBeenCalledTimes(2);
+  });
+
+  it('throttles updates and corrects for declination', async () => {
+    const service = new DeviceHeadingService();
+    service.setLocation({ latitude: 51.5, longitude: -0.13, altitude: 0 } as any);
+    const callback = jest.fn();
+    service.subscribe(callback);
+    await flush();
+
+    emitMotion(uprightRotation());
+    emitMotion(uprightRotation(Math.PI / 2));
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    // Facing magnetic north is facing the declination east of true north
+    expect(service.getState().heading).toBeCloseTo(getMagneticDeclination(51.5, -0.13, 0), 6);
+  });
+
+  it('falls back to the compass heading without motion sensors', async () => {
+    isAvailableAsync.mockResolvedValue(false);
+    const removeHeading = jest.fn();
+    let emitHeading: (reading: Location.LocationHeadingObject) => void = () => {};
+    watchHeadingAsync.mockImplementation(async (listener) => {
+      emitHeading = listener;
+      return { remove: removeHeading };
+    });
+
+    const service = new DeviceHeadingService();
+    const unsubscribe = service.subscribe(jest.fn());
+    await flush();
+
+    expect(addListener).not.toHaveBeenCalled();
+    emitHeading({ trueHeading: -1, magHeading: 42, accuracy: 3 });
+    expect(service.getState()).toEqual({ heading: 42, pitch: 0, isAbsolute: false });
+
+    unsubscribe();
+    expect(removeHeading).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,186 @@
+import { Platform } from 'react-native';
+import * as Location from 'expo-location';
+import { DeviceMotion } from 'expo-sensors';
+import { LocationData } from '@/hooks/useLocation';
+import { DeviceOrientationTracker, OrientationFilter, motionRotationToReading } from '@/lib/orientation';
+
+export interface DeviceHeadingState {
+  // Camera view direction, clockwise from true north (degrees)
+  heading: number | null;
+  // Camera view direction above the horizon (degrees); 0 where the device
+  // only reports a compass heading
+  pitch: number;
+  // False when the heading is relative to an arbitrary start direction
+  isAbsolute: boolean;
+}
+
+// Updates are throttled so the overlay re-renders at a steady rate rather
+// than on every sensor event (milliseconds)
+const UPDATE_INTERVAL_MS = 50;
+
+const INITIAL_STATE: DeviceHeadingState = {
+  heading: null,
+  pitch: 0,
+  isAbsolute: false,
+};
+
+/**
+ * Heading and pitch of the camera for the 2D overlay, shared by every
+ * component that shows them so the sensors are read once. Web uses the
+ * filtered DeviceOrientation stream; native platforms feed the expo-sensors
+ * DeviceMotion rotation through the same filter, falling back to the
+ * expo-location compass heading without motion sensors. Sensors run while
+ * anyone is subscribed.
+ */
+export class DeviceHeadingService {
+  private static instance: DeviceHeadingService;
+  private state: DeviceHeadingState = INITIAL_STATE;
+  private callbacks: ((state: DeviceHeadingState) => void)[] = [];
+  private filter: OrientationFilter | null = null;
+  private location: LocationData | null = null;
+  private lastUpdate = 0;
+  private stopSensors: (() => void) | null = null;
+
+  static getInstance(): DeviceHeadingService {
+    if (!DeviceHeadingService.instance) {
+      DeviceHeadingService.instance = new DeviceHeadingService();
+    }
+    return DeviceHeadingService.instance;
+  }
+
+  getState(): DeviceHeadingState {
+    return this.state;
+  }
+
+  // Magnetic declination depends on where the user is
+  setLocation(location: LocationData): void {
+    this.location = location;
+    this.filter?.setLocation(location.latitude, location.longitude, location.altitude || 0);
+  }
+
+  subscribe(callback: (state: DeviceHeadingState) => void): () => void {
+    this.callbacks.push(callback);
+    if (!this.stopSensors) {
+      this.stopSensors = Platform.OS === 'web' ? this.startOrientationTracker() : this.startDeviceMotion();
+    }
+
+    return () => {
+      const index = this.callbacks.indexOf(callback);
+      if (index > -1) {
+        this.callbacks.splice(index, 1);
+      }
+
+      if (this.callbacks.length === 0 && this.stopSensors) {
+        this.stopSensors();
+        this.stopSensors = null;
+        this.filter = null;
+        this.state = INITIAL_STATE;
+      }
+    };
+  }
+
+  private startOrientationTracker(): () => void {
+    const tracker = new DeviceOrientationTracker((_quaternion, filter) => this.publish(filter));
+    this.attachFilter(tracker.getFilter());
+
+    if (!tracker.start()) {
+      console.warn('⚠️ Device orientation not available for heading');
+    }
+
+    return () => tracker.stop();
+  }
+
+  private startDeviceMotion(): () => void {
+    let isActive = true;
+    let motionSubscription: { remove: () => void } | null = null;
+    let headingSubscription: Location.LocationSubscription | null = null;
+    const filter = new OrientationFilter();
+    this.attachFilter(filter);
+
+    const watchCompass = () => {
+      Location.watchHeadingAsync((reading) => {
+        // trueHeading is -1 until the platform has a location fix
+        const hasTrueHeading = reading.trueHeading >= 0;
+        this.setState({
+          heading: hasTrueHeading ? reading.trueHeading : reading.magHeading,
+          pitch: 0,
+          isAbsolute: hasTrueHeading,
+        });
+      })
+        .then((result) => {
+          if (isActive) {
+            headingSubscription = result;
+          } else {
+            result.remove();
+          }
+        })
+        .catch((error) => {
+          console.error('Failed to watch device heading:', error);
+        });
+    };
+
+    DeviceMotion.isAvailableAsync()
+      .then((available) => {
+        if (!isActive) {
+          return;
+        }
+        if (!available) {
+          console.warn('⚠️ Device motion not available, using compass heading without pitch');
+          watchCompass();
+          return;
+        }
+
+        DeviceMotion.setUpdateInterval(UPDATE_INTERVAL_MS);
+        motionSubscription = DeviceMotion.addListener(({ rotation }) => {
+          if (rotation && filter.updateOrientation(motionRotationToReading(rotation))) {
+            this.publish(filter);
+          }
+        });
+      })
+      .catch((error) => {
+        console.error('Failed to watch device motion:', error);
+        if (isActive) {
+          watchCompass();
+        }
+      });
+
+    return () => {
+      isActive = false;
+      motionSubscription?.remove();
+      headingSubscription?.remove();
+    };
+  }
+
+  private attachFilter(filter: OrientationFilter): void {
+    this.filter = filter;
+    if (this.location) {
+      filter.setLocation(this.location.latitude, this.location.longitude, this.location.altitude || 0);
+    }
+  }
+
+  private publish(filter: OrientationFilter): void {
+    this.setState({
+      heading: filter.getHeading(),
+      pitch: filter.getPitch(),
+      isAbsolute: filter.isHeadingAbsolute(),
+    });
+  }
+
+  private setState(state: DeviceHeadingState): void {
+    // Every reading still goes through the filter; only listeners are throttled
+    const now = Date.now();
+    if (now - this.lastUpdate < UPDATE_INTERVAL_MS) {
+      return;
+    }
+    this.lastUpdate = now;
+
+    this.state = state;
+    this.callbacks.forEach((callback) => {
+      try {
+        callback(state);
+      } catch (error) {
+        console.error('Error in device heading callback:', error);
+      }
+    });
+  }
+}
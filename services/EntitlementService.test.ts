@@ -0,0 +1,159 @@
+import { InteractionEntitlement } from '@/types/database';
+import { PaymentSession } from '@/lib/payment-session';
+import {
+  getInteractionEntitlementsFromSupabase,
+  grantInteractionEntitlementInSupabase,
+  recordEntitlementInteractionInSupabase,
+} from '@/lib/supabase';
+import { EntitlementService } from '@/services/EntitlementService';
+import { PaymentSessionService } from '@/services/PaymentSessionService';
+
+jest.mock('@/lib/supabase', () => ({
+  getInteractionEntitlementForSessionFromSupabase: jest.fn(),
+  getInteractionEntitlementsFromSupabase: jest.fn(),
+  grantInteractionEntitlementInSupabase: jest.fn(),
+  recordEntitlementInteractionInSupabase: jest.fn(),
+  revokeInteractionEntitlementInSupabase: jest.fn(),
+}));
+
+// PaymentSessionService's default storage needs the native module
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const grantInSupabase = grantInteractionEntitlementInSupabase as jest.Mock;
+const recordInSupabase = recordEntitlementInteractionInSupabase as jest.Mock;
+const loadFromSupabase = getInteractionEntitlementsFromSupabase as jest.Mock;
+
+const PAYER = '0x2222222222222222222222222222222222222222';
+// Settled just now, so a pass for it has not expired
+const SETTLED_AT = Date.now();
+
+const SESSION: PaymentSession = {
+  id: 'ps_1',
+  agentId: 'agent-1',
+  agentName: 'Test Agent',
+  state: 'settled',
+  fee: 1,
+  currency: 'USDFC',
+  request: {
+    type: 'evm',
+    chainId: 314159,
+    recipient: '0x1111111111111111111111111111111111111111',
+    amount: 10n ** 18n,
+  },
+  uri: 'ethereum:0x1111111111111111111111111111111111111111@314159?value=1e18',
+  reference: null,
+  createdAt: SETTLED_AT - 60_000,
+  updatedAt: SETTLED_AT,
+  settledAt: SETTLED_AT,
+  expiresAt: SETTLED_AT + 240_000,
+  txHash: '0xabc',
+  payer: PAYER,
+};
+
+const PASS: InteractionEntitlement = {
+  id: 'pass-1',
+  agent_id: 'agent-1',
+  wallet_address: PAYER,
+  payment_session_id: 'ps_1',
+  amount: '1000000000000000000',
+  expires_at: null,
+  max_interactions: 20,
+  interactions_used: 0,
+  revoked: false,
+};
+
+describe('EntitlementService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(PaymentSessionService.getInstance(), 'getSessions').mockResolvedValue([SESSION]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('uses the pass the server grants', async () => {
+    grantInSupabase.mockResolvedValue({ status: 'granted', entitlement: PASS });
+    const service = new EntitlementService();
+
+    expect(await service.getEntitlementForSession(SESSION)).toBe(PASS);
+    expect(await service.getEntitlementForSession(SESSION)).toBe(PASS);
+    expect(grantInSupabase).toHaveBeenCalledTimes(1);
+    expect(grantInSupabase).toHaveBeenCalledWith({ paymentSessionId: 'ps_1', agentId: 'agent-1', chainId: 314159, txHash: '0xabc' });
+  });
+
+  it('keeps a pass on the device only when Supabase cannot be reached', async () => {
+    grantInSupabase.mockResolvedValue({ status: 'unreachable', error: 'Network request failed' });
+    loadFromSupabase.mockResolvedValue(null);
+    const service = new EntitlementService();
+
+    const local = await service.getEntitlementForSession(SESSION);
+    expect(local).toMatchObject({ id: 'local_ps_1', wallet_address: PAYER, interactions_used: 0, max_interactions: 20 });
+    expect(await service.getActiveEntitlement('agent-1')).toEqual(local);
+
+    // Uses are counted on the device
+    expect(await service.recordInteraction(local as InteractionEntitlement)).toMatchObject({ interactions_used: 1 });
+    expect(recordInSupabase).not.toHaveBeenCalled();
+  });
+
+  it('passes refusals on instead of granting a pass', async () => {
+    grantInSupabase.mockResolvedValue({ status: 'refused', error: 'Payment has already been used' });
+    loadFromSupabase.mockResolvedValue([]);
+    const service = new EntitlementService();
+
+    expect(await service.getEntitlementForSession(SESSION)).toBeNull();
+    expect(await service.getActiveEntitlement('agent-1')).toBeNull();
+    expect(await service.getRefusal('agent-1')).toBe('Payment has already been used');
+
+    // The refusal is final, so the server is not asked again
+    await service.getEntitlementForSession(SESSION);
+    expect(grantInSupabase).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks again while the payment is not confirmed yet', async () => {
+    jest.useFakeTimers();
+    grantInSupabase
+      .mockResolvedValueOnce({ status: 'retry', error: 'Transaction is not confirmed yet' })
+      .mockResolvedValueOnce({ status: 'retry', error: 'Transaction is not confirmed yet' })
+      .mockResolvedValueOnce({ status: 'granted', entitlement: PASS });
+    const service = new EntitlementService();
+
+    const pass = service.getEntitlementForSession(SESSION);
+    await jest.advanceTimersByTimeAsync(10_000);
+    expect(await pass).toBe(PASS);
+    expect(grantInSupabase).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up for now when the payment stays unconfirmed', async () => {
+    jest.useFakeTimers();
+    grantInSupabase.mockResolvedValue({ status: 'retry', error: 'Transaction is not confirmed yet' });
+    const service = new EntitlementService();
+
+    const pass = service.getEntitlementForSession(SESSION);
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(await pass).toBeNull();
+    expect(grantInSupabase).toHaveBeenCalledTimes(4);
+    expect(await service.getRefusal('agent-1')).toBeNull();
+
+    // Not refused, so asked again later
+    grantInSupabase.mockResolvedValue({ status: 'granted', entitlement: PASS });
+    expect(await service.getEntitlementForSession(SESSION)).toBe(PASS);
+  });
+
+  it('counts an interaction again from the stored usage when another device used the pass', async () => {
+    const service = new EntitlementService();
+    recordInSupabase
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ ...PASS, interactions_used: 2 });
+    loadFromSupabase.mockResolvedValue([{ ...PASS, interactions_used: 1 }]);
+
+    expect(await service.recordInteraction(PASS)).toMatchObject({ interactions_used: 2 });
+    expect(recordInSupabase).toHaveBeenNthCalledWith(1, 'pass-1', 0);
+    expect(recordInSupabase).toHaveBeenNthCalledWith(2, 'pass-1', 1);
+  });
+});
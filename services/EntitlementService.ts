@@ -0,0 +1,250 @@
+import { InteractionEntitlement } from '@/types/database';
+import { PaymentSession } from '@/lib/payment-session';
+import { ENTITLEMENT_DURATION_MS, ENTITLEMENT_MAX_INTERACTIONS, isEntitlementActive } from '@/lib/entitlements';
+import {
+  getInteractionEntitlementForSessionFromSupabase,
+  getInteractionEntitlementsFromSupabase,
+  grantInteractionEntitlementInSupabase,
+  recordEntitlementInteractionInSupabase,
+  revokeInteractionEntitlementInSupabase,
+} from '@/lib/supabase';
+import { PaymentSessionService } from '@/services/PaymentSessionService';
+
+// Attempts to count an interaction when other devices use the same pass
+const MAX_RECORD_ATTEMPTS = 3;
+
+// Attempts to get a pass for a payment the server does not see confirmed yet,
+// and the wait between them
+const MAX_GRANT_ATTEMPTS = 4;
+const GRANT_RETRY_DELAY_MS = 5000;
+
+/**
+ * Interaction passes for payment-gated agents. Each settled payment session
+ * asks Supabase to grant a pass for its agent and the paying wallet, which
+ * the server only does after checking the payment on chain; chat, voice and
+ * function sessions each use one interaction of it. A pass is only kept on
+ * this device when Supabase cannot be reached; payments the server refuses
+ * get no pass.
+ */
+export class EntitlementService {
+  private static instance: EntitlementService;
+  // Passes that could not be stored (no Supabase or offline), by payment
+  // session; they last for this app session and are stored on the next start
+  private localEntitlements = new Map<string, InteractionEntitlement>();
+  // Why the server refused a payment's pass, by payment session
+  private refusals = new Map<string, string>();
+  private grants = new Map<string, Promise<InteractionEntitlement | null>>();
+  private unsubscribe: (() => void) | null = null;
+
+  static getInstance(): EntitlementService {
+    if (!EntitlementService.instance) {
+      EntitlementService.instance = new EntitlementService();
+    }
+    return EntitlementService.instance;
+  }
+
+  /**
+   * Grant passes as payments settle, and for recent settled payments whose
+   * pass was never stored. Call once at startup.
+   */
+  async start(): Promise<void> {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    const sessions = PaymentSessionService.getInstance();
+    this.unsubscribe = sessions.subscribe(({ session, event }) => {
+      if (event.type === 'settled') {
+        this.grant(session);
+      } else if (event.type === 'refunded') {
+        this.revoke(session);
+      }
+    });
+
+    const cutoff = Date.now() - ENTITLEMENT_DURATION_MS;
+    const recent = (await sessions.getSessions()).filter(
+      (session) => session.state === 'settled' && (session.settledAt ?? session.updatedAt) > cutoff
+    );
+    await Promise.all(recent.map((session) => this.grant(session)));
+  }
+
+  private grant(session: PaymentSession): Promise<InteractionEntitlement | null> {
+    const existing = this.grants.get(session.id);
+    if (existing) {
+      return existing;
+    }
+
+    const grant = this.requestGrant(session);
+    this.grants.set(session.id, grant);
+    // Grants that did not reach the server can be retried on the next start
+    grant.then((result) => {
+      if ((!result && !this.refusals.has(session.id)) || result?.id.startsWith('local_')) {
+        this.grants.delete(session.id);
+      }
+    });
+    return grant;
+  }
+
+  private async requestGrant(session: PaymentSession): Promise<InteractionEntitlement | null> {
+    if (session.state !== 'settled' || !session.payer || !session.txHash || session.request.type !== 'evm') {
+      return null;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const result = await grantInteractionEntitlementInSupabase({
+        paymentSessionId: session.id,
+        agentId: session.agentId,
+        chainId: session.request.chainId,
+        txHash: session.txHash,
+      });
+
+      switch (result.status) {
+        case 'granted':
+          this.localEntitlements.delete(session.id);
+          this.refusals.delete(session.id);
+          console.log('🎟️ Interaction pass granted for agent', session.agentName);
+          return result.entitlement;
+        case 'refused':
+          this.refusals.set(session.id, result.error);
+          console.warn('⚠️ Interaction pass refused for agent', session.agentName, result.error);
+          return null;
+        case 'unreachable':
+          return this.grantLocally(session);
+        case 'retry':
+          if (attempt >= MAX_GRANT_ATTEMPTS) {
+            console.warn('⚠️ Interaction pass not granted yet for agent', session.agentName, result.error);
+            return null;
+          }
+          await new Promise((resolve) => setTimeout(resolve, GRANT_RETRY_DELAY_MS));
+      }
+    }
+  }
+
+  // Keep the payer's access while the pass cannot be stored
+  private grantLocally(session: PaymentSession): InteractionEntitlement | null {
+    if (!session.payer || !session.txHash || session.request.type !== 'evm') {
+      return null;
+    }
+
+    const settledAt = session.settledAt ?? session.updatedAt;
+    const entitlement: Omit<InteractionEntitlement, 'id'> = {
+      agent_id: session.agentId,
+      wallet_address: session.payer,
+      payment_session_id: session.id,
+      tx_hash: session.txHash,
+      chain_id: session.request.chainId,
+      amount: session.request.amount.toString(),
+      currency: session.currency,
+      granted_at: new Date(settledAt).toISOString(),
+      expires_at: new Date(settledAt + ENTITLEMENT_DURATION_MS).toISOString(),
+      max_interactions: ENTITLEMENT_MAX_INTERACTIONS,
+      interactions_used: 0,
+      revoked: false,
+    };
+    const local = this.localEntitlements.get(session.id) ?? { ...entitlement, id: `local_${session.id}` };
+    this.localEntitlements.set(session.id, local);
+    console.warn('⚠️ Interaction pass kept on this device only for agent', session.agentName);
+    return local;
+  }
+
+  /**
+   * The pass a settled session granted, granting it now if it has not been.
+   * For a refunded session, the pass it had granted, which is not renewed.
+   */
+  async getEntitlementForSession(session: PaymentSession): Promise<InteractionEntitlement | null> {
+    if (session.state !== 'refunded') {
+      return this.grant(session);
+    }
+    await this.grants.get(session.id);
+    return this.localEntitlements.get(session.id) ?? await getInteractionEntitlementForSessionFromSupabase(session.id);
+  }
+
+  private async revoke(session: PaymentSession) {
+    const local = this.localEntitlements.get(session.id);
+    if (local) {
+      this.localEntitlements.set(session.id, { ...local, revoked: true });
+    }
+    if (!session.refundTxHash) {
+      console.warn('⚠️ Refund has no transaction, interaction pass revoked on this device only');
+      return;
+    }
+    if (await revokeInteractionEntitlementInSupabase(session.id, session.refundTxHash)) {
+      console.log('🎟️ Interaction pass revoked after refund for agent', session.agentName);
+    }
+  }
+
+  /**
+   * Why the server refused the pass for the agent's latest settled payment,
+   * or null when it was not refused
+   */
+  async getRefusal(agentId: string): Promise<string | null> {
+    await Promise.all(this.grants.values());
+
+    const latest = (await PaymentSessionService.getInstance().getSessions()).find(
+      (session) => session.agentId === agentId && session.state === 'settled'
+    );
+    return latest ? this.refusals.get(latest.id) ?? null : null;
+  }
+
+  /**
+   * The pass to use for the agent: the active one, paid from this device's
+   * wallets, that expires first. Null when there is none.
+   */
+  async getActiveEntitlement(agentId: string): Promise<InteractionEntitlement | null> {
+    await Promise.all(this.grants.values());
+
+    const sessions = await PaymentSessionService.getInstance().getSessions();
+    const wallets = Array.from(new Set(
+      sessions
+        .filter((session) => session.agentId === agentId && session.payer)
+        .map((session) => session.payer as string)
+    ));
+
+    const stored = wallets.length > 0 ? (await getInteractionEntitlementsFromSupabase(agentId, wallets)) ?? [] : [];
+    const local = Array.from(this.localEntitlements.values()).filter(
+      (entitlement) =>
+        entitlement.agent_id === agentId &&
+        !stored.some((other) => other.payment_session_id === entitlement.payment_session_id)
+    );
+
+    const expiry = (entitlement: InteractionEntitlement) =>
+      entitlement.expires_at ? new Date(entitlement.expires_at).getTime() : Infinity;
+    return [...stored, ...local]
+      .filter((entitlement) => isEntitlementActive(entitlement))
+      .sort((a, b) => expiry(a) - expiry(b))[0] ?? null;
+  }
+
+  /**
+   * Count one interaction against the pass. Returns the updated pass, or
+   * null when it is used up, expired or the use could not be recorded.
+   */
+  async recordInteraction(entitlement: InteractionEntitlement): Promise<InteractionEntitlement | null> {
+    if (!isEntitlementActive(entitlement)) {
+      return null;
+    }
+
+    if (entitlement.id.startsWith('local_')) {
+      const updated = { ...entitlement, interactions_used: entitlement.interactions_used + 1 };
+      this.localEntitlements.set(entitlement.payment_session_id, updated);
+      return updated;
+    }
+
+    let current: InteractionEntitlement | undefined = entitlement;
+    for (let attempt = 0; attempt < MAX_RECORD_ATTEMPTS && current; attempt++) {
+      const updated = await recordEntitlementInteractionInSupabase(current.id, current.interactions_used);
+      if (updated) {
+        return updated;
+      }
+
+      // Used elsewhere in the meantime; try again from the stored count
+      const stored = await getInteractionEntitlementsFromSupabase(current.agent_id, [current.wallet_address]);
+      current = stored?.find((other) => other.id === entitlement.id);
+      if (current && !isEntitlementActive(current)) {
+        return null;
+      }
+    }
+
+    console.warn('⚠️ Could not record interaction for pass', entitlement.id);
+    return null;
+  }
+}
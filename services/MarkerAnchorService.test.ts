@@ -0,0 +1,88 @@
+import { getARMarkerFromSupabase } from '@/lib/supabase';
+import { MarkerAnchor } from '@/lib/marker-pose';
+import {
+  MARKER_ANCHOR_HOLD_MS,
+  MarkerAnchorService,
+  MarkerDetection,
+  getAnchoredLocation,
+} from '@/services/MarkerAnchorService';
+
+jest.mock('@/lib/supabase', () => ({
+  getARMarkerFromSupabase: jest.fn(),
+}));
+
+const lookupMarker = getARMarkerFromSupabase as jest.Mock;
+
+const detection = (markerId: string): MarkerDetection => ({
+  data: `armarker:${markerId}`,
+  cornerPoints: [],
+  intrinsics: { width: 640, height: 480 },
+  compassHeading: null,
+});
+
+const ANCHOR: MarkerAnchor = {
+  markerId: 'lobby',
+  origin: { latitude: 51.5, longitude: -0.13, altitude: 20 },
+  fix: { latitude: 51.50002, longitude: -0.13, altitude: 20, heading: 180, distance: 2.2 },
+  headingOffset: null,
+  timestamp: 1_000_000,
+};
+
+describe('MarkerAnchorService', () => {
+  let now: number;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('remembers markers the registry does not know', async () => {
+    lookupMarker.mockResolvedValue({ marker: null });
+    const service = new MarkerAnchorService();
+
+    expect(await service.processDetection(detection('gone'))).toBeNull();
+    now += 1000;
+    expect(await service.processDetection(detection('gone'))).toBeNull();
+    expect(lookupMarker).toHaveBeenCalledTimes(1);
+  });
+
+  it('looks markers up again after a failed lookup', async () => {
+    lookupMarker.mockResolvedValueOnce({ marker: null, error: 'Network request failed' });
+    lookupMarker.mockResolvedValueOnce({ marker: null });
+    const service = new MarkerAnchorService();
+
+    await service.processDetection(detection('lobby'));
+    now += 1000;
+    await service.processDetection(detection('lobby'));
+    now += 1000;
+    await service.processDetection(detection('lobby'));
+    expect(lookupMarker).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('getAnchoredLocation', () => {
+  const gps = { latitude: 51.50004, longitude: -0.13, accuracy: 8, timestamp: ANCHOR.timestamp };
+
+  it('uses the marker fix while GPS agrees with it', () => {
+    expect(getAnchoredLocation(gps, ANCHOR, ANCHOR.timestamp + 1000)).toMatchObject({
+      latitude: ANCHOR.fix.latitude,
+      longitude: ANCHOR.fix.longitude,
+      accuracy: 0.1,
+    });
+    expect(getAnchoredLocation(null, ANCHOR, ANCHOR.timestamp + 1000)?.latitude).toBe(ANCHOR.fix.latitude);
+  });
+
+  it('falls back to GPS once the user walks off or the fix ages out', () => {
+    const walkedOff = { ...gps, latitude: 51.5005 };
+    expect(getAnchoredLocation(walkedOff, ANCHOR, ANCHOR.timestamp + 1000)).toBe(walkedOff);
+    expect(getAnchoredLocation(gps, ANCHOR, ANCHOR.timestamp + MARKER_ANCHOR_HOLD_MS)).toBe(gps);
+    expect(getAnchoredLocation(null, ANCHOR, ANCHOR.timestamp + MARKER_ANCHOR_HOLD_MS)).toBeNull();
+    expect(getAnchoredLocation(gps, null)).toBe(gps);
+  });
+});
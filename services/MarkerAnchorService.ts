@@ -0,0 +1,228 @@
+import { ARMarker } from '@/types/database';
+import { LocationData } from '@/hooks/useLocation';
+import { getARMarkerFromSupabase } from '@/lib/supabase';
+import { distanceBetween } from '@/lib/navigation';
+import {
+  CameraIntrinsics,
+  ImagePoint,
+  MarkerAnchor,
+  estimateMarkerPose,
+  markerPoseToFix,
+  normalizeHeading,
+  parseMarkerPayload,
+} from '@/lib/marker-pose';
+
+export interface MarkerDetection {
+  // Raw QR payload
+  data: string;
+  cornerPoints: ImagePoint[];
+  intrinsics: CameraIntrinsics;
+  // Compass heading at the moment the frame was captured, if known
+  compassHeading: number | null;
+}
+
+// How long a marker fix is trusted over GPS (milliseconds). Without visual
+// tracking the fix goes stale as soon as the user walks away.
+export const MARKER_ANCHOR_HOLD_MS = 60000;
+
+// Accuracy assumed for a marker fix, and the least slack given to GPS
+// readings when comparing them against it (meters)
+export const MARKER_FIX_ACCURACY = 0.1;
+export const MIN_GPS_ACCURACY = 5;
+
+// Pose estimates from a marker further away than this are too coarse to beat
+// GPS (meters)
+const MAX_MARKER_DISTANCE = 8;
+
+// Re-processing the same marker faster than this adds nothing (milliseconds)
+const MIN_DETECTION_INTERVAL_MS = 500;
+
+// Unknown marker ids are not looked up again for this long (milliseconds)
+const UNKNOWN_MARKER_RETRY_MS = 5 * 60 * 1000;
+
+// The user's position as seen from the marker
+export function markerFixToLocation(anchor: MarkerAnchor): LocationData {
+  return {
+    latitude: anchor.fix.latitude,
+    longitude: anchor.fix.longitude,
+    altitude: anchor.fix.altitude,
+    accuracy: MARKER_FIX_ACCURACY,
+    timestamp: anchor.timestamp,
+  };
+}
+
+// A recent marker fix beats GPS readings that are consistent with it; a
+// reading outside its own accuracy means the user has moved on
+export function isMarkerFixHeld(anchor: MarkerAnchor, location: LocationData, now: number = Date.now()): boolean {
+  const drift = distanceBetween(location, anchor.fix);
+  return now - anchor.timestamp < MARKER_ANCHOR_HOLD_MS && drift <= Math.max(location.accuracy ?? 0, MIN_GPS_ACCURACY);
+}
+
+// Where overlays that place agents from GPS should put the user: at the
+// marker fix while it holds, otherwise at the GPS reading
+export function getAnchoredLocation(
+  location: LocationData | null,
+  anchor: MarkerAnchor | null,
+  now: number = Date.now()
+): LocationData | null {
+  if (!anchor) {
+    return location;
+  }
+  const held = location ? isMarkerFixHeld(anchor, location, now) : now - anchor.timestamp < MARKER_ANCHOR_HOLD_MS;
+  return held ? markerFixToLocation(anchor) : location;
+}
+
+/**
+ * Turns QR marker sightings into precise position and heading fixes. Markers
+ * are resolved against the `ar_markers` registry and cached for the session.
+ */
+export class MarkerAnchorService {
+  private static instance: MarkerAnchorService;
+  private markers: Map<string, ARMarker> = new Map();
+  private unknownMarkers: Map<string, number> = new Map();
+  private pendingLookups: Map<string, ReturnType<typeof getARMarkerFromSupabase>> = new Map();
+  private lastDetection: Map<string, number> = new Map();
+  private anchor: MarkerAnchor | null = null;
+  private callbacks: ((anchor: MarkerAnchor | null) => void)[] = [];
+
+  static getInstance(): MarkerAnchorService {
+    if (!MarkerAnchorService.instance) {
+      MarkerAnchorService.instance = new MarkerAnchorService();
+    }
+    return MarkerAnchorService.instance;
+  }
+
+  // Make a marker known without the registry, e.g. for demos or offline use
+  registerMarker(marker: ARMarker): void {
+    this.markers.set(marker.marker_id, marker);
+    this.unknownMarkers.delete(marker.marker_id);
+  }
+
+  // Returns the new anchor, or null when the payload is not a registered
+  // marker or the pose could not be estimated
+  async processDetection(detection: MarkerDetection): Promise<MarkerAnchor | null> {
+    const markerId = parseMarkerPayload(detection.data);
+    if (!markerId) {
+      return null;
+    }
+
+    const now = Date.now();
+    const last = this.lastDetection.get(markerId);
+    if (last !== undefined && now - last < MIN_DETECTION_INTERVAL_MS) {
+      return null;
+    }
+    this.lastDetection.set(markerId, now);
+
+    const marker = await this.resolveMarker(markerId);
+    if (!marker) {
+      return null;
+    }
+
+    const pose = estimateMarkerPose(detection.cornerPoints, marker.size_meters, detection.intrinsics);
+    if (!pose) {
+      console.warn(`⚠️ Could not estimate pose from marker ${markerId}`);
+      return null;
+    }
+    if (pose.distance > MAX_MARKER_DISTANCE) {
+      console.log(`🔳 Marker ${markerId} is ${pose.distance.toFixed(1)}m away, move closer to anchor`);
+      return null;
+    }
+
+    const fix = markerPoseToFix(pose, marker);
+    const headingOffset = detection.compassHeading !== null
+      ? ((normalizeHeading(fix.heading - detection.compassHeading) + 180) % 360) - 180
+      : null;
+
+    const anchor: MarkerAnchor = {
+      markerId,
+      origin: {
+        latitude: marker.latitude,
+        longitude: marker.longitude,
+        altitude: marker.altitude ?? 0,
+      },
+      fix,
+      headingOffset,
+      timestamp: now,
+    };
+
+    console.log(
+      `⚓ Anchored to marker ${markerId} at ${fix.distance.toFixed(2)}m, heading ${fix.heading.toFixed(1)}°` +
+      (headingOffset !== null ? ` (compass off by ${headingOffset.toFixed(1)}°)` : '')
+    );
+    this.setAnchor(anchor);
+    return anchor;
+  }
+
+  // The latest anchor while it is still fresh enough to trust
+  getCurrentAnchor(): MarkerAnchor | null {
+    if (this.anchor && Date.now() - this.anchor.timestamp > MARKER_ANCHOR_HOLD_MS) {
+      return null;
+    }
+    return this.anchor;
+  }
+
+  clearAnchor(): void {
+    if (!this.anchor) {
+      return;
+    }
+    console.log('⚓ Marker anchor cleared');
+    this.setAnchor(null);
+  }
+
+  subscribe(callback: (anchor: MarkerAnchor | null) => void): () => void {
+    this.callbacks.push(callback);
+
+    return () => {
+      const index = this.callbacks.indexOf(callback);
+      if (index > -1) {
+        this.callbacks.splice(index, 1);
+      }
+    };
+  }
+
+  private async resolveMarker(markerId: string): Promise<ARMarker | null> {
+    const cached = this.markers.get(markerId);
+    if (cached) {
+      return cached;
+    }
+
+    const unknownSince = this.unknownMarkers.get(markerId);
+    if (unknownSince !== undefined && Date.now() - unknownSince < UNKNOWN_MARKER_RETRY_MS) {
+      return null;
+    }
+
+    let lookup = this.pendingLookups.get(markerId);
+    if (!lookup) {
+      lookup = getARMarkerFromSupabase(markerId);
+      this.pendingLookups.set(markerId, lookup);
+    }
+
+    try {
+      const { marker, error } = await lookup;
+      if (marker) {
+        this.markers.set(markerId, marker);
+      } else if (error) {
+        // Only ids the registry answered for are remembered as unknown; a
+        // failed lookup is tried again on the next sighting
+        console.warn(`⚠️ Could not look up marker ${markerId}: ${error}`);
+      } else {
+        console.warn(`⚠️ Marker ${markerId} is not in the registry`);
+        this.unknownMarkers.set(markerId, Date.now());
+      }
+      return marker;
+    } finally {
+      this.pendingLookups.delete(markerId);
+    }
+  }
+
+  private setAnchor(anchor: MarkerAnchor | null): void {
+    this.anchor = anchor;
+    this.callbacks.forEach((callback) => {
+      try {
+        callback(anchor);
+      } catch (error) {
+        console.error('Error in marker anchor callback:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,267 @@
+import { Platform } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { DeployedObject } from '@/types/database';
+import { LocationData } from '@/hooks/useLocation';
+import { RangeDetectionService } from '@/services/RangeDetectionService';
+import {
+  GeoPoint,
+  NavigationRoute,
+  RouteProvider,
+  WALKING_SPEED,
+  straightLineRouteProvider,
+  bearingBetween,
+  distanceBetween,
+  distanceFromRoute,
+  nextWaypointIndex,
+  remainingDistance,
+} from '@/lib/navigation';
+
+export type NavigationStatus = 'idle' | 'routing' | 'navigating' | 'arrived';
+
+export interface NavigationState {
+  status: NavigationStatus;
+  target: DeployedObject | null;
+  route: NavigationRoute | null;
+  // Index in route.points of the waypoint the user is walking towards
+  nextWaypoint: number;
+  // Bearing to that waypoint, clockwise from true north (degrees)
+  bearing: number | null;
+  distanceRemaining: number | null;
+  etaSeconds: number | null;
+}
+
+// Waypoints closer than this count as reached (meters); GPS is rarely better
+const WAYPOINT_REACHED_RADIUS = 8;
+
+// Straying further than this from the route asks the provider for a new one
+const REROUTE_DISTANCE = 30;
+
+const IDLE_STATE: NavigationState = {
+  status: 'idle',
+  target: null,
+  route: null,
+  nextWaypoint: 0,
+  bearing: null,
+  distanceRemaining: null,
+  etaSeconds: null,
+};
+
+const toGeoPoint = (point: { latitude: number; longitude: number; altitude?: number }): GeoPoint => ({
+  latitude: point.latitude,
+  longitude: point.longitude,
+  altitude: point.altitude,
+});
+
+/**
+ * Walking navigation to a selected agent. Progress follows the location fed
+ * in with updateUserLocation; arrival is whatever RangeDetectionService
+ * considers in range of the agent.
+ */
+export class NavigationService {
+  private static instance: NavigationService;
+  private state: NavigationState = IDLE_STATE;
+  private userLocation: LocationData | null = null;
+  private routeProvider: RouteProvider = straightLineRouteProvider;
+  private callbacks: ((state: NavigationState) => void)[] = [];
+  private arrivalCallbacks: ((agent: DeployedObject) => void)[] = [];
+  private unsubscribeRange: (() => void) | null = null;
+  // Guards against a slow route request finishing after navigation moved on
+  private routeRequest = 0;
+
+  static getInstance(): NavigationService {
+    if (!NavigationService.instance) {
+      NavigationService.instance = new NavigationService();
+    }
+    return NavigationService.instance;
+  }
+
+  // Swap in a routing backend; the straight line is the default
+  setRouteProvider(provider: RouteProvider | null): void {
+    this.routeProvider = provider ?? straightLineRouteProvider;
+    console.log(`🧭 Route provider set to ${this.routeProvider.name}`);
+  }
+
+  async startNavigation(agent: DeployedObject): Promise<void> {
+    if (!agent || typeof agent.latitude !== 'number' || typeof agent.longitude !== 'number') {
+      throw new Error('Cannot navigate to an agent without a location');
+    }
+
+    console.log(`🧭 Starting AR navigation to ${agent.name}`);
+    this.setState({ ...IDLE_STATE, status: 'routing', target: agent });
+
+    this.unsubscribeRange?.();
+    this.unsubscribeRange = RangeDetectionService.getInstance().subscribe((agentsInRange) => {
+      if (agentsInRange.some((inRange) => inRange.id === agent.id)) {
+        this.handleArrival();
+      }
+    });
+
+    if (RangeDetectionService.getInstance().getCurrentAgentsInRange().some((inRange) => inRange.id === agent.id)) {
+      this.handleArrival();
+      return;
+    }
+
+    if (this.userLocation) {
+      await this.requestRoute();
+    }
+  }
+
+  stopNavigation(): void {
+    if (this.state.status === 'idle') {
+      return;
+    }
+
+    console.log('🧭 Navigation stopped');
+    this.routeRequest++;
+    this.unsubscribeRange?.();
+    this.unsubscribeRange = null;
+    this.setState(IDLE_STATE);
+  }
+
+  updateUserLocation(location: LocationData): void {
+    if (!location || typeof location.latitude !== 'number' || typeof location.longitude !== 'number') {
+      console.warn('Invalid location data provided to NavigationService:', location);
+      return;
+    }
+
+    const hadLocation = this.userLocation !== null;
+    this.userLocation = location;
+
+    if (this.state.status === 'routing' && !hadLocation) {
+      this.requestRoute().catch((error) => {
+        console.error('Failed to route navigation:', error);
+      });
+      return;
+    }
+
+    if (this.state.status !== 'navigating' || !this.state.route) {
+      return;
+    }
+
+    if (distanceFromRoute(this.state.route, toGeoPoint(location)) > REROUTE_DISTANCE) {
+      console.log('🧭 Off route, re-routing');
+      this.requestRoute().catch((error) => {
+        console.error('Failed to re-route navigation:', error);
+      });
+      return;
+    }
+
+    this.updateProgress(this.state.route, this.state.nextWaypoint);
+  }
+
+  getState(): NavigationState {
+    return this.state;
+  }
+
+  subscribe(callback: (state: NavigationState) => void): () => void {
+    this.callbacks.push(callback);
+
+    return () => {
+      const index = this.callbacks.indexOf(callback);
+      if (index > -1) {
+        this.callbacks.splice(index, 1);
+      }
+    };
+  }
+
+  // Called once per navigation when the user reaches the agent
+  onArrival(callback: (agent: DeployedObject) => void): () => void {
+    this.arrivalCallbacks.push(callback);
+
+    return () => {
+      const index = this.arrivalCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.arrivalCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  private async requestRoute(): Promise<void> {
+    const target = this.state.target;
+    if (!target || !this.userLocation) {
+      return;
+    }
+
+    const request = ++this.routeRequest;
+    const from = toGeoPoint(this.userLocation);
+    const to = toGeoPoint(target);
+    let route: NavigationRoute;
+
+    try {
+      route = await this.routeProvider.getRoute(from, to);
+      if (route.points.length < 2) {
+        throw new Error('Route has fewer than two points');
+      }
+    } catch (error) {
+      console.warn(`⚠️ Route provider ${this.routeProvider.name} failed, using a straight line:`, error);
+      route = await straightLineRouteProvider.getRoute(from, to);
+    }
+
+    // Navigation was stopped, restarted or re-routed in the meantime
+    if (request !== this.routeRequest || this.state.target?.id !== target.id || this.state.status === 'arrived') {
+      return;
+    }
+
+    console.log(`🧭 Route to ${target.name}: ${route.points.length} points via ${route.provider}`);
+    this.updateProgress(route, 1);
+  }
+
+  private updateProgress(route: NavigationRoute, currentWaypoint: number): void {
+    if (!this.userLocation || !this.state.target) {
+      return;
+    }
+
+    const position = toGeoPoint(this.userLocation);
+    const nextWaypoint = nextWaypointIndex(route, position, currentWaypoint, WAYPOINT_REACHED_RADIUS);
+    const distance = remainingDistance(route, position, nextWaypoint);
+
+    this.setState({
+      status: 'navigating',
+      target: this.state.target,
+      route,
+      nextWaypoint,
+      bearing: bearingBetween(position, route.points[nextWaypoint]),
+      distanceRemaining: distance,
+      etaSeconds: distance / WALKING_SPEED,
+    });
+  }
+
+  private handleArrival(): void {
+    const target = this.state.target;
+    if (!target || this.state.status === 'arrived' || this.state.status === 'idle') {
+      return;
+    }
+
+    console.log(`🎉 Arrived at ${target.name}`);
+    this.routeRequest++;
+    this.setState({
+      ...this.state,
+      status: 'arrived',
+      distanceRemaining: this.userLocation ? distanceBetween(toGeoPoint(this.userLocation), toGeoPoint(target)) : 0,
+      etaSeconds: 0,
+    });
+
+    if (Platform.OS !== 'web') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+    }
+
+    this.arrivalCallbacks.forEach((callback) => {
+      try {
+        callback(target);
+      } catch (error) {
+        console.error('Error in navigation arrival callback:', error);
+      }
+    });
+  }
+
+  private setState(state: NavigationState): void {
+    this.state = state;
+    this.callbacks.forEach((callback) => {
+      try {
+        callback(state);
+      } catch (error) {
+        console.error('Error in navigation callback:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,329 @@
+import { EvmPaymentRequest } from '@/lib/payment-uri';
+import { PaymentSession, toStoredPaymentSession } from '@/lib/payment-session';
+import {
+  PaymentSessionService,
+  PaymentSessionStorage,
+  PaymentSessionUpdate,
+} from '@/services/PaymentSessionService';
+import { PaymentVerificationStatus, WatchPaymentOptions } from '@/services/PaymentVerificationService';
+import { DeployedObject } from '@/types/database';
+
+// The service's default storage needs the native module; tests pass their own
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const STORAGE_KEY = '@payment_sessions/sessions';
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+const PAYER = '0x2222222222222222222222222222222222222222';
+const ALGORAND_RECIPIENT = 'KIEF4O5JHXXSHHO2BJ3UF7XEJTWJX7WPKY6NQ6CR7U6ELJ2U6VR5GRBPIY';
+const LATE_PAYMENT_GRACE_MS = 30 * 60 * 1000;
+
+const AGENT: DeployedObject = {
+  id: 'agent-1',
+  user_id: 'user-1',
+  name: 'Test Agent',
+  object_type: 'Intelligent Assistant',
+  latitude: 0,
+  longitude: 0,
+  payment_address: RECIPIENT,
+  interaction_fee_usdfc: 1,
+};
+
+function createMemoryStorage(initial: Record<string, string> = {}) {
+  const data = new Map(Object.entries(initial));
+  const storage: PaymentSessionStorage = {
+    getItem: async (key) => data.get(key) ?? null,
+    setItem: async (key, value) => {
+      data.set(key, value);
+    },
+  };
+  return { data, storage };
+}
+
+interface FakeWatch {
+  request: EvmPaymentRequest;
+  options?: WatchPaymentOptions;
+  report: (status: PaymentVerificationStatus) => void;
+  stopped: boolean;
+}
+
+// Watches started by a service, reported on by the test instead of a chain
+function createFakeWatcher() {
+  const watches: FakeWatch[] = [];
+  const watchPayment = (
+    request: EvmPaymentRequest,
+    onStatus: (status: PaymentVerificationStatus) => void,
+    options?: WatchPaymentOptions
+  ) => {
+    const watch: FakeWatch = { request, options, report: onStatus, stopped: false };
+    watches.push(watch);
+    return () => {
+      watch.stopped = true;
+    };
+  };
+  return { watches, watchPayment };
+}
+
+function createService(storage = createMemoryStorage().storage) {
+  const watcher = createFakeWatcher();
+  const service = new PaymentSessionService({ storage, watchPayment: watcher.watchPayment, now: () => Date.now() });
+  return { service, watcher };
+}
+
+const match = (txHash: string) => ({ txHash, blockNumber: 101, payer: PAYER, amount: 1n });
+
+// Let queued storage writes finish
+const flush = () => jest.advanceTimersByTimeAsync(0);
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: 1_000_000 });
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('PaymentSessionService', () => {
+  it('quotes a tagged payment request and stores it', async () => {
+    const { data, storage } = createMemoryStorage();
+    const { service } = createService(storage);
+    const updates: PaymentSessionUpdate[] = [];
+    service.subscribe((update) => updates.push(update));
+
+    const session = await service.createSession(AGENT);
+    await flush();
+
+    expect(session).toMatchObject({ agentId: 'agent-1', state: 'quote', fee: 1, currency: 'USDFC', expiresAt: 1_000_000 + 5 * 60 * 1000 });
+    expect(session.reference).toMatch(/^\d{6}$/);
+    expect(session.request.amount).toBe(10n ** 18n + BigInt(session.reference as string));
+    expect(session.uri).toMatch(/^ethereum:/);
+    expect(updates).toEqual([{ session, event: { type: 'created' } }]);
+    expect(JSON.parse(data.get(STORAGE_KEY) as string)[0]).toMatchObject({ id: session.id, state: 'quote' });
+  });
+
+  it('refuses agents paid on Algorand', async () => {
+    const { service } = createService();
+    const agent = { ...AGENT, agent_wallet_type: 'algorand' };
+    await expect(service.createSession(agent)).rejects.toThrow('Algorand payments cannot be verified');
+    expect(await service.getSessions()).toEqual([]);
+  });
+
+  it('follows the chain from payment request to settled', async () => {
+    const { service, watcher } = createService();
+    const states: string[] = [];
+    service.subscribe(({ session }) => states.push(session.state));
+
+    const session = await service.createSession(AGENT, undefined, PAYER);
+    await service.acceptQuote(session.id);
+    const [watch] = watcher.watches;
+    expect(watch.request).toBe(session.request);
+    expect(watch.options).toEqual({ fromBlock: undefined, payer: PAYER, excludeTxHashes: [] });
+
+    watch.report({ state: 'waiting', fromBlock: 100 });
+    watch.report({ state: 'detected', match: match('0xabc'), confirmations: 1, requiredConfirmations: 3 });
+    watch.report({ state: 'detected', match: match('0xabc'), confirmations: 2, requiredConfirmations: 3 });
+    watch.report({ state: 'confirmed', match: match('0xabc'), confirmations: 3 });
+
+    expect(states).toEqual(['quote', 'awaiting', 'awaiting', 'detected', 'confirming', 'settled']);
+    expect(service.getSession(session.id)).toMatchObject({ state: 'settled', txHash: '0xabc', payer: PAYER, fromBlock: 100 });
+    expect(watch.stopped).toBe(true);
+  });
+
+  it('settles a payment already confirmed when first seen', async () => {
+    const { service, watcher } = createService();
+    const session = await service.createSession(AGENT);
+    await service.acceptQuote(session.id);
+
+    watcher.watches[0].report({ state: 'confirmed', match: match('0xabc'), confirmations: 5 });
+    expect(service.getSession(session.id)).toMatchObject({ state: 'settled', txHash: '0xabc', confirmations: 5 });
+  });
+
+  it('waits again when a detected payment is dropped', async () => {
+    const { service, watcher } = createService();
+    const session = await service.createSession(AGENT);
+    await service.acceptQuote(session.id);
+
+    const [watch] = watcher.watches;
+    watch.report({ state: 'detected', match: match('0xabc'), confirmations: 1, requiredConfirmations: 3 });
+    watch.report({ state: 'waiting', fromBlock: 100 });
+    expect(service.getSession(session.id)).toMatchObject({ state: 'awaiting', txHash: undefined });
+  });
+
+  it('expires quotes and unpaid requests but not detected payments', async () => {
+    const { service, watcher } = createService();
+    const quote = await service.createSession(AGENT, 1000);
+    jest.advanceTimersByTime(1000);
+    expect(service.getSession(quote.id)?.state).toBe('expired');
+
+    const unpaid = await service.createSession(AGENT);
+    await service.acceptQuote(unpaid.id, 2000);
+    jest.advanceTimersByTime(2000);
+    expect(service.getSession(unpaid.id)?.state).toBe('expired');
+
+    // The chain is watched for a late payment until the grace window ends
+    expect(watcher.watches[0].stopped).toBe(false);
+    jest.advanceTimersByTime(LATE_PAYMENT_GRACE_MS);
+    expect(watcher.watches[0].stopped).toBe(true);
+
+    const paid = await service.createSession(AGENT);
+    await service.acceptQuote(paid.id, 2000);
+    watcher.watches[1].report({ state: 'detected', match: match('0xabc'), confirmations: 1, requiredConfirmations: 3 });
+    jest.advanceTimersByTime(10_000);
+    expect(service.getSession(paid.id)?.state).toBe('detected');
+  });
+
+  it('credits a payment that arrives after the request expired', async () => {
+    const { service, watcher } = createService();
+    const session = await service.createSession(AGENT);
+    await service.acceptQuote(session.id, 2000);
+    const [watch] = watcher.watches;
+    watch.report({ state: 'waiting', fromBlock: 100 });
+    jest.advanceTimersByTime(60_000);
+    expect(service.getSession(session.id)?.state).toBe('expired');
+
+    watch.report({ state: 'detected', match: match('0xabc'), confirmations: 1, requiredConfirmations: 3 });
+    expect(service.getSession(session.id)).toMatchObject({ state: 'detected', txHash: '0xabc' });
+
+    // A detected payment is watched to the end, however long it takes
+    jest.advanceTimersByTime(LATE_PAYMENT_GRACE_MS);
+    expect(watch.stopped).toBe(false);
+    watch.report({ state: 'confirmed', match: match('0xabc'), confirmations: 3 });
+    expect(service.getSession(session.id)?.state).toBe('settled');
+    expect(watch.stopped).toBe(true);
+  });
+
+  it('expires again when a late payment is dropped', async () => {
+    const { service, watcher } = createService();
+    const session = await service.createSession(AGENT);
+    await service.acceptQuote(session.id, 2000);
+    const [watch] = watcher.watches;
+    jest.advanceTimersByTime(2000);
+
+    watch.report({ state: 'detected', match: match('0xabc'), confirmations: 1, requiredConfirmations: 3 });
+    watch.report({ state: 'waiting', fromBlock: 100 });
+    jest.advanceTimersByTime(0);
+    expect(service.getSession(session.id)).toMatchObject({ state: 'expired', txHash: undefined });
+    expect(watch.stopped).toBe(false);
+  });
+
+  it('does not let another session claim a credited transaction', async () => {
+    const { service, watcher } = createService();
+    const first = await service.createSession(AGENT);
+    await service.acceptQuote(first.id);
+    watcher.watches[0].report({ state: 'confirmed', match: match('0xabc'), confirmations: 3 });
+
+    const second = await service.createSession(AGENT);
+    await service.acceptQuote(second.id);
+    expect(watcher.watches[1].options?.excludeTxHashes).toEqual(['0xabc']);
+  });
+
+  it('resumes stored sessions after a restart', async () => {
+    const { data, storage } = createMemoryStorage();
+    const before = createService(storage);
+    const pending = await before.service.createSession(AGENT);
+    await before.service.acceptQuote(pending.id);
+    before.watcher.watches[0].report({ state: 'waiting', fromBlock: 100 });
+    const stale = await before.service.createSession(AGENT, 1000);
+    await flush();
+
+    // The app restarts after the stale quote has run out
+    jest.setSystemTime(Date.now() + 2000);
+    const after = createService(createMemoryStorage(Object.fromEntries(data)).storage);
+    const active = await after.service.resumeSessions();
+
+    expect(active.map((session) => session.id)).toEqual([pending.id]);
+    expect(after.service.getSession(stale.id)?.state).toBe('expired');
+    expect(after.watcher.watches).toHaveLength(1);
+    expect(after.watcher.watches[0].options?.fromBlock).toBe(100);
+
+    // Resuming again does not watch twice
+    await after.service.resumeSessions();
+    expect(after.watcher.watches).toHaveLength(1);
+  });
+
+  it('watches expired requests again on resume until the grace window ends', async () => {
+    const { data, storage } = createMemoryStorage();
+    const before = createService(storage);
+    const watched = await before.service.createSession(AGENT);
+    await before.service.acceptQuote(watched.id, 2000);
+    before.watcher.watches[0].report({ state: 'waiting', fromBlock: 100 });
+    const quote = await before.service.createSession(AGENT, 2000);
+    await flush();
+
+    // The app restarts after both have run out
+    jest.setSystemTime(Date.now() + 10_000);
+    const after = createService(createMemoryStorage(Object.fromEntries(data)).storage);
+    expect(await after.service.resumeSessions()).toEqual([]);
+    expect(after.service.getSession(watched.id)?.state).toBe('expired');
+    expect(after.service.getSession(quote.id)?.state).toBe('expired');
+    expect(after.watcher.watches).toHaveLength(1);
+    expect(after.watcher.watches[0].options?.fromBlock).toBe(100);
+
+    jest.advanceTimersByTime(LATE_PAYMENT_GRACE_MS);
+    expect(after.watcher.watches[0].stopped).toBe(true);
+
+    // Too late to resume at all
+    await flush();
+    const later = createService(createMemoryStorage(Object.fromEntries(data)).storage);
+    await later.service.resumeSessions();
+    expect(later.watcher.watches).toHaveLength(0);
+  });
+
+  it('fails stored Algorand sessions on resume', async () => {
+    const algorand: PaymentSession = {
+      id: 'ps_algo',
+      agentId: 'agent-1',
+      agentName: 'Test Agent',
+      state: 'awaiting',
+      fee: 1,
+      currency: 'ALGO',
+      request: { type: 'algorand', recipient: ALGORAND_RECIPIENT, amount: 1_000_000n },
+      uri: `algorand://${ALGORAND_RECIPIENT}?amount=1000000`,
+      reference: null,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      expiresAt: Date.now() + 60_000,
+    };
+    const { storage } = createMemoryStorage({ [STORAGE_KEY]: JSON.stringify([toStoredPaymentSession(algorand)]) });
+    const { service, watcher } = createService(storage);
+
+    expect(await service.resumeSessions()).toEqual([]);
+    expect(service.getSession('ps_algo')).toMatchObject({ state: 'failed', error: 'Algorand payments cannot be verified' });
+    expect(watcher.watches).toHaveLength(0);
+  });
+
+  it('skips stored values that are not sessions', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { storage } = createMemoryStorage({ [STORAGE_KEY]: JSON.stringify([{ id: 'broken' }]) });
+    const { service } = createService(storage);
+    expect(await service.getSessions()).toEqual([]);
+  });
+
+  it('cancels and refunds on request, and only when allowed', async () => {
+    const { service } = createService();
+    const session = await service.createSession(AGENT);
+
+    await expect(service.markRefunded(session.id)).rejects.toThrow('Cannot apply refunded to a payment session that is quote');
+    await service.cancelSession(session.id);
+    expect(service.getSession(session.id)).toMatchObject({ state: 'failed', error: 'Payment cancelled' });
+
+    await service.markRefunded(session.id, '0xfee');
+    expect(service.getSession(session.id)).toMatchObject({ state: 'refunded', refundTxHash: '0xfee' });
+    await expect(service.cancelSession('ps_missing')).rejects.toThrow('Unknown payment session ps_missing');
+  });
+
+  it('finds the newest unfinished session for an agent', async () => {
+    const { service } = createService();
+    const older = await service.createSession(AGENT);
+    jest.advanceTimersByTime(10);
+    const newer = await service.createSession(AGENT);
+    await service.createSession({ ...AGENT, id: 'agent-2' });
+
+    expect((await service.findActiveSession('agent-1'))?.id).toBe(newer.id);
+    await service.cancelSession(newer.id);
+    expect((await service.findActiveSession('agent-1'))?.id).toBe(older.id);
+  });
+});
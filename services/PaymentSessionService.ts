@@ -0,0 +1,410 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DeployedObject } from '@/types/database';
+import {
+  EvmPaymentRequest,
+  buildPaymentUri,
+  createAgentPaymentRequest,
+  getAgentInteractionFee,
+  getPaymentCurrency,
+  getPaymentDecimals,
+} from '@/lib/payment-uri';
+import {
+  PaymentSession,
+  PaymentSessionEvent,
+  applyPaymentSessionEvent,
+  canApplyEvent,
+  fromStoredPaymentSession,
+  isTerminalState,
+  toStoredPaymentSession,
+} from '@/lib/payment-session';
+import {
+  PaymentVerificationService,
+  PaymentVerificationStatus,
+  WatchPaymentOptions,
+  tagPaymentRequest,
+} from '@/services/PaymentVerificationService';
+
+export interface PaymentSessionStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+export type PaymentWatcher = (
+  request: EvmPaymentRequest,
+  onStatus: (status: PaymentVerificationStatus) => void,
+  options?: WatchPaymentOptions
+) => () => void;
+
+// Storage, chain access and clock can be swapped out to drive sessions
+// without the app or a chain
+export interface PaymentSessionServiceOptions {
+  storage?: PaymentSessionStorage;
+  watchPayment?: PaymentWatcher;
+  now?: () => number;
+}
+
+export interface PaymentSessionUpdate {
+  session: PaymentSession;
+  event: PaymentSessionEvent | { type: 'created' };
+}
+
+const STORAGE_KEY = '@payment_sessions/sessions';
+
+// Finished sessions kept in storage, newest first
+const MAX_STORED_FINISHED_SESSIONS = 50;
+
+const DEFAULT_QUOTE_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_PAYMENT_TTL_MS = 5 * 60 * 1000;
+
+// How long an expired payment request is still watched for a late payment
+const LATE_PAYMENT_GRACE_MS = 30 * 60 * 1000;
+
+function createSessionId(): string {
+  return `ps_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Runs payment sessions for agent interaction fees: quote, payment request,
+ * on-chain detection and confirmation, expiry. Expired requests are watched
+ * for a while longer, so a late payment is still credited. Sessions are persisted, so
+ * `resumeSessions` picks up watching for payments after an app restart, and
+ * keep running when no UI is subscribed.
+ */
+export class PaymentSessionService {
+  private static instance: PaymentSessionService;
+  private sessions = new Map<string, PaymentSession>();
+  private watchers = new Map<string, () => void>();
+  private expiryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private callbacks: ((update: PaymentSessionUpdate) => void)[] = [];
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private storage: PaymentSessionStorage;
+  private watchPayment: PaymentWatcher;
+  private now: () => number;
+
+  constructor(options: PaymentSessionServiceOptions = {}) {
+    this.storage = options.storage ?? AsyncStorage;
+    this.watchPayment = options.watchPayment ?? ((request, onStatus, watchOptions) =>
+      PaymentVerificationService.getInstance().watchPayment(request, onStatus, watchOptions));
+    this.now = options.now ?? Date.now;
+  }
+
+  static getInstance(): PaymentSessionService {
+    if (!PaymentSessionService.instance) {
+      PaymentSessionService.instance = new PaymentSessionService();
+    }
+    return PaymentSessionService.instance;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const stored = await this.storage.getItem(STORAGE_KEY);
+          const list: unknown[] = stored ? JSON.parse(stored) : [];
+          list.forEach((item) => {
+            try {
+              const session = fromStoredPaymentSession(item);
+              if (!this.sessions.has(session.id)) {
+                this.sessions.set(session.id, session);
+              }
+            } catch (error) {
+              console.warn('⚠️ Skipping invalid stored payment session:', error);
+            }
+          });
+        } catch (error) {
+          console.error('❌ Failed to load payment sessions:', error);
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  private persist() {
+    const sessions = Array.from(this.sessions.values());
+    const active = sessions.filter((session) => !isTerminalState(session.state));
+    const finished = sessions
+      .filter((session) => isTerminalState(session.state))
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, MAX_STORED_FINISHED_SESSIONS);
+    const value = JSON.stringify([...active, ...finished].map(toStoredPaymentSession));
+
+    // Writes are queued so an older snapshot never lands after a newer one
+    this.saving = this.saving
+      .then(() => this.storage.setItem(STORAGE_KEY, value))
+      .catch((error) => console.error('❌ Failed to save payment sessions:', error));
+  }
+
+  private notify(update: PaymentSessionUpdate) {
+    this.callbacks.forEach((callback) => {
+      try {
+        callback(update);
+      } catch (error) {
+        console.error('Error in payment session callback:', error);
+      }
+    });
+  }
+
+  private dispatch(sessionId: string, event: PaymentSessionEvent) {
+    const session = this.sessions.get(sessionId);
+    if (!session || !canApplyEvent(session, event)) {
+      return;
+    }
+
+    const next = applyPaymentSessionEvent(session, event, this.now());
+    this.sessions.set(sessionId, next);
+    if (next.state !== session.state) {
+      console.log(`💸 Payment session ${sessionId}: ${session.state} → ${next.state}`);
+      this.scheduleExpiry(next);
+      if (isTerminalState(next.state) && next.state !== 'expired') {
+        this.stopWatching(sessionId);
+      }
+    }
+
+    this.persist();
+    this.notify({ session: next, event });
+  }
+
+  private handleVerificationStatus(sessionId: string, status: PaymentVerificationStatus) {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    switch (status.state) {
+      case 'waiting':
+        if (session.state === 'detected' || session.state === 'confirming') {
+          this.dispatch(sessionId, { type: 'payment_dropped' });
+        }
+        if (session.fromBlock === undefined) {
+          this.dispatch(sessionId, { type: 'watching', fromBlock: status.fromBlock });
+        }
+        break;
+      case 'detected':
+        this.dispatch(sessionId, {
+          type: 'payment_detected',
+          txHash: status.match.txHash,
+          payer: status.match.payer,
+          blockNumber: status.match.blockNumber,
+          confirmations: status.confirmations,
+          requiredConfirmations: status.requiredConfirmations,
+        });
+        break;
+      case 'confirmed':
+        // Already confirmed when first seen, e.g. after resuming
+        if (session.state === 'awaiting' || session.state === 'expired') {
+          this.dispatch(sessionId, {
+            type: 'payment_detected',
+            txHash: status.match.txHash,
+            payer: status.match.payer,
+            blockNumber: status.match.blockNumber,
+            confirmations: status.confirmations,
+            requiredConfirmations: status.confirmations,
+          });
+        }
+        this.dispatch(sessionId, { type: 'settled', confirmations: status.confirmations });
+        break;
+      case 'failed':
+        this.dispatch(sessionId, { type: 'failed', error: status.error });
+        break;
+    }
+  }
+
+  private startWatching(session: PaymentSession) {
+    if (this.watchers.has(session.id)) {
+      return;
+    }
+    // Sessions stored before Algorand payments were refused
+    if (session.request.type !== 'evm') {
+      this.dispatch(session.id, { type: 'failed', error: 'Algorand payments cannot be verified' });
+      return;
+    }
+
+    // A transaction credited to one session cannot pay for another
+    const excludeTxHashes = Array.from(this.sessions.values())
+      .filter((other) => other.id !== session.id && other.txHash)
+      .map((other) => other.txHash as string);
+
+    const stop = this.watchPayment(
+      session.request,
+      (status) => this.handleVerificationStatus(session.id, status),
+      { fromBlock: session.fromBlock, payer: session.expectedPayer, excludeTxHashes }
+    );
+    this.watchers.set(session.id, stop);
+  }
+
+  private stopWatching(sessionId: string) {
+    this.watchers.get(sessionId)?.();
+    this.watchers.delete(sessionId);
+  }
+
+  // Quotes and unpaid requests expire; a payment already detected does not.
+  // An expired request is watched until the grace window ends.
+  private scheduleExpiry(session: PaymentSession) {
+    this.clearExpiry(session.id);
+    let timer: ReturnType<typeof setTimeout>;
+    if (session.state === 'quote' || session.state === 'awaiting') {
+      timer = setTimeout(
+        () => this.dispatch(session.id, { type: 'expired' }),
+        Math.max(0, session.expiresAt - this.now())
+      );
+    } else if (session.state === 'expired' && this.watchers.has(session.id)) {
+      timer = setTimeout(() => {
+        this.expiryTimers.delete(session.id);
+        this.stopWatching(session.id);
+      }, Math.max(0, session.expiresAt + LATE_PAYMENT_GRACE_MS - this.now()));
+    } else {
+      return;
+    }
+    this.expiryTimers.set(session.id, timer);
+  }
+
+  private clearExpiry(sessionId: string) {
+    const timer = this.expiryTimers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.expiryTimers.delete(sessionId);
+    }
+  }
+
+  /**
+   * Quote the agent's interaction fee. The quote turns into a payment
+   * request once accepted. When `payer` is given, only transfers from that
+   * address count. Throws when the agent cannot be paid, or is paid on
+   * Algorand, where payments are not verified.
+   */
+  async createSession(
+    agent: DeployedObject,
+    quoteTtlMs: number = DEFAULT_QUOTE_TTL_MS,
+    payer?: string
+  ): Promise<PaymentSession> {
+    await this.load();
+
+    const baseRequest = createAgentPaymentRequest(agent);
+    if (baseRequest.type !== 'evm') {
+      throw new Error('Algorand payments cannot be verified yet; this agent cannot be paid here');
+    }
+    const { request, reference } = tagPaymentRequest(baseRequest, getPaymentDecimals(baseRequest));
+    const now = this.now();
+    const session: PaymentSession = {
+      id: createSessionId(),
+      agentId: agent.id,
+      agentName: agent.name || 'AI Agent',
+      state: 'quote',
+      fee: getAgentInteractionFee(agent),
+      currency: getPaymentCurrency(request),
+      request,
+      uri: buildPaymentUri(request),
+      reference,
+      expectedPayer: payer,
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: now + quoteTtlMs,
+    };
+
+    this.sessions.set(session.id, session);
+    this.scheduleExpiry(session);
+    this.persist();
+    this.notify({ session, event: { type: 'created' } });
+    return session;
+  }
+
+  // Accept a quote: show the payment request and start watching the chain
+  async acceptQuote(sessionId: string, paymentTtlMs: number = DEFAULT_PAYMENT_TTL_MS): Promise<PaymentSession> {
+    await this.dispatchRequired(sessionId, { type: 'accepted', expiresAt: this.now() + paymentTtlMs });
+
+    const accepted = this.sessions.get(sessionId) as PaymentSession;
+    this.startWatching(accepted);
+    return accepted;
+  }
+
+  /**
+   * Pick up stored sessions after a restart: unfinished ones past their
+   * expiry expire, the rest go back to watching for their payment, as do
+   * expired requests still within the late payment grace window. Safe to
+   * call more than once. Returns the sessions still in progress.
+   */
+  async resumeSessions(): Promise<PaymentSession[]> {
+    await this.load();
+
+    for (const stored of Array.from(this.sessions.values())) {
+      if ((stored.state === 'quote' || stored.state === 'awaiting') && stored.expiresAt <= this.now()) {
+        this.dispatch(stored.id, { type: 'expired' });
+      }
+      const session = this.sessions.get(stored.id) as PaymentSession;
+
+      // Only requests that were watched have a block range to search again
+      if (
+        session.state === 'expired' &&
+        session.fromBlock !== undefined &&
+        session.expiresAt + LATE_PAYMENT_GRACE_MS > this.now() &&
+        !this.watchers.has(session.id)
+      ) {
+        this.startWatching(session);
+        this.scheduleExpiry(session);
+        continue;
+      }
+      if (isTerminalState(session.state)) {
+        continue;
+      }
+      if (!this.expiryTimers.has(session.id)) {
+        this.scheduleExpiry(session);
+      }
+      if (session.state !== 'quote') {
+        this.startWatching(session);
+      }
+    }
+
+    return Array.from(this.sessions.values()).filter((session) => !isTerminalState(session.state));
+  }
+
+  // Apply an event requested by the caller, which must be valid now
+  private async dispatchRequired(sessionId: string, event: PaymentSessionEvent): Promise<void> {
+    await this.load();
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Unknown payment session ${sessionId}`);
+    }
+    if (!canApplyEvent(session, event)) {
+      throw new Error(`Cannot apply ${event.type} to a payment session that is ${session.state}`);
+    }
+    this.dispatch(sessionId, event);
+  }
+
+  cancelSession(sessionId: string): Promise<void> {
+    return this.dispatchRequired(sessionId, { type: 'failed', error: 'Payment cancelled' });
+  }
+
+  // Record that a settled (or failed) payment was refunded to the payer
+  markRefunded(sessionId: string, refundTxHash?: string): Promise<void> {
+    return this.dispatchRequired(sessionId, { type: 'refunded', refundTxHash });
+  }
+
+  getSession(sessionId: string): PaymentSession | null {
+    return this.sessions.get(sessionId) ?? null;
+  }
+
+  // Newest session for the agent that has not finished yet
+  async findActiveSession(agentId: string): Promise<PaymentSession | null> {
+    await this.load();
+    return Array.from(this.sessions.values())
+      .filter((session) => session.agentId === agentId && !isTerminalState(session.state))
+      .sort((a, b) => b.createdAt - a.createdAt)[0] ?? null;
+  }
+
+  async getSessions(): Promise<PaymentSession[]> {
+    await this.load();
+    return Array.from(this.sessions.values()).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  subscribe(callback: (update: PaymentSessionUpdate) => void): () => void {
+    this.callbacks.push(callback);
+
+    return () => {
+      const index = this.callbacks.indexOf(callback);
+      if (index > -1) {
+        this.callbacks.splice(index, 1);
+      }
+    };
+  }
+}
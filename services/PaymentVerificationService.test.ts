@@ -0,0 +1,281 @@
+import { Provider, getAddress, id, toBeHex, zeroPadValue } from 'ethers';
+import { EvmPaymentRequest } from '@/lib/payment-uri';
+import {
+  PaymentVerificationService,
+  PaymentVerificationStatus,
+  WatchPaymentOptions,
+  tagPaymentRequest,
+} from '@/services/PaymentVerificationService';
+
+const CHAIN_ID = 7001;
+const TOKEN = '0x6533fe2Ebb66CcE28FDdBA9663Fe433A308137e9';
+const RECIPIENT = getAddress('0x1111111111111111111111111111111111111111');
+const PAYER = getAddress('0x2222222222222222222222222222222222222222');
+const STRANGER = getAddress('0x3333333333333333333333333333333333333333');
+const TRANSFER_TOPIC = id('Transfer(address,address,uint256)');
+const POLL_MS = 1000;
+
+interface FakeTransfer {
+  hash: string;
+  blockNumber: number;
+  from: string;
+  to: string;
+  amount: bigint;
+  // ERC-20 contract, or undefined for a native transfer
+  token?: string;
+}
+
+// A chain that only knows the transfers it is given
+function createFakeChain() {
+  const chain = {
+    latest: 100,
+    transfers: [] as FakeTransfer[],
+    dropped: new Set<string>(),
+  };
+
+  const provider = {
+    getBlockNumber: async () => chain.latest,
+    getLogs: async (filter: { address: string; topics: (string | null)[]; fromBlock: number; toBlock: number }) =>
+      chain.transfers
+        .filter((transfer) =>
+          transfer.token?.toLowerCase() === filter.address.toLowerCase() &&
+          transfer.blockNumber >= filter.fromBlock &&
+          transfer.blockNumber <= filter.toBlock &&
+          zeroPadValue(transfer.to, 32) === filter.topics[2]
+        )
+        .map((transfer) => ({
+          transactionHash: transfer.hash,
+          blockNumber: transfer.blockNumber,
+          data: toBeHex(transfer.amount, 32),
+          topics: [TRANSFER_TOPIC, zeroPadValue(transfer.from, 32), zeroPadValue(transfer.to, 32)],
+          removed: false,
+        })),
+    getBlock: async (blockNumber: number) => ({
+      prefetchedTransactions: chain.transfers
+        .filter((transfer) => !transfer.token && transfer.blockNumber === blockNumber)
+        .map((transfer) => ({ hash: transfer.hash, from: transfer.from, to: transfer.to, value: transfer.amount })),
+    }),
+    getTransactionReceipt: async (txHash: string) => {
+      const transfer = chain.transfers.find((candidate) => candidate.hash === txHash);
+      return transfer && !chain.dropped.has(txHash) ? { status: 1, blockNumber: transfer.blockNumber } : null;
+    },
+    destroy: () => {},
+  };
+
+  return { chain, provider: provider as unknown as Provider };
+}
+
+function createService(provider: Provider) {
+  const service = new PaymentVerificationService({ createProvider: () => provider });
+  service.configure({ rpcUrls: { [CHAIN_ID]: 'http://localhost:8545' }, pollIntervalMs: POLL_MS, confirmations: 3 });
+  return service;
+}
+
+function tokenRequest(amount: bigint): EvmPaymentRequest {
+  return { type: 'evm', chainId: CHAIN_ID, recipient: RECIPIENT, tokenAddress: TOKEN, amount };
+}
+
+function txHash(n: number): string {
+  return toBeHex(n, 32);
+}
+
+// Statuses reported by a watch, and a way to stop it
+function watch(service: PaymentVerificationService, request: EvmPaymentRequest, options: WatchPaymentOptions = {}) {
+  const statuses: PaymentVerificationStatus[] = [];
+  const stop = service.watchPayment(request, (status) => statuses.push(status), options);
+  return { statuses, stop, last: () => statuses[statuses.length - 1] };
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('tagPaymentRequest', () => {
+  it('adds a reference below 10^-12 of an 18-decimal token', () => {
+    const base = tokenRequest(10n ** 18n);
+    const { request, reference } = tagPaymentRequest(base, 18);
+
+    expect(reference).toMatch(/^\d{6}$/);
+    expect(request.amount - base.amount).toBe(BigInt(reference));
+    expect(request.amount - base.amount).toBeGreaterThan(0n);
+    expect(request.amount - base.amount).toBeLessThan(10n ** 6n);
+  });
+
+  it('uses fewer digits for tokens with fewer decimals', () => {
+    const { reference } = tagPaymentRequest(tokenRequest(10n ** 15n), 15);
+    expect(reference).toMatch(/^\d{3}$/);
+  });
+
+  it('refuses tokens with no room for a reference', () => {
+    expect(() => tagPaymentRequest(tokenRequest(1_000_000n), 6)).toThrow('cannot be verified');
+    expect(() => tagPaymentRequest(tokenRequest(10n ** 12n), 12)).toThrow('cannot be verified');
+  });
+});
+
+describe('PaymentVerificationService.watchPayment', () => {
+  it('detects a token transfer and confirms it after enough blocks', async () => {
+    const { chain, provider } = createFakeChain();
+    const service = createService(provider);
+    const amount = 5_000_123n;
+    const { statuses, stop, last } = watch(service, tokenRequest(amount), { fromBlock: 100 });
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(last()).toEqual({ state: 'waiting', fromBlock: 100 });
+
+    chain.transfers.push({ hash: txHash(1), blockNumber: 101, from: PAYER, to: RECIPIENT, amount, token: TOKEN });
+    chain.latest = 101;
+    await jest.advanceTimersByTimeAsync(POLL_MS);
+    expect(last()).toMatchObject({ state: 'detected', confirmations: 1, requiredConfirmations: 3 });
+    expect(last()).toMatchObject({ match: { txHash: txHash(1), payer: PAYER, amount, blockNumber: 101 } });
+
+    chain.latest = 103;
+    await jest.advanceTimersByTimeAsync(POLL_MS);
+    expect(last()).toMatchObject({ state: 'confirmed', confirmations: 3 });
+
+    // Confirmed watches stop polling
+    const count = statuses.length;
+    chain.latest = 110;
+    await jest.advanceTimersByTimeAsync(POLL_MS * 3);
+    expect(statuses).toHaveLength(count);
+    stop();
+  });
+
+  it('ignores transfers of a different amount', async () => {
+    const { chain, provider } = createFakeChain();
+    chain.transfers.push({ hash: txHash(1), blockNumber: 100, from: PAYER, to: RECIPIENT, amount: 5_000_124n, token: TOKEN });
+    const { last, stop } = watch(createService(provider), tokenRequest(5_000_123n), { fromBlock: 100 });
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(last().state).toBe('waiting');
+    stop();
+  });
+
+  it('only counts transfers from the expected payer', async () => {
+    const { chain, provider } = createFakeChain();
+    const amount = 5_000_123n;
+    chain.transfers.push(
+      { hash: txHash(1), blockNumber: 100, from: STRANGER, to: RECIPIENT, amount, token: TOKEN },
+      { hash: txHash(2), blockNumber: 100, from: PAYER, to: RECIPIENT, amount, token: TOKEN }
+    );
+    const { last, stop } = watch(createService(provider), tokenRequest(amount), {
+      fromBlock: 100,
+      payer: PAYER.toLowerCase(),
+    });
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(last()).toMatchObject({ state: 'detected', match: { txHash: txHash(2), payer: PAYER } });
+    stop();
+  });
+
+  it('skips transactions already credited elsewhere', async () => {
+    const { chain, provider } = createFakeChain();
+    const amount = 5_000_123n;
+    chain.transfers.push({ hash: txHash(1), blockNumber: 100, from: PAYER, to: RECIPIENT, amount, token: TOKEN });
+    const { last, stop } = watch(createService(provider), tokenRequest(amount), {
+      fromBlock: 100,
+      // Hashes match whatever their case
+      excludeTxHashes: [`0x${txHash(1).slice(2).toUpperCase()}`],
+    });
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(last().state).toBe('waiting');
+    stop();
+  });
+
+  it('credits one transaction to one watch only', async () => {
+    const { chain, provider } = createFakeChain();
+    const service = createService(provider);
+    const amount = 5_000_123n;
+    chain.transfers.push({ hash: txHash(1), blockNumber: 100, from: PAYER, to: RECIPIENT, amount, token: TOKEN });
+
+    const first = watch(service, tokenRequest(amount), { fromBlock: 100 });
+    await jest.advanceTimersByTimeAsync(0);
+    const second = watch(service, tokenRequest(amount), { fromBlock: 100 });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(first.last()).toMatchObject({ state: 'detected', match: { txHash: txHash(1) } });
+    expect(second.last().state).toBe('waiting');
+
+    // A second transfer pays the second request
+    chain.transfers.push({ hash: txHash(2), blockNumber: 101, from: PAYER, to: RECIPIENT, amount, token: TOKEN });
+    chain.latest = 101;
+    await jest.advanceTimersByTimeAsync(POLL_MS);
+    expect(second.last()).toMatchObject({ state: 'detected', match: { txHash: txHash(2) } });
+
+    first.stop();
+    second.stop();
+  });
+
+  it('lets another watch take a transaction once the first stops', async () => {
+    const { chain, provider } = createFakeChain();
+    const service = createService(provider);
+    const amount = 5_000_123n;
+    chain.transfers.push({ hash: txHash(1), blockNumber: 100, from: PAYER, to: RECIPIENT, amount, token: TOKEN });
+
+    const first = watch(service, tokenRequest(amount), { fromBlock: 100 });
+    await jest.advanceTimersByTimeAsync(0);
+    first.stop();
+
+    const second = watch(service, tokenRequest(amount), { fromBlock: 100 });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(second.last()).toMatchObject({ state: 'detected', match: { txHash: txHash(1) } });
+    second.stop();
+  });
+
+  it('goes back to waiting when the transaction is dropped', async () => {
+    const { chain, provider } = createFakeChain();
+    const amount = 5_000_123n;
+    chain.transfers.push({ hash: txHash(1), blockNumber: 100, from: PAYER, to: RECIPIENT, amount, token: TOKEN });
+    const { statuses, stop } = watch(createService(provider), tokenRequest(amount), { fromBlock: 100 });
+
+    await jest.advanceTimersByTimeAsync(0);
+    chain.dropped.add(txHash(1));
+    await jest.advanceTimersByTimeAsync(POLL_MS);
+
+    expect(statuses.map((status) => status.state)).toEqual(['detected', 'waiting']);
+    stop();
+  });
+
+  it('finds native transfers in blocks', async () => {
+    const { chain, provider } = createFakeChain();
+    const amount = 10n ** 18n + 42n;
+    chain.transfers.push(
+      { hash: txHash(1), blockNumber: 100, from: PAYER, to: STRANGER, amount },
+      { hash: txHash(2), blockNumber: 100, from: PAYER, to: RECIPIENT, amount }
+    );
+    const request: EvmPaymentRequest = { type: 'evm', chainId: CHAIN_ID, recipient: RECIPIENT, amount };
+    const { last, stop } = watch(createService(provider), request, { fromBlock: 100 });
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(last()).toMatchObject({ state: 'detected', match: { txHash: txHash(2), payer: PAYER } });
+    stop();
+  });
+
+  it('keeps polling through RPC errors', async () => {
+    const { chain, provider } = createFakeChain();
+    const amount = 5_000_123n;
+    const getBlockNumber = jest.spyOn(provider, 'getBlockNumber').mockRejectedValueOnce(new Error('timeout'));
+    chain.transfers.push({ hash: txHash(1), blockNumber: 100, from: PAYER, to: RECIPIENT, amount, token: TOKEN });
+    const { statuses, stop } = watch(createService(provider), tokenRequest(amount), { fromBlock: 100 });
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(statuses).toHaveLength(0);
+    await jest.advanceTimersByTimeAsync(POLL_MS);
+    expect(getBlockNumber).toHaveBeenCalledTimes(2);
+    expect(statuses[0].state).toBe('detected');
+    stop();
+  });
+
+  it('fails for a chain without an endpoint', () => {
+    const service = new PaymentVerificationService({ createProvider: () => createFakeChain().provider });
+    const { last } = watch(service, { ...tokenRequest(1n), chainId: 999_999 });
+    expect(last()).toEqual({ state: 'failed', error: 'No RPC endpoint configured for chain 999999' });
+  });
+});
@@ -0,0 +1,297 @@
+import { JsonRpcProvider, Provider, dataSlice, getAddress, id, zeroPadValue } from 'ethers';
+import { EvmPaymentRequest } from '@/lib/payment-uri';
+import { getEvmNetwork } from '@/lib/networks';
+
+// A transfer found on chain that pays a request
+export interface PaymentMatch {
+  txHash: string;
+  blockNumber: number;
+  payer: string;
+  amount: bigint;
+}
+
+export type PaymentVerificationStatus =
+  // fromBlock is where the search started, for resuming later
+  | { state: 'waiting'; fromBlock: number }
+  | { state: 'detected'; match: PaymentMatch; confirmations: number; requiredConfirmations: number }
+  | { state: 'confirmed'; match: PaymentMatch; confirmations: number }
+  | { state: 'failed'; error: string };
+
+export interface PaymentVerificationConfig {
+  // JSON-RPC endpoint per chain ID, overriding the network registry's
+  rpcUrls: Record<number, string>;
+  // Blocks on top of (and including) the payment's block before it counts
+  confirmations: number;
+  pollIntervalMs: number;
+}
+
+export interface WatchPaymentOptions {
+  // First block to search; defaults to the latest block when watching starts
+  fromBlock?: number;
+  confirmations?: number;
+  // Only count transfers from this address, when the payer is known
+  payer?: string;
+  // Transactions already credited to other payments
+  excludeTxHashes?: string[];
+}
+
+// Providers can be swapped out to run against a fake chain
+export interface PaymentVerificationServiceOptions {
+  createProvider?: (url: string, chainId: number) => Provider;
+}
+
+const TRANSFER_TOPIC = id('Transfer(address,address,uint256)');
+
+// Blocks searched per poll, so resuming an old watch does not issue one huge
+// query; native transfers need a block fetch each, so fewer of them
+const MAX_LOG_BLOCK_RANGE = 2000;
+const MAX_NATIVE_BLOCK_RANGE = 20;
+
+// ERC-20 transfers carry no memo, so each request is told apart by the last
+// digits of its amount: at most 10^-12 of an 18-decimal token. Tokens with
+// fewer decimals have no room for a tag and cannot be quoted.
+const MAX_REFERENCE_DIGITS = 6;
+const REFERENCE_PRECISION_DIGITS = 12;
+
+const DEFAULT_CONFIG: PaymentVerificationConfig = {
+  rpcUrls: {},
+  confirmations: 3,
+  pollIntervalMs: 4000,
+};
+
+/**
+ * Make a request's amount unique by adding a random reference to its lowest
+ * digits, so the payment can be recognised among other transfers to the same
+ * wallet. Throws for tokens with too few decimals for an invisible tag, whose
+ * payments could not be told apart.
+ */
+export function tagPaymentRequest(
+  request: EvmPaymentRequest,
+  decimals: number
+): { request: EvmPaymentRequest; reference: string } {
+  const digits = Math.min(MAX_REFERENCE_DIGITS, decimals - REFERENCE_PRECISION_DIGITS);
+  if (digits <= 0) {
+    throw new Error(`Payments in a token with ${decimals} decimals cannot be verified`);
+  }
+
+  const tag = BigInt(1 + Math.floor(Math.random() * (10 ** digits - 1)));
+  return {
+    request: { ...request, amount: request.amount + tag },
+    reference: tag.toString().padStart(digits, '0'),
+  };
+}
+
+/**
+ * Confirms EVM payment requests on chain over JSON-RPC: polls for an ERC-20
+ * `Transfer` (or a native transfer) of the exact amount to the recipient,
+ * then waits until it has enough confirmations. Each transaction is credited
+ * to one payment only. Point `rpcUrls` at a local Anvil or Hardhat node to
+ * test against a dev chain.
+ */
+export class PaymentVerificationService {
+  private static instance: PaymentVerificationService;
+  private config: PaymentVerificationConfig = { ...DEFAULT_CONFIG, rpcUrls: { ...DEFAULT_CONFIG.rpcUrls } };
+  private providers = new Map<number, Provider>();
+  // Transactions matched by a watch, by lower-case hash; confirmed ones stay
+  // claimed for good
+  private claimedTxHashes = new Map<string, object>();
+  private createProvider: (url: string, chainId: number) => Provider;
+
+  constructor(options: PaymentVerificationServiceOptions = {}) {
+    this.createProvider = options.createProvider ??
+      ((url, chainId) => new JsonRpcProvider(url, chainId, { staticNetwork: true }));
+  }
+
+  static getInstance(): PaymentVerificationService {
+    if (!PaymentVerificationService.instance) {
+      PaymentVerificationService.instance = new PaymentVerificationService();
+    }
+    return PaymentVerificationService.instance;
+  }
+
+  // Override endpoints and defaults; listed chains replace their endpoint
+  configure(config: Partial<PaymentVerificationConfig>) {
+    this.config = {
+      ...this.config,
+      ...config,
+      rpcUrls: { ...this.config.rpcUrls, ...config.rpcUrls },
+    };
+    this.providers.forEach((provider) => provider.destroy());
+    this.providers.clear();
+  }
+
+  private getProvider(chainId: number): Provider {
+    let provider = this.providers.get(chainId);
+    if (!provider) {
+      const url = this.config.rpcUrls[chainId] ?? getEvmNetwork(chainId)?.rpcUrls[0];
+      if (!url) {
+        throw new Error(`No RPC endpoint configured for chain ${chainId}`);
+      }
+      provider = this.createProvider(url, chainId);
+      this.providers.set(chainId, provider);
+    }
+    return provider;
+  }
+
+  // First transfer in the block range that pays the request and is accepted
+  private async findPayment(
+    provider: Provider,
+    request: EvmPaymentRequest,
+    fromBlock: number,
+    toBlock: number,
+    accepts: (txHash: string, payer: string) => boolean
+  ): Promise<PaymentMatch | null> {
+    const recipient = getAddress(request.recipient);
+
+    if (request.tokenAddress) {
+      const logs = await provider.getLogs({
+        address: request.tokenAddress,
+        topics: [TRANSFER_TOPIC, null, zeroPadValue(recipient, 32)],
+        fromBlock,
+        toBlock,
+      });
+      for (const log of logs) {
+        const amount = BigInt(log.data);
+        const payer = getAddress(dataSlice(log.topics[1], 12));
+        if (amount === request.amount && !log.removed && accepts(log.transactionHash, payer)) {
+          return { txHash: log.transactionHash, blockNumber: log.blockNumber, payer, amount };
+        }
+      }
+      return null;
+    }
+
+    for (let blockNumber = fromBlock; blockNumber <= toBlock; blockNumber++) {
+      const block = await provider.getBlock(blockNumber, true);
+      const transaction = block?.prefetchedTransactions.find(
+        (tx) => tx.to !== null && getAddress(tx.to) === recipient && tx.value === request.amount &&
+          accepts(tx.hash, getAddress(tx.from))
+      );
+      if (transaction) {
+        return { txHash: transaction.hash, blockNumber, payer: getAddress(transaction.from), amount: transaction.value };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Watch for a payment of the request. `onStatus` is called whenever the
+   * status changes, ending with `confirmed` or `failed`. Transfers from
+   * another address than `payer`, or already credited elsewhere, are
+   * skipped. RPC errors are logged and retried on the next poll. Returns a
+   * function that stops watching.
+   */
+  watchPayment(
+    request: EvmPaymentRequest,
+    onStatus: (status: PaymentVerificationStatus) => void,
+    options: WatchPaymentOptions = {}
+  ): () => void {
+    const requiredConfirmations = options.confirmations ?? this.config.confirmations;
+    const blockRange = request.tokenAddress ? MAX_LOG_BLOCK_RANGE : MAX_NATIVE_BLOCK_RANGE;
+    let isActive = true;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let fromBlock = options.fromBlock;
+    let nextBlock = fromBlock;
+    let match: PaymentMatch | null = null;
+    let lastStatusKey = '';
+    const owner = {};
+    const expectedPayer = options.payer ? getAddress(options.payer) : null;
+    const excluded = new Set((options.excludeTxHashes ?? []).map((txHash) => txHash.toLowerCase()));
+
+    const accepts = (txHash: string, payer: string) => {
+      const key = txHash.toLowerCase();
+      const claimedBy = this.claimedTxHashes.get(key);
+      return !excluded.has(key) && (!claimedBy || claimedBy === owner) && (!expectedPayer || payer === expectedPayer);
+    };
+
+    // Let other watches match a transaction this one no longer holds
+    const release = () => {
+      if (match && this.claimedTxHashes.get(match.txHash.toLowerCase()) === owner) {
+        this.claimedTxHashes.delete(match.txHash.toLowerCase());
+      }
+    };
+
+    const emit = (status: PaymentVerificationStatus) => {
+      const key = status.state === 'detected' || status.state === 'confirmed'
+        ? `${status.state}:${status.match.txHash}:${status.confirmations}`
+        : status.state;
+      if (key !== lastStatusKey && isActive) {
+        lastStatusKey = key;
+        onStatus(status);
+      }
+    };
+
+    let provider: Provider;
+    try {
+      provider = this.getProvider(request.chainId);
+    } catch (error: any) {
+      emit({ state: 'failed', error: error.message });
+      return () => {};
+    }
+
+    const poll = async () => {
+      try {
+        const latest = await provider.getBlockNumber();
+        if (fromBlock === undefined || nextBlock === undefined) {
+          fromBlock = nextBlock = latest;
+        }
+
+        if (!match && nextBlock <= latest) {
+          const toBlock = Math.min(latest, nextBlock + blockRange - 1);
+          match = await this.findPayment(provider, request, nextBlock, toBlock, accepts);
+          nextBlock = toBlock + 1;
+          if (!isActive) {
+            return;
+          }
+          if (match) {
+            this.claimedTxHashes.set(match.txHash.toLowerCase(), owner);
+            console.log('💸 Payment detected:', match.txHash);
+          }
+        }
+
+        if (match) {
+          // The transaction can be dropped or moved by a reorg
+          const receipt = await provider.getTransactionReceipt(match.txHash);
+          if (!receipt || receipt.status !== 1) {
+            console.warn('⚠️ Payment transaction no longer on chain:', match.txHash);
+            nextBlock = Math.min(nextBlock, match.blockNumber);
+            release();
+            match = null;
+          } else {
+            match = { ...match, blockNumber: receipt.blockNumber };
+            const confirmations = latest - receipt.blockNumber + 1;
+            if (confirmations >= requiredConfirmations) {
+              console.log('✅ Payment confirmed:', match.txHash);
+              emit({ state: 'confirmed', match, confirmations });
+              isActive = false;
+              return;
+            }
+            emit({ state: 'detected', match, confirmations, requiredConfirmations });
+          }
+        }
+
+        if (!match) {
+          emit({ state: 'waiting', fromBlock });
+        }
+      } catch (error) {
+        console.warn('⚠️ Payment check failed:', error);
+      }
+
+      if (isActive) {
+        timer = setTimeout(poll, this.config.pollIntervalMs);
+      }
+    };
+
+    console.log('💸 Watching for payment to', request.recipient);
+    poll();
+
+    return () => {
+      if (isActive) {
+        release();
+      }
+      isActive = false;
+      if (timer) {
+        clearTimeout(timer);
+      }
+    };
+  }
+}
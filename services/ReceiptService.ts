@@ -0,0 +1,134 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PaymentSession } from '@/lib/payment-session';
+import { PaymentReceipt, createReceipt, receiptsToCsv, receiptsToJson } from '@/lib/receipts';
+import { EntitlementService } from '@/services/EntitlementService';
+import { PaymentSessionService } from '@/services/PaymentSessionService';
+
+export type ReceiptExportFormat = 'csv' | 'json';
+
+const STORAGE_KEY = '@payment_receipts/receipts';
+
+/**
+ * Keeps a receipt for every settled agent payment on this device, with the
+ * pass it granted, and marks it when the payment is refunded. Receipts are
+ * never pruned, unlike payment sessions.
+ */
+export class ReceiptService {
+  private static instance: ReceiptService;
+  private receipts = new Map<string, PaymentReceipt>();
+  private callbacks: ((receipts: PaymentReceipt[]) => void)[] = [];
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private unsubscribe: (() => void) | null = null;
+
+  static getInstance(): ReceiptService {
+    if (!ReceiptService.instance) {
+      ReceiptService.instance = new ReceiptService();
+    }
+    return ReceiptService.instance;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(STORAGE_KEY);
+          const list: PaymentReceipt[] = stored ? JSON.parse(stored) : [];
+          list.forEach((receipt) => {
+            if (!this.receipts.has(receipt.id)) {
+              this.receipts.set(receipt.id, receipt);
+            }
+          });
+        } catch (error) {
+          console.error('❌ Failed to load payment receipts:', error);
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  private save() {
+    const value = JSON.stringify(Array.from(this.receipts.values()));
+    this.saving = this.saving
+      .then(() => AsyncStorage.setItem(STORAGE_KEY, value))
+      .catch((error) => console.error('❌ Failed to save payment receipts:', error));
+
+    const receipts = this.sorted();
+    this.callbacks.forEach((callback) => {
+      try {
+        callback(receipts);
+      } catch (error) {
+        console.error('Error in receipts callback:', error);
+      }
+    });
+  }
+
+  private sorted(): PaymentReceipt[] {
+    return Array.from(this.receipts.values()).sort((a, b) => b.settledAt - a.settledAt);
+  }
+
+  /**
+   * Record receipts as payments settle or are refunded, and for paid
+   * sessions that have none yet. Call once at startup.
+   */
+  async start(): Promise<void> {
+    if (this.unsubscribe) {
+      return;
+    }
+    await this.load();
+
+    const sessions = PaymentSessionService.getInstance();
+    this.unsubscribe = sessions.subscribe(({ session, event }) => {
+      if (event.type === 'settled' || event.type === 'refunded') {
+        this.record(session);
+      }
+    });
+
+    const paid = (await sessions.getSessions()).filter(
+      (session) => (session.state === 'settled' || session.state === 'refunded') && !this.receipts.has(session.id)
+    );
+    await Promise.all(paid.map((session) => this.record(session)));
+  }
+
+  private async record(session: PaymentSession) {
+    try {
+      const existing = this.receipts.get(session.id);
+      if (existing) {
+        if (session.state === 'refunded' && !existing.refunded) {
+          this.receipts.set(session.id, { ...existing, refunded: true, refundTxHash: session.refundTxHash });
+          this.save();
+        }
+        return;
+      }
+
+      const entitlement = await EntitlementService.getInstance().getEntitlementForSession(session);
+      this.receipts.set(session.id, createReceipt(session, entitlement));
+      console.log('🧾 Receipt recorded for payment to', session.agentName);
+      this.save();
+    } catch (error) {
+      console.error('❌ Failed to record payment receipt:', error);
+    }
+  }
+
+  // Newest first; only the agent's receipts when an agent is given
+  async getReceipts(agentId?: string): Promise<PaymentReceipt[]> {
+    await this.load();
+    return this.sorted().filter((receipt) => !agentId || receipt.agentId === agentId);
+  }
+
+  async exportReceipts(format: ReceiptExportFormat, agentId?: string): Promise<string> {
+    const receipts = await this.getReceipts(agentId);
+    return format === 'csv' ? receiptsToCsv(receipts) : receiptsToJson(receipts);
+  }
+
+  subscribe(callback: (receipts: PaymentReceipt[]) => void): () => void {
+    this.callbacks.push(callback);
+
+    return () => {
+      const index = this.callbacks.indexOf(callback);
+      if (index > -1) {
+        this.callbacks.splice(index, 1);
+      }
+    };
+  }
+}
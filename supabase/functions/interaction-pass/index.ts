@@ -0,0 +1,335 @@
+// Grants and revokes interaction passes for payment-gated agents. Passes are
+// only written here, with the service role, after the payment (or refund)
+// has been checked on chain; clients can read passes and count uses only.
+//
+// POST { action: 'grant', paymentSessionId, agentId, chainId, txHash }
+// POST { action: 'revoke', paymentSessionId, refundTxHash }
+//
+// Grants answer 425 while the payment is not confirmed yet, so the app can
+// ask again; other refusals are final.
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { JsonRpcProvider, TransactionReceipt, dataSlice, getAddress, id, isAddress } from 'npm:ethers@6';
+import builtInNetworks from '../_shared/networks.json' with { type: 'json' };
+
+interface TokenConfig {
+  symbol: string;
+  decimals: number;
+  address?: string;
+}
+
+interface NetworkConfig {
+  id: string;
+  type?: string;
+  chainId?: number;
+  rpcUrls?: string[];
+  nativeCurrency?: TokenConfig;
+  tokens?: TokenConfig[];
+}
+
+interface ChainConfig {
+  rpcUrl: string;
+  nativeCurrency: TokenConfig;
+  // ERC-20 tokens accepted as payment, by lower-case contract address
+  tokens: Record<string, TokenConfig>;
+}
+
+/**
+ * EVM networks and tokens payments are accepted in, by chain ID: the app's
+ * built-in registry with the overrides the app reads from
+ * EXPO_PUBLIC_NETWORK_CONFIG, given here as the NETWORK_CONFIG secret.
+ * Overrides update networks with a known id field by field and add the rest.
+ */
+function loadChains(): Map<number, ChainConfig> {
+  const networks: NetworkConfig[] = builtInNetworks.networks.map((network) => ({ ...network }));
+  const json = Deno.env.get('NETWORK_CONFIG');
+  const overrides: unknown = json ? JSON.parse(json).networks : [];
+  if (Array.isArray(overrides)) {
+    overrides
+      .filter((override): override is NetworkConfig => typeof override?.id === 'string')
+      .forEach((override) => {
+        const index = networks.findIndex((network) => network.id === override.id);
+        if (index > -1) {
+          networks[index] = { ...networks[index], ...override };
+        } else {
+          networks.push(override);
+        }
+      });
+  }
+
+  const chains = new Map<number, ChainConfig>();
+  networks.forEach((network) => {
+    const { type, chainId, rpcUrls, nativeCurrency, tokens = [] } = network;
+    if (type !== 'evm' || !Number.isInteger(chainId) || !rpcUrls?.[0] || !nativeCurrency) {
+      return;
+    }
+    chains.set(chainId as number, {
+      rpcUrl: rpcUrls[0],
+      nativeCurrency,
+      tokens: Object.fromEntries(
+        tokens.filter((token) => token.address).map((token) => [(token.address as string).toLowerCase(), token])
+      ),
+    });
+  });
+  return chains;
+}
+
+const CHAINS = loadChains();
+
+const TRANSFER_TOPIC = id('Transfer(address,address,uint256)');
+const REQUIRED_CONFIRMATIONS = 3;
+const DEFAULT_INTERACTION_FEE = 1;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+class RequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+function respond(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Decimal amount ("1.5", 0.25) in the token's smallest unit, from its decimal
+// digits as the app's toBaseUnits does, so the fee is not rounded
+function toBaseUnits(amount: number | string, decimals: number): bigint {
+  let text = typeof amount === 'number' ? amount.toString() : amount.trim();
+  if (typeof amount === 'number' && /e/i.test(text)) {
+    text = amount.toFixed(decimals);
+  }
+
+  const match = text.match(/^(\d*)(?:\.(\d*))?$/);
+  if (!match || (match[1] === '' && !match[2])) {
+    throw new Error(`Invalid amount "${amount}"`);
+  }
+  const fraction = (match[2] ?? '').replace(/0+$/, '');
+  if (fraction.length > decimals) {
+    throw new Error(`Amount "${amount}" has more than ${decimals} decimal places`);
+  }
+  return BigInt((match[1] || '0') + fraction.padEnd(decimals, '0'));
+}
+
+// The request body's fields; empty when it is not an object
+function fields(body: unknown): Record<string, unknown> {
+  return body && typeof body === 'object' ? (body as Record<string, unknown>) : {};
+}
+
+// A transfer of `token` (or the native coin when null) in the transaction
+interface Transfer {
+  from: string;
+  to: string;
+  amount: bigint;
+  token: string | null;
+}
+
+// Successful, sufficiently confirmed transaction and the transfers it made
+async function getConfirmedTransfers(chainId: number, txHash: string): Promise<Transfer[]> {
+  const chain = CHAINS.get(chainId);
+  if (!chain) {
+    throw new RequestError(`Payments on chain ${chainId} are not accepted`, 400);
+  }
+
+  const provider = new JsonRpcProvider(chain.rpcUrl, chainId, { staticNetwork: true });
+  try {
+    const [receipt, transaction, latest] = await Promise.all([
+      provider.getTransactionReceipt(txHash),
+      provider.getTransaction(txHash),
+      provider.getBlockNumber(),
+    ]);
+    if (!receipt || !transaction || receipt.status !== 1) {
+      throw new RequestError('Transaction not found or failed', 404);
+    }
+    if (latest - receipt.blockNumber + 1 < REQUIRED_CONFIRMATIONS) {
+      throw new RequestError('Transaction is not confirmed yet', 425);
+    }
+
+    const transfers = tokenTransfers(receipt);
+    if (transaction.to && transaction.value > 0n) {
+      transfers.push({ from: getAddress(transaction.from), to: getAddress(transaction.to), amount: transaction.value, token: null });
+    }
+    return transfers;
+  } finally {
+    provider.destroy();
+  }
+}
+
+function tokenTransfers(receipt: TransactionReceipt): Transfer[] {
+  return receipt.logs
+    .filter((log) => log.topics.length === 3 && log.topics[0] === TRANSFER_TOPIC)
+    .map((log) => ({
+      from: getAddress(dataSlice(log.topics[1], 12)),
+      to: getAddress(dataSlice(log.topics[2], 12)),
+      amount: BigInt(log.data),
+      token: log.address.toLowerCase(),
+    }));
+}
+
+async function grant(body: unknown) {
+  const { paymentSessionId, agentId, chainId, txHash } = fields(body);
+  if (
+    typeof paymentSessionId !== 'string' ||
+    typeof agentId !== 'string' ||
+    typeof chainId !== 'number' ||
+    !Number.isInteger(chainId) ||
+    typeof txHash !== 'string'
+  ) {
+    throw new RequestError('paymentSessionId, agentId, chainId and txHash are required', 400);
+  }
+  const chain = CHAINS.get(chainId);
+  if (!chain) {
+    throw new RequestError(`Payments on chain ${chainId} are not accepted`, 400);
+  }
+
+  const { data: agent, error: agentError } = await supabase
+    .from('deployed_objects')
+    .select('id, payment_address, agent_wallet_address, interaction_fee_usdfc, payment_token')
+    .eq('id', agentId)
+    .maybeSingle();
+  if (agentError) throw agentError;
+  const recipient = agent?.payment_address || agent?.agent_wallet_address;
+  if (!agent || !recipient) {
+    throw new RequestError('Agent not found or has no payment address', 404);
+  }
+
+  // A transfer of at least the fee to the agent, in an accepted token (the
+  // agent's own, when it names one)
+  const fee = agent.interaction_fee_usdfc || DEFAULT_INTERACTION_FEE;
+  const wanted = typeof agent.payment_token === 'string' ? agent.payment_token.toLowerCase() : null;
+  const payment = (await getConfirmedTransfers(chainId, txHash)).find((transfer) => {
+    const token = transfer.token ? chain.tokens[transfer.token] : chain.nativeCurrency;
+    if (!token || transfer.to !== getAddress(recipient)) {
+      return false;
+    }
+    if (wanted && wanted !== transfer.token && wanted !== token.symbol.toLowerCase()) {
+      return false;
+    }
+    return transfer.amount >= toBaseUnits(fee, token.decimals);
+  });
+  if (!payment) {
+    throw new RequestError('Transaction does not pay this agent\'s fee', 402);
+  }
+
+  const token = payment.token ? chain.tokens[payment.token] : chain.nativeCurrency;
+  const { data, error } = await supabase
+    .from('interaction_entitlements')
+    .insert({
+      agent_id: agentId,
+      wallet_address: payment.from,
+      payment_session_id: paymentSessionId,
+      tx_hash: txHash.toLowerCase(),
+      chain_id: chainId,
+      token_address: payment.token,
+      amount: payment.amount.toString(),
+      currency: token.symbol,
+    })
+    .select()
+    .single();
+
+  // Unique violation: the payment already granted a pass, which is returned
+  // only to the session it was granted to
+  if (error?.code === '23505') {
+    const { data: existing } = await supabase
+      .from('interaction_entitlements')
+      .select('*')
+      .eq('chain_id', chainId)
+      .eq('tx_hash', txHash.toLowerCase())
+      .maybeSingle();
+    if (existing && existing.payment_session_id === paymentSessionId) {
+      return existing;
+    }
+    throw new RequestError('Payment has already been used', 409);
+  }
+  if (error) throw error;
+  return data;
+}
+
+async function revoke(body: unknown) {
+  const { paymentSessionId, refundTxHash } = fields(body);
+  if (typeof paymentSessionId !== 'string' || typeof refundTxHash !== 'string') {
+    throw new RequestError('paymentSessionId and refundTxHash are required', 400);
+  }
+
+  const { data: pass, error: passError } = await supabase
+    .from('interaction_entitlements')
+    .select('*')
+    .eq('payment_session_id', paymentSessionId)
+    .maybeSingle();
+  if (passError) throw passError;
+  if (!pass || pass.chain_id === null) {
+    throw new RequestError('Pass not found', 404);
+  }
+  if (pass.revoked) {
+    return pass;
+  }
+
+  // The refund comes from the agent it paid
+  const { data: agent, error: agentError } = await supabase
+    .from('deployed_objects')
+    .select('payment_address, agent_wallet_address')
+    .eq('id', pass.agent_id)
+    .maybeSingle();
+  if (agentError) throw agentError;
+  const agentAddresses = [agent?.payment_address, agent?.agent_wallet_address]
+    .filter((address): address is string => typeof address === 'string' && isAddress(address))
+    .map((address) => getAddress(address));
+
+  // The refund pays the whole amount back to the payer in the same token
+  const refunded = (await getConfirmedTransfers(pass.chain_id, refundTxHash)).some(
+    (transfer) =>
+      agentAddresses.includes(transfer.from) &&
+      transfer.token === pass.token_address &&
+      transfer.to === getAddress(pass.wallet_address) &&
+      transfer.amount >= BigInt(pass.amount)
+  );
+  if (!refunded) {
+    throw new RequestError('Transaction does not refund this payment', 402);
+  }
+
+  const { data, error } = await supabase
+    .from('interaction_entitlements')
+    .update({ revoked: true, refund_tx_hash: refundTxHash.toLowerCase() })
+    .eq('id', pass.id)
+    .select()
+    .single();
+  if (error?.code === '23505') {
+    throw new RequestError('Refund has already been used', 409);
+  }
+  if (error) throw error;
+  return data;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const body: unknown = await req.json().catch(() => {
+      throw new RequestError('Request body must be JSON', 400);
+    });
+    switch (fields(body).action) {
+      case 'grant':
+        return respond({ entitlement: await grant(body) });
+      case 'revoke':
+        return respond({ entitlement: await revoke(body) });
+      default:
+        return respond({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return respond({ error: error.message }, error.status);
+    }
+    console.error('❌ Interaction pass request failed:', error);
+    return respond({ error: 'Internal error' }, 500);
+  }
+});
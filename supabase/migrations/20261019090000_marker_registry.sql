@@ -0,0 +1,107 @@
+/*
+  # AR Marker Registry
+
+  1. New Tables
+    - `ar_markers`
+      - `marker_id` encoded in the printed QR marker (`myapp://marker/<marker_id>`)
+      - Surveyed position of the marker centre (latitude, longitude, altitude)
+      - `heading`: compass direction the printed face points towards (degrees
+        clockwise from true north)
+      - `size_meters`: edge length of the printed QR symbol
+      - `mount_height`: height of the marker centre above the ground
+      - Metadata (description, timestamps)
+
+  2. Security
+    - Enable RLS on `ar_markers` table
+    - Public read access for active markers
+    - Only the surveyor who registered a marker can change it
+
+  3. Performance
+    - Index for marker lookups by id
+*/
+
+CREATE TABLE IF NOT EXISTS ar_markers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  marker_id text UNIQUE NOT NULL,
+  user_id text NOT NULL,
+  description text,
+  latitude double precision NOT NULL,
+  longitude double precision NOT NULL,
+  altitude double precision DEFAULT 0,
+  heading double precision NOT NULL,
+  size_meters double precision NOT NULL DEFAULT 0.2,
+  mount_height double precision NOT NULL DEFAULT 1.5,
+  survey_accuracy double precision,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Add constraints if they don't exist
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'valid_marker_latitude' AND table_name = 'ar_markers'
+  ) THEN
+    ALTER TABLE ar_markers ADD CONSTRAINT valid_marker_latitude CHECK (latitude >= -90 AND latitude <= 90);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'valid_marker_longitude' AND table_name = 'ar_markers'
+  ) THEN
+    ALTER TABLE ar_markers ADD CONSTRAINT valid_marker_longitude CHECK (longitude >= -180 AND longitude <= 180);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'valid_marker_heading' AND table_name = 'ar_markers'
+  ) THEN
+    ALTER TABLE ar_markers ADD CONSTRAINT valid_marker_heading CHECK (heading >= 0 AND heading < 360);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'valid_marker_size' AND table_name = 'ar_markers'
+  ) THEN
+    ALTER TABLE ar_markers ADD CONSTRAINT valid_marker_size CHECK (size_meters > 0 AND size_meters <= 5);
+  END IF;
+END $$;
+
+-- Enable Row Level Security
+ALTER TABLE ar_markers ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist to avoid conflicts
+DROP POLICY IF EXISTS "Anyone can read active markers" ON ar_markers;
+DROP POLICY IF EXISTS "Users can register markers" ON ar_markers;
+DROP POLICY IF EXISTS "Users can update their own markers" ON ar_markers;
+DROP POLICY IF EXISTS "Users can delete their own markers" ON ar_markers;
+
+CREATE POLICY "Anyone can read active markers"
+  ON ar_markers
+  FOR SELECT
+  TO public
+  USING (is_active = true);
+
+CREATE POLICY "Users can register markers"
+  ON ar_markers
+  FOR INSERT
+  TO public
+  WITH CHECK (user_id = ((current_setting('request.jwt.claims'::text, true))::json ->> 'sub'::text));
+
+CREATE POLICY "Users can update their own markers"
+  ON ar_markers
+  FOR UPDATE
+  TO public
+  USING (user_id = ((current_setting('request.jwt.claims'::text, true))::json ->> 'sub'::text))
+  WITH CHECK (user_id = ((current_setting('request.jwt.claims'::text, true))::json ->> 'sub'::text));
+
+CREATE POLICY "Users can delete their own markers"
+  ON ar_markers
+  FOR DELETE
+  TO public
+  USING (user_id = ((current_setting('request.jwt.claims'::text, true))::json ->> 'sub'::text));
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_ar_markers_marker_id ON ar_markers (marker_id) WHERE (is_active = true);
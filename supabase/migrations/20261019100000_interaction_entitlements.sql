@@ -0,0 +1,120 @@
+/*
+  # Interaction Entitlements
+
+  1. New Tables
+    - `interaction_entitlements`
+      - Pass granted by a verified payment to interact with one agent from one
+        wallet (`agent_id`, `wallet_address`)
+      - `payment_session_id`: the payment session that paid for the pass, so
+        a payment grants at most one pass
+      - Payment details (`tx_hash`, `chain_id`, `amount` in the token's
+        smallest unit, `currency`)
+      - Bounds: `expires_at` and/or `max_interactions`; the pass ends at
+        whichever is reached first
+      - `interactions_used`: chat, voice or function sessions started
+      - `revoked` for refunded payments
+
+  2. Security
+    - Enable RLS on `interaction_entitlements` table
+    - Public read access
+    - New passes must start unused
+    - Usage can only grow, and never past the limit; revoked passes stay
+      revoked
+
+  3. Performance
+    - Unique index on the payment session
+    - Index for lookups by agent and wallet
+*/
+
+CREATE TABLE IF NOT EXISTS interaction_entitlements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id uuid NOT NULL REFERENCES deployed_objects(id) ON DELETE CASCADE,
+  wallet_address text NOT NULL,
+  payment_session_id text NOT NULL,
+  tx_hash text,
+  chain_id integer,
+  amount text NOT NULL,
+  currency text,
+  granted_at timestamptz DEFAULT now(),
+  expires_at timestamptz,
+  max_interactions integer,
+  interactions_used integer NOT NULL DEFAULT 0,
+  revoked boolean DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Add constraints if they don't exist
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'bounded_entitlement' AND table_name = 'interaction_entitlements'
+  ) THEN
+    ALTER TABLE interaction_entitlements ADD CONSTRAINT bounded_entitlement CHECK (expires_at IS NOT NULL OR max_interactions IS NOT NULL);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'valid_interactions_used' AND table_name = 'interaction_entitlements'
+  ) THEN
+    ALTER TABLE interaction_entitlements ADD CONSTRAINT valid_interactions_used CHECK (
+      interactions_used >= 0 AND (max_interactions IS NULL OR interactions_used <= max_interactions)
+    );
+  END IF;
+END $$;
+
+-- Usage counts only go up, and the pass itself cannot be rewritten
+CREATE OR REPLACE FUNCTION protect_interaction_entitlement()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.interactions_used < OLD.interactions_used
+    OR NEW.agent_id <> OLD.agent_id
+    OR NEW.wallet_address <> OLD.wallet_address
+    OR NEW.payment_session_id <> OLD.payment_session_id
+    OR NEW.expires_at IS DISTINCT FROM OLD.expires_at
+    OR NEW.max_interactions IS DISTINCT FROM OLD.max_interactions
+    OR (OLD.revoked AND NOT NEW.revoked) THEN
+    RAISE EXCEPTION 'Interaction entitlements can only record usage or be revoked';
+  END IF;
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_interaction_entitlement ON interaction_entitlements;
+CREATE TRIGGER protect_interaction_entitlement
+  BEFORE UPDATE ON interaction_entitlements
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_interaction_entitlement();
+
+-- Enable Row Level Security
+ALTER TABLE interaction_entitlements ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist to avoid conflicts
+DROP POLICY IF EXISTS "Anyone can read entitlements" ON interaction_entitlements;
+DROP POLICY IF EXISTS "Verified payments can grant entitlements" ON interaction_entitlements;
+DROP POLICY IF EXISTS "Entitlement usage can be recorded" ON interaction_entitlements;
+
+CREATE POLICY "Anyone can read entitlements"
+  ON interaction_entitlements
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Verified payments can grant entitlements"
+  ON interaction_entitlements
+  FOR INSERT
+  TO public
+  WITH CHECK (interactions_used = 0 AND revoked = false);
+
+CREATE POLICY "Entitlement usage can be recorded"
+  ON interaction_entitlements
+  FOR UPDATE
+  TO public
+  USING (true)
+  WITH CHECK (true);
+
+-- Create indexes for performance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_interaction_entitlements_payment_session ON interaction_entitlements (payment_session_id);
+CREATE INDEX IF NOT EXISTS idx_interaction_entitlements_agent_wallet ON interaction_entitlements (agent_id, wallet_address) WHERE (revoked = false);
@@ -0,0 +1,94 @@
+/*
+  # Server-granted Interaction Entitlements
+
+  1. Changes
+    - `interaction_entitlements`
+      - `token_address`: ERC-20 contract the payment was made in (null for the
+        chain's native coin), so a refund can be checked against it
+      - `refund_tx_hash`: transaction that refunded the payment
+      - Pass terms (`granted_at`, `expires_at`, `max_interactions`) are set by
+        the database on insert, whatever the caller sends
+
+  2. Security
+    - Passes are granted and revoked only by the `interaction-pass` edge
+      function, which checks the payment or refund on chain with the service
+      role; the public insert and update policies are dropped
+    - `record_entitlement_interaction` counts one use of an active pass and
+      is the only change clients can make
+
+  3. Performance
+    - Unique indexes on the payment and refund transactions, so one transfer
+      grants (or revokes) one pass
+*/
+
+ALTER TABLE interaction_entitlements ADD COLUMN IF NOT EXISTS token_address text;
+ALTER TABLE interaction_entitlements ADD COLUMN IF NOT EXISTS refund_tx_hash text;
+
+-- Terms of the pass one interaction fee buys; keep in step with
+-- lib/entitlements.ts
+CREATE OR REPLACE FUNCTION set_interaction_entitlement_terms()
+RETURNS trigger AS $$
+BEGIN
+  NEW.granted_at = now();
+  NEW.expires_at = now() + interval '24 hours';
+  NEW.max_interactions = 20;
+  NEW.interactions_used = 0;
+  NEW.revoked = false;
+  NEW.refund_tx_hash = NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_interaction_entitlement_terms ON interaction_entitlements;
+CREATE TRIGGER set_interaction_entitlement_terms
+  BEFORE INSERT ON interaction_entitlements
+  FOR EACH ROW
+  EXECUTE FUNCTION set_interaction_entitlement_terms();
+
+-- Usage counts only go up, and the pass itself cannot be rewritten
+CREATE OR REPLACE FUNCTION protect_interaction_entitlement()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.interactions_used < OLD.interactions_used
+    OR NEW.agent_id <> OLD.agent_id
+    OR NEW.wallet_address <> OLD.wallet_address
+    OR NEW.payment_session_id <> OLD.payment_session_id
+    OR NEW.tx_hash IS DISTINCT FROM OLD.tx_hash
+    OR NEW.chain_id IS DISTINCT FROM OLD.chain_id
+    OR NEW.token_address IS DISTINCT FROM OLD.token_address
+    OR NEW.amount <> OLD.amount
+    OR NEW.granted_at IS DISTINCT FROM OLD.granted_at
+    OR NEW.expires_at IS DISTINCT FROM OLD.expires_at
+    OR NEW.max_interactions IS DISTINCT FROM OLD.max_interactions
+    OR (OLD.revoked AND NOT NEW.revoked) THEN
+    RAISE EXCEPTION 'Interaction entitlements can only record usage or be revoked';
+  END IF;
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Count one interaction while the stored usage still equals used_before, so
+-- concurrent uses cannot both take the same slot. Returns no row when the
+-- pass is used up, expired, revoked or was used in the meantime.
+CREATE OR REPLACE FUNCTION record_entitlement_interaction(entitlement_id uuid, used_before integer)
+RETURNS SETOF interaction_entitlements AS $$
+  UPDATE interaction_entitlements
+  SET interactions_used = interactions_used + 1
+  WHERE id = entitlement_id
+    AND interactions_used = used_before
+    AND revoked = false
+    AND (expires_at IS NULL OR expires_at > now())
+    AND (max_interactions IS NULL OR interactions_used < max_interactions)
+  RETURNING *;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION record_entitlement_interaction(uuid, integer) FROM public;
+GRANT EXECUTE ON FUNCTION record_entitlement_interaction(uuid, integer) TO anon, authenticated;
+
+-- Only the service role writes passes
+DROP POLICY IF EXISTS "Verified payments can grant entitlements" ON interaction_entitlements;
+DROP POLICY IF EXISTS "Entitlement usage can be recorded" ON interaction_entitlements;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_interaction_entitlements_payment_tx ON interaction_entitlements (chain_id, tx_hash);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_interaction_entitlements_refund_tx ON interaction_entitlements (chain_id, refund_tx_hash);
@@ -1,12 +1,16 @@
 // AR-specific type definitions
 
+import { DeployedObject } from '@/types/database';
+
+export type ModelFormat = 'gltf' | 'obj' | 'fbx' | 'dae';
+
 export interface ARObject {
   id: string;
   position: Vector3;
   rotation: Vector3;
   scale: Vector3;
   modelUrl: string;
-  modelType: 'gltf' | 'obj' | 'fbx' | 'dae';
+  modelType: ModelFormat;
   visible: boolean;
   distance: number;
   metadata: {
@@ -38,16 +42,46 @@ export interface ARScene {
   };
 }
 
+// How the camera pose is driven: DeviceOrientation sensors over a plain
+// WebGL canvas, or a WebXR immersive-ar session
+export type ARSessionMode = 'device-orientation' | 'webxr';
+
+export type XRSessionStatus = 'idle' | 'requesting' | 'active' | 'ended' | 'error';
+
+export interface ARRenderStats {
+  fps: number;
+  triangles: number;
+  drawCalls: number;
+  // Rolling frame time percentiles (milliseconds)
+  frameTimeP50: number;
+  frameTimeP95: number;
+  droppedFrames: number;
+  // Live GPU resources from renderer.info.memory
+  geometries: number;
+  textures: number;
+  averageLoadTimeMs: number;
+  cacheHits: number;
+  cacheMisses: number;
+}
+
 export interface ARSessionState {
   isActive: boolean;
   isLoading: boolean;
   error: string | null;
   objectsLoaded: number;
-  renderStats: {
-    fps: number;
-    triangles: number;
-    drawCalls: number;
-  };
+  mode: ARSessionMode;
+  xrStatus: XRSessionStatus;
+  renderStats: ARRenderStats;
+}
+
+// Result of a tap/pointer raycast against the loaded AR objects
+export interface ARObjectSelection {
+  objectId: string;
+  object: DeployedObject;
+  // Distance from the camera to the hit point (meters)
+  distance: number;
+  // Hit point in scene world coordinates
+  point: Vector3;
 }
 
 export interface CoordinateConversion {
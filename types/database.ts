@@ -39,4 +39,47 @@ export interface DatabaseStats {
   activeObjects: number;
   correctedObjects: number;
   averageAccuracy: number;
-}
\ No newline at end of file
+}
+// Physical QR marker surveyed to a known position, used to anchor the AR
+// frame more precisely than GPS allows
+export interface ARMarker {
+  id: string;
+  marker_id: string;
+  user_id: string;
+  description?: string;
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  // Direction the printed face points towards, clockwise from true north
+  heading: number;
+  size_meters: number;
+  mount_height: number;
+  survey_accuracy?: number;
+  is_active?: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Pass to interact with an agent, granted by a verified payment
+export interface InteractionEntitlement {
+  id: string;
+  agent_id: string;
+  wallet_address: string;
+  payment_session_id: string;
+  tx_hash?: string | null;
+  chain_id?: number | null;
+  // ERC-20 contract paid in; null for the chain's native coin
+  token_address?: string | null;
+  // In the token's smallest unit
+  amount: string;
+  currency?: string | null;
+  granted_at?: string;
+  // Ends at whichever bound is reached first
+  expires_at?: string | null;
+  max_interactions?: number | null;
+  interactions_used: number;
+  revoked?: boolean;
+  refund_tx_hash?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}